@@ -12,7 +12,9 @@ import CompanyResearchPage from "./pages/company-research-page";
 import ActiveAccountsPage from "./pages/active-accounts-page";
 import PlaybookNotesPage from "./pages/playbook-notes-page";
 import NbasPage from "./pages/nbas-page";
+import CadencesPage from "./pages/cadences-page";
 import ArtifactsPage from "./pages/artifacts-page";
+import SearchPage from "./pages/search-page";
 import NotFound from "./pages/not-found";
 
 function Router() {
@@ -25,7 +27,9 @@ function Router() {
       <ProtectedRoute path="/playbook-notes" component={() => <ResponsiveLayout><PlaybookNotesPage /></ResponsiveLayout>} />
       <ProtectedRoute path="/playbook" component={() => <ResponsiveLayout><PlaybookNotesPage /></ResponsiveLayout>} />
       <ProtectedRoute path="/nbas" component={() => <ResponsiveLayout><NbasPage /></ResponsiveLayout>} />
+      <ProtectedRoute path="/cadences" component={() => <ResponsiveLayout><CadencesPage /></ResponsiveLayout>} />
       <ProtectedRoute path="/artifacts" component={() => <ResponsiveLayout><ArtifactsPage /></ResponsiveLayout>} />
+      <ProtectedRoute path="/search" component={() => <ResponsiveLayout><SearchPage /></ResponsiveLayout>} />
       <Route path="/auth" component={AuthPage} />
       <Route path="/login" component={AuthPage} />
       <Route path="/auth/oidc" component={AuthPage} />
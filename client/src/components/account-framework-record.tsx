@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, History, Loader2 } from "lucide-react";
+import { FRAMEWORK_FIELDS, isFrameworkFieldKnown, isFrameworkName } from "@shared/frameworks";
+import type { RecordFieldChange, RecordFieldState } from "@shared/schema";
+
+interface FrameworkRecord {
+  id: string;
+  accountId: string;
+  framework: string;
+  content: Record<string, string | string[] | undefined>;
+  fields: Record<string, RecordFieldState>;
+  lastChanges: RecordFieldChange[];
+  mergedNotesIds: string[];
+  updatedAt: string;
+}
+
+interface RecordHistoryEntry {
+  id: string;
+  field: string;
+  value: string | string[];
+  reason: "superseded" | "rejected";
+  resolvedBy: string | null;
+  createdAt: string;
+}
+
+interface AccountFrameworkRecordProps {
+  accountId: string;
+}
+
+const CHANGE_BADGES: Record<RecordFieldChange["change"], { label: string; className: string }> = {
+  added: { label: "New", className: "bg-green-100 text-green-800" },
+  updated: { label: "Updated", className: "bg-blue-100 text-blue-800" },
+  conflict: { label: "Conflict", className: "bg-orange-100 text-orange-800" },
+};
+
+function formatValue(value: string | string[] | undefined): string {
+  if (Array.isArray(value)) return value.join("; ");
+  return value || "";
+}
+
+// One framework's running record: current values, what the latest call changed,
+// contradictions waiting on the rep, and the values each field held before
+function RecordFields({ accountId, record }: { accountId: string; record: FrameworkRecord }) {
+  const [historyField, setHistoryField] = useState<string | null>(null);
+  const { toast } = useToast();
+  const fields = isFrameworkName(record.framework) ? FRAMEWORK_FIELDS[record.framework] : [];
+  const changes = new Map(record.lastChanges.map(change => [change.field, change]));
+
+  const { data: history = [], isLoading: historyLoading } = useQuery<RecordHistoryEntry[]>({
+    queryKey: ["/api/accounts", accountId, "framework-records", record.framework, "history"],
+    enabled: !!historyField,
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ field, keep }: { field: string; keep: "current" | "incoming" }) => {
+      const response = await apiRequest(
+        "POST",
+        `/api/accounts/${accountId}/framework-records/${encodeURIComponent(record.framework)}/conflicts/${field}/resolve`,
+        { keep }
+      );
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "framework-records"] });
+      toast({
+        title: "Conflict Resolved",
+        description: "The record has been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Resolve Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Merged from {record.mergedNotesIds.length} call(s) • updated {new Date(record.updatedAt).toLocaleString()}
+      </p>
+      {fields.map(field => {
+        const value = record.content[field.key];
+        const state = record.fields[field.key];
+        const change = changes.get(field.key);
+        const fieldHistory = history.filter(entry => entry.field === field.key);
+
+        return (
+          <div key={field.key} className="border rounded-md p-3 space-y-2" data-testid={`record-field-${field.key}`}>
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">{field.label}</span>
+                {change && (
+                  <Badge className={CHANGE_BADGES[change.change].className} data-testid={`badge-change-${field.key}`}>
+                    {CHANGE_BADGES[change.change].label}
+                  </Badge>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2"
+                onClick={() => setHistoryField(historyField === field.key ? null : field.key)}
+                data-testid={`button-history-${field.key}`}
+              >
+                <History className="w-3 h-3 mr-1" />
+                History
+              </Button>
+            </div>
+
+            <p className={`text-sm ${isFrameworkFieldKnown(value) ? "" : "text-muted-foreground"}`}>
+              {isFrameworkFieldKnown(value) ? formatValue(value) : "Not yet known"}
+            </p>
+
+            {state?.conflict && (
+              <div className="rounded-md border border-orange-200 bg-orange-50 p-2 space-y-2" data-testid={`conflict-${field.key}`}>
+                <div className="flex items-start gap-2 text-sm">
+                  <AlertTriangle className="w-4 h-4 text-orange-600 flex-shrink-0 mt-0.5" />
+                  <div>
+                    <p>
+                      A later call said: <span className="font-medium">{formatValue(state.conflict.value)}</span>
+                    </p>
+                    {state.conflict.reason && <p className="text-xs text-muted-foreground">{state.conflict.reason}</p>}
+                    {state.conflict.evidence[0] && (
+                      <p className="text-xs italic text-muted-foreground">"{state.conflict.evidence[0].quote}"</p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => resolveMutation.mutate({ field: field.key, keep: "current" })}
+                    disabled={resolveMutation.isPending}
+                    data-testid={`button-keep-current-${field.key}`}
+                  >
+                    Keep Current
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => resolveMutation.mutate({ field: field.key, keep: "incoming" })}
+                    disabled={resolveMutation.isPending}
+                    data-testid={`button-use-incoming-${field.key}`}
+                  >
+                    Use New Value
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {historyField === field.key && (
+              <div className="border-t pt-2 space-y-1 text-xs" data-testid={`history-${field.key}`}>
+                {historyLoading && <Loader2 className="w-3 h-3 animate-spin" />}
+                {!historyLoading && fieldHistory.length === 0 && (
+                  <p className="text-muted-foreground">No earlier values.</p>
+                )}
+                {fieldHistory.map(entry => (
+                  <div key={entry.id} className="flex justify-between gap-3">
+                    <span className="line-through text-muted-foreground">{formatValue(entry.value)}</span>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {entry.reason === "rejected" ? "Rejected" : "Replaced"} {new Date(entry.createdAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// The account's deal record per framework, built up across every call
+export default function AccountFrameworkRecord({ accountId }: AccountFrameworkRecordProps) {
+  const { data: records = [], isLoading } = useQuery<FrameworkRecord[]>({
+    queryKey: ["/api/accounts", accountId, "framework-records"],
+  });
+
+  if (isLoading) {
+    return <Loader2 className="w-5 h-5 animate-spin text-primary" />;
+  }
+
+  if (records.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-no-framework-records">
+        No calls have been processed for this account yet.
+      </p>
+    );
+  }
+
+  return (
+    <Tabs defaultValue={records[0].framework} data-testid="tabs-framework-records">
+      <TabsList className="flex flex-wrap h-auto">
+        {records.map(record => {
+          const conflicts = Object.values(record.fields).filter(state => state.conflict).length;
+          return (
+            <TabsTrigger key={record.framework} value={record.framework} data-testid={`tab-record-${record.framework}`}>
+              {record.framework}
+              {conflicts > 0 && <Badge className="ml-2 bg-orange-100 text-orange-800">{conflicts}</Badge>}
+            </TabsTrigger>
+          );
+        })}
+      </TabsList>
+      {records.map(record => (
+        <TabsContent key={record.framework} value={record.framework}>
+          <RecordFields accountId={accountId} record={record} />
+        </TabsContent>
+      ))}
+    </Tabs>
+  );
+}
@@ -0,0 +1,211 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { Mic, Loader2, CheckCircle2, XCircle, Circle, RotateCcw } from "lucide-react";
+
+const ACCEPTED_AUDIO = ".wav,.mp3,.m4a";
+const JOB_POLL_INTERVAL_MS = 1500;
+
+interface AudioJob {
+  id: string;
+  status: "queued" | "running" | "succeeded" | "failed";
+  error: string | null;
+  steps: Array<{ key: string; label: string; status: "pending" | "running" | "succeeded" | "failed"; error: string | null }>;
+  result: {
+    content?: string;
+    speakers?: string[];
+    processingJobId?: string;
+  } | null;
+}
+
+interface AudioUploadProps {
+  accountId: string;
+  frameworks: string[];
+  lob: string;
+  userTimeZone: string;
+  onProcessingQueued: (processing: { jobId: string; content: string }) => void;
+}
+
+function StepIcon({ status }: { status: AudioJob["steps"][number]["status"] }) {
+  if (status === "running") return <Loader2 className="w-4 h-4 animate-spin text-primary" />;
+  if (status === "succeeded") return <CheckCircle2 className="w-4 h-4 text-green-600" />;
+  if (status === "failed") return <XCircle className="w-4 h-4 text-destructive" />;
+  return <Circle className="w-4 h-4 text-muted-foreground" />;
+}
+
+// fetch cannot report upload progress, so recordings are sent with XMLHttpRequest
+function uploadWithProgress(formData: FormData, onProgress: (percent: number) => void): Promise<AudioJob> {
+  return new Promise((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open("POST", "/api/transcripts/audio");
+    request.withCredentials = true;
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(Math.round((event.loaded / event.total) * 100));
+    };
+    request.onload = () => {
+      if (request.status >= 200 && request.status < 300) {
+        resolve(JSON.parse(request.responseText));
+      } else {
+        reject(new Error(`${request.status}: ${request.responseText || request.statusText}`));
+      }
+    };
+    request.onerror = () => reject(new Error("Upload failed. Check your connection and try again."));
+    request.send(formData);
+  });
+}
+
+// Uploads a call recording, then follows transcription until notes generation is queued
+export default function AudioUpload({ accountId, frameworks, lob, userTimeZone, onProcessingQueued }: AudioUploadProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [audioJobId, setAudioJobId] = useState<string | null>(null);
+  const handedOffRef = useRef<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const { data: audioJob } = useQuery<AudioJob>({
+    queryKey: ["/api/jobs", audioJobId],
+    enabled: !!audioJobId,
+    refetchInterval: (query) =>
+      query.state.data?.status === "succeeded" || query.state.data?.status === "failed" ? false : JOB_POLL_INTERVAL_MS,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      formData.append("accountId", accountId);
+      formData.append("frameworks", JSON.stringify(frameworks));
+      formData.append("lob", lob);
+      formData.append("userTimeZone", userTimeZone);
+      setUploadProgress(0);
+      return await uploadWithProgress(formData, setUploadProgress);
+    },
+    onSuccess: (job) => {
+      queryClient.setQueryData(["/api/jobs", job.id], job);
+      setAudioJobId(job.id);
+      setFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const response = await apiRequest("POST", `/api/jobs/${jobId}/retry`, {});
+      return response.json();
+    },
+    onSuccess: (job: AudioJob) => {
+      queryClient.setQueryData(["/api/jobs", job.id], job);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Retry Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Hand over to the page's processing progress once the transcript has been queued
+  useEffect(() => {
+    const processingJobId = audioJob?.result?.processingJobId;
+    if (!processingJobId || handedOffRef.current === processingJobId) return;
+    handedOffRef.current = processingJobId;
+    onProcessingQueued({ jobId: processingJobId, content: audioJob.result?.content || "" });
+    toast({
+      title: "Recording Transcribed",
+      description: `Found ${audioJob.result?.speakers?.length || 0} speaker(s). Generating notes now.`,
+    });
+  }, [audioJob, onProcessingQueued, toast]);
+
+  const missing = [
+    !accountId && "an account",
+    frameworks.length === 0 && "at least one framework",
+    !lob && "a line of business",
+  ].filter(Boolean);
+
+  return (
+    <Card className="mt-6" data-testid="card-audio-upload">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mic className="w-5 h-5" />
+          Upload Call Recording
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          WAV, MP3 or M4A. The recording is transcribed and split by speaker before notes are generated.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_AUDIO}
+            className="text-sm flex-1"
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            data-testid="input-audio-file"
+          />
+          <Button
+            onClick={() => uploadMutation.mutate()}
+            disabled={!file || missing.length > 0 || uploadMutation.isPending}
+            data-testid="button-upload-audio"
+          >
+            {uploadMutation.isPending ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Uploading...
+              </>
+            ) : (
+              "Upload & Transcribe"
+            )}
+          </Button>
+        </div>
+        {file && missing.length > 0 && (
+          <p className="text-xs text-muted-foreground">Choose {missing.join(", ")} to upload.</p>
+        )}
+
+        {uploadMutation.isPending && (
+          <div className="space-y-1" data-testid="progress-audio-upload">
+            <Progress value={uploadProgress} className="h-2" />
+            <p className="text-xs text-muted-foreground">{uploadProgress}% uploaded</p>
+          </div>
+        )}
+
+        {audioJob && (
+          <div className="space-y-2 border-t pt-4" data-testid="panel-audio-job">
+            {audioJob.steps.map((step) => (
+              <div key={step.key} className="flex items-center gap-2 text-sm" data-testid={`audio-step-${step.key}`}>
+                <StepIcon status={step.status} />
+                <span>{step.label}</span>
+                {step.error && <span className="text-xs text-destructive truncate">{step.error}</span>}
+              </div>
+            ))}
+            {audioJob.status === "failed" && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => retryMutation.mutate(audioJob.id)}
+                disabled={retryMutation.isPending}
+                data-testid="button-retry-audio"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Retry
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Save, Trash2 } from "lucide-react";
+
+export type CadenceChannel = "inmail" | "email" | "call";
+
+export interface CadenceStep {
+  channel: CadenceChannel;
+  delayDays: number;
+  title: string;
+  instructions: string | null;
+}
+
+export interface CadenceTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  lob: "LTS" | "LSS" | null;
+  createdBy: string;
+  steps: CadenceStep[];
+}
+
+export const CHANNEL_LABELS: Record<CadenceChannel, string> = {
+  inmail: "InMail",
+  email: "Email",
+  call: "Call",
+};
+
+// Days from the start of the sequence for each step; delays add up
+export function stepDays(steps: Pick<CadenceStep, "delayDays">[]): number[] {
+  let day = 0;
+  return steps.map(step => (day += step.delayDays) + 1);
+}
+
+const DEFAULT_STEPS: CadenceStep[] = [
+  { channel: "inmail", delayDays: 0, title: "Introduction", instructions: null },
+  { channel: "email", delayDays: 2, title: "Follow-up", instructions: null },
+  { channel: "call", delayDays: 2, title: "Call", instructions: null },
+];
+
+interface CadenceTemplateEditorProps {
+  template: CadenceTemplate | null; // null creates a new template
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+// Name, business line and steps of a cadence template
+export default function CadenceTemplateEditor({ template, onSaved, onCancel }: CadenceTemplateEditorProps) {
+  const [name, setName] = useState(template?.name || "");
+  const [description, setDescription] = useState(template?.description || "");
+  const [lob, setLob] = useState<string>(template?.lob || "any");
+  const [steps, setSteps] = useState<CadenceStep[]>(template?.steps || DEFAULT_STEPS);
+  const { toast } = useToast();
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: name.trim(),
+        description: description.trim() || null,
+        lob: lob === "any" ? null : lob,
+        steps: steps.map(step => ({ ...step, title: step.title.trim(), instructions: step.instructions?.trim() || null })),
+      };
+      const response = template
+        ? await apiRequest("PUT", `/api/cadence-templates/${template.id}`, body)
+        : await apiRequest("POST", "/api/cadence-templates", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cadence-templates"] });
+      toast({
+        title: "Template Saved",
+        description: `"${name.trim()}" has been saved.`,
+      });
+      onSaved();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Save Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateStep = (index: number, updates: Partial<CadenceStep>) => {
+    setSteps(steps.map((step, i) => (i === index ? { ...step, ...updates } : step)));
+  };
+
+  const days = stepDays(steps);
+  const canSave = name.trim() && steps.length > 0 && steps.every(step => step.title.trim());
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <div className="col-span-2 space-y-2">
+          <Label htmlFor="cadence-name">Name *</Label>
+          <Input
+            id="cadence-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Cold outbound - talent leaders"
+            data-testid="input-cadence-name"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Business Line</Label>
+          <Select value={lob} onValueChange={setLob}>
+            <SelectTrigger data-testid="select-cadence-lob">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any</SelectItem>
+              <SelectItem value="LTS">LTS</SelectItem>
+              <SelectItem value="LSS">LSS</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="cadence-description">Description</Label>
+        <Textarea
+          id="cadence-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={2}
+          data-testid="textarea-cadence-description"
+        />
+      </div>
+
+      <div className="space-y-3">
+        <Label>Steps</Label>
+        {steps.map((step, index) => (
+          <div key={index} className="p-3 border rounded-lg space-y-2" data-testid={`cadence-step-${index}`}>
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium w-14 flex-shrink-0">Day {days[index]}</span>
+              <Select value={step.channel} onValueChange={(value) => updateStep(index, { channel: value as CadenceChannel })}>
+                <SelectTrigger className="w-28" data-testid={`select-step-channel-${index}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CHANNEL_LABELS) as CadenceChannel[]).map(channel => (
+                    <SelectItem key={channel} value={channel}>{CHANNEL_LABELS[channel]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={step.title}
+                onChange={(e) => updateStep(index, { title: e.target.value })}
+                placeholder="Step title"
+                data-testid={`input-step-title-${index}`}
+              />
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <Input
+                  type="number"
+                  min={0}
+                  max={90}
+                  className="w-16"
+                  value={step.delayDays}
+                  onChange={(e) => updateStep(index, { delayDays: Math.max(0, Number(e.target.value) || 0) })}
+                  title="Days after the previous step"
+                  data-testid={`input-step-delay-${index}`}
+                />
+                <span className="text-xs text-muted-foreground">days</span>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                disabled={steps.length === 1}
+                className="text-destructive hover:text-destructive/80"
+                data-testid={`button-remove-step-${index}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <Textarea
+              value={step.instructions || ""}
+              onChange={(e) => updateStep(index, { instructions: e.target.value })}
+              placeholder="Guidance for the drafted message, e.g. mention their recent funding round"
+              rows={2}
+              data-testid={`textarea-step-instructions-${index}`}
+            />
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setSteps([...steps, { channel: "email", delayDays: 2, title: "", instructions: null }])}
+          data-testid="button-add-step"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Step
+        </Button>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onCancel} data-testid="button-cancel-cadence">
+          Cancel
+        </Button>
+        <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending} data-testid="button-save-cadence">
+          <Save className="w-4 h-4 mr-2" />
+          {saveMutation.isPending ? "Saving..." : "Save Template"}
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -20,21 +20,81 @@ import {
   Target,
   CheckCircle,
   Archive,
-  Lightbulb
+  Lightbulb,
+  Loader2,
+  History,
+  Plus,
+  Pencil,
+  Trash2,
+  AlertCircle
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
-import type { AgentMessage, AgentChatResponse } from "@shared/schema";
+import type { AgentMessage, AgentChatResponse, AgentStreamEvent, Conversation, Message } from "@shared/schema";
+
+// The open thread survives page reloads
+const CONVERSATION_STORAGE_KEY = "sena-conversation-id";
+
+type ConversationSummary = Omit<Conversation, "summary" | "summarizedCount">;
+
+interface ConversationWithMessages extends ConversationSummary {
+  activeAccount: ActiveAccount | null;
+  messages: Message[];
+}
+
+type ActiveAccount = NonNullable<AgentChatResponse["activeAccount"]>;
 
 interface ChatWidgetProps {
   className?: string;
 }
 
+// The assistant reply while it is still streaming in
+interface StreamingReply {
+  tool?: string;
+  progress: string[];
+  text: string;
+}
+
+function toAgentMessage(message: Message): AgentMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    timestamp: new Date(message.createdAt ?? Date.now()).toISOString(),
+    actionResults: message.actionResults ?? undefined,
+  };
+}
+
+// Reads the NDJSON body line by line, handing each event over as soon as it is complete
+async function readAgentStream(response: Response, onEvent: (event: AgentStreamEvent) => void) {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line));
+    }
+  }
+  if (buffer.trim()) onEvent(JSON.parse(buffer));
+}
+
 export function ChatWidget({ className }: ChatWidgetProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<AgentMessage[]>([]);
   const [inputMessage, setInputMessage] = useState("");
   const [showImprovement, setShowImprovement] = useState(false);
   const [improvementSuggestion, setImprovementSuggestion] = useState("");
+  const [streamingReply, setStreamingReply] = useState<StreamingReply | null>(null);
+  const [conversationId, setConversationId] = useState<string | null>(
+    () => localStorage.getItem(CONVERSATION_STORAGE_KEY)
+  );
+  const [showHistory, setShowHistory] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameTitle, setRenameTitle] = useState("");
+  const [activeAccount, setActiveAccount] = useState<ActiveAccount | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const { toast } = useToast();
@@ -46,7 +106,7 @@ export function ChatWidget({ className }: ChatWidgetProps) {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingReply]);
 
   useEffect(() => {
     if (isOpen && inputRef.current) {
@@ -54,43 +114,157 @@ export function ChatWidget({ className }: ChatWidgetProps) {
     }
   }, [isOpen]);
 
+  useEffect(() => {
+    if (conversationId) {
+      localStorage.setItem(CONVERSATION_STORAGE_KEY, conversationId);
+    } else {
+      localStorage.removeItem(CONVERSATION_STORAGE_KEY);
+    }
+  }, [conversationId]);
+
+  const { data: conversations = [], isLoading: conversationsLoading } = useQuery<ConversationSummary[]>({
+    queryKey: ["/api/conversations"],
+    enabled: isOpen && showHistory,
+  });
+
+  const openConversation = async (id: string) => {
+    try {
+      const response = await apiRequest("GET", `/api/conversations/${id}`);
+      const conversation: ConversationWithMessages = await response.json();
+      setConversationId(conversation.id);
+      setMessages(conversation.messages.map(toAgentMessage));
+      setActiveAccount(conversation.activeAccount);
+      setShowHistory(false);
+    } catch (error) {
+      // The thread was deleted or belongs to someone else; start fresh
+      setConversationId(null);
+      setMessages([]);
+      setActiveAccount(null);
+    }
+  };
+
+  // Resume the stored thread the first time the widget opens
+  const resumedRef = useRef(false);
+  useEffect(() => {
+    if (isOpen && !resumedRef.current) {
+      resumedRef.current = true;
+      if (conversationId && messages.length === 0) {
+        openConversation(conversationId);
+      }
+    }
+  }, [isOpen]);
+
+  const startNewConversation = () => {
+    setConversationId(null);
+    setMessages([]);
+    setActiveAccount(null);
+    setShowHistory(false);
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, title }: { id: string; title: string }) => {
+      const response = await apiRequest("PATCH", `/api/conversations/${id}`, { title });
+      return response.json();
+    },
+    onSuccess: () => {
+      setRenamingId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    },
+    onError: () => {
+      toast({
+        title: "Rename failed",
+        description: "Could not rename the conversation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/conversations/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      if (id === conversationId) {
+        setConversationId(null);
+        setMessages([]);
+        setActiveAccount(null);
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    },
+    onError: () => {
+      toast({
+        title: "Delete failed",
+        description: "Could not delete the conversation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const submitRename = () => {
+    if (renamingId && renameTitle.trim()) {
+      renameMutation.mutate({ id: renamingId, title: renameTitle.trim() });
+    }
+  };
+
   const chatMutation = useMutation({
-    mutationFn: async (message: string) => {
+    mutationFn: async ({ message, accountId }: { message: string; accountId?: string }) => {
+      setStreamingReply({ progress: [], text: "" });
       const response = await apiRequest(
         "POST",
-        "/api/agent/chat",
+        "/api/agent/chat/stream",
         {
           message,
-          conversationHistory: messages.slice(-5) // Send last 5 messages for context
+          conversationId: conversationId ?? undefined,
+          accountId
         }
       );
-      return await response.json() as AgentChatResponse;
-    },
-    onSuccess: (response) => {
-      const assistantMessage: AgentMessage = {
-        id: `assistant-${Date.now()}`,
-        role: "assistant",
-        content: response.message,
-        timestamp: new Date().toISOString(),
-        actionResults: response.actionResults
-      };
-      
-      setMessages(prev => [...prev, assistantMessage]);
-      
-      // Invalidate relevant queries if actions were performed
-      if (response.actionResults && response.actionResults.length > 0) {
-        const actionTypes = response.actionResults?.map(result => result.type) || [];
-        if (actionTypes.includes('company_research') || actionTypes.includes('artifact')) {
-          queryClient.invalidateQueries({ queryKey: ['/api/artifacts'] });
-        }
-        if (actionTypes.includes('transcript_analysis') || actionTypes.includes('framework_notes')) {
-          queryClient.invalidateQueries({ queryKey: ['/api/framework-notes'] });
-        }
-        if (actionTypes.includes('next_best_action') || actionTypes.includes('nba')) {
-          queryClient.invalidateQueries({ queryKey: ['/api/nbas'] });
+
+      let final: AgentChatResponse | undefined;
+      let failed = false;
+      await readAgentStream(response, (event) => {
+        switch (event.type) {
+          case "tool":
+            setStreamingReply(prev => prev && { ...prev, tool: event.tool });
+            break;
+          case "progress":
+            setStreamingReply(prev => prev && { ...prev, progress: [...prev.progress, event.message] });
+            break;
+          case "token":
+            setStreamingReply(prev => prev && { ...prev, text: prev.text + event.text });
+            break;
+          case "done":
+            final = event.response;
+            break;
+          case "error":
+            final = event.response;
+            failed = true;
+            break;
         }
+      });
+
+      if (!final) {
+        throw new Error("The response ended before SENA finished");
+      }
+      if (final.conversationId) {
+        setConversationId(final.conversationId);
       }
+      if (final.activeAccount !== undefined) {
+        setActiveAccount(final.activeAccount);
+      }
+      if (failed) {
+        toast({
+          title: "Chat Error",
+          description: final.message,
+          variant: "destructive",
+        });
+      }
+      return final;
+    },
+    onSettled: () => {
+      setStreamingReply(null);
     },
+    onSuccess: (response) => addAssistantReply(response),
     onError: (error) => {
       toast({
         title: "Chat Error",
@@ -100,20 +274,77 @@ export function ChatWidget({ className }: ChatWidgetProps) {
     }
   });
 
-  const handleSendMessage = async () => {
-    if (!inputMessage.trim() || chatMutation.isPending) return;
+  const addAssistantReply = (response: AgentChatResponse) => {
+    const assistantMessage: AgentMessage = {
+      id: `assistant-${Date.now()}`,
+      role: "assistant",
+      content: response.message,
+      timestamp: new Date().toISOString(),
+      actionResults: response.actionResults
+    };
+    
+    setMessages(prev => [...prev, assistantMessage]);
+    queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    
+    // Invalidate relevant queries if actions were performed
+    if (response.actionResults && response.actionResults.length > 0) {
+      const actionTypes = response.actionResults?.map(result => result.type) || [];
+      if (actionTypes.includes('company_research') || actionTypes.includes('artifact')) {
+        queryClient.invalidateQueries({ queryKey: ['/api/artifacts'] });
+      }
+      if (actionTypes.includes('transcript_analysis') || actionTypes.includes('framework_notes')) {
+        queryClient.invalidateQueries({ queryKey: ['/api/framework-notes'] });
+      }
+      if (actionTypes.includes('next_best_action') || actionTypes.includes('nba') || actionTypes.includes('nba_completed')) {
+        queryClient.invalidateQueries({ queryKey: ['/api/nbas'] });
+      }
+      if (actionTypes.includes('account_created')) {
+        queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
+      }
+    }
+  };
+
+  // Confirms or cancels an action SENA proposed; the token comes from its pending_action result
+  const resolveActionMutation = useMutation({
+    mutationFn: async ({ token, decision }: { token: string; decision: "confirm" | "cancel"; description?: string }) => {
+      const response = await apiRequest("POST", `/api/agent/actions/${token}/${decision}`);
+      return await response.json() as AgentChatResponse;
+    },
+    onMutate: ({ decision, description }) => {
+      setMessages(prev => [...prev, {
+        id: `user-${Date.now()}`,
+        role: "user",
+        content: `${decision === "confirm" ? "Confirmed" : "Cancelled"}: ${description}`,
+        timestamp: new Date().toISOString()
+      }]);
+    },
+    onSuccess: (response) => addAssistantReply(response),
+    onError: () => {
+      toast({
+        title: "Action not completed",
+        description: "This action has expired or was already handled. Ask SENA again if you still want it.",
+        variant: "destructive",
+      });
+    }
+  });
 
+  const sendMessage = (message: string, accountId?: string) => {
     const userMessage: AgentMessage = {
       id: `user-${Date.now()}`,
       role: "user",
-      content: inputMessage.trim(),
+      content: message,
       timestamp: new Date().toISOString()
     };
 
     setMessages(prev => [...prev, userMessage]);
-    setInputMessage("");
+    chatMutation.mutate({ message, accountId });
+  };
 
-    chatMutation.mutate(inputMessage.trim());
+  const handleSendMessage = async () => {
+    if (!inputMessage.trim() || chatMutation.isPending) return;
+
+    setInputMessage("");
+    sendMessage(inputMessage.trim());
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -164,6 +395,8 @@ export function ChatWidget({ className }: ChatWidgetProps) {
         return <Target className="w-4 h-4" />;
       case "nba_completed":
         return <CheckCircle className="w-4 h-4" />;
+      case "pending_action":
+        return <AlertCircle className="w-4 h-4" />;
       case "artifacts_list":
       case "artifact":
         return <Archive className="w-4 h-4" />;
@@ -184,6 +417,8 @@ export function ChatWidget({ className }: ChatWidgetProps) {
         return "bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400";
       case "nba_completed":
         return "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400";
+      case "pending_action":
+        return "bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-400";
       case "artifacts_list":
       case "artifact":
         return "bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-400";
@@ -217,10 +452,35 @@ export function ChatWidget({ className }: ChatWidgetProps) {
                 </div>
                 <div>
                   <h3 className="font-semibold text-sm" data-testid="text-chat-title">Talk to SENA</h3>
-                  <p className="text-xs text-muted-foreground">Your AI Sales Assistant</p>
+                  {activeAccount ? (
+                    <p className="text-xs text-muted-foreground truncate" data-testid="text-active-account">
+                      Working on {activeAccount.name}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">Your AI Sales Assistant</p>
+                  )}
                 </div>
               </div>
               <div className="flex items-center gap-1">
+                <Button
+                  onClick={startNewConversation}
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  disabled={chatMutation.isPending}
+                  data-testid="button-new-conversation"
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+                <Button
+                  onClick={() => setShowHistory(!showHistory)}
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  data-testid="button-history-toggle"
+                >
+                  <History className="w-4 h-4" />
+                </Button>
                 <Button
                   onClick={() => setShowImprovement(!showImprovement)}
                   variant="ghost"
@@ -287,6 +547,83 @@ export function ChatWidget({ className }: ChatWidgetProps) {
             </div>
           )}
 
+          {/* Conversation History Panel */}
+          {showHistory && (
+            <div className="border-b bg-muted/50 p-2" data-testid="panel-conversation-history">
+              <ScrollArea className="max-h-48">
+                {conversationsLoading ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                  </div>
+                ) : conversations.length === 0 ? (
+                  <p className="text-xs text-muted-foreground text-center py-4">No conversations yet</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {conversations.map((conversation) => (
+                      <li
+                        key={conversation.id}
+                        className={`flex items-center gap-1 rounded-md px-2 py-1 text-sm ${
+                          conversation.id === conversationId ? "bg-background" : "hover:bg-background/60"
+                        }`}
+                        data-testid={`item-conversation-${conversation.id}`}
+                      >
+                        {renamingId === conversation.id ? (
+                          <Input
+                            value={renameTitle}
+                            onChange={(e) => setRenameTitle(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") {
+                                e.preventDefault();
+                                submitRename();
+                              } else if (e.key === "Escape") {
+                                setRenamingId(null);
+                              }
+                            }}
+                            onBlur={() => setRenamingId(null)}
+                            className="h-7 text-xs"
+                            autoFocus
+                            data-testid={`input-rename-conversation-${conversation.id}`}
+                          />
+                        ) : (
+                          <button
+                            onClick={() => openConversation(conversation.id)}
+                            className="flex-1 truncate text-left"
+                            disabled={chatMutation.isPending}
+                          >
+                            {conversation.title}
+                          </button>
+                        )}
+                        <Button
+                          onMouseDown={(e) => e.preventDefault()}
+                          onClick={() => {
+                            setRenamingId(conversation.id);
+                            setRenameTitle(conversation.title);
+                          }}
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          data-testid={`button-rename-conversation-${conversation.id}`}
+                        >
+                          <Pencil className="w-3 h-3" />
+                        </Button>
+                        <Button
+                          onClick={() => deleteMutation.mutate(conversation.id)}
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-conversation-${conversation.id}`}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </ScrollArea>
+            </div>
+          )}
+
           <CardContent className="flex-1 flex flex-col p-0">
             {/* Messages Area */}
             <ScrollArea className="flex-1 p-4">
@@ -305,7 +642,7 @@ export function ChatWidget({ className }: ChatWidgetProps) {
                   </div>
                 )}
 
-                {messages.map((message) => (
+                {messages.map((message, messageIndex) => (
                   <div key={message.id} className={`flex gap-3 ${message.role === "user" ? "justify-end" : ""}`}>
                     {message.role === "assistant" && (
                       <div className="w-6 h-6 bg-primary rounded-full flex items-center justify-center flex-shrink-0 mt-1">
@@ -325,9 +662,31 @@ export function ChatWidget({ className }: ChatWidgetProps) {
                         {message.content}
                       </div>
                       
-                      {message.actionResults && message.actionResults.length > 0 && (
+                      {/* Account choices from a disambiguation question */}
+                      {message.actionResults?.some(result => result.type === "account_option") && (
+                        <div className="mt-2 flex flex-wrap gap-2">
+                          {message.actionResults.filter(result => result.type === "account_option").map((option) => (
+                            <Button
+                              key={option.data?.id}
+                              variant="outline"
+                              size="sm"
+                              className="h-auto py-1 text-xs flex-col items-start"
+                              disabled={messageIndex !== messages.length - 1 || chatMutation.isPending}
+                              onClick={() => sendMessage(option.title, option.data?.id)}
+                              data-testid={`button-account-option-${option.data?.id}`}
+                            >
+                              <span className="font-medium">{option.title}</span>
+                              {option.description && (
+                                <span className="text-muted-foreground">{option.description}</span>
+                              )}
+                            </Button>
+                          ))}
+                        </div>
+                      )}
+
+                      {message.actionResults && message.actionResults.some(result => result.type !== "account_option") && (
                         <div className="mt-2 space-y-2">
-                          {message.actionResults.map((result, index) => (
+                          {message.actionResults.filter(result => result.type !== "account_option").map((result, index) => (
                             <Card key={index} className="text-xs bg-background border">
                               <CardContent className="p-3">
                                 <div className="flex items-start justify-between mb-2">
@@ -344,6 +703,31 @@ export function ChatWidget({ className }: ChatWidgetProps) {
                                   <p className="text-muted-foreground mb-2">{result.description}</p>
                                 )}
                                 
+                                {/* Only the latest reply can still be acted on */}
+                                {result.type === "pending_action" && result.data?.token && messageIndex === messages.length - 1 && (
+                                  <div className="flex gap-2">
+                                    <Button
+                                      size="sm"
+                                      className="h-7 text-xs"
+                                      disabled={resolveActionMutation.isPending || chatMutation.isPending}
+                                      onClick={() => resolveActionMutation.mutate({ token: result.data.token, decision: "confirm", description: result.description })}
+                                      data-testid={`button-confirm-action-${index}`}
+                                    >
+                                      Confirm
+                                    </Button>
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      className="h-7 text-xs"
+                                      disabled={resolveActionMutation.isPending || chatMutation.isPending}
+                                      onClick={() => resolveActionMutation.mutate({ token: result.data.token, decision: "cancel", description: result.description })}
+                                      data-testid={`button-cancel-action-${index}`}
+                                    >
+                                      Cancel
+                                    </Button>
+                                  </div>
+                                )}
+                                
                                 {result.link && (
                                   <Button
                                     variant="outline"
@@ -377,12 +761,39 @@ export function ChatWidget({ className }: ChatWidgetProps) {
                     <div className="w-6 h-6 bg-primary rounded-full flex items-center justify-center flex-shrink-0 mt-1">
                       <Bot className="w-3 h-3 text-primary-foreground" />
                     </div>
-                    <div className="bg-muted rounded-lg p-3 text-sm">
-                      <div className="flex space-x-1">
-                        <div className="w-2 h-2 bg-muted-foreground/60 rounded-full animate-bounce [animation-delay:-0.3s]"></div>
-                        <div className="w-2 h-2 bg-muted-foreground/60 rounded-full animate-bounce [animation-delay:-0.15s]"></div>
-                        <div className="w-2 h-2 bg-muted-foreground/60 rounded-full animate-bounce"></div>
-                      </div>
+                    <div className="max-w-[80%] space-y-2" data-testid="message-assistant-streaming">
+                      {streamingReply?.tool && (
+                        <Badge variant="secondary" className={`text-xs ${getActionColor(streamingReply.tool)}`} data-testid="badge-streaming-tool">
+                          {streamingReply.tool.replace(/_/g, ' ')}
+                        </Badge>
+                      )}
+                      {streamingReply && streamingReply.progress.length > 0 && !streamingReply.text && (
+                        <ul className="space-y-1 text-xs text-muted-foreground" data-testid="list-streaming-progress">
+                          {streamingReply.progress.map((step, index) => (
+                            <li key={index} className="flex items-center gap-2">
+                              {index === streamingReply.progress.length - 1 ? (
+                                <Loader2 className="w-3 h-3 animate-spin" />
+                              ) : (
+                                <CheckCircle className="w-3 h-3" />
+                              )}
+                              {step}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {streamingReply?.text ? (
+                        <div className="bg-muted rounded-lg p-3 text-sm whitespace-pre-wrap" data-testid="text-streaming-reply">
+                          {streamingReply.text}
+                        </div>
+                      ) : (
+                        <div className="bg-muted rounded-lg p-3 text-sm">
+                          <div className="flex space-x-1">
+                            <div className="w-2 h-2 bg-muted-foreground/60 rounded-full animate-bounce [animation-delay:-0.3s]"></div>
+                            <div className="w-2 h-2 bg-muted-foreground/60 rounded-full animate-bounce [animation-delay:-0.15s]"></div>
+                            <div className="w-2 h-2 bg-muted-foreground/60 rounded-full animate-bounce"></div>
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </div>
                 )}
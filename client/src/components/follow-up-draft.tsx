@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, ExternalLink, Loader2, Mail } from "lucide-react";
+import {
+  formatCommitment,
+  type FollowUpChannel,
+  type FollowUpDraftContent,
+  type FollowUpLength,
+  type FollowUpTone,
+} from "@shared/follow-ups";
+import type { TranscriptTurn } from "@shared/schema";
+
+interface FollowUpArtifact {
+  id: string;
+  title: string;
+  content: FollowUpDraftContent;
+}
+
+interface FollowUpDraftProps {
+  transcriptId: string;
+  lob?: "LTS" | "LSS";
+  turns?: TranscriptTurn[]; // Shown when hovering a commitment's citation
+}
+
+// Drafts the recap email or InMail for a processed call. The draft is saved to
+// Historical Notes, where it can be edited, versioned and exported.
+export default function FollowUpDraft({ transcriptId, lob, turns }: FollowUpDraftProps) {
+  const [channel, setChannel] = useState<FollowUpChannel>("email");
+  const [tone, setTone] = useState<FollowUpTone>("professional");
+  const [length, setLength] = useState<FollowUpLength>("standard");
+  const [draft, setDraft] = useState<FollowUpArtifact | null>(null);
+  const { toast } = useToast();
+
+  const draftMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/transcripts/${transcriptId}/follow-up`, {
+        channel,
+        tone,
+        length,
+        lob,
+      });
+      return response.json();
+    },
+    onSuccess: (artifact: FollowUpArtifact) => {
+      setDraft(artifact);
+      queryClient.invalidateQueries({ queryKey: ["/api/artifacts"] });
+      toast({
+        title: "Follow-up Drafted",
+        description: "The draft has been saved to Historical Notes.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Drafting Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCopy = async () => {
+    if (!draft) return;
+    try {
+      await navigator.clipboard.writeText(`Subject: ${draft.content.subject}\n\n${draft.content.body}`);
+      toast({
+        title: "Copied to Clipboard",
+        description: "The follow-up is ready to paste.",
+      });
+    } catch (error) {
+      toast({
+        title: "Copy Failed",
+        description: "Failed to copy the follow-up to clipboard.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const citedTurns = (numbers: number[]) =>
+    numbers
+      .map(number => turns?.[number - 1])
+      .filter((turn): turn is TranscriptTurn => !!turn)
+      .map(turn => `${turn.speaker}: ${turn.text}`)
+      .join("\n\n");
+
+  return (
+    <Card className="mt-6" data-testid="card-follow-up-draft">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="w-5 h-5" />
+          Follow-up Draft
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex flex-col space-y-2">
+            <Label>Channel</Label>
+            <Select value={channel} onValueChange={(value) => setChannel(value as FollowUpChannel)}>
+              <SelectTrigger className="w-32" data-testid="select-follow-up-channel">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="email">Email</SelectItem>
+                <SelectItem value="inmail">InMail</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-col space-y-2">
+            <Label>Tone</Label>
+            <Select value={tone} onValueChange={(value) => setTone(value as FollowUpTone)}>
+              <SelectTrigger className="w-36" data-testid="select-follow-up-tone">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="warm">Warm</SelectItem>
+                <SelectItem value="professional">Professional</SelectItem>
+                <SelectItem value="direct">Direct</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-col space-y-2">
+            <Label>Length</Label>
+            <Select value={length} onValueChange={(value) => setLength(value as FollowUpLength)}>
+              <SelectTrigger className="w-32" data-testid="select-follow-up-length">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="short">Short</SelectItem>
+                <SelectItem value="standard">Standard</SelectItem>
+                <SelectItem value="detailed">Detailed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            onClick={() => draftMutation.mutate()}
+            disabled={draftMutation.isPending}
+            data-testid="button-draft-follow-up"
+          >
+            {draftMutation.isPending ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Drafting...
+              </>
+            ) : draft ? (
+              "Draft Again"
+            ) : (
+              "Draft Follow-up"
+            )}
+          </Button>
+        </div>
+
+        {draft && (
+          <div className="space-y-4 border-t pt-4">
+            <div>
+              <p className="text-sm font-medium text-foreground" data-testid="text-follow-up-subject">
+                Subject: {draft.content.subject}
+              </p>
+              <pre className="mt-2 whitespace-pre-wrap font-sans text-sm text-muted-foreground" data-testid="text-follow-up-body">
+                {draft.content.body}
+              </pre>
+            </div>
+
+            {draft.content.commitments.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-foreground">Commitments</p>
+                {draft.content.commitments.map((commitment, index) => (
+                  <p
+                    key={index}
+                    className="text-sm text-muted-foreground cursor-help"
+                    title={citedTurns(commitment.turns)}
+                    data-testid={`text-follow-up-commitment-${index}`}
+                  >
+                    {formatCommitment(commitment)}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleCopy} data-testid="button-copy-follow-up">
+                <Copy className="w-4 h-4 mr-2" />
+                Copy
+              </Button>
+              <Button variant="outline" size="sm" asChild data-testid="button-open-follow-up">
+                <Link href={`/artifacts?highlight=${draft.id}`}>
+                  <ExternalLink className="w-4 h-4 mr-2" />
+                  Edit in Historical Notes
+                </Link>
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,15 +1,20 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { USER_ROLE_LABELS, type UserRole } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import NotificationFeed from "@/components/notification-feed";
+import SchedulingSettings from "@/components/scheduling-settings";
 import { 
   LayoutDashboard, 
   Search, 
   BookOpen, 
   CheckSquare, 
   Database,
+  FileSearch,
   Users,
+  Repeat,
   LogOut,
   Menu
 } from "lucide-react";
@@ -19,7 +24,9 @@ const navigation = [
   { name: "Company Research", href: "/research", icon: Search },
   { name: "Playbook Notes Studio", href: "/playbook", icon: BookOpen },
   { name: "Next Best Actions", href: "/nbas", icon: CheckSquare },
+  { name: "Cadences", href: "/cadences", icon: Repeat },
   { name: "Historical Notes", href: "/artifacts", icon: Database },
+  { name: "Search", href: "/search", icon: FileSearch },
 ];
 
 interface MobileHeaderProps {
@@ -64,6 +71,8 @@ export default function MobileHeader({ className = "" }: MobileHeaderProps) {
 
         {/* User Info & Menu */}
         <div className="flex items-center space-x-3">
+          <NotificationFeed />
+          <SchedulingSettings />
           <div className="w-8 h-8 bg-muted rounded-full flex items-center justify-center">
             <span className="text-sm font-medium text-muted-foreground" data-testid="text-user-initials-mobile">
               {getInitials(user.firstName || undefined, user.lastName || undefined)}
@@ -131,7 +140,7 @@ export default function MobileHeader({ className = "" }: MobileHeaderProps) {
                           : user.username}
                       </p>
                       <p className="text-xs text-muted-foreground" data-testid="text-mobile-user-role">
-                        {user.role === 'sdr' ? 'Senior SDR' : user.role}
+                        {USER_ROLE_LABELS[user.role as UserRole] || user.role}
                       </p>
                     </div>
                   </div>
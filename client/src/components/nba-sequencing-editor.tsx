@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle, Circle, Link2, ListTree, Plus, X } from "lucide-react";
+
+interface SequencedNba {
+  id: string;
+  title: string;
+  status: "Open" | "In Progress" | "Completed" | "Overdue";
+  parentId: string | null;
+  dependsOn: string[];
+}
+
+interface NbaSequencingEditorProps {
+  nbaId: string;
+  accountId: string;
+}
+
+// Prerequisites and subtasks of one NBA, edited against the other NBAs on its account
+export default function NbaSequencingEditor({ nbaId, accountId }: NbaSequencingEditorProps) {
+  const [subtaskTitle, setSubtaskTitle] = useState("");
+  const { toast } = useToast();
+
+  const { data: accountNbas = [] } = useQuery<SequencedNba[]>({
+    queryKey: ["/api/nbas", "account", accountId],
+    queryFn: () =>
+      fetch(`/api/nbas?accountId=${encodeURIComponent(accountId)}`).then(res => {
+        if (!res.ok) throw new Error("Failed to fetch NBAs");
+        return res.json();
+      }),
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+  const invalidateNbas = () => queryClient.invalidateQueries({ queryKey: ["/api/nbas"] });
+
+  const addDependencyMutation = useMutation({
+    mutationFn: async (dependsOnId: string) => {
+      await apiRequest("POST", `/api/nbas/${nbaId}/dependencies`, { dependsOnId });
+    },
+    onSuccess: invalidateNbas,
+    onError: onError("Could Not Add Prerequisite"),
+  });
+
+  const removeDependencyMutation = useMutation({
+    mutationFn: async (dependsOnId: string) => {
+      await apiRequest("DELETE", `/api/nbas/${nbaId}/dependencies/${dependsOnId}`);
+    },
+    onSuccess: invalidateNbas,
+    onError: onError("Could Not Remove Prerequisite"),
+  });
+
+  const addSubtaskMutation = useMutation({
+    mutationFn: async (title: string) => {
+      await apiRequest("POST", `/api/nbas/${nbaId}/subtasks`, { title });
+    },
+    onSuccess: () => {
+      setSubtaskTitle("");
+      invalidateNbas();
+    },
+    onError: onError("Could Not Add Subtask"),
+  });
+
+  const nba = accountNbas.find(item => item.id === nbaId);
+  if (!nba) return null;
+
+  const prerequisites = accountNbas.filter(item => nba.dependsOn.includes(item.id));
+  const subtasks = accountNbas.filter(item => item.parentId === nbaId);
+  // The server rejects cycles; leaving out the obvious ones keeps the list short
+  const candidates = accountNbas.filter(
+    item => item.id !== nbaId && item.parentId !== nbaId && !nba.dependsOn.includes(item.id) && !item.dependsOn.includes(nbaId)
+  );
+
+  const handleAddSubtask = () => {
+    if (subtaskTitle.trim()) addSubtaskMutation.mutate(subtaskTitle.trim());
+  };
+
+  return (
+    <div className="space-y-4 border-t pt-4" data-testid="nba-sequencing-editor">
+      <div className="space-y-2">
+        <Label className="flex items-center gap-2">
+          <Link2 className="w-4 h-4" />
+          Depends On
+        </Label>
+        {prerequisites.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing needs to happen first.</p>
+        ) : (
+          prerequisites.map(prerequisite => (
+            <div key={prerequisite.id} className="flex items-center justify-between gap-2 text-sm" data-testid={`prerequisite-${prerequisite.id}`}>
+              <span className="flex items-center gap-2 min-w-0">
+                {prerequisite.status === "Completed" ? (
+                  <CheckCircle className="w-4 h-4 flex-shrink-0 text-green-600" />
+                ) : (
+                  <Circle className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+                )}
+                <span className="truncate">{prerequisite.title}</span>
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeDependencyMutation.mutate(prerequisite.id)}
+                disabled={removeDependencyMutation.isPending}
+                data-testid={`button-remove-prerequisite-${prerequisite.id}`}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))
+        )}
+        {candidates.length > 0 && (
+          <Select value="" onValueChange={value => addDependencyMutation.mutate(value)}>
+            <SelectTrigger data-testid="select-add-prerequisite">
+              <SelectValue placeholder="Add a prerequisite…" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map(candidate => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  {candidate.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {!nba.parentId && (
+        <div className="space-y-2">
+          <Label className="flex items-center gap-2">
+            <ListTree className="w-4 h-4" />
+            Subtasks
+          </Label>
+          {subtasks.map(subtask => (
+            <div key={subtask.id} className="flex items-center gap-2 text-sm" data-testid={`subtask-${subtask.id}`}>
+              {subtask.status === "Completed" ? (
+                <CheckCircle className="w-4 h-4 flex-shrink-0 text-green-600" />
+              ) : (
+                <Circle className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+              )}
+              <span className="truncate">{subtask.title}</span>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Input
+              value={subtaskTitle}
+              onChange={(e) => setSubtaskTitle(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAddSubtask()}
+              placeholder="Add a subtask"
+              data-testid="input-add-subtask"
+            />
+            <Button
+              variant="outline"
+              onClick={handleAddSubtask}
+              disabled={!subtaskTitle.trim() || addSubtaskMutation.isPending}
+              data-testid="button-add-subtask"
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
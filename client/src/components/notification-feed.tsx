@@ -0,0 +1,135 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell, AlertCircle, Clock, Unlock } from "lucide-react";
+
+const NOTIFICATIONS_POLL_INTERVAL_MS = 60 * 1000;
+
+interface Notification {
+  id: string;
+  kind: "nba_due_soon" | "nba_overdue" | "nba_unblocked";
+  title: string;
+  body: string | null;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+interface NotificationFeedData {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+interface NotificationFeedProps {
+  align?: "start" | "center" | "end";
+}
+
+const KIND_ICONS = {
+  nba_due_soon: Clock,
+  nba_overdue: AlertCircle,
+  nba_unblocked: Unlock,
+};
+
+// Bell with the unread count; opens the user's NBA reminders, overdue and unblocked notices
+export default function NotificationFeed({ align = "end" }: NotificationFeedProps) {
+  const { data } = useQuery<NotificationFeedData>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: NOTIFICATIONS_POLL_INTERVAL_MS,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/notifications/${id}/read`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all", {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const notifications = data?.notifications || [];
+  const unreadCount = data?.unreadCount || 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative text-muted-foreground hover:text-foreground p-1"
+          data-testid="button-notifications"
+          title="Notifications"
+        >
+          <Bell className="w-4 h-4" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-4 text-center"
+              data-testid="badge-unread-notifications"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align={align} className="w-80 p-0" data-testid="popover-notifications">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <span className="text-sm font-medium">Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+              data-testid="button-mark-all-read"
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-muted-foreground">You're all caught up.</p>
+          ) : (
+            notifications.map((notification) => {
+              const Icon = KIND_ICONS[notification.kind] || Clock;
+              const content = (
+                <div
+                  className={`flex gap-3 px-4 py-3 border-b last:border-b-0 hover:bg-secondary ${notification.readAt ? "opacity-60" : ""}`}
+                  onClick={() => !notification.readAt && markReadMutation.mutate(notification.id)}
+                  data-testid={`notification-${notification.id}`}
+                >
+                  <Icon
+                    className={`w-4 h-4 mt-0.5 flex-shrink-0 ${notification.kind === "nba_overdue" ? "text-destructive" : "text-primary"}`}
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{notification.title}</p>
+                    {notification.body && <p className="text-xs text-muted-foreground">{notification.body}</p>}
+                    <p className="text-xs text-muted-foreground mt-1">{new Date(notification.createdAt).toLocaleString()}</p>
+                  </div>
+                </div>
+              );
+              return notification.link ? (
+                <Link key={notification.id} href={notification.link}>
+                  {content}
+                </Link>
+              ) : (
+                <div key={notification.id}>{content}</div>
+              );
+            })
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,259 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { FRAMEWORK_FIELDS, isFrameworkName, normalizeFrameworkNotes } from "@shared/frameworks";
+
+interface Revision {
+  id: string;
+  revision: number;
+  title?: string; // Artifacts only
+  content: unknown;
+  source: "ai" | "user" | "restore";
+  restoredFrom: number | null;
+  changedBy: string | null;
+  changedByName: string | null;
+  createdAt: string;
+}
+
+interface FieldDiff {
+  key: string;
+  label: string;
+  before: string;
+  after: string;
+  changed: boolean;
+}
+
+interface RevisionHistoryProps {
+  revisionsUrl: string; // e.g. /api/artifacts/:id/revisions
+  kind: string; // Framework name or artifact type, which decides the field labels
+  onRestored?: (restored: any) => void;
+}
+
+function describeSource(revision: Revision): string {
+  if (revision.source === "ai") return "AI draft";
+  if (revision.source === "restore") return `Restored v${revision.restoredFrom}`;
+  return "Edited";
+}
+
+function formatFieldValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string") return value;
+  if (Array.isArray(value) && value.every(item => typeof item === "string")) return value.join("; ");
+  return JSON.stringify(value, null, 2);
+}
+
+function fieldLabel(key: string): string {
+  const spaced = key.replace(/([A-Z])/g, " $1").trim();
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+// Lines up two saved states field by field. Framework notes use the schema's fields;
+// other content compares its top-level keys, and plain text is a single field.
+function diffRevisions(kind: string, before: Revision, after: Revision): FieldDiff[] {
+  const rows: FieldDiff[] = [];
+  const addRow = (key: string, label: string, beforeValue: unknown, afterValue: unknown) => {
+    const beforeText = formatFieldValue(beforeValue);
+    const afterText = formatFieldValue(afterValue);
+    rows.push({ key, label, before: beforeText, after: afterText, changed: beforeText !== afterText });
+  };
+
+  if (before.title !== undefined || after.title !== undefined) {
+    addRow("title", "Title", before.title, after.title);
+  }
+
+  if (isFrameworkName(kind)) {
+    const beforeNotes = normalizeFrameworkNotes(kind, before.content);
+    const afterNotes = normalizeFrameworkNotes(kind, after.content);
+    for (const field of FRAMEWORK_FIELDS[kind]) {
+      addRow(field.key, field.label, beforeNotes[field.key], afterNotes[field.key]);
+    }
+    return rows;
+  }
+
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+  if (!isObject(before.content) || !isObject(after.content)) {
+    addRow("content", "Content", before.content, after.content);
+    return rows;
+  }
+  const beforeContent = before.content;
+  const afterContent = after.content;
+  const keys = Object.keys(beforeContent).concat(Object.keys(afterContent).filter(key => !(key in beforeContent)));
+  for (const key of keys) {
+    addRow(key, fieldLabel(key), beforeContent[key], afterContent[key]);
+  }
+  return rows;
+}
+
+// Saved versions of a note with a side-by-side comparison of any two of them. By
+// default the AI draft is compared with the current version, showing what the rep
+// changed.
+export default function RevisionHistory({ revisionsUrl, kind, onRestored }: RevisionHistoryProps) {
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const { toast } = useToast();
+
+  const { data: revisions = [], isLoading } = useQuery<Revision[]>({
+    queryKey: [revisionsUrl],
+  });
+
+  // Newest first; default to the original draft against the latest version
+  useEffect(() => {
+    if (revisions.length === 0) return;
+    const draft = revisions.slice().reverse().find(revision => revision.source === "ai") || revisions[revisions.length - 1];
+    setFromId(current => (current && revisions.some(revision => revision.id === current) ? current : draft.id));
+    setToId(revisions[0].id);
+  }, [revisions]);
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: Revision) => {
+      const response = await apiRequest("POST", `${revisionsUrl}/${revision.id}/restore`, {});
+      return response.json();
+    },
+    onSuccess: (restored, revision) => {
+      queryClient.invalidateQueries({ queryKey: [revisionsUrl] });
+      onRestored?.(restored);
+      toast({
+        title: "Version Restored",
+        description: `Restored version ${revision.revision}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Restore Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const from = revisions.find(revision => revision.id === fromId);
+  const to = revisions.find(revision => revision.id === toId);
+  const diff = from && to ? diffRevisions(kind, from, to) : [];
+  const changedCount = diff.filter(row => row.changed).length;
+  const visibleRows = showUnchanged ? diff : diff.filter(row => row.changed);
+
+  const revisionLabel = (revision: Revision) =>
+    `v${revision.revision} • ${describeSource(revision)}${revision.changedByName ? ` by ${revision.changedByName}` : ""}`;
+
+  return (
+    <Card className="mt-4" data-testid="card-revision-history">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <History className="w-4 h-4" />
+          Version History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+
+        {!isLoading && revisions.length < 2 && (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-revisions">
+            No edits have been saved yet.
+          </p>
+        )}
+
+        {revisions.length >= 2 && (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Compare</span>
+              <Select value={fromId || ""} onValueChange={setFromId}>
+                <SelectTrigger className="w-64" data-testid="select-revision-from">
+                  <SelectValue placeholder="Earlier version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {revisions.map(revision => (
+                    <SelectItem key={revision.id} value={revision.id}>
+                      {revisionLabel(revision)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-muted-foreground">with</span>
+              <Select value={toId || ""} onValueChange={setToId}>
+                <SelectTrigger className="w-64" data-testid="select-revision-to">
+                  <SelectValue placeholder="Later version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {revisions.map(revision => (
+                    <SelectItem key={revision.id} value={revision.id}>
+                      {revisionLabel(revision)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {from && to && (
+              <div className="space-y-2" data-testid="table-revision-diff">
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>{changedCount} of {diff.length} field(s) changed</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2"
+                    onClick={() => setShowUnchanged(!showUnchanged)}
+                    data-testid="button-toggle-unchanged"
+                  >
+                    {showUnchanged ? "Hide Unchanged" : "Show Unchanged"}
+                  </Button>
+                </div>
+                <div className="grid grid-cols-[10rem_1fr_1fr] gap-px bg-border rounded-md overflow-hidden text-sm">
+                  <div className="bg-muted p-2 font-medium">Field</div>
+                  <div className="bg-muted p-2 font-medium">v{from.revision}</div>
+                  <div className="bg-muted p-2 font-medium">v{to.revision}</div>
+                  {visibleRows.map(row => (
+                    <div key={row.key} className="contents" data-testid={`diff-row-${row.key}`}>
+                      <div className="bg-background p-2 font-medium">{row.label}</div>
+                      <div className={`p-2 whitespace-pre-wrap ${row.changed ? "bg-red-50 text-red-900" : "bg-background"}`}>
+                        {row.before || <span className="text-muted-foreground">—</span>}
+                      </div>
+                      <div className={`p-2 whitespace-pre-wrap ${row.changed ? "bg-green-50 text-green-900" : "bg-background"}`}>
+                        {row.after || <span className="text-muted-foreground">—</span>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        {revisions.length > 0 && (
+          <div className="border-t pt-3 space-y-2" data-testid="list-revisions">
+            {revisions.map((revision, index) => (
+              <div key={revision.id} className="flex items-center justify-between gap-3 text-sm" data-testid={`row-revision-${revision.revision}`}>
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-medium">v{revision.revision}</span>
+                  <Badge variant={revision.source === "ai" ? "secondary" : "outline"}>{describeSource(revision)}</Badge>
+                  <span className="text-muted-foreground truncate">
+                    {revision.changedByName || "Unknown"} • {new Date(revision.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                {index > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(revision)}
+                    disabled={restoreMutation.isPending}
+                    data-testid={`button-restore-revision-${revision.revision}`}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { detectTimeZone } from "@/lib/time-utils";
+import { commonTimeZones } from "@/components/time-zone-selector";
+import { CalendarClock } from "lucide-react";
+import type { PublicUser, UpdateUserPreferencesRequest } from "@shared/schema";
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Time zone and working hours that generated NBA due dates are placed in
+export default function SchedulingSettings() {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [timeZone, setTimeZone] = useState("");
+  const [workdayStart, setWorkdayStart] = useState("09:00");
+  const [workdayEnd, setWorkdayEnd] = useState("17:00");
+  const [workingDays, setWorkingDays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [maxNbasPerDay, setMaxNbasPerDay] = useState(5);
+  const { toast } = useToast();
+
+  const saveMutation = useMutation({
+    mutationFn: async (preferences: UpdateUserPreferencesRequest) => {
+      const response = await apiRequest("PATCH", "/api/user/preferences", preferences);
+      return response.json();
+    },
+    onSuccess: (updated: PublicUser) => {
+      queryClient.setQueryData(["/api/user"], updated);
+    },
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (next && user) {
+      setTimeZone(user.timeZone || detectTimeZone());
+      setWorkdayStart(user.workdayStart);
+      setWorkdayEnd(user.workdayEnd);
+      setWorkingDays(user.workingDays);
+      setMaxNbasPerDay(user.maxNbasPerDay);
+    }
+    setOpen(next);
+  };
+
+  const toggleDay = (day: number) => {
+    setWorkingDays(workingDays.includes(day) ? workingDays.filter(d => d !== day) : [...workingDays, day].sort((a, b) => a - b));
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate(
+      { timeZone, workdayStart, workdayEnd, workingDays, maxNbasPerDay },
+      {
+        onSuccess: () => {
+          setOpen(false);
+          toast({
+            title: "Preferences Saved",
+            description: "New NBAs will be scheduled within your working hours.",
+          });
+        },
+        onError: (error: Error) => {
+          toast({
+            title: "Save Failed",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  if (!user) return null;
+
+  const timeZones = commonTimeZones.some(tz => tz.value === timeZone) || !timeZone
+    ? commonTimeZones
+    : [{ value: timeZone, label: timeZone }, ...commonTimeZones];
+  const canSave = !!timeZone && workingDays.length > 0 && workdayStart < workdayEnd && maxNbasPerDay >= 1;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground hover:text-foreground p-1"
+          data-testid="button-scheduling-settings"
+          title="Working hours"
+        >
+          <CalendarClock className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]" data-testid="dialog-scheduling-settings">
+        <DialogHeader>
+          <DialogTitle>Working Hours</DialogTitle>
+          <DialogDescription>
+            Generated NBAs are due on your working days, within these hours, and spread out so no day gets more than your limit.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Time Zone</Label>
+            <Select value={timeZone} onValueChange={setTimeZone}>
+              <SelectTrigger data-testid="select-profile-timezone">
+                <SelectValue placeholder="Select timezone" />
+              </SelectTrigger>
+              <SelectContent>
+                {timeZones.map(tz => (
+                  <SelectItem key={tz.value} value={tz.value}>{tz.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="workday-start">Start</Label>
+              <Input
+                id="workday-start"
+                type="time"
+                value={workdayStart}
+                onChange={(e) => setWorkdayStart(e.target.value)}
+                data-testid="input-workday-start"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="workday-end">End</Label>
+              <Input
+                id="workday-end"
+                type="time"
+                value={workdayEnd}
+                onChange={(e) => setWorkdayEnd(e.target.value)}
+                data-testid="input-workday-end"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Working Days</Label>
+            <div className="flex gap-1">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <Button
+                  key={label}
+                  type="button"
+                  variant={workingDays.includes(day) ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => toggleDay(day)}
+                  data-testid={`button-working-day-${day}`}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="max-nbas-per-day">Most NBAs Due per Day</Label>
+            <Input
+              id="max-nbas-per-day"
+              type="number"
+              min={1}
+              max={50}
+              className="w-24"
+              value={maxNbasPerDay}
+              onChange={(e) => setMaxNbasPerDay(Math.max(1, Number(e.target.value) || 1))}
+              data-testid="input-max-nbas-per-day"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saveMutation.isPending} data-testid="button-save-scheduling">
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,19 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { USER_ROLE_LABELS, type UserRole } from "@shared/schema";
 import { Button } from "@/components/ui/button";
+import NotificationFeed from "@/components/notification-feed";
+import SchedulingSettings from "@/components/scheduling-settings";
 import { 
   LayoutDashboard, 
   Search, 
   BookOpen, 
   CheckSquare, 
   Database,
+  FileSearch,
   Users,
+  Repeat,
   LogOut,
   PanelLeftClose,
   PanelLeftOpen
@@ -20,7 +25,9 @@ const navigation = [
   { name: "Active Accounts", href: "/accounts", icon: Users },
   { name: "Notes Studio", href: "/playbook-notes", icon: BookOpen },
   { name: "Next Best Actions", href: "/nbas", icon: CheckSquare },
+  { name: "Cadences", href: "/cadences", icon: Repeat },
   { name: "Historical Notes", href: "/artifacts", icon: Database },
+  { name: "Search", href: "/search", icon: FileSearch },
 ];
 
 interface SidebarProps {
@@ -102,6 +109,8 @@ export default function Sidebar({ className = "" }: SidebarProps) {
       <div className="border-t border-border p-4">
         {isCollapsed ? (
           <div className="flex flex-col items-center space-y-2">
+            <NotificationFeed align="start" />
+            <SchedulingSettings />
             <div className="w-8 h-8 bg-muted rounded-full flex items-center justify-center">
               <span className="text-sm font-medium text-muted-foreground" data-testid="text-user-initials">
                 {getInitials(user.firstName || undefined, user.lastName || undefined)}
@@ -133,9 +142,11 @@ export default function Sidebar({ className = "" }: SidebarProps) {
                   : user.username}
               </p>
               <p className="text-xs text-muted-foreground" data-testid="text-user-role">
-                {user.role === 'sdr' ? 'Senior SDR' : user.role}
+                {USER_ROLE_LABELS[user.role as UserRole] || user.role}
               </p>
             </div>
+            <NotificationFeed align="start" />
+            <SchedulingSettings />
             <Button
               variant="ghost"
               size="sm"
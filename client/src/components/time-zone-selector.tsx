@@ -9,7 +9,7 @@ interface TimeZoneSelectorProps {
   onAccountTimeZoneChange?: (timeZone: string) => void;
 }
 
-const commonTimeZones = [
+export const commonTimeZones = [
   { value: "America/New_York", label: "Eastern Time (ET)" },
   { value: "America/Chicago", label: "Central Time (CT)" },
   { value: "America/Denver", label: "Mountain Time (MT)" },
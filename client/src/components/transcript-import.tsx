@@ -0,0 +1,242 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Upload, X, Loader2, CheckCircle2, XCircle, FileText } from "lucide-react";
+import type { TranscriptFormat } from "@shared/schema";
+
+const ACCEPTED_EXTENSIONS = ".vtt,.srt,.json,.txt,.docx";
+const JOB_POLL_INTERVAL_MS = 1500;
+
+interface Account {
+  id: string;
+  name: string;
+}
+
+interface SelectedFile {
+  file: File;
+  accountId: string;
+}
+
+type ImportResult =
+  | {
+      filename: string;
+      accountId: string;
+      format: TranscriptFormat;
+      turnCount: number;
+      speakers: string[];
+      content: string;
+      jobId: string;
+    }
+  | { filename: string; accountId: string; error: string };
+
+interface TranscriptImportProps {
+  accounts: Account[];
+  defaultAccountId: string;
+  frameworks: string[];
+  lob: string;
+  userTimeZone: string;
+  onOpen: (result: { jobId: string; content: string; accountId: string }) => void;
+}
+
+function ImportJobStatus({ jobId }: { jobId: string }) {
+  const { data: job } = useQuery<{ id: string; status: "queued" | "running" | "succeeded" | "failed" }>({
+    queryKey: ["/api/jobs", jobId],
+    refetchInterval: (query) =>
+      query.state.data?.status === "succeeded" || query.state.data?.status === "failed" ? false : JOB_POLL_INTERVAL_MS,
+  });
+
+  if (job?.status === "succeeded") return <CheckCircle2 className="w-4 h-4 text-green-600" />;
+  if (job?.status === "failed") return <XCircle className="w-4 h-4 text-destructive" />;
+  return <Loader2 className="w-4 h-4 animate-spin text-primary" />;
+}
+
+// Uploads recorder exports in bulk, each mapped to its own account, and queues them
+// for processing with the frameworks selected on the page
+export default function TranscriptImport({
+  accounts,
+  defaultAccountId,
+  frameworks,
+  lob,
+  userTimeZone,
+  onOpen,
+}: TranscriptImportProps) {
+  const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([]);
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const accountName = (id: string) => accounts.find(account => account.id === id)?.name || "Unknown account";
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      selectedFiles.forEach(({ file }) => formData.append("files", file));
+      formData.append("accountIds", JSON.stringify(selectedFiles.map(({ accountId }) => accountId)));
+      formData.append("frameworks", JSON.stringify(frameworks));
+      formData.append("lob", lob);
+      formData.append("userTimeZone", userTimeZone);
+
+      const response = await fetch("/api/transcripts/import", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+      }
+      return (await response.json()) as { imports: ImportResult[] };
+    },
+    onSuccess: ({ imports }) => {
+      setResults(imports);
+      setSelectedFiles([]);
+      const failed = imports.filter(result => "error" in result).length;
+      toast({
+        title: "Transcripts Imported",
+        description: `${imports.length - failed} of ${imports.length} file(s) queued for processing.`,
+        variant: failed > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFilesChosen = (files: FileList | null) => {
+    if (!files) return;
+    setSelectedFiles(prev => [
+      ...prev,
+      ...Array.from(files).map(file => ({ file, accountId: defaultAccountId })),
+    ]);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const missing = [
+    selectedFiles.some(({ accountId }) => !accountId) && "an account for every file",
+    frameworks.length === 0 && "at least one framework",
+    !lob && "a line of business",
+  ].filter(Boolean);
+
+  return (
+    <Card className="mt-6" data-testid="card-transcript-import">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Upload className="w-5 h-5" />
+          Import Transcripts
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Caption (VTT, SRT), JSON, TXT or DOCX exports from Zoom, Teams, Gong and other recorders
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_EXTENSIONS}
+          className="hidden"
+          onChange={(e) => handleFilesChosen(e.target.files)}
+          data-testid="input-transcript-files"
+        />
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} data-testid="button-choose-files">
+          <FileText className="w-4 h-4 mr-2" />
+          Choose Files
+        </Button>
+
+        {selectedFiles.length > 0 && (
+          <div className="space-y-2">
+            {selectedFiles.map(({ file, accountId }, index) => (
+              <div key={`${file.name}-${index}`} className="flex items-center gap-3" data-testid={`row-import-file-${index}`}>
+                <span className="flex-1 truncate text-sm">{file.name}</span>
+                <Select
+                  value={accountId}
+                  onValueChange={(value) =>
+                    setSelectedFiles(prev => prev.map((item, i) => (i === index ? { ...item, accountId: value } : item)))
+                  }
+                >
+                  <SelectTrigger className="w-56" data-testid={`select-import-account-${index}`}>
+                    <SelectValue placeholder="Select account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => setSelectedFiles(prev => prev.filter((_, i) => i !== index))}
+                  data-testid={`button-remove-import-file-${index}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between pt-2">
+              <p className="text-xs text-muted-foreground">
+                {missing.length > 0 ? `Choose ${missing.join(", ")} to import.` : `${selectedFiles.length} file(s) ready`}
+              </p>
+              <Button
+                onClick={() => importMutation.mutate()}
+                disabled={missing.length > 0 || importMutation.isPending}
+                data-testid="button-import-transcripts"
+              >
+                {importMutation.isPending ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Importing...
+                  </>
+                ) : (
+                  "Import & Process"
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {results.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            {results.map((result, index) => (
+              <div key={`${result.filename}-${index}`} className="flex items-center gap-3 text-sm" data-testid={`row-import-result-${index}`}>
+                {"error" in result ? <XCircle className="w-4 h-4 text-destructive" /> : <ImportJobStatus jobId={result.jobId} />}
+                <div className="flex-1 min-w-0">
+                  <div className="truncate font-medium">{result.filename}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {"error" in result
+                      ? result.error
+                      : `${accountName(result.accountId)} • ${result.turnCount} turns • ${result.speakers.join(", ")}`}
+                  </div>
+                </div>
+                {!("error" in result) && (
+                  <>
+                    <Badge variant="secondary" className="uppercase">{result.format}</Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onOpen(result)}
+                      data-testid={`button-open-import-${index}`}
+                    >
+                      Open
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
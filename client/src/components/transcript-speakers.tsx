@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Users, Edit, Loader2 } from "lucide-react";
+import type { RelabelSpeakerRequest, TranscriptTurn } from "@shared/schema";
+
+export interface SpeakerStats {
+  speaker: string;
+  role: string | null;
+  turnCount: number;
+  wordCount: number;
+  talkTimeMs: number;
+  share: number;
+}
+
+export interface TranscriptSpeakersData {
+  turns: TranscriptTurn[];
+  speakers: SpeakerStats[];
+  timed: boolean;
+}
+
+interface TranscriptSpeakersProps {
+  transcriptId: string;
+}
+
+// 184000 → "3:04"
+export function formatTurnTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+export function speakersQueryKey(transcriptId: string) {
+  return ["/api/transcripts", transcriptId, "speakers"];
+}
+
+// Per-speaker talk time for a saved transcript, with renaming and merging of speakers
+export default function TranscriptSpeakers({ transcriptId }: TranscriptSpeakersProps) {
+  const [editingSpeaker, setEditingSpeaker] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [role, setRole] = useState("");
+  const [showTurns, setShowTurns] = useState(false);
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<TranscriptSpeakersData>({
+    queryKey: speakersQueryKey(transcriptId),
+  });
+
+  const relabelMutation = useMutation({
+    mutationFn: async (request: RelabelSpeakerRequest) => {
+      const response = await apiRequest("PATCH", `/api/transcripts/${transcriptId}/speakers`, request);
+      return response.json();
+    },
+    onSuccess: (updated: TranscriptSpeakersData, request) => {
+      queryClient.setQueryData(speakersQueryKey(transcriptId), updated);
+      setEditingSpeaker(null);
+      const merged = data?.speakers.some(stats => stats.speaker === request.name && stats.speaker !== request.speaker);
+      toast({
+        title: merged ? "Speakers Merged" : "Speaker Updated",
+        description: merged
+          ? `${request.speaker} was merged into ${request.name}.`
+          : `Turns now show ${request.name}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = (stats: SpeakerStats) => {
+    setEditingSpeaker(stats.speaker);
+    setName(stats.speaker);
+    setRole(stats.role || "");
+  };
+
+  return (
+    <Card className="mt-6" data-testid="card-transcript-speakers">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Speakers
+        </CardTitle>
+        {data && !data.timed && (
+          <p className="text-sm text-muted-foreground">
+            Talk time is estimated from word counts because the transcript has no timestamps.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+
+        {data?.speakers.map((stats, index) => (
+          <div key={stats.speaker} className="space-y-2" data-testid={`row-speaker-${index}`}>
+            {editingSpeaker === stats.speaker ? (
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Name"
+                  className="w-48"
+                  data-testid={`input-speaker-name-${index}`}
+                />
+                <Input
+                  value={role}
+                  onChange={(e) => setRole(e.target.value)}
+                  placeholder="Role"
+                  className="w-40"
+                  data-testid={`input-speaker-role-${index}`}
+                />
+                <Button
+                  size="sm"
+                  onClick={() => relabelMutation.mutate({ speaker: stats.speaker, name: name.trim(), role: role.trim() || null })}
+                  disabled={!name.trim() || relabelMutation.isPending}
+                  data-testid={`button-save-speaker-${index}`}
+                >
+                  Save
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setEditingSpeaker(null)}>
+                  Cancel
+                </Button>
+                {data.speakers.length > 1 && (
+                  <Select
+                    value=""
+                    onValueChange={(target) => relabelMutation.mutate({ speaker: stats.speaker, name: target })}
+                  >
+                    <SelectTrigger className="w-44" data-testid={`select-merge-speaker-${index}`}>
+                      <SelectValue placeholder="Merge into..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {data.speakers
+                        .filter(other => other.speaker !== stats.speaker)
+                        .map(other => (
+                          <SelectItem key={other.speaker} value={other.speaker}>
+                            {other.speaker}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            ) : (
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <span className="font-medium" data-testid={`text-speaker-name-${index}`}>{stats.speaker}</span>
+                  {stats.role && <span className="text-sm text-muted-foreground"> ({stats.role})</span>}
+                </div>
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <span data-testid={`text-speaker-talk-time-${index}`}>
+                    {formatTurnTime(stats.talkTimeMs)} • {Math.round(stats.share * 100)}%
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => startEditing(stats)}
+                    data-testid={`button-edit-speaker-${index}`}
+                  >
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+            <Progress value={stats.share * 100} className="h-2" />
+            <p className="text-xs text-muted-foreground">
+              {stats.turnCount} turns • {stats.wordCount} words
+            </p>
+          </div>
+        ))}
+
+        {data && data.turns.length > 0 && (
+          <div className="border-t pt-4">
+            <Button variant="outline" size="sm" onClick={() => setShowTurns(!showTurns)} data-testid="button-toggle-turns">
+              {showTurns ? "Hide Turns" : `Show ${data.turns.length} Turns`}
+            </Button>
+            {showTurns && (
+              <div className="mt-3 max-h-96 overflow-y-auto space-y-2 text-sm" data-testid="list-transcript-turns">
+                {data.turns.map((turn, index) => (
+                  <div key={index} id={`turn-${index + 1}`} className="flex gap-2">
+                    <span className="text-xs text-muted-foreground w-10 flex-shrink-0 pt-0.5">T{index + 1}</span>
+                    <div>
+                      <span className="font-medium">{turn.speaker}</span>
+                      {turn.startMs !== null && (
+                        <span className="text-xs text-muted-foreground"> [{formatTurnTime(turn.startMs)}]</span>
+                      )}
+                      <span className="text-muted-foreground">: {turn.text}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,12 +1,13 @@
-import { createContext, ReactNode, useContext } from "react";
+import { createContext, ReactNode, useContext, useEffect, useRef } from "react";
 import {
   useQuery,
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
+import { PublicUser as SelectUser, InsertUser } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { detectTimeZone } from "@/lib/time-utils";
 
 type AuthContextType = {
   user: SelectUser | null;
@@ -23,22 +24,26 @@ export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
   
-  // Mock user for demo - skip authentication
-  const mockUser: SelectUser = {
-    id: "123e4567-e89b-12d3-a456-426614174000",
-    username: "demo_user",
-    email: "demo@sena.ai",
-    password: "", // Not used in frontend
-    firstName: "Demo",
-    lastName: "User", 
-    role: "sdr",
-    createdAt: new Date(),
-    updatedAt: new Date()
-  };
+  const {
+    data: user,
+    error,
+    isLoading,
+  } = useQuery<SelectUser | null, Error>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
 
-  const user = mockUser;
-  const error = null;
-  const isLoading = false;
+  // A profile without a time zone is given the browser's, once per signed-in user, so
+  // NBA due dates are scheduled in the rep's local working hours
+  const timeZoneSavedFor = useRef<string | null>(null);
+  useEffect(() => {
+    if (!user || user.timeZone || timeZoneSavedFor.current === user.id) return;
+    timeZoneSavedFor.current = user.id;
+    apiRequest("PATCH", "/api/user/preferences", { timeZone: detectTimeZone() })
+      .then((res) => res.json())
+      .then((updated: SelectUser) => queryClient.setQueryData(["/api/user"], updated))
+      .catch((error) => console.error("Failed to save detected time zone:", error));
+  }, [user?.id, user?.timeZone]);
 
   const loginMutation = useMutation({
     mutationFn: async (credentials: LoginData) => {
@@ -80,6 +85,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
     onSuccess: () => {
       queryClient.setQueryData(["/api/user"], null);
+      // Drop everything cached under the previous user's access scope
+      queryClient.removeQueries({ predicate: (query) => query.queryKey[0] !== "/api/user" });
     },
     onError: (error: Error) => {
       toast({
@@ -0,0 +1,8 @@
+import { useAuth } from "@/hooks/use-auth";
+import { detectTimeZone } from "@/lib/time-utils";
+
+// The signed-in user's time zone from their profile, else the browser's until they set one
+export function useUserTimeZone(): string {
+  const { user } = useAuth();
+  return user?.timeZone || detectTimeZone();
+}
@@ -1,3 +1,7 @@
+export function detectTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
 export function formatCurrentTime(date: Date, timeZone: string): string {
   try {
     return new Intl.DateTimeFormat('en-US', {
@@ -24,13 +28,15 @@ export function formatDueDate(date: Date, timeZone: string): string {
     const now = new Date();
     const targetDate = new Date(date);
     
+    // Compare calendar days in the target timezone, not the browser's
+    const dayOf = (value: Date) => new Intl.DateTimeFormat('en-CA', { timeZone }).format(value);
+    
     // Check if it's today
-    const isToday = targetDate.toDateString() === now.toDateString();
+    const isToday = dayOf(targetDate) === dayOf(now);
     
     // Check if it's tomorrow
-    const tomorrow = new Date(now);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const isTomorrow = targetDate.toDateString() === tomorrow.toDateString();
+    const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+    const isTomorrow = dayOf(targetDate) === dayOf(tomorrow);
     
     if (isToday) {
       return `Today, ${new Intl.DateTimeFormat('en-US', {
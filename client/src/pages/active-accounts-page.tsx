@@ -1,10 +1,15 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { 
   LayoutDashboard, 
   Search, 
@@ -16,9 +21,12 @@ import {
   Tag,
   Users,
   ChevronRight,
-  ArrowUpDown
+  ArrowUpDown,
+  DollarSign,
+  ClipboardList
 } from "lucide-react";
 import { Link } from "wouter";
+import AccountFrameworkRecord from "@/components/account-framework-record";
 
 interface Account {
   id: string;
@@ -34,6 +42,30 @@ interface Account {
   updatedAt: string;
 }
 
+interface Opportunity {
+  id: string;
+  accountId: string;
+  name: string;
+  lob: "LTS" | "LSS";
+  amount: string;
+  currency: string;
+  expectedCloseDate?: string;
+  stage: string;
+  probability?: number | null;
+  createdAt: string;
+}
+
+const opportunityStages = ["Discovery", "Qualification", "Proposal", "Negotiation", "Closed Won", "Closed Lost"];
+
+const emptyOpportunityForm = {
+  name: "",
+  lob: "LSS" as "LTS" | "LSS",
+  amount: "",
+  currency: "USD",
+  expectedCloseDate: "",
+  stage: "Discovery",
+};
+
 export default function ActiveAccountsPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [stageFilter, setStageFilter] = useState("all");
@@ -41,10 +73,96 @@ export default function ActiveAccountsPage() {
   const [lobFilter, setLobFilter] = useState("all");
   const [sortBy, setSortBy] = useState<"name" | "priority" | "stage" | "lastContact">("name");
 
+  const [opportunityAccount, setOpportunityAccount] = useState<Account | null>(null);
+  const [opportunityForm, setOpportunityForm] = useState(emptyOpportunityForm);
+  const [recordAccount, setRecordAccount] = useState<Account | null>(null);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
   const { data: accounts = [], isLoading } = useQuery<Account[]>({
     queryKey: ["/api/accounts"],
   });
 
+  const { data: opportunities = [] } = useQuery<Opportunity[]>({
+    queryKey: ["/api/opportunities"],
+  });
+
+  const createOpportunityMutation = useMutation({
+    mutationFn: async ({ accountId, data }: { accountId: string; data: typeof emptyOpportunityForm }) => {
+      const response = await apiRequest("POST", `/api/accounts/${accountId}/opportunities`, {
+        ...data,
+        amount: Number(data.amount) || 0,
+        expectedCloseDate: data.expectedCloseDate || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/opportunities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      setOpportunityAccount(null);
+      setOpportunityForm(emptyOpportunityForm);
+      toast({
+        title: "Opportunity Created",
+        description: "The opportunity has been added to your pipeline.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Create Opportunity",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateStageMutation = useMutation({
+    mutationFn: async ({ id, stage }: { id: string; stage: string }) => {
+      const response = await apiRequest("PATCH", `/api/opportunities/${id}`, { stage });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/opportunities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Stage Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getOpenOpportunities = (accountId: string) =>
+    opportunities.filter(opp => opp.accountId === accountId && opp.stage !== "Closed Won" && opp.stage !== "Closed Lost");
+
+  // The lead opportunity drives the stage shown for an account
+  const getLeadOpportunity = (accountId: string) =>
+    getOpenOpportunities(accountId).sort((a, b) => Number(b.amount) - Number(a.amount))[0];
+
+  const getAccountStage = (account: Account) => getLeadOpportunity(account.id)?.stage || account.stage;
+
+  const formatAmount = (amount: number, currency: string) => {
+    try {
+      return new Intl.NumberFormat("en-US", { style: "currency", currency, notation: "compact", maximumFractionDigits: 1 }).format(amount);
+    } catch (error) {
+      return `${currency} ${amount.toLocaleString()}`;
+    }
+  };
+
+  const handleCreateOpportunity = () => {
+    if (!opportunityAccount) return;
+    if (!opportunityForm.name.trim()) {
+      toast({
+        title: "Missing Name",
+        description: "Please enter a name for the opportunity.",
+        variant: "destructive",
+      });
+      return;
+    }
+    createOpportunityMutation.mutate({ accountId: opportunityAccount.id, data: opportunityForm });
+  };
+
   // Filter and sort accounts
   const filteredAndSortedAccounts = accounts
     .filter((account) => {
@@ -52,7 +170,7 @@ export default function ActiveAccountsPage() {
                            account.industry?.toLowerCase().includes(searchQuery.toLowerCase()) ||
                            account.website?.toLowerCase().includes(searchQuery.toLowerCase());
       
-      const matchesStage = stageFilter === "all" || account.stage === stageFilter;
+      const matchesStage = stageFilter === "all" || getAccountStage(account) === stageFilter;
       const matchesPriority = priorityFilter === "all" || account.priority === priorityFilter;
       const matchesLob = lobFilter === "all" || account.lob === lobFilter;
       
@@ -67,7 +185,7 @@ export default function ActiveAccountsPage() {
           return (priorityOrder[b.priority as keyof typeof priorityOrder] || 0) - 
                  (priorityOrder[a.priority as keyof typeof priorityOrder] || 0);
         case "stage":
-          return a.stage.localeCompare(b.stage);
+          return (getAccountStage(a) || "").localeCompare(getAccountStage(b) || "");
         case "lastContact":
           const aDate = a.lastContactDate ? new Date(a.lastContactDate).getTime() : 0;
           const bDate = b.lastContactDate ? new Date(b.lastContactDate).getTime() : 0;
@@ -288,9 +406,14 @@ export default function ActiveAccountsPage() {
                         <Badge className={getPriorityColor(account.priority)} data-testid={`badge-priority-${account.id}`}>
                           {account.priority}
                         </Badge>
-                        <Badge className={getStageColor(account.stage)} data-testid={`badge-stage-${account.id}`}>
-                          {account.stage}
+                        <Badge className={getStageColor(getAccountStage(account))} data-testid={`badge-stage-${account.id}`}>
+                          {getAccountStage(account)}
                         </Badge>
+                        {account.assignedTo !== user?.id && (
+                          <Badge variant="outline" data-testid={`badge-shared-${account.id}`}>
+                            Shared
+                          </Badge>
+                        )}
                       </div>
                       
                       <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm text-muted-foreground">
@@ -331,10 +454,61 @@ export default function ActiveAccountsPage() {
                         </div>
                         <span>Created: {formatDate(account.createdAt)}</span>
                       </div>
+
+                      {getOpenOpportunities(account.id).length > 0 && (
+                        <div className="mt-3 space-y-2" data-testid={`opportunities-${account.id}`}>
+                          {getOpenOpportunities(account.id).map((opp) => (
+                            <div key={opp.id} className="flex flex-wrap items-center gap-3 text-sm">
+                              <DollarSign className="w-4 h-4 text-muted-foreground" />
+                              <span className="font-medium text-foreground">{opp.name}</span>
+                              <span data-testid={`text-opportunity-amount-${opp.id}`}>
+                                {formatAmount(Number(opp.amount), opp.currency)}
+                              </span>
+                              <span className="text-muted-foreground">
+                                Close: {formatDate(opp.expectedCloseDate)}
+                              </span>
+                              <Select
+                                value={opp.stage}
+                                onValueChange={(stage) => updateStageMutation.mutate({ id: opp.id, stage })}
+                              >
+                                <SelectTrigger className="h-8 w-40" data-testid={`select-opportunity-stage-${opp.id}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {opportunityStages.map((stage) => (
+                                    <SelectItem key={stage} value={stage}>{stage}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
 
                   <div className="flex items-center gap-2 ml-4">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setOpportunityAccount(account);
+                        setOpportunityForm({ ...emptyOpportunityForm, lob: account.lob === "LTS" ? "LTS" : "LSS" });
+                      }}
+                      data-testid={`button-add-opportunity-${account.id}`}
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      Opportunity
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRecordAccount(account)}
+                      data-testid={`button-deal-record-${account.id}`}
+                    >
+                      <ClipboardList className="w-4 h-4 mr-1" />
+                      Deal Record
+                    </Button>
                     <Link href="/research">
                       <Button variant="ghost" size="sm" data-testid={`button-research-${account.id}`}>
                         Research
@@ -352,6 +526,126 @@ export default function ActiveAccountsPage() {
           ))
         )}
       </div>
+
+      {/* Deal Record Dialog */}
+      <Dialog open={!!recordAccount} onOpenChange={(open) => !open && setRecordAccount(null)}>
+        <DialogContent className="sm:max-w-[700px] max-h-[85vh] overflow-y-auto" data-testid="dialog-deal-record">
+          <DialogHeader>
+            <DialogTitle>Deal Record</DialogTitle>
+            <DialogDescription>
+              What is known about {recordAccount?.name}, merged from every processed call.
+            </DialogDescription>
+          </DialogHeader>
+          {recordAccount && <AccountFrameworkRecord accountId={recordAccount.id} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* New Opportunity Dialog */}
+      <Dialog open={!!opportunityAccount} onOpenChange={(open) => !open && setOpportunityAccount(null)}>
+        <DialogContent className="sm:max-w-[500px]" data-testid="dialog-new-opportunity">
+          <DialogHeader>
+            <DialogTitle>New Opportunity</DialogTitle>
+            <DialogDescription>
+              Track a deal for {opportunityAccount?.name} in your pipeline.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="opportunity-name">Name *</Label>
+              <Input
+                id="opportunity-name"
+                value={opportunityForm.name}
+                onChange={(e) => setOpportunityForm({ ...opportunityForm, name: e.target.value })}
+                placeholder="e.g. Sales Navigator expansion"
+                data-testid="input-opportunity-name"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="opportunity-amount">Amount</Label>
+                <Input
+                  id="opportunity-amount"
+                  type="number"
+                  min="0"
+                  value={opportunityForm.amount}
+                  onChange={(e) => setOpportunityForm({ ...opportunityForm, amount: e.target.value })}
+                  data-testid="input-opportunity-amount"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="opportunity-currency">Currency</Label>
+                <Input
+                  id="opportunity-currency"
+                  maxLength={3}
+                  value={opportunityForm.currency}
+                  onChange={(e) => setOpportunityForm({ ...opportunityForm, currency: e.target.value.toUpperCase() })}
+                  data-testid="input-opportunity-currency"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Line of Business</Label>
+                <Select
+                  value={opportunityForm.lob}
+                  onValueChange={(value) => setOpportunityForm({ ...opportunityForm, lob: value as "LTS" | "LSS" })}
+                >
+                  <SelectTrigger data-testid="select-opportunity-lob">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="LTS">LinkedIn Talent Solutions</SelectItem>
+                    <SelectItem value="LSS">LinkedIn Sales Solutions</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Stage</Label>
+                <Select
+                  value={opportunityForm.stage}
+                  onValueChange={(value) => setOpportunityForm({ ...opportunityForm, stage: value })}
+                >
+                  <SelectTrigger data-testid="select-opportunity-stage">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {opportunityStages.map((stage) => (
+                      <SelectItem key={stage} value={stage}>{stage}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="opportunity-close-date">Expected Close Date</Label>
+              <Input
+                id="opportunity-close-date"
+                type="date"
+                value={opportunityForm.expectedCloseDate}
+                onChange={(e) => setOpportunityForm({ ...opportunityForm, expectedCloseDate: e.target.value })}
+                data-testid="input-opportunity-close-date"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpportunityAccount(null)} data-testid="button-cancel-opportunity">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreateOpportunity}
+              disabled={createOpportunityMutation.isPending}
+              data-testid="button-save-opportunity"
+            >
+              {createOpportunityMutation.isPending ? "Saving..." : "Create Opportunity"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useSearch } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -27,6 +28,9 @@ import {
   ExternalLink
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import RevisionHistory from "@/components/revision-history";
+import { formatFrameworkNotes, isFrameworkName } from "@shared/frameworks";
+import { formatFollowUpDraft } from "@shared/follow-ups";
 
 interface Artifact {
   id: string;
@@ -53,9 +57,12 @@ const noteTypes = [
   { value: "MEDDPICC", label: "MEDDPICC Notes" },
   { value: "BANT", label: "BANT Qualification" },
   { value: "LicenseDemandPlan", label: "License Demand Plan" },
+  { value: "FollowUpEmail", label: "Follow-up Drafts" },
 ];
 
 export default function HistoricalNotesPage() {
+  // Search results deep link here with ?highlight=<artifactId>
+  const highlightedId = new URLSearchParams(useSearch()).get("highlight");
   const [searchQuery, setSearchQuery] = useState("");
   const [typeFilter, setTypeFilter] = useState("all");
   const [exportFormat, setExportFormat] = useState("docx");
@@ -63,6 +70,7 @@ export default function HistoricalNotesPage() {
   const [editedContent, setEditedContent] = useState("");
   const [editedTitle, setEditedTitle] = useState("");
   const [selectedNotes, setSelectedNotes] = useState<string[]>([]);
+  const [historyNoteId, setHistoryNoteId] = useState<string | null>(null);
   const { toast } = useToast();
 
   const { data: accounts = [] } = useQuery<Account[]>({
@@ -79,12 +87,20 @@ export default function HistoricalNotesPage() {
     },
   });
 
+  useEffect(() => {
+    if (!highlightedId || artifacts.length === 0) return;
+    document
+      .querySelector(`[data-testid="card-note-${highlightedId}"]`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [highlightedId, artifacts.length]);
+
   const updateNoteMutation = useMutation({
     mutationFn: async ({ id, title, content }: { id: string; title: string; content: any }) => {
       await apiRequest("PUT", `/api/artifacts/${id}`, { title, content });
     },
-    onSuccess: () => {
+    onSuccess: (_data, { id }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/artifacts"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/artifacts/${id}/revisions`] });
       setEditingNote(null);
       toast({
         title: "Note Updated",
@@ -112,7 +128,7 @@ export default function HistoricalNotesPage() {
   const handleEditNote = (note: Artifact) => {
     setEditingNote(note.id);
     setEditedTitle(note.title);
-    setEditedContent(formatContent(note.content));
+    setEditedContent(formatContent(note.content, note.type));
   };
 
   const handleSaveNote = () => {
@@ -126,8 +142,8 @@ export default function HistoricalNotesPage() {
     }
   };
 
-  const handleCopyToClipboard = async (content: any, title: string) => {
-    const textContent = formatContent(content);
+  const handleCopyToClipboard = async (content: any, title: string, type: string) => {
+    const textContent = formatContent(content, type);
     
     const fullContent = `${title}\n\n${textContent}`;
     
@@ -187,7 +203,7 @@ export default function HistoricalNotesPage() {
                 ${note.summary ? `<p><strong>Summary:</strong> ${note.summary}</p>` : ''}
               </div>
               <div class="note-content">
-                <pre>${typeof note.content === 'string' ? note.content : JSON.stringify(note.content, null, 2)}</pre>
+                <pre>${formatContent(note.content, note.type)}</pre>
               </div>
             `).join('')}
           </body>
@@ -234,6 +250,8 @@ export default function HistoricalNotesPage() {
         return "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400";
       case "BANT":
         return "bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400";
+      case "FollowUpEmail":
+        return "bg-teal-100 text-teal-800 dark:bg-teal-900/20 dark:text-teal-400";
       default:
         return "bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-400";
     }
@@ -249,10 +267,18 @@ export default function HistoricalNotesPage() {
     });
   };
 
-  const formatContent = (content: any): string => {
+  const formatContent = (content: any, type?: string): string => {
     if (typeof content === 'string') {
       return content;
     }
+
+    // Framework notes use the same field labels as the playbook page and health scoring
+    if (type && isFrameworkName(type)) {
+      return formatFrameworkNotes(type, content);
+    }
+    if (type === "FollowUpEmail") {
+      return formatFollowUpDraft(content);
+    }
     
     if (typeof content === 'object' && content !== null) {
       // Convert JSON object to readable text format
@@ -452,7 +478,11 @@ export default function HistoricalNotesPage() {
           </Card>
         ) : (
           filteredNotes.map((note) => (
-            <Card key={note.id} className="hover:shadow-md transition-shadow">
+            <Card
+              key={note.id}
+              className={`hover:shadow-md transition-shadow ${note.id === highlightedId ? "ring-2 ring-primary" : ""}`}
+              data-testid={`card-note-${note.id}`}
+            >
               <CardHeader className="pb-3">
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
@@ -504,7 +534,7 @@ export default function HistoricalNotesPage() {
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => handleCopyToClipboard(note.content, note.title)}
+                      onClick={() => handleCopyToClipboard(note.content, note.title, note.type)}
                       data-testid={`button-copy-${note.id}`}
                     >
                       <Copy className="w-4 h-4" />
@@ -538,6 +568,14 @@ export default function HistoricalNotesPage() {
                         <Edit3 className="w-4 h-4" />
                       </Button>
                     )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setHistoryNoteId(historyNoteId === note.id ? null : note.id)}
+                      data-testid={`button-history-${note.id}`}
+                    >
+                      <History className="w-4 h-4" />
+                    </Button>
                   </div>
                 </div>
               </CardHeader>
@@ -559,10 +597,18 @@ export default function HistoricalNotesPage() {
                 ) : (
                   <div className="bg-muted/20 rounded p-4">
                     <pre className="text-sm whitespace-pre-wrap font-mono text-foreground overflow-x-auto">
-                      {formatContent(note.content)}
+                      {formatContent(note.content, note.type)}
                     </pre>
                   </div>
                 )}
+
+                {historyNoteId === note.id && (
+                  <RevisionHistory
+                    revisionsUrl={`/api/artifacts/${note.id}/revisions`}
+                    kind={note.type}
+                    onRestored={() => queryClient.invalidateQueries({ queryKey: ["/api/artifacts"] })}
+                  />
+                )}
               </CardContent>
             </Card>
           ))
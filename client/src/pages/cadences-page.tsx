@@ -0,0 +1,502 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  CheckCircle,
+  Circle,
+  Edit,
+  Mail,
+  MessageSquareReply,
+  Pause,
+  Phone,
+  Play,
+  Plus,
+  Repeat,
+  Send,
+  Trash2,
+  UserPlus,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import CadenceTemplateEditor, {
+  CHANNEL_LABELS,
+  stepDays,
+  type CadenceChannel,
+  type CadenceTemplate,
+} from "@/components/cadence-template-editor";
+
+interface Account {
+  id: string;
+  name: string;
+}
+
+interface Contact {
+  id: string;
+  name: string;
+  title: string | null;
+}
+
+interface CadenceTouch {
+  id: string;
+  position: number;
+  channel: CadenceChannel;
+  title: string;
+  dayOffset: number;
+  subject: string | null;
+  message: string;
+  paused: boolean;
+  nba: { id: string; status: string; dueDate: string } | null;
+}
+
+interface CadenceEnrollment {
+  id: string;
+  templateName: string;
+  contactName: string;
+  status: "active" | "paused";
+  pausedReason: string | null;
+  pausedAt: string | null;
+  completed: boolean;
+  touches: CadenceTouch[];
+}
+
+const CHANNEL_ICONS: Record<CadenceChannel, typeof Mail> = {
+  inmail: Send,
+  email: Mail,
+  call: Phone,
+};
+
+function describeTouchState(touch: CadenceTouch): string {
+  if (touch.paused) return "Paused";
+  if (!touch.nba) return "Removed";
+  return touch.nba.status;
+}
+
+export default function CadencesPage() {
+  const [accountId, setAccountId] = useState("");
+  const [contactId, setContactId] = useState("");
+  const [templateId, setTemplateId] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [editingTemplate, setEditingTemplate] = useState<CadenceTemplate | "new" | null>(null);
+  const [replyEnrollment, setReplyEnrollment] = useState<CadenceEnrollment | null>(null);
+  const [replyNote, setReplyNote] = useState("");
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: accounts = [] } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const { data: templates = [], isLoading: templatesLoading } = useQuery<CadenceTemplate[]>({
+    queryKey: ["/api/cadence-templates"],
+  });
+
+  const { data: contacts = [] } = useQuery<Contact[]>({
+    queryKey: ["/api/accounts", accountId, "contacts"],
+    enabled: !!accountId,
+  });
+
+  const enrollmentsQueryKey = ["/api/accounts", accountId, "cadence-enrollments"];
+  const { data: enrollments = [], isLoading: enrollmentsLoading } = useQuery<CadenceEnrollment[]>({
+    queryKey: enrollmentsQueryKey,
+    enabled: !!accountId,
+  });
+
+  // Enrolling and pausing add and remove NBAs
+  const invalidateEnrollments = () => {
+    queryClient.invalidateQueries({ queryKey: enrollmentsQueryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/nbas"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const enrollMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/accounts/${accountId}/cadence-enrollments`, {
+        templateId,
+        contactId,
+        startDate: startDate ? new Date(`${startDate}T09:00`).toISOString() : undefined,
+        userTimeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      return response.json();
+    },
+    onSuccess: (enrollment: CadenceEnrollment) => {
+      invalidateEnrollments();
+      setContactId("");
+      toast({
+        title: "Contact Enrolled",
+        description: `${enrollment.touches.length} touches were added to your Next Best Actions.`,
+      });
+    },
+    onError: onError("Enrollment Failed"),
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async ({ id, note }: { id: string; note: string }) => {
+      await apiRequest("POST", `/api/cadence-enrollments/${id}/reply`, { note: note || undefined });
+    },
+    onSuccess: () => {
+      invalidateEnrollments();
+      setReplyEnrollment(null);
+      setReplyNote("");
+      toast({
+        title: "Cadence Paused",
+        description: "The remaining touches were taken off your Next Best Actions.",
+      });
+    },
+    onError: onError("Could Not Record Reply"),
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/cadence-enrollments/${id}/resume`, {});
+    },
+    onSuccess: () => {
+      invalidateEnrollments();
+      toast({
+        title: "Cadence Resumed",
+        description: "The remaining touches are back on your Next Best Actions.",
+      });
+    },
+    onError: onError("Could Not Resume"),
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/cadence-enrollments/${id}`);
+    },
+    onSuccess: invalidateEnrollments,
+    onError: onError("Could Not Stop Cadence"),
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/cadence-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cadence-templates"] });
+    },
+    onError: onError("Could Not Delete Template"),
+  });
+
+  const canEditTemplate = (template: CadenceTemplate) =>
+    !!user && (template.createdBy === user.id || user.role === "admin");
+
+  return (
+    <>
+      <div>
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-foreground" data-testid="text-cadences-title">
+            Cadences
+          </h1>
+          <p className="mt-2 text-muted-foreground">
+            Multi-touch outreach sequences that schedule each touch as a Next Best Action
+          </p>
+        </div>
+
+        <Tabs defaultValue="enrollments">
+          <TabsList className="mb-6">
+            <TabsTrigger value="enrollments" data-testid="tab-enrollments">Enrollments</TabsTrigger>
+            <TabsTrigger value="templates" data-testid="tab-templates">Templates</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="enrollments" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <UserPlus className="w-5 h-5" />
+                  Enroll a Contact
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap items-end gap-4">
+                  <div className="flex flex-col space-y-2">
+                    <Label>Account</Label>
+                    <Select value={accountId} onValueChange={(value) => { setAccountId(value); setContactId(""); }}>
+                      <SelectTrigger className="w-56" data-testid="select-cadence-account">
+                        <SelectValue placeholder="Select an account" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {accounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex flex-col space-y-2">
+                    <Label>Contact</Label>
+                    <Select value={contactId} onValueChange={setContactId} disabled={!accountId}>
+                      <SelectTrigger className="w-56" data-testid="select-cadence-contact">
+                        <SelectValue placeholder={contacts.length === 0 && accountId ? "No contacts" : "Select a contact"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {contacts.map((contact) => (
+                          <SelectItem key={contact.id} value={contact.id}>
+                            {contact.name}{contact.title ? ` - ${contact.title}` : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex flex-col space-y-2">
+                    <Label>Cadence</Label>
+                    <Select value={templateId} onValueChange={setTemplateId}>
+                      <SelectTrigger className="w-56" data-testid="select-cadence-template">
+                        <SelectValue placeholder="Select a cadence" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {templates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex flex-col space-y-2">
+                    <Label htmlFor="cadence-start">Start</Label>
+                    <Input
+                      id="cadence-start"
+                      type="date"
+                      className="w-40"
+                      value={startDate}
+                      onChange={(e) => setStartDate(e.target.value)}
+                      data-testid="input-cadence-start"
+                    />
+                  </div>
+                  <Button
+                    onClick={() => enrollMutation.mutate()}
+                    disabled={!accountId || !contactId || !templateId || enrollMutation.isPending}
+                    data-testid="button-enroll-contact"
+                  >
+                    {enrollMutation.isPending ? "Drafting messages..." : "Enroll"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {accountId && !enrollmentsLoading && enrollments.length === 0 && (
+              <p className="text-center text-muted-foreground py-8" data-testid="text-no-enrollments">
+                No contacts on this account are enrolled in a cadence yet.
+              </p>
+            )}
+
+            {enrollments.map((enrollment) => (
+              <Card key={enrollment.id} data-testid={`card-enrollment-${enrollment.id}`}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div>
+                    <CardTitle className="text-lg">{enrollment.contactName}</CardTitle>
+                    <p className="text-sm text-muted-foreground mt-1">{enrollment.templateName}</p>
+                    {enrollment.status === "paused" && enrollment.pausedReason && (
+                      <p className="text-sm text-amber-700 dark:text-amber-400 mt-1" data-testid={`text-paused-reason-${enrollment.id}`}>
+                        {enrollment.pausedReason}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={enrollment.status === "paused" ? "outline" : "secondary"} data-testid={`badge-enrollment-status-${enrollment.id}`}>
+                      {enrollment.completed ? "Completed" : enrollment.status === "paused" ? "Paused" : "Active"}
+                    </Badge>
+                    {enrollment.status === "active" && !enrollment.completed && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setReplyEnrollment(enrollment)}
+                        data-testid={`button-mark-replied-${enrollment.id}`}
+                      >
+                        <MessageSquareReply className="w-4 h-4 mr-2" />
+                        Replied
+                      </Button>
+                    )}
+                    {enrollment.status === "paused" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => resumeMutation.mutate(enrollment.id)}
+                        disabled={resumeMutation.isPending}
+                        data-testid={`button-resume-${enrollment.id}`}
+                      >
+                        <Play className="w-4 h-4 mr-2" />
+                        Resume
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => confirm("Stop this cadence? Touches not done yet are removed from your NBAs.") && stopMutation.mutate(enrollment.id)}
+                      disabled={stopMutation.isPending}
+                      className="text-destructive hover:text-destructive/80"
+                      data-testid={`button-stop-${enrollment.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {enrollment.touches.map((touch) => {
+                    const Icon = CHANNEL_ICONS[touch.channel];
+                    return (
+                      <details key={touch.id} className="border rounded-lg p-3" data-testid={`touch-${touch.id}`}>
+                        <summary className="flex items-center gap-3 cursor-pointer text-sm">
+                          {touch.nba?.status === "Completed" ? (
+                            <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0" />
+                          ) : touch.paused ? (
+                            <Pause className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                          ) : (
+                            <Circle className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                          )}
+                          <span className="w-14 text-muted-foreground">Day {touch.dayOffset + 1}</span>
+                          <Icon className="w-4 h-4 flex-shrink-0" />
+                          <span className="font-medium">{CHANNEL_LABELS[touch.channel]}: {touch.title}</span>
+                          <span className="ml-auto text-muted-foreground">
+                            {touch.nba && touch.nba.status !== "Completed" && `Due ${new Date(touch.nba.dueDate).toLocaleDateString()} · `}
+                            {describeTouchState(touch)}
+                          </span>
+                        </summary>
+                        <div className="mt-3 text-sm whitespace-pre-wrap">
+                          {touch.subject && <p className="font-medium mb-2">Subject: {touch.subject}</p>}
+                          {touch.message}
+                        </div>
+                      </details>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="templates" className="space-y-4">
+            <div className="flex justify-end">
+              <Button onClick={() => setEditingTemplate("new")} data-testid="button-new-template">
+                <Plus className="w-4 h-4 mr-2" />
+                New Template
+              </Button>
+            </div>
+
+            {!templatesLoading && templates.length === 0 && (
+              <div className="text-center py-12">
+                <Repeat className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground" data-testid="text-no-templates">
+                  Create a template to start enrolling contacts
+                </p>
+              </div>
+            )}
+
+            {templates.map((template) => {
+              const days = stepDays(template.steps);
+              return (
+                <Card key={template.id} data-testid={`card-template-${template.id}`}>
+                  <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                    <div>
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        {template.name}
+                        {template.lob && <Badge variant="outline">{template.lob}</Badge>}
+                      </CardTitle>
+                      {template.description && (
+                        <p className="text-sm text-muted-foreground mt-1">{template.description}</p>
+                      )}
+                    </div>
+                    {canEditTemplate(template) && (
+                      <div className="flex gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditingTemplate(template)}
+                          data-testid={`button-edit-template-${template.id}`}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => confirm(`Delete "${template.name}"?`) && deleteTemplateMutation.mutate(template.id)}
+                          disabled={deleteTemplateMutation.isPending}
+                          className="text-destructive hover:text-destructive/80"
+                          data-testid={`button-delete-template-${template.id}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex flex-wrap gap-2">
+                      {template.steps.map((step, index) => {
+                        const Icon = CHANNEL_ICONS[step.channel];
+                        return (
+                          <Badge key={index} variant="secondary" className="gap-1">
+                            <Icon className="w-3 h-3" />
+                            Day {days[index]}: {step.title}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      {/* Template editor */}
+      <Dialog open={!!editingTemplate} onOpenChange={(open) => !open && setEditingTemplate(null)}>
+        <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto" data-testid="dialog-edit-template">
+          <DialogHeader>
+            <DialogTitle>{editingTemplate === "new" ? "New Cadence Template" : "Edit Cadence Template"}</DialogTitle>
+            <DialogDescription>
+              Each step is drafted for the contact and scheduled as a Next Best Action when they are enrolled.
+            </DialogDescription>
+          </DialogHeader>
+          {editingTemplate && (
+            <CadenceTemplateEditor
+              template={editingTemplate === "new" ? null : editingTemplate}
+              onSaved={() => setEditingTemplate(null)}
+              onCancel={() => setEditingTemplate(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Record a reply */}
+      <Dialog open={!!replyEnrollment} onOpenChange={(open) => !open && setReplyEnrollment(null)}>
+        <DialogContent data-testid="dialog-record-reply">
+          <DialogHeader>
+            <DialogTitle>{replyEnrollment?.contactName} replied</DialogTitle>
+            <DialogDescription>
+              The cadence pauses and its remaining touches come off your Next Best Actions until you resume it.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={replyNote}
+            onChange={(e) => setReplyNote(e.target.value)}
+            placeholder="What did they say? (optional)"
+            rows={3}
+            data-testid="textarea-reply-note"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReplyEnrollment(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => replyEnrollment && replyMutation.mutate({ id: replyEnrollment.id, note: replyNote.trim() })}
+              disabled={replyMutation.isPending}
+              data-testid="button-confirm-reply"
+            >
+              Pause Cadence
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,5 +1,6 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
+import { useSearch } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -32,9 +33,14 @@ interface Account {
 }
 
 export default function CompanyResearchPage() {
+  // Deep links from search: /research?accountId=...&researchId=...
+  const searchParams = new URLSearchParams(useSearch());
+  const linkedAccountId = searchParams.get("accountId") || "";
+  const linkedResearchId = searchParams.get("researchId");
+
   const [query, setQuery] = useState("");
   const [lob, setLob] = useState<"LTS" | "LSS" | "">("");
-  const [selectedAccountId, setSelectedAccountId] = useState("");
+  const [selectedAccountId, setSelectedAccountId] = useState(linkedAccountId);
   const [searchResults, setSearchResults] = useState<CompanySearchResult | null>(null);
   const [showSavePrompt, setShowSavePrompt] = useState(false);
   const [searchedQuery, setSearchedQuery] = useState("");
@@ -44,6 +50,20 @@ export default function CompanyResearchPage() {
     queryKey: ["/api/accounts"],
   });
 
+  const { data: savedResearch } = useQuery<Array<{ id: string; query: string; results: CompanySearchResult }>>({
+    queryKey: ["/api/accounts", linkedAccountId, "research"],
+    enabled: !!linkedAccountId && !!linkedResearchId,
+  });
+
+  // Show previously saved research instead of re-running it
+  useEffect(() => {
+    const linked = savedResearch?.find(research => research.id === linkedResearchId);
+    if (!linked) return;
+    setQuery(linked.query);
+    setSearchedQuery(linked.query);
+    setSearchResults(linked.results);
+  }, [savedResearch, linkedResearchId]);
+
   const researchMutation = useMutation({
     mutationFn: async (data: { query: string; lob: string; accountId?: string }) => {
       const response = await apiRequest("POST", "/api/research/company", data);
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -16,11 +16,15 @@ import {
   Filter
 } from "lucide-react";
 import { formatDueDate } from "@/lib/time-utils";
+import { useUserTimeZone } from "@/hooks/use-time-zone";
 
 interface DashboardStats {
   activeAccounts: number;
   completedNBAs: number;
   pipelineValue: string;
+  weightedForecast: string;
+  openOpportunities: number;
+  averageDaysPerStage: number | null;
   pipelineHealth: string;
 }
 
@@ -42,15 +46,9 @@ interface NextBestAction {
 }
 
 export default function DashboardPage() {
-  const [userTimeZone, setUserTimeZone] = useState("America/New_York");
+  const userTimeZone = useUserTimeZone();
   const [priorityFilter, setPriorityFilter] = useState("all");
 
-  // Auto-detect user timezone
-  useEffect(() => {
-    const detected = Intl.DateTimeFormat().resolvedOptions().timeZone;
-    setUserTimeZone(detected);
-  }, []);
-
   const { data: stats, isLoading: statsLoading } = useQuery<DashboardStats>({
     queryKey: ["/api/dashboard/stats"],
   });
@@ -93,10 +91,13 @@ export default function DashboardPage() {
     {
       title: "Pipeline Value",
       value: stats?.pipelineValue || "$0",
+      subtitle: stats
+        ? `${stats.weightedForecast} weighted • ${stats.openOpportunities} open${stats.averageDaysPerStage !== null ? ` • ${stats.averageDaysPerStage}d/stage` : ''}`
+        : undefined,
       icon: DollarSign,
       color: "text-blue-600",
       bgColor: "bg-blue-100",
-      href: "/research",
+      href: "/accounts",
     },
     {
       title: "Pipeline Health",
@@ -150,6 +151,11 @@ export default function DashboardPage() {
                           <p className="text-xl md:text-2xl font-bold text-foreground" data-testid={`text-stat-${stat.title.toLowerCase().replace(/\s+/g, '-')}`}>
                             {statsLoading ? "..." : stat.value}
                           </p>
+                          {"subtitle" in stat && stat.subtitle && (
+                            <p className="text-xs text-muted-foreground" data-testid={`text-stat-subtitle-${stat.title.toLowerCase().replace(/\s+/g, '-')}`}>
+                              {stat.subtitle}
+                            </p>
+                          )}
                         </div>
                       </div>
                     </CardContent>
@@ -19,10 +19,21 @@ import {
   Filter,
   Save,
   X,
-  ArrowUpDown
+  ArrowUpDown,
+  Lock,
+  CornerDownRight
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useUserTimeZone } from "@/hooks/use-time-zone";
 import { formatDueDate } from "@/lib/time-utils";
+import NbaSequencingEditor from "@/components/nba-sequencing-editor";
+
+interface NbaBlocker {
+  id: string;
+  title: string;
+  status: string;
+  kind: "prerequisite" | "subtask";
+}
 
 interface NextBestAction {
   id: string;
@@ -36,6 +47,11 @@ interface NextBestAction {
   dueDate: string;
   userTimeZone?: string;
   link?: string;
+  parentId: string | null;
+  dependsOn: string[];
+  blockedBy: NbaBlocker[];
+  subtaskCount: number;
+  completedSubtaskCount: number;
   createdAt: string;
 }
 
@@ -49,7 +65,7 @@ export default function NbasPage() {
   const [priorityFilter, setPriorityFilter] = useState("");
   const [statusFilter, setStatusFilter] = useState("Open");
   const [sortBy, setSortBy] = useState("dueDate");
-  const [userTimeZone] = useState("America/New_York");
+  const userTimeZone = useUserTimeZone();
   const [editingNBA, setEditingNBA] = useState<NextBestAction | null>(null);
   const [editForm, setEditForm] = useState({
     title: "",
@@ -112,16 +128,25 @@ export default function NbasPage() {
 
   const nbas = sortedNbas;
 
+  // Subtasks are listed under their parent when the parent is shown too
+  const shownIds = new Set(nbas.map(nba => nba.id));
+  const rows = nbas
+    .filter(nba => !nba.parentId || !shownIds.has(nba.parentId))
+    .flatMap(nba => [nba, ...nbas.filter(subtask => subtask.parentId === nba.id)]);
+
   const updateNBAMutation = useMutation({
     mutationFn: async ({ id, updates }: { id: string; updates: Partial<NextBestAction> }) => {
       const response = await apiRequest("PATCH", `/api/nbas/${id}`, updates);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (updated: { unblocked?: Array<{ id: string; title: string }> }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/nbas"] });
+      const unblocked = updated.unblocked || [];
       toast({
         title: "NBA Updated",
-        description: "Next Best Action has been updated successfully.",
+        description: unblocked.length > 0
+          ? `Unblocked: ${unblocked.map(nba => nba.title).join(", ")}`
+          : "Next Best Action has been updated successfully.",
       });
     },
     onError: (error: Error) => {
@@ -395,13 +420,26 @@ export default function NbasPage() {
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {nbas.map((nba) => (
+                      {rows.map((nba) => (
                         <TableRow key={nba.id} data-testid={`nba-row-${nba.id}`}>
                           <TableCell>
-                            <div>
+                            <div className={nba.parentId && shownIds.has(nba.parentId) ? "pl-6 relative" : ""}>
+                              {nba.parentId && shownIds.has(nba.parentId) && (
+                                <CornerDownRight className="w-4 h-4 text-muted-foreground absolute left-0 top-0.5" />
+                              )}
                               <div className="font-medium text-foreground" data-testid={`text-nba-title-${nba.id}`}>
                                 {nba.title}
                               </div>
+                              {nba.subtaskCount > 0 && (
+                                <div className="text-xs text-muted-foreground mt-1" data-testid={`text-nba-subtasks-${nba.id}`}>
+                                  {nba.completedSubtaskCount}/{nba.subtaskCount} subtasks done
+                                </div>
+                              )}
+                              {nba.blockedBy.length > 0 && nba.status !== "Completed" && (
+                                <div className="text-xs text-amber-700 dark:text-amber-400 mt-1" data-testid={`text-nba-blocked-by-${nba.id}`}>
+                                  Waiting on {nba.blockedBy.map(blocker => blocker.title).join(", ")}
+                                </div>
+                              )}
                               {nba.evidence && (
                                 <div className="text-xs text-muted-foreground mt-1" data-testid={`text-nba-evidence-${nba.id}`}>
                                   {nba.evidence}
@@ -430,6 +468,12 @@ export default function NbasPage() {
                               <span className="text-sm" data-testid={`text-nba-status-${nba.id}`}>
                                 {nba.status}
                               </span>
+                              {nba.blockedBy.length > 0 && nba.status !== "Completed" && (
+                                <Badge variant="outline" className="gap-1" data-testid={`badge-nba-blocked-${nba.id}`}>
+                                  <Lock className="w-3 h-3" />
+                                  Blocked
+                                </Badge>
+                              )}
                             </div>
                           </TableCell>
                           <TableCell>
@@ -439,7 +483,8 @@ export default function NbasPage() {
                                   variant="ghost"
                                   size="sm"
                                   onClick={() => handleCompleteNBA(nba.id)}
-                                  disabled={updateNBAMutation.isPending}
+                                  disabled={updateNBAMutation.isPending || nba.blockedBy.length > 0}
+                                  title={nba.blockedBy.length > 0 ? "Complete the actions this is waiting on first" : "Mark completed"}
                                   className="text-green-600 hover:text-green-700"
                                   data-testid={`button-complete-nba-${nba.id}`}
                                 >
@@ -480,7 +525,7 @@ export default function NbasPage() {
 
       {/* Edit NBA Dialog */}
       <Dialog open={!!editingNBA} onOpenChange={(open) => !open && handleCloseEditDialog()}>
-        <DialogContent className="sm:max-w-[600px]" data-testid="dialog-edit-nba">
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto" data-testid="dialog-edit-nba">
           <DialogHeader>
             <DialogTitle>Edit Next Best Action</DialogTitle>
             <DialogDescription>
@@ -571,6 +616,8 @@ export default function NbasPage() {
                 data-testid="input-edit-due-date"
               />
             </div>
+
+            {editingNBA && <NbaSequencingEditor nbaId={editingNBA.id} accountId={editingNBA.accountId} />}
           </div>
           
           <DialogFooter>
@@ -1,5 +1,6 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
+import { useSearch } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -12,8 +13,22 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Input } from "@/components/ui/input";
-import { Loader2, FileText, Lightbulb, Save, Edit, CheckSquare, Plus } from "lucide-react";
+import { Loader2, FileText, Lightbulb, Save, Edit, CheckSquare, Plus, Users, Quote, CheckCircle2, XCircle, Circle, RotateCcw, History } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useUserTimeZone } from "@/hooks/use-time-zone";
+import TranscriptImport from "@/components/transcript-import";
+import AudioUpload from "@/components/audio-upload";
+import RevisionHistory from "@/components/revision-history";
+import FollowUpDraft from "@/components/follow-up-draft";
+import TranscriptSpeakers, { formatTurnTime, speakersQueryKey, type TranscriptSpeakersData } from "@/components/transcript-speakers";
+import {
+  FRAMEWORK_FIELDS,
+  formatFrameworkNotes,
+  isFrameworkName,
+  normalizeFrameworkNotes,
+  type FieldEvidence,
+} from "@shared/frameworks";
+import type { TranscriptTurn } from "@shared/schema";
 
 interface Account {
   id: string;
@@ -27,6 +42,7 @@ interface ProcessTranscriptResult {
     id: string;
     framework: string;
     content: any;
+    evidence?: Record<string, FieldEvidence[]> | null;
   }>;
   nextBestActions: Array<{
     id: string;
@@ -35,8 +51,38 @@ interface ProcessTranscriptResult {
     priority: string;
     dueDate: string;
   }>;
+  contacts: Array<{
+    id: string;
+    name: string;
+    title: string | null;
+    roles: string[];
+  }>;
+}
+
+interface JobStep {
+  key: string;
+  label: string;
+  status: "pending" | "running" | "succeeded" | "failed";
+  attempts: number;
+  error: string | null;
+}
+
+interface TranscriptJob {
+  id: string;
+  status: "queued" | "running" | "succeeded" | "failed";
+  steps: JobStep[];
+  result: ProcessTranscriptResult | null;
+  error: string | null;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
 }
 
+const JOB_POLL_INTERVAL_MS = 1500;
+
+const isJobFinished = (job?: TranscriptJob | null) =>
+  job?.status === "succeeded" || job?.status === "failed";
+
 const frameworks = [
   { id: "Qual-LSS", label: "Qual Notes (LSS)", description: "LinkedIn Sales Solutions qualification" },
   { id: "Qual-LTS", label: "Qual Notes (LTS)", description: "LinkedIn Talent Solutions qualification" },
@@ -46,17 +92,122 @@ const frameworks = [
   { id: "LicenseDemandPlan", label: "License Demand Plan", description: "Sales Navigator planning" },
 ];
 
+function JobStepIcon({ status }: { status: JobStep["status"] }) {
+  if (status === "running") return <Loader2 className="w-4 h-4 animate-spin text-primary" />;
+  if (status === "succeeded") return <CheckCircle2 className="w-4 h-4 text-green-600" />;
+  if (status === "failed") return <XCircle className="w-4 h-4 text-destructive" />;
+  return <Circle className="w-4 h-4 text-muted-foreground" />;
+}
+
+// Shows the transcript with one evidence span highlighted and scrolled into view
+function TranscriptEvidence({
+  transcript,
+  turns,
+  quotes,
+  selectedIndex,
+  onSelect,
+}: {
+  transcript: string;
+  turns?: TranscriptTurn[];
+  quotes: FieldEvidence[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+}) {
+  const markRef = useRef<HTMLElement>(null);
+  const selected = quotes[selectedIndex];
+  const inRange = !!selected && selected.end <= transcript.length;
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [selected]);
+
+  return (
+    <div className="mt-4 pt-4 border-t space-y-3" data-testid="panel-transcript-evidence">
+      <div className="flex flex-wrap gap-2">
+        {quotes.map((quote, index) => {
+          // Cited turns carry the current speaker label, even after relabelling
+          const turn = quote.turnIndex != null ? turns?.[quote.turnIndex] : undefined;
+          return (
+            <Button
+              key={`${quote.start}-${quote.end}`}
+              variant={index === selectedIndex ? "default" : "outline"}
+              size="sm"
+              onClick={() => onSelect(index)}
+              data-testid={`button-evidence-${index}`}
+            >
+              <Quote className="w-3 h-3 mr-1" />
+              {turn?.speaker || quote.speaker || "Unknown speaker"}
+              {quote.turnIndex != null && (
+                <span className="ml-1 opacity-70">
+                  T{quote.turnIndex + 1}{turn?.startMs != null && ` • ${formatTurnTime(turn.startMs)}`}
+                </span>
+              )}
+            </Button>
+          );
+        })}
+      </div>
+      {inRange ? (
+        <div className="max-h-72 overflow-y-auto rounded-md border bg-muted/30 p-3 text-sm whitespace-pre-wrap leading-relaxed" data-testid="text-evidence-transcript">
+          {transcript.slice(0, selected.start)}
+          <mark ref={markRef} className="bg-yellow-200 text-foreground rounded px-0.5">
+            {transcript.slice(selected.start, selected.end)}
+          </mark>
+          {transcript.slice(selected.end)}
+        </div>
+      ) : selected && (
+        <blockquote className="border-l-2 pl-3 text-sm italic text-muted-foreground" data-testid="text-evidence-quote">
+          "{selected.quote}"
+        </blockquote>
+      )}
+    </div>
+  );
+}
+
+// Coaching cites turns as "[T12]" or "[T12, T15]"; each citation shows the turn on hover
+function CoachingGuidanceText({ guidance, turns }: { guidance: string; turns?: TranscriptTurn[] }) {
+  const parts = guidance.split(/(\[T\d+(?:,\s*T\d+)*\])/);
+  return (
+    <>
+      {parts.map((part, index) => {
+        const numbers = /^\[T\d+/.test(part) ? part.slice(1, -1).split(/,\s*/).map(ref => Number(ref.slice(1))) : [];
+        const cited = numbers.map(number => turns?.[number - 1]).filter((turn): turn is TranscriptTurn => !!turn);
+        if (cited.length === 0) return part;
+        return (
+          <span
+            key={index}
+            className="rounded bg-primary/10 px-1 text-primary cursor-help"
+            title={cited.map(turn => `${turn.speaker}: ${turn.text}`).join("\n\n")}
+          >
+            {part}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
 export default function PlaybookNotesPage() {
+  // Deep links from search: /playbook?accountId=...&transcriptId=...&notesId=...
+  const searchParams = new URLSearchParams(useSearch());
+  const linkedAccountId = searchParams.get("accountId") || "";
+  const linkedTranscriptId = searchParams.get("transcriptId");
+  const linkedNotesId = searchParams.get("notesId");
+
   const [transcript, setTranscript] = useState("");
   const [selectedFrameworks, setSelectedFrameworks] = useState<string[]>([]);
-  const [selectedAccountId, setSelectedAccountId] = useState("");
+  const [selectedAccountId, setSelectedAccountId] = useState(linkedAccountId);
   const [accountMode, setAccountMode] = useState<"select" | "create">("select");
   const [newCompanyName, setNewCompanyName] = useState("");
   const [lob, setLob] = useState<"LTS" | "LSS" | "">("")
   const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
   const [editedContent, setEditedContent] = useState<any>({});;
-  const [userTimeZone] = useState("America/New_York");
+  const [historyNoteId, setHistoryNoteId] = useState<string | null>(null);
+  const userTimeZone = useUserTimeZone();
   const [processResults, setProcessResults] = useState<ProcessTranscriptResult | null>(null);
+  // Evidence offsets index into the transcript as processed, not the editable textarea
+  const [processedTranscript, setProcessedTranscript] = useState("");
+  const [activeEvidence, setActiveEvidence] = useState<{ noteId: string; fieldKey: string; index: number } | null>(null);
+  const [processingJobId, setProcessingJobId] = useState<string | null>(null);
   const [showCoaching, setShowCoaching] = useState(false);
   const [coachingGuidance, setCoachingGuidance] = useState("");
   const { toast } = useToast();
@@ -65,6 +216,85 @@ export default function PlaybookNotesPage() {
     queryKey: ["/api/accounts"],
   });
 
+  const { data: transcriptSpeakers } = useQuery<TranscriptSpeakersData>({
+    queryKey: speakersQueryKey(processResults?.transcriptId || ""),
+    enabled: !!processResults?.transcriptId,
+  });
+
+  const { data: linkedTranscripts } = useQuery<Array<{ id: string; content: string }>>({
+    queryKey: ["/api/accounts", linkedAccountId, "transcripts"],
+    enabled: !!linkedAccountId && !!linkedTranscriptId,
+  });
+
+  const { data: linkedNotes } = useQuery<Array<{ id: string; transcriptId: string; framework: string; content: any; evidence: Record<string, FieldEvidence[]> | null }>>({
+    queryKey: ["/api/accounts", linkedAccountId, "notes"],
+    enabled: !!linkedAccountId && !!linkedTranscriptId,
+  });
+
+  // Reopen a saved transcript and its notes, with the linked framework's tab first
+  useEffect(() => {
+    if (!linkedTranscripts || !linkedNotes) return;
+    const linkedTranscript = linkedTranscripts.find(item => item.id === linkedTranscriptId);
+    if (!linkedTranscript) return;
+
+    const notes = linkedNotes
+      .filter(note => note.transcriptId === linkedTranscript.id)
+      .sort((a, b) => Number(b.id === linkedNotesId) - Number(a.id === linkedNotesId));
+
+    setTranscript(linkedTranscript.content);
+    setProcessedTranscript(linkedTranscript.content);
+    setActiveEvidence(null);
+    setSelectedFrameworks(notes.map(note => note.framework));
+    setProcessResults({
+      transcriptId: linkedTranscript.id,
+      frameworkNotes: notes,
+      nextBestActions: [],
+      contacts: [],
+    });
+  }, [linkedTranscripts, linkedNotes, linkedTranscriptId, linkedNotesId]);
+
+  // Poll the background job until every step has finished
+  const { data: processingJob } = useQuery<TranscriptJob>({
+    queryKey: ["/api/jobs", processingJobId],
+    enabled: !!processingJobId,
+    refetchInterval: (query) => (isJobFinished(query.state.data) ? false : JOB_POLL_INTERVAL_MS),
+  });
+  const notifiedJobRef = useRef<string | null>(null);
+
+  // Show notes as each framework completes, keeping any edits already made on the page
+  useEffect(() => {
+    const result = processingJob?.result;
+    if (!result?.transcriptId) return;
+    setProcessResults(prev => ({
+      ...result,
+      frameworkNotes: result.frameworkNotes.map(note =>
+        prev?.frameworkNotes.find(existing => existing.id === note.id) || note
+      ),
+    }));
+  }, [processingJob?.result]);
+
+  useEffect(() => {
+    if (!processingJob || !isJobFinished(processingJob)) return;
+    const notification = `${processingJob.id}:${processingJob.status}:${processingJob.attempts}`;
+    if (notifiedJobRef.current === notification) return;
+    notifiedJobRef.current = notification;
+
+    queryClient.invalidateQueries({ queryKey: ["/api/nbas"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/artifacts"] });
+    if (processingJob.status === "succeeded") {
+      toast({
+        title: "Transcript Processed",
+        description: "Framework notes and NBAs have been generated successfully.",
+      });
+    } else {
+      toast({
+        title: "Processing Incomplete",
+        description: processingJob.error || "Some steps failed. You can re-run them below.",
+        variant: "destructive",
+      });
+    }
+  }, [processingJob, toast]);
+
   const createAccountMutation = useMutation({
     mutationFn: async (name: string) => {
       if (!lob) {
@@ -108,18 +338,35 @@ export default function PlaybookNotesPage() {
       const response = await apiRequest("POST", "/api/transcripts/process", data);
       return response.json();
     },
-    onSuccess: (data: ProcessTranscriptResult) => {
-      setProcessResults(data);
+    onSuccess: (job: TranscriptJob, variables) => {
+      queryClient.setQueryData(["/api/jobs", job.id], job);
+      setProcessingJobId(job.id);
+      setProcessResults(null);
+      setProcessedTranscript(variables.transcriptContent);
+      setActiveEvidence(null);
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Transcript Processed",
-        description: "Framework notes and NBAs have been generated successfully.",
+        title: "Processing Failed",
+        description: error.message,
+        variant: "destructive",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/nbas"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/artifacts"] });
+    },
+  });
+
+  const isProcessing = processTranscriptMutation.isPending || (!!processingJob && !isJobFinished(processingJob));
+
+  const retryStepMutation = useMutation({
+    mutationFn: async (data: { jobId: string; step: string }) => {
+      const response = await apiRequest("POST", `/api/jobs/${data.jobId}/retry`, { step: data.step });
+      return response.json();
+    },
+    onSuccess: (job: TranscriptJob) => {
+      queryClient.setQueryData(["/api/jobs", job.id], job);
     },
     onError: (error: Error) => {
       toast({
-        title: "Processing Failed",
+        title: "Retry Failed",
         description: error.message,
         variant: "destructive",
       });
@@ -129,6 +376,7 @@ export default function PlaybookNotesPage() {
   const coachingMutation = useMutation({
     mutationFn: async (data: {
       transcript: string;
+      transcriptId?: string;
       frameworks: string[];
       frameworkNotes: any[];
       lob: string;
@@ -161,18 +409,8 @@ export default function PlaybookNotesPage() {
       return response.json();
     },
     onSuccess: (updatedNote) => {
-      // Update the processResults with the new content
-      setProcessResults(prev => {
-        if (!prev) return prev;
-        return {
-          ...prev,
-          frameworkNotes: prev.frameworkNotes.map(note => 
-            note.id === updatedNote.id 
-              ? { ...note, content: updatedNote.content }
-              : note
-          )
-        };
-      });
+      applyUpdatedNote(updatedNote);
+      queryClient.invalidateQueries({ queryKey: [`/api/framework-notes/${updatedNote.id}/revisions`] });
       setEditingNoteId(null);
       setEditedContent({});
       toast({
@@ -189,6 +427,21 @@ export default function PlaybookNotesPage() {
     },
   });
 
+  // Shows saved or restored notes in place of the version on screen
+  const applyUpdatedNote = (updatedNote: { id: string; content: any; evidence: Record<string, FieldEvidence[]> | null }) => {
+    setProcessResults(prev => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        frameworkNotes: prev.frameworkNotes.map(note => 
+          note.id === updatedNote.id 
+            ? { ...note, content: updatedNote.content, evidence: updatedNote.evidence }
+            : note
+        )
+      };
+    });
+  };
+
   const handleFrameworkToggle = (frameworkId: string) => {
     setSelectedFrameworks(prev => 
       prev.includes(frameworkId)
@@ -265,6 +518,7 @@ export default function PlaybookNotesPage() {
 
     coachingMutation.mutate({
       transcript,
+      transcriptId: processResults.transcriptId,
       frameworks: selectedFrameworks,
       frameworkNotes: processResults.frameworkNotes,
       lob,
@@ -281,9 +535,9 @@ export default function PlaybookNotesPage() {
     return uniqueSpeakers.size;
   };
 
-  const handleEditNote = (noteId: string, content: any) => {
+  const handleEditNote = (noteId: string, framework: string, content: any) => {
     setEditingNoteId(noteId);
-    setEditedContent(convertToText(content));
+    setEditedContent(convertToText(content, framework));
   };
 
   const handleSaveNote = (noteId: string) => {
@@ -302,10 +556,15 @@ export default function PlaybookNotesPage() {
     setEditedContent(newValue);
   };
 
-  const convertToText = (content: any): string => {
+  const convertToText = (content: any, framework?: string): string => {
     if (typeof content === 'string') {
       return content;
     }
+
+    // Framework notes render with the schema's labels so edits parse back on save
+    if (framework && isFrameworkName(framework)) {
+      return formatFrameworkNotes(framework, content);
+    }
     
     if (typeof content === 'object' && content !== null) {
       // Convert JSON object to readable text format
@@ -343,12 +602,73 @@ export default function PlaybookNotesPage() {
   };
 
 
-  const renderFrameworkContent = (framework: string, content: any, noteId: string) => {
+  const handleShowEvidence = (noteId: string, fieldKey: string) => {
+    setActiveEvidence(prev =>
+      prev?.noteId === noteId && prev.fieldKey === fieldKey ? null : { noteId, fieldKey, index: 0 }
+    );
+  };
+
+  // One row per schema field; fields with evidence open the supporting transcript span
+  const renderFrameworkFields = (
+    framework: string,
+    content: any,
+    noteId: string,
+    evidence: Record<string, FieldEvidence[]> | null | undefined
+  ) => {
+    if (!isFrameworkName(framework)) return null;
+    const notes = normalizeFrameworkNotes(framework, content);
+
+    return (
+      <div className="space-y-1">
+        {FRAMEWORK_FIELDS[framework]
+          .filter(field => notes[field.key] !== undefined)
+          .map(field => {
+            const value = notes[field.key]!;
+            const quotes = evidence?.[field.key] || [];
+            const isActive = activeEvidence?.noteId === noteId && activeEvidence.fieldKey === field.key;
+            return (
+              <button
+                key={field.key}
+                type="button"
+                disabled={quotes.length === 0}
+                onClick={() => handleShowEvidence(noteId, field.key)}
+                className={`w-full text-left rounded-md p-2 transition-colors ${quotes.length > 0 ? "hover:bg-muted cursor-pointer" : "cursor-default"} ${isActive ? "bg-primary/10 ring-1 ring-primary" : ""}`}
+                data-testid={`field-${framework}-${field.key}`}
+              >
+                <div className="flex items-center gap-2 font-medium text-foreground">
+                  {field.label}
+                  {quotes.length > 0 && (
+                    <Badge variant="outline" className="text-xs font-normal" title="Supported by transcript quotes">
+                      <Quote className="w-3 h-3 mr-1" />
+                      {quotes.length}
+                    </Badge>
+                  )}
+                </div>
+                <div className="text-muted-foreground whitespace-pre-wrap leading-relaxed">
+                  {Array.isArray(value) ? value.join("; ") : value}
+                </div>
+              </button>
+            );
+          })}
+        {notes.errorNote && (
+          <p className="p-2 text-muted-foreground italic">{notes.errorNote}</p>
+        )}
+      </div>
+    );
+  };
+
+  const renderFrameworkContent = (
+    framework: string,
+    content: any,
+    noteId: string,
+    evidence?: Record<string, FieldEvidence[]> | null
+  ) => {
     if (!content) return null;
 
     const isEditing = editingNoteId === noteId;
-    const textContent = convertToText(content);
+    const textContent = convertToText(content, framework);
     const displayContent = isEditing ? editedContent : textContent;
+    const quotes = activeEvidence?.noteId === noteId ? evidence?.[activeEvidence.fieldKey] || [] : [];
 
     return (
       <div className="space-y-3 text-sm">
@@ -362,11 +682,22 @@ export default function PlaybookNotesPage() {
               data-testid={`textarea-edit-${framework}`}
             />
           </div>
+        ) : typeof content === 'object' && isFrameworkName(framework) ? (
+          renderFrameworkFields(framework, content, noteId, evidence)
         ) : (
           <div className="text-muted-foreground whitespace-pre-wrap leading-relaxed">
             {displayContent || 'No notes available'}
           </div>
         )}
+        {!isEditing && activeEvidence && quotes.length > 0 && (
+          <TranscriptEvidence
+            transcript={processedTranscript}
+            turns={transcriptSpeakers?.turns}
+            quotes={quotes}
+            selectedIndex={activeEvidence.index}
+            onSelect={(index) => setActiveEvidence({ ...activeEvidence, index })}
+          />
+        )}
         {isEditing && (
           <div className="flex space-x-2 mt-4 pt-4 border-t">
             <Button 
@@ -509,10 +840,10 @@ export default function PlaybookNotesPage() {
                       </div>
                       <Button 
                         onClick={handleProcessTranscript}
-                        disabled={processTranscriptMutation.isPending || createAccountMutation.isPending}
+                        disabled={isProcessing || createAccountMutation.isPending}
                         data-testid="button-process-transcript"
                       >
-                        {(processTranscriptMutation.isPending || createAccountMutation.isPending) ? (
+                        {(isProcessing || createAccountMutation.isPending) ? (
                           <>
                             <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                             {createAccountMutation.isPending ? "Creating Company..." : "Processing..."}
@@ -525,6 +856,37 @@ export default function PlaybookNotesPage() {
                   </div>
                 </CardContent>
               </Card>
+
+              <TranscriptImport
+                accounts={accounts}
+                defaultAccountId={selectedAccountId}
+                frameworks={selectedFrameworks}
+                lob={lob}
+                userTimeZone={userTimeZone}
+                onOpen={({ jobId, content, accountId }) => {
+                  setAccountMode("select");
+                  setSelectedAccountId(accountId);
+                  setTranscript(content);
+                  setProcessedTranscript(content);
+                  setProcessingJobId(jobId);
+                  setProcessResults(null);
+                  setActiveEvidence(null);
+                }}
+              />
+
+              <AudioUpload
+                accountId={accountMode === "select" ? selectedAccountId : ""}
+                frameworks={selectedFrameworks}
+                lob={lob}
+                userTimeZone={userTimeZone}
+                onProcessingQueued={({ jobId, content }) => {
+                  setTranscript(content);
+                  setProcessedTranscript(content);
+                  setProcessingJobId(jobId);
+                  setProcessResults(null);
+                  setActiveEvidence(null);
+                }}
+              />
             </div>
 
             {/* Framework Selector */}
@@ -561,10 +923,10 @@ export default function PlaybookNotesPage() {
                   <Button 
                     className="w-full mt-6" 
                     onClick={handleProcessTranscript}
-                    disabled={processTranscriptMutation.isPending || createAccountMutation.isPending || selectedFrameworks.length === 0}
+                    disabled={isProcessing || createAccountMutation.isPending || selectedFrameworks.length === 0}
                     data-testid="button-generate-notes"
                   >
-                    {(processTranscriptMutation.isPending || createAccountMutation.isPending) ? (
+                    {(isProcessing || createAccountMutation.isPending) ? (
                       <>
                         <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                         {createAccountMutation.isPending ? "Creating Company..." : "Generating..."}
@@ -578,8 +940,59 @@ export default function PlaybookNotesPage() {
             </div>
           </div>
 
+          {/* Processing Progress */}
+          {processingJob && (
+            <Card className="mt-8" data-testid="card-processing-progress">
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Processing Progress</CardTitle>
+                <Badge
+                  variant={processingJob.status === "failed" ? "destructive" : processingJob.status === "succeeded" ? "default" : "secondary"}
+                  data-testid="badge-job-status"
+                >
+                  {processingJob.status === "queued" && processingJob.attempts > 0 ? "retrying" : processingJob.status}
+                </Badge>
+              </CardHeader>
+              <CardContent>
+                {processingJob.status === "queued" && processingJob.attempts > 0 && processingJob.error && (
+                  <Alert className="mb-4">
+                    <AlertDescription data-testid="text-job-retrying">
+                      Attempt {processingJob.attempts} of {processingJob.maxAttempts} did not finish ({processingJob.error}). Retrying automatically.
+                    </AlertDescription>
+                  </Alert>
+                )}
+                <div className="space-y-2">
+                  {processingJob.steps.map((step) => (
+                    <div key={step.key} className="flex items-center justify-between gap-4 text-sm" data-testid={`job-step-${step.key}`}>
+                      <div className="flex items-center gap-2 min-w-0">
+                        <JobStepIcon status={step.status} />
+                        <span className="font-medium">{step.label}</span>
+                        {step.error && (
+                          <span className="text-xs text-destructive truncate" title={step.error}>
+                            {step.error}
+                          </span>
+                        )}
+                      </div>
+                      {step.status === "failed" && processingJob.status === "failed" && step.key.startsWith("framework:") && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => retryStepMutation.mutate({ jobId: processingJob.id, step: step.key })}
+                          disabled={retryStepMutation.isPending}
+                          data-testid={`button-retry-${step.key}`}
+                        >
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                          Re-run
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Generated Notes */}
-          {processResults && (
+          {processResults && processResults.frameworkNotes.length > 0 && (
             <div className="mt-8">
               <div className="flex items-center justify-between mb-6">
                 <h2 className="text-2xl font-bold text-foreground">Generated Notes</h2>
@@ -588,7 +1001,11 @@ export default function PlaybookNotesPage() {
                 </Badge>
               </div>
 
-              <Tabs defaultValue={processResults.frameworkNotes[0]?.framework || ""} className="space-y-6">
+              <Tabs
+                key={processResults.frameworkNotes[0].framework}
+                defaultValue={processResults.frameworkNotes[0].framework}
+                className="space-y-6"
+              >
                 <TabsList className="grid w-full grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6">
                   {processResults.frameworkNotes.map((note) => (
                     <TabsTrigger 
@@ -613,23 +1030,41 @@ export default function PlaybookNotesPage() {
                             <Button 
                               variant="outline" 
                               size="sm" 
-                              onClick={() => handleEditNote(note.id, note.content)}
+                              onClick={() => handleEditNote(note.id, note.framework, note.content)}
                               data-testid={`button-edit-${note.framework}`}
                             >
                               <Edit className="w-4 h-4 mr-2" />
                               Edit
                             </Button>
+                            <Button 
+                              variant="outline" 
+                              size="sm" 
+                              onClick={() => setHistoryNoteId(historyNoteId === note.id ? null : note.id)}
+                              data-testid={`button-history-${note.framework}`}
+                            >
+                              <History className="w-4 h-4 mr-2" />
+                              History
+                            </Button>
                           </div>
                         )}
                       </CardHeader>
                       <CardContent>
-                        {renderFrameworkContent(note.framework, note.content, note.id)}
+                        {renderFrameworkContent(note.framework, note.content, note.id, note.evidence)}
+                        {historyNoteId === note.id && (
+                          <RevisionHistory
+                            revisionsUrl={`/api/framework-notes/${note.id}/revisions`}
+                            kind={note.framework}
+                            onRestored={applyUpdatedNote}
+                          />
+                        )}
                       </CardContent>
                     </Card>
                   </TabsContent>
                 ))}
               </Tabs>
 
+              <TranscriptSpeakers transcriptId={processResults.transcriptId} />
+
               {/* Coaching Prompt */}
               <Card className="mt-8 bg-muted/50">
                 <CardContent className="pt-6">
@@ -675,13 +1110,19 @@ export default function PlaybookNotesPage() {
                   <CardContent>
                     <div className="prose prose-sm max-w-none text-muted-foreground">
                       <pre className="whitespace-pre-wrap font-sans" data-testid="text-coaching-guidance">
-                        {coachingGuidance}
+                        <CoachingGuidanceText guidance={coachingGuidance} turns={transcriptSpeakers?.turns} />
                       </pre>
                     </div>
                   </CardContent>
                 </Card>
               )}
 
+              <FollowUpDraft
+                transcriptId={processResults.transcriptId}
+                lob={lob || undefined}
+                turns={transcriptSpeakers?.turns}
+              />
+
               {/* Next Best Actions Summary */}
               {processResults.nextBestActions.length > 0 && (
                 <Alert className="mt-6">
@@ -691,6 +1132,21 @@ export default function PlaybookNotesPage() {
                   </AlertDescription>
                 </Alert>
               )}
+
+              {/* Stakeholders Summary */}
+              {processResults.contacts?.length > 0 && (
+                <Alert className="mt-4">
+                  <Users className="h-4 w-4" />
+                  <AlertDescription>
+                    <strong>{processResults.contacts.length} stakeholder{processResults.contacts.length !== 1 ? 's' : ''}</strong> saved to this account:{' '}
+                    <span data-testid="text-stakeholders">
+                      {processResults.contacts
+                        .map(contact => contact.roles.length > 0 ? `${contact.name} (${contact.roles.join(', ')})` : contact.name)
+                        .join('; ')}
+                    </span>
+                  </AlertDescription>
+                </Alert>
+              )}
             </div>
           )}
         </div>
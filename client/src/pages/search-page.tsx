@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, FileText, BookOpen, Database, Building, Loader2, ChevronRight } from "lucide-react";
+
+interface SearchResult {
+  type: "transcript" | "framework_note" | "artifact" | "research";
+  id: string;
+  accountId: string;
+  accountName: string | null;
+  title: string;
+  snippet: string;
+  highlights: Array<[number, number]>;
+  score: number;
+  link: string;
+  createdAt: string | null;
+}
+
+interface SearchResponse {
+  query: string;
+  mode: "lexical" | "hybrid";
+  results: SearchResult[];
+}
+
+const sourceTypes = [
+  { value: "transcript", label: "Transcripts", icon: FileText },
+  { value: "framework_note", label: "Framework Notes", icon: BookOpen },
+  { value: "artifact", label: "Historical Notes", icon: Database },
+  { value: "research", label: "Company Research", icon: Building },
+];
+
+function HighlightedSnippet({ snippet, highlights }: { snippet: string; highlights: Array<[number, number]> }) {
+  const parts: JSX.Element[] = [];
+  let cursor = 0;
+  highlights.forEach(([start, end], index) => {
+    if (start > cursor) {
+      parts.push(<span key={`text-${index}`}>{snippet.slice(cursor, start)}</span>);
+    }
+    parts.push(
+      <mark key={`mark-${index}`} className="bg-yellow-200 text-foreground rounded px-0.5">
+        {snippet.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < snippet.length) {
+    parts.push(<span key="text-end">{snippet.slice(cursor)}</span>);
+  }
+  return <>{parts}</>;
+}
+
+export default function SearchPage() {
+  const initialQuery = new URLSearchParams(useSearch()).get("q") || "";
+  const [input, setInput] = useState(initialQuery);
+  const [submittedQuery, setSubmittedQuery] = useState(initialQuery);
+  const [typeFilter, setTypeFilter] = useState("all");
+
+  const { data, isLoading, isError } = useQuery<SearchResponse>({
+    queryKey: ["/api/search", { q: submittedQuery, types: typeFilter }],
+    queryFn: ({ queryKey }) => {
+      const [, filters] = queryKey as [string, any];
+      const params = new URLSearchParams({ q: filters.q });
+      if (filters.types !== "all") params.append("types", filters.types);
+
+      return fetch(`/api/search?${params.toString()}`, { credentials: "include" }).then(res => {
+        if (!res.ok) throw new Error("Search failed");
+        return res.json();
+      });
+    },
+    enabled: submittedQuery.trim().length >= 2,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmittedQuery(input.trim());
+  };
+
+  const results = data?.results || [];
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-foreground" data-testid="text-search-title">
+          Search
+        </h1>
+        <p className="mt-2 text-muted-foreground">
+          Find anything said or written across transcripts, framework notes, historical notes and research
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex flex-col md:flex-row gap-3 mb-6">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder='Try "budget approval" or "Sales Navigator seats"'
+            className="pl-9"
+            data-testid="input-search"
+          />
+        </div>
+        <Select value={typeFilter} onValueChange={setTypeFilter}>
+          <SelectTrigger className="md:w-56" data-testid="select-search-type">
+            <SelectValue placeholder="All sources" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All sources</SelectItem>
+            {sourceTypes.map((type) => (
+              <SelectItem key={type.value} value={type.value}>
+                {type.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="submit" disabled={input.trim().length < 2} data-testid="button-search">
+          Search
+        </Button>
+      </form>
+
+      {isLoading && submittedQuery && (
+        <div className="flex items-center gap-2 text-muted-foreground" data-testid="status-search-loading">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Searching...
+        </div>
+      )}
+
+      {isError && (
+        <p className="text-destructive" data-testid="text-search-error">
+          Search failed. Please try again.
+        </p>
+      )}
+
+      {data && results.length === 0 && (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground" data-testid="text-search-empty">
+            No matches for "{data.query}".
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="space-y-3">
+        {results.map((result) => {
+          const sourceType = sourceTypes.find((type) => type.value === result.type);
+          const Icon = sourceType?.icon || FileText;
+          return (
+            <Link key={`${result.type}-${result.id}`} href={result.link}>
+              <Card className="hover:shadow-md transition-shadow cursor-pointer" data-testid={`card-search-result-${result.id}`}>
+                <CardContent className="p-4">
+                  <div className="flex items-start gap-3">
+                    <div className="p-2 bg-primary/10 rounded-lg">
+                      <Icon className="w-4 h-4 text-primary" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1 flex-wrap">
+                        <h3 className="font-medium text-foreground truncate" data-testid={`text-result-title-${result.id}`}>
+                          {result.title}
+                        </h3>
+                        <Badge variant="secondary">{sourceType?.label || result.type}</Badge>
+                        {result.accountName && (
+                          <Badge variant="outline">{result.accountName}</Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground" data-testid={`text-result-snippet-${result.id}`}>
+                        <HighlightedSnippet snippet={result.snippet} highlights={result.highlights} />
+                      </p>
+                      {result.createdAt && (
+                        <p className="text-xs text-muted-foreground mt-2">
+                          {new Date(result.createdAt).toLocaleDateString()}
+                        </p>
+                      )}
+                    </div>
+                    <ChevronRight className="w-4 h-4 text-muted-foreground mt-1" />
+                  </div>
+                </CardContent>
+              </Card>
+            </Link>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
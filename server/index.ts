@@ -1,6 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startJobWorker } from "./services/job-queue";
+import { registerTranscriptJobs } from "./services/notes-generation";
+import { registerAudioJobs } from "./services/audio-ingestion";
+import { startNbaScheduler } from "./services/nba-scheduler";
 
 const app = express();
 app.use(express.json());
@@ -67,6 +71,20 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Set JOB_WORKER_ENABLED=false to serve requests without processing queued jobs
+    registerTranscriptJobs();
+    registerAudioJobs();
+    if (process.env.JOB_WORKER_ENABLED !== "false") {
+      startJobWorker();
+      log("job worker started");
+    }
+
+    // Set NBA_SCHEDULER_ENABLED=false to serve requests without marking NBAs overdue or sending reminders
+    if (process.env.NBA_SCHEDULER_ENABLED !== "false") {
+      startNbaScheduler();
+      log("NBA scheduler started");
+    }
   }).on('error', (err) => {
     log(`Server failed to start: ${err.message}`);
     process.exit(1);
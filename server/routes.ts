@@ -1,53 +1,520 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import { setupAuth } from "./auth";
+import multer from "multer";
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  setupAuth,
+  isAuthenticated,
+  requireRole,
+  toPublicUser,
+} from "./auth";
 import { storage } from "./storage";
+import {
+  getAccessScope,
+  getRequestScope,
+  getAccessibleAccounts,
+  getAccessibleAccountIds,
+  canAccessAccount,
+  canAccessAccountRecord,
+  canAddTeamMember,
+  canManageTeam,
+  requireAccountAccess,
+} from "./services/access-control";
 import {
   searchCompany,
   getCompanyFromUrl,
   vectorSearchCorpus,
 } from "./services/company-research";
-import { processTranscript } from "./services/notes-generation";
+import { enqueueTranscriptProcessing } from "./services/notes-generation";
+import { AUDIO_UPLOAD_DIR, enqueueAudioTranscription } from "./services/audio-ingestion";
+import { AUDIO_EXTENSIONS, getTranscriptionProvider } from "./services/transcription";
+import { formatTurns, parseTranscriptFile } from "./services/transcript-import";
+import {
+  computeSpeakerStats,
+  countSpeakers,
+  formatNumberedTurns,
+  getTranscriptTurns,
+  relabelEvidence,
+  relabelSpeaker,
+} from "./services/transcript-turns";
+import { resolveRecordConflict } from "./services/framework-records";
+import { draftFollowUp } from "./services/follow-ups";
+import {
+  ensureArtifactBaseline,
+  ensureNotesBaseline,
+  recordArtifactRevision,
+  recordNotesRevision,
+  restoreArtifactRevision,
+  restoreNotesRevision,
+} from "./services/revisions";
+import {
+  addNbaDependency,
+  completeNextBestAction,
+  createNbaSubtask,
+  getSequencedNba,
+  withSequencing,
+  NbaBlockedError,
+  NbaSequencingError,
+} from "./services/nba-sequencing";
+import {
+  enrollContact,
+  pauseEnrollment,
+  resumeEnrollment,
+  stopEnrollment,
+  withEnrollmentDetails,
+  withSteps,
+} from "./services/cadences";
+import { isJobFinished, retryJob } from "./services/job-queue";
 import { generateCoachingGuidance } from "./services/openai";
 import {
   calculatePipelineHealth,
   calculateBulkPipelineHealth,
 } from "./services/pipeline-health";
-import { classifyIntent, dispatchAction } from "./services/agent";
+import { resolvePendingAction, runAgentChat, type AgentEvents } from "./services/agent";
+import {
+  assembleContext,
+  openConversation,
+  recordReply,
+  recordUserMessage,
+  setActiveAccount,
+} from "./services/conversations";
+import { searchContent } from "./services/search";
+import { ingestDocument, reindexDocument } from "./services/corpus";
+import {
+  summarizeOpportunities,
+  formatCompactCurrency,
+} from "./services/opportunity-metrics";
 import {
   insertAccountSchema,
   insertCompanyResearchSchema,
   insertArtifactSchema,
+  insertContactSchema,
+  insertOpportunitySchema,
   agentChatRequestSchema,
+  updateUserAccessSchema,
+  updateUserPreferencesSchema,
+  insertTeamSchema,
+  insertTeamMemberSchema,
+  insertAccountCollaboratorSchema,
+  searchQuerySchema,
+  ingestCorpusDocumentSchema,
+  vectorSearchRequestSchema,
+  retryJobSchema,
+  importTranscriptsSchema,
+  uploadAudioSchema,
+  relabelSpeakerSchema,
+  resolveRecordConflictSchema,
+  updateArtifactSchema,
+  addNbaDependencySchema,
+  updateNextBestActionSchema,
+  createNbaSubtaskSchema,
+  cadenceTemplateRequestSchema,
+  enrollContactSchema,
+  recordCadenceReplySchema,
+  draftFollowUpSchema,
+  renameConversationSchema,
+  type Conversation,
+  type TranscriptTurn,
+  type AgentChatRequest,
+  type AgentChatResponse,
+  type AgentStreamEvent,
+  type InsertArtifact,
 } from "@shared/schema";
+import {
+  FRAMEWORK_FIELDS,
+  FRAMEWORK_SCHEMA_VERSION,
+  isFrameworkName,
+  normalizeFrameworkNotes,
+  repairFrameworkNotes,
+  validateFrameworkNotes,
+  type FrameworkName,
+} from "@shared/frameworks";
+import { parseFollowUpDraftText, type FollowUpDraftContent } from "@shared/follow-ups";
 import { z } from "zod";
 
-function isAuthenticated(req: any, res: any, next: any) {
-  // Authentication disabled for now - bypassing all checks but providing mock user
-  req.user = {
-    id: "123e4567-e89b-12d3-a456-426614174000",
-    username: "demo_user",
-    email: "demo@sena.ai",
-    firstName: "Demo",
-    lastName: "User",
-    role: "sdr",
+const corpusUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 20 * 1024 * 1024 },
+});
+
+const MAX_TRANSCRIPT_FILES = 20;
+const transcriptUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 20 * 1024 * 1024, files: MAX_TRANSCRIPT_FILES },
+});
+
+// Recordings go to disk rather than memory; the transcription job deletes them
+const audioUpload = multer({
+  dest: AUDIO_UPLOAD_DIR,
+  limits: { fileSize: 500 * 1024 * 1024 },
+});
+
+// Account resolvers for requireAccountAccess
+const accountFromParam =
+  (name: string) =>
+  (req: Request): string | undefined =>
+    req.params[name];
+const accountOfContact = async (req: Request) =>
+  (await storage.getContact(req.params.id))?.accountId;
+const accountOfOpportunity = async (req: Request) =>
+  (await storage.getOpportunity(req.params.id))?.accountId;
+const accountOfTranscript = async (req: Request) =>
+  (await storage.getTranscript(req.params.id))?.accountId;
+const accountOfFrameworkNote = async (req: Request) =>
+  (await storage.getFrameworkNote(req.params.id))?.accountId;
+const accountOfNba = async (req: Request) =>
+  (await storage.getNextBestAction(req.params.id))?.accountId;
+const accountOfArtifact = async (req: Request) =>
+  (await storage.getArtifact(req.params.id))?.accountId;
+const accountOfJob = async (req: Request) =>
+  (await storage.getJob(req.params.id))?.accountId;
+const accountOfCadenceEnrollment = async (req: Request) =>
+  (await storage.getCadenceEnrollment(req.params.id))?.accountId;
+
+const JOB_EVENTS_POLL_MS = 1000;
+
+// Giving an opportunity to someone other than the caller or its current owner takes
+// manage rights, and the new owner must exist and be able to see the account.
+// Returns the error response to send, if any.
+async function checkOpportunityOwner(
+  req: Request,
+  accountId: string,
+  owner: string | undefined,
+  currentOwner?: string,
+): Promise<{ status: number; message: string } | undefined> {
+  if (!owner || owner === req.user!.id || owner === currentOwner) return undefined;
+  if (!(await canAccessAccount(await getRequestScope(req), accountId, "manage"))) {
+    return { status: 403, message: "Only the account's owner or their manager can assign this opportunity to someone else" };
+  }
+  const user = await storage.getUser(owner);
+  if (!user) {
+    return { status: 404, message: "User not found" };
+  }
+  if (!(await canAccessAccount(await getAccessScope(user), accountId))) {
+    return { status: 400, message: "The new owner does not have access to this account" };
+  }
+  return undefined;
+}
+
+// Runs one agent turn inside a stored thread: the planner sees the thread's summary
+// and recent turns, and both sides of the exchange are saved. Failures are saved as
+// the reply the user was shown.
+async function runConversationTurn(
+  req: Request,
+  conversation: Conversation,
+  request: AgentChatRequest,
+  events?: AgentEvents,
+): Promise<AgentChatResponse> {
+  // A pick from a disambiguation question becomes the thread's active account
+  if (request.accountId && request.accountId !== conversation.activeAccountId) {
+    if (!(await canAccessAccount(await getRequestScope(req), request.accountId))) {
+      throw new Error("You do not have access to this account");
+    }
+    await setActiveAccount(conversation.id, request.accountId);
+    conversation = { ...conversation, activeAccountId: request.accountId };
+  }
+
+  const context = await assembleContext(conversation);
+  await recordUserMessage(conversation.id, request.message);
+  try {
+    const response = await runAgentChat(request.message, context, req.user!.id, events);
+    await recordReply(conversation.id, response);
+    return { ...response, conversationId: conversation.id };
+  } catch (error) {
+    await recordReply(conversation.id, agentErrorResponse(error).body).catch((recordError) =>
+      console.error("Error recording agent reply:", recordError),
+    );
+    throw error;
+  }
+}
+
+// Maps agent failures onto a chat reply the widget can show in place of an answer
+function agentErrorResponse(error: any): { status: number; body: AgentChatResponse } {
+  // Handle validation errors (client errors)
+  if (error.name === "ZodError") {
+    return {
+      status: 400,
+      body: {
+        message:
+          "Invalid request format. Please check your input and try again.",
+        intent: "general_question",
+        actionResults: [],
+        needsConfirmation: false,
+        suggestedFollowUps: [
+          "Check your message format",
+          "Try rephrasing your request",
+        ],
+      },
+    };
+  }
+
+  if (error.message?.includes("do not have access")) {
+    return {
+      status: 403,
+      body: {
+        message: error.message,
+        intent: "general_question",
+        actionResults: [],
+        needsConfirmation: false,
+        suggestedFollowUps: [
+          "Ask the account owner to share it with you",
+          "Search your accounts",
+        ],
+      },
+    };
+  }
+
+  // Handle other known client errors
+  if (
+    error.message?.includes("Account not found") ||
+    error.message?.includes("not found") ||
+    error.message?.includes("required")
+  ) {
+    return {
+      status: 400,
+      body: {
+        message: error.message || "Invalid request. Please check your input.",
+        intent: "general_question",
+        actionResults: [],
+        needsConfirmation: false,
+        suggestedFollowUps: [
+          "Check if the account exists",
+          "Try with different parameters",
+        ],
+      },
+    };
+  }
+
+  // Handle server errors
+  return {
+    status: 500,
+    body: {
+      message:
+        "I encountered an error while processing your request. Please try again.",
+      intent: "general_question",
+      actionResults: [],
+      needsConfirmation: false,
+      suggestedFollowUps: [
+        "Try rephrasing your request",
+        "Contact support if the issue persists",
+      ],
+    },
   };
-  return next();
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication
   setupAuth(app);
 
-  // User routes
-  app.get("/api/user", isAuthenticated, (req: any, res) => {
-    res.json(req.user);
+  // The signed-in user's time zone and working hours, used to schedule their NBAs
+  app.patch("/api/user/preferences", isAuthenticated, async (req: any, res) => {
+    try {
+      const updates = updateUserPreferencesSchema.parse(req.body);
+      const current = req.user;
+      if ((updates.workdayStart ?? current.workdayStart) >= (updates.workdayEnd ?? current.workdayEnd)) {
+        return res
+          .status(400)
+          .json({ message: "The working day must end after it starts" });
+      }
+
+      const user = await storage.updateUser(req.user.id, updates);
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid preferences", errors: error.errors });
+      }
+      console.error("Error updating user preferences:", error);
+      res.status(500).json({ message: "Failed to update preferences" });
+    }
+  });
+
+  // User management routes
+  app.get(
+    "/api/users",
+    isAuthenticated,
+    requireRole("manager", "admin"),
+    async (req: any, res) => {
+      try {
+        const scope = await getRequestScope(req);
+        const users = await storage.getUsers();
+        const visibleUsers = scope.isAdmin
+          ? users
+          : users.filter((user) => scope.userIds.includes(user.id));
+        res.json(visibleUsers.map(toPublicUser));
+      } catch (error) {
+        console.error("Error fetching users:", error);
+        res.status(500).json({ message: "Failed to fetch users" });
+      }
+    },
+  );
+
+  app.patch(
+    "/api/users/:id/access",
+    isAuthenticated,
+    requireRole("admin"),
+    async (req: any, res) => {
+      try {
+        const updates = updateUserAccessSchema.parse(req.body);
+        if (updates.managerId === req.params.id) {
+          return res
+            .status(400)
+            .json({ message: "A user cannot report to themselves" });
+        }
+
+        const existingUser = await storage.getUser(req.params.id);
+        if (!existingUser) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        const user = await storage.updateUser(req.params.id, updates);
+        res.json(toPublicUser(user));
+      } catch (error) {
+        console.error("Error updating user access:", error);
+        res.status(400).json({ message: "Failed to update user access" });
+      }
+    },
+  );
+
+  // Team routes
+  app.get("/api/teams", isAuthenticated, async (req: any, res) => {
+    try {
+      const scope = await getRequestScope(req);
+      const teams = await storage.getTeams(
+        scope.isAdmin ? undefined : { userId: req.user.id },
+      );
+      const members = await storage.getTeamMembers(teams.map((team) => team.id));
+
+      res.json(
+        teams.map((team) => ({
+          ...team,
+          members: members.filter((member) => member.teamId === team.id),
+        })),
+      );
+    } catch (error) {
+      console.error("Error fetching teams:", error);
+      res.status(500).json({ message: "Failed to fetch teams" });
+    }
+  });
+
+  app.post(
+    "/api/teams",
+    isAuthenticated,
+    requireRole("manager", "admin"),
+    async (req: any, res) => {
+      try {
+        const teamData = insertTeamSchema.parse({
+          ...req.body,
+          createdBy: req.user.id,
+        });
+        const team = await storage.createTeam(teamData, req.user.id);
+        res.status(201).json(team);
+      } catch (error) {
+        console.error("Error creating team:", error);
+        res.status(400).json({ message: "Failed to create team" });
+      }
+    },
+  );
+
+  app.patch("/api/teams/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const scope = await getRequestScope(req);
+      if (!canManageTeam(scope, req.params.id)) {
+        return res
+          .status(403)
+          .json({ message: "Only team leads can edit this team" });
+      }
+
+      const updates = insertTeamSchema
+        .omit({ createdBy: true })
+        .partial()
+        .parse(req.body);
+      const team = await storage.updateTeam(req.params.id, updates);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      res.json(team);
+    } catch (error) {
+      console.error("Error updating team:", error);
+      res.status(400).json({ message: "Failed to update team" });
+    }
+  });
+
+  app.delete("/api/teams/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const scope = await getRequestScope(req);
+      if (!canManageTeam(scope, req.params.id)) {
+        return res
+          .status(403)
+          .json({ message: "Only team leads can delete this team" });
+      }
+
+      await storage.deleteTeam(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting team:", error);
+      res.status(500).json({ message: "Failed to delete team" });
+    }
+  });
+
+  app.post("/api/teams/:id/members", isAuthenticated, async (req: any, res) => {
+    try {
+      const scope = await getRequestScope(req);
+      if (!canManageTeam(scope, req.params.id)) {
+        return res
+          .status(403)
+          .json({ message: "Only team leads can manage members" });
+      }
+
+      const memberData = insertTeamMemberSchema.parse({
+        ...req.body,
+        teamId: req.params.id,
+      });
+      if (!(await storage.getUser(memberData.userId))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!canAddTeamMember(scope, req.params.id, memberData.userId)) {
+        return res
+          .status(403)
+          .json({ message: "You can only add people who report to you" });
+      }
+
+      const member = await storage.upsertTeamMember(memberData);
+      res.status(201).json(member);
+    } catch (error) {
+      console.error("Error adding team member:", error);
+      res.status(400).json({ message: "Failed to add team member" });
+    }
   });
 
+  app.delete(
+    "/api/teams/:id/members/:userId",
+    isAuthenticated,
+    async (req: any, res) => {
+      try {
+        const scope = await getRequestScope(req);
+        if (!canManageTeam(scope, req.params.id)) {
+          return res
+            .status(403)
+            .json({ message: "Only team leads can manage members" });
+        }
+
+        await storage.removeTeamMember(req.params.id, req.params.userId);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error removing team member:", error);
+        res.status(500).json({ message: "Failed to remove team member" });
+      }
+    },
+  );
+
   // Account routes
   app.get("/api/accounts", isAuthenticated, async (req: any, res) => {
     try {
-      const accounts = await storage.getAccountsByUser(req.user.id);
+      const scope = await getRequestScope(req);
+      const accounts = await getAccessibleAccounts(scope);
       res.json(accounts);
     } catch (error) {
       console.error("Error fetching accounts:", error);
@@ -68,6 +535,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
 
       if (existingAccount) {
+        const scope = await getRequestScope(req);
+        if (!canAccessAccountRecord(scope, existingAccount)) {
+          return res.status(409).json({
+            message:
+              "An account with this name already exists and is owned by another rep",
+          });
+        }
+
         // Return the existing account instead of creating a duplicate
         console.log(
           `Duplicate account detected: ${accountData.name}. Using existing account: ${existingAccount.id}`,
@@ -84,157 +559,1282 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/accounts/:id", isAuthenticated, async (req: any, res) => {
-    try {
-      const account = await storage.getAccount(req.params.id);
-      if (!account) {
-        return res.status(404).json({ message: "Account not found" });
+  app.get(
+    "/api/accounts/:id",
+    isAuthenticated,
+    requireAccountAccess(accountFromParam("id")),
+    async (req: any, res) => {
+      try {
+        const account = await storage.getAccount(req.params.id);
+        if (!account) {
+          return res.status(404).json({ message: "Account not found" });
+        }
+        res.json(account);
+      } catch (error) {
+        console.error("Error fetching account:", error);
+        res.status(500).json({ message: "Failed to fetch account" });
       }
-      res.json(account);
-    } catch (error) {
-      console.error("Error fetching account:", error);
-      res.status(500).json({ message: "Failed to fetch account" });
-    }
-  });
-
-  // Company Research routes
-  app.post("/api/research/company", isAuthenticated, async (req: any, res) => {
-    try {
-      const { query, lob, accountId } = req.body;
+    },
+  );
 
-      if (!query || !lob) {
-        return res.status(400).json({ message: "Query and LOB are required" });
+  app.get(
+    "/api/accounts/:accountId/transcripts",
+    isAuthenticated,
+    requireAccountAccess(accountFromParam("accountId")),
+    async (req: any, res) => {
+      try {
+        const transcripts = await storage.getTranscriptsByAccount(
+          req.params.accountId,
+        );
+        res.json(transcripts);
+      } catch (error) {
+        console.error("Error fetching transcripts:", error);
+        res.status(500).json({ message: "Failed to fetch transcripts" });
       }
+    },
+  );
 
-      const results = await searchCompany(query, lob);
+  // Account collaborator routes
+  app.get(
+    "/api/accounts/:accountId/collaborators",
+    isAuthenticated,
+    requireAccountAccess(accountFromParam("accountId")),
+    async (req: any, res) => {
+      try {
+        const collaborators = await storage.getAccountCollaborators(
+          req.params.accountId,
+        );
+        const withUsers = await Promise.all(
+          collaborators.map(async (collaborator) => {
+            const user = await storage.getUser(collaborator.userId);
+            return { ...collaborator, user: user ? toPublicUser(user) : null };
+          }),
+        );
+        res.json(withUsers);
+      } catch (error) {
+        console.error("Error fetching collaborators:", error);
+        res.status(500).json({ message: "Failed to fetch collaborators" });
+      }
+    },
+  );
 
-      // Save research if accountId provided and is not empty
-      if (accountId && accountId.trim() !== "") {
-        await storage.createCompanyResearch({
-          accountId,
-          query,
-          results,
-          sources: results.sources,
-          createdBy: req.user.id,
+  app.post(
+    "/api/accounts/:accountId/collaborators",
+    isAuthenticated,
+    requireAccountAccess(accountFromParam("accountId"), "manage"),
+    async (req: any, res) => {
+      try {
+        const collaboratorData = insertAccountCollaboratorSchema.parse({
+          ...req.body,
+          accountId: req.params.accountId,
+          addedBy: req.user.id,
         });
-      }
 
-      res.json(results);
-    } catch (error) {
-      console.error("Error researching company:", error);
-      res.status(500).json({ message: "Failed to research company" });
-    }
-  });
+        const account = await storage.getAccount(req.params.accountId);
+        if (account?.assignedTo === collaboratorData.userId) {
+          return res
+            .status(400)
+            .json({ message: "The account owner already has full access" });
+        }
+        if (!(await storage.getUser(collaboratorData.userId))) {
+          return res.status(404).json({ message: "User not found" });
+        }
 
-  app.post("/api/research/url", isAuthenticated, async (req: any, res) => {
-    try {
-      const { url } = req.body;
+        const collaborator =
+          await storage.upsertAccountCollaborator(collaboratorData);
+        res.status(201).json(collaborator);
+      } catch (error) {
+        console.error("Error sharing account:", error);
+        res.status(400).json({ message: "Failed to share account" });
+      }
+    },
+  );
 
-      if (!url) {
-        return res.status(400).json({ message: "URL is required" });
+  app.delete(
+    "/api/accounts/:accountId/collaborators/:userId",
+    isAuthenticated,
+    requireAccountAccess(accountFromParam("accountId"), "manage"),
+    async (req: any, res) => {
+      try {
+        await storage.removeAccountCollaborator(
+          req.params.accountId,
+          req.params.userId,
+        );
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error removing collaborator:", error);
+        res.status(500).json({ message: "Failed to remove collaborator" });
       }
+    },
+  );
 
-      const results = await getCompanyFromUrl(url);
-      res.json(results);
-    } catch (error) {
-      console.error("Error processing company URL:", error);
-      res.status(500).json({ message: "Failed to process company URL" });
-    }
-  });
+  // Contact routes
+  app.get(
+    "/api/accounts/:accountId/contacts",
+    isAuthenticated,
+    requireAccountAccess(accountFromParam("accountId")),
+    async (req: any, res) => {
+      try {
+        const contacts = await storage.getContactsByAccount(
+          req.params.accountId,
+        );
+        res.json(contacts);
+      } catch (error) {
+        console.error("Error fetching contacts:", error);
+        res.status(500).json({ message: "Failed to fetch contacts" });
+      }
+    },
+  );
 
   app.post(
-    "/api/research/vector-search",
+    "/api/accounts/:accountId/contacts",
     isAuthenticated,
+    requireAccountAccess(accountFromParam("accountId"), "write"),
     async (req: any, res) => {
       try {
-        const { company, k = 5 } = req.body;
+        const contactData = insertContactSchema.parse({
+          ...req.body,
+          accountId: req.params.accountId,
+          source: "manual",
+          createdBy: req.user.id,
+        });
+        const contact = await storage.createContact(contactData);
+        res.status(201).json(contact);
+      } catch (error) {
+        console.error("Error creating contact:", error);
+        res.status(400).json({ message: "Failed to create contact" });
+      }
+    },
+  );
 
-        if (!company) {
-          return res.status(400).json({ message: "Company name is required" });
+  app.patch(
+    "/api/contacts/:id",
+    isAuthenticated,
+    requireAccountAccess(accountOfContact, "write"),
+    async (req: any, res) => {
+      try {
+        const updates = insertContactSchema
+          .omit({ accountId: true, createdBy: true, source: true })
+          .partial()
+          .parse(req.body);
+        const contact = await storage.updateContact(req.params.id, updates);
+        if (!contact) {
+          return res.status(404).json({ message: "Contact not found" });
         }
-
-        const results = await vectorSearchCorpus(company, k);
-        res.json(results);
+        res.json(contact);
       } catch (error) {
-        console.error("Error in vector search:", error);
-        res.status(500).json({ message: "Failed to perform vector search" });
+        console.error("Error updating contact:", error);
+        res.status(400).json({ message: "Failed to update contact" });
       }
     },
   );
 
-  // Transcript and Notes routes
-  app.post(
-    "/api/transcripts/process",
+  app.delete(
+    "/api/contacts/:id",
     isAuthenticated,
+    requireAccountAccess(accountOfContact, "write"),
     async (req: any, res) => {
       try {
-        const {
-          accountId,
-          transcriptContent,
-          frameworks,
-          lob,
-          userTimeZone,
-          accountTimeZone,
-        } = req.body;
+        await storage.deleteContact(req.params.id);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error deleting contact:", error);
+        res.status(500).json({ message: "Failed to delete contact" });
+      }
+    },
+  );
 
-        if (!accountId || !transcriptContent || !frameworks || !lob) {
-          return res.status(400).json({ message: "Missing required fields" });
-        }
+  // Cadence routes
+  app.get("/api/cadence-templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const templates = await storage.getCadenceTemplates();
+      res.json(await withSteps(templates));
+    } catch (error) {
+      console.error("Error fetching cadence templates:", error);
+      res.status(500).json({ message: "Failed to fetch cadence templates" });
+    }
+  });
 
-        const result = await processTranscript({
-          accountId,
-          transcriptContent,
-          frameworks,
-          lob,
-          userId: req.user.id,
-          userTimeZone: userTimeZone || "UTC",
-          accountTimeZone,
+  app.post("/api/cadence-templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const { steps, ...templateData } = cadenceTemplateRequestSchema.parse(req.body);
+      const template = await storage.createCadenceTemplate(
+        { ...templateData, createdBy: req.user.id },
+        steps.map((step, index) => ({ ...step, position: index + 1 })),
+      );
+      const [created] = await withSteps([template]);
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid cadence template", errors: error.errors });
+      }
+      console.error("Error creating cadence template:", error);
+      res.status(500).json({ message: "Failed to create cadence template" });
+    }
+  });
+
+  app.put("/api/cadence-templates/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const existing = await storage.getCadenceTemplate(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Cadence template not found" });
+      }
+      const scope = await getRequestScope(req);
+      if (existing.createdBy !== req.user.id && !scope.isAdmin) {
+        return res
+          .status(403)
+          .json({ message: "Only the template's author can edit it" });
+      }
+
+      const { steps, ...updates } = cadenceTemplateRequestSchema.parse(req.body);
+      const template = await storage.updateCadenceTemplate(
+        req.params.id,
+        updates,
+        steps.map((step, index) => ({ ...step, position: index + 1 })),
+      );
+      const [updated] = await withSteps([template!]);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid cadence template", errors: error.errors });
+      }
+      console.error("Error updating cadence template:", error);
+      res.status(500).json({ message: "Failed to update cadence template" });
+    }
+  });
+
+  app.delete("/api/cadence-templates/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const existing = await storage.getCadenceTemplate(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Cadence template not found" });
+      }
+      const scope = await getRequestScope(req);
+      if (existing.createdBy !== req.user.id && !scope.isAdmin) {
+        return res
+          .status(403)
+          .json({ message: "Only the template's author can delete it" });
+      }
+      if ((await storage.countCadenceEnrollments(req.params.id)) > 0) {
+        return res
+          .status(409)
+          .json({ message: "Contacts are still enrolled in this cadence" });
+      }
+
+      await storage.deleteCadenceTemplate(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting cadence template:", error);
+      res.status(500).json({ message: "Failed to delete cadence template" });
+    }
+  });
+
+  app.get(
+    "/api/accounts/:accountId/cadence-enrollments",
+    isAuthenticated,
+    requireAccountAccess(accountFromParam("accountId")),
+    async (req: any, res) => {
+      try {
+        const enrollments = await storage.getCadenceEnrollments({
+          accountId: req.params.accountId,
+        });
+        res.json(await withEnrollmentDetails(enrollments));
+      } catch (error) {
+        console.error("Error fetching cadence enrollments:", error);
+        res.status(500).json({ message: "Failed to fetch cadence enrollments" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/accounts/:accountId/cadence-enrollments",
+    isAuthenticated,
+    requireAccountAccess(accountFromParam("accountId"), "write"),
+    async (req: any, res) => {
+      try {
+        const { templateId, contactId, startDate, userTimeZone } =
+          enrollContactSchema.parse(req.body);
+        const template = await storage.getCadenceTemplate(templateId);
+        if (!template) {
+          return res.status(404).json({ message: "Cadence template not found" });
+        }
+        const contact = await storage.getContact(contactId);
+        if (!contact || contact.accountId !== req.params.accountId) {
+          return res.status(404).json({ message: "Contact not found" });
+        }
+        const existing = await storage.getCadenceEnrollments({ contactId, templateId });
+        if (existing.length > 0) {
+          return res
+            .status(409)
+            .json({ message: "This contact is already enrolled in this cadence" });
+        }
+
+        const account = await storage.getAccount(req.params.accountId);
+        const enrollment = await enrollContact({
+          template,
+          account: account!,
+          contact,
+          userId: req.user.id,
+          startDate,
+          userTimeZone,
         });
+        const [created] = await withEnrollmentDetails([enrollment]);
+        res.status(201).json(created);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid enrollment", errors: error.errors });
+        }
+        console.error("Error enrolling contact:", error);
+        res.status(500).json({ message: "Failed to enroll contact" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/cadence-enrollments/:id/reply",
+    isAuthenticated,
+    requireAccountAccess(accountOfCadenceEnrollment, "write"),
+    async (req: any, res) => {
+      try {
+        const { note } = recordCadenceReplySchema.parse(req.body);
+        const enrollment = await storage.getCadenceEnrollment(req.params.id);
+        const paused = await pauseEnrollment(
+          enrollment!,
+          note ? `Replied: ${note}` : "Replied",
+        );
+        const [updated] = await withEnrollmentDetails([paused]);
+        res.json(updated);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid reply", errors: error.errors });
+        }
+        console.error("Error recording cadence reply:", error);
+        res.status(500).json({ message: "Failed to record reply" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/cadence-enrollments/:id/resume",
+    isAuthenticated,
+    requireAccountAccess(accountOfCadenceEnrollment, "write"),
+    async (req: any, res) => {
+      try {
+        const enrollment = await storage.getCadenceEnrollment(req.params.id);
+        if (enrollment!.status !== "paused") {
+          return res.status(409).json({ message: "This cadence is not paused" });
+        }
+        const resumed = await resumeEnrollment(enrollment!);
+        const [updated] = await withEnrollmentDetails([resumed]);
+        res.json(updated);
+      } catch (error) {
+        console.error("Error resuming cadence:", error);
+        res.status(500).json({ message: "Failed to resume cadence" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/cadence-enrollments/:id",
+    isAuthenticated,
+    requireAccountAccess(accountOfCadenceEnrollment, "write"),
+    async (req: any, res) => {
+      try {
+        const enrollment = await storage.getCadenceEnrollment(req.params.id);
+        await stopEnrollment(enrollment!);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error stopping cadence:", error);
+        res.status(500).json({ message: "Failed to stop cadence" });
+      }
+    },
+  );
+
+  // Opportunity routes
+  app.get("/api/opportunities", isAuthenticated, async (req: any, res) => {
+    try {
+      const { accountId, stage } = req.query;
+      const scope = await getRequestScope(req);
+      const filters: any = {
+        accountIds: await getAccessibleAccountIds(scope),
+      };
+
+      if (accountId) filters.accountId = accountId as string;
+      if (stage) filters.stage = stage as string;
+
+      const opportunities = await storage.getOpportunities(filters);
+      res.json(opportunities);
+    } catch (error) {
+      console.error("Error fetching opportunities:", error);
+      res.status(500).json({ message: "Failed to fetch opportunities" });
+    }
+  });
+
+  app.post(
+    "/api/accounts/:accountId/opportunities",
+    isAuthenticated,
+    requireAccountAccess(accountFromParam("accountId"), "write"),
+    async (req: any, res) => {
+      try {
+        const opportunityData = insertOpportunitySchema.parse({
+          ...req.body,
+          accountId: req.params.accountId,
+          owner: req.body.owner || req.user.id,
+          createdBy: req.user.id,
+        });
+        const ownerError = await checkOpportunityOwner(
+          req,
+          req.params.accountId,
+          opportunityData.owner,
+        );
+        if (ownerError) {
+          return res.status(ownerError.status).json({ message: ownerError.message });
+        }
+        const opportunity = await storage.createOpportunity(opportunityData);
+        res.status(201).json(opportunity);
+      } catch (error) {
+        console.error("Error creating opportunity:", error);
+        res.status(400).json({ message: "Failed to create opportunity" });
+      }
+    },
+  );
+
+  app.patch(
+    "/api/opportunities/:id",
+    isAuthenticated,
+    requireAccountAccess(accountOfOpportunity, "write"),
+    async (req: any, res) => {
+      try {
+        const updates = insertOpportunitySchema
+          .omit({ accountId: true, createdBy: true })
+          .partial()
+          .parse(req.body);
+        const existing = await storage.getOpportunity(req.params.id);
+        const ownerError = await checkOpportunityOwner(
+          req,
+          existing!.accountId,
+          updates.owner,
+          existing!.owner,
+        );
+        if (ownerError) {
+          return res.status(ownerError.status).json({ message: ownerError.message });
+        }
+        const opportunity = await storage.updateOpportunity(
+          req.params.id,
+          updates,
+          req.user.id,
+        );
+        res.json(opportunity);
+      } catch (error: any) {
+        console.error("Error updating opportunity:", error);
+        if (error.message === "Opportunity not found") {
+          return res.status(404).json({ message: error.message });
+        }
+        res.status(400).json({ message: "Failed to update opportunity" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/opportunities/:id/history",
+    isAuthenticated,
+    requireAccountAccess(accountOfOpportunity),
+    async (req: any, res) => {
+      try {
+        const history = await storage.getOpportunityStageHistory([
+          req.params.id,
+        ]);
+        res.json(history);
+      } catch (error) {
+        console.error("Error fetching stage history:", error);
+        res.status(500).json({ message: "Failed to fetch stage history" });
+      }
+    },
+  );
+
+  // Company Research routes
+  app.post("/api/research/company", isAuthenticated, async (req: any, res) => {
+    try {
+      const { query, lob, accountId } = req.body;
+
+      if (!query || !lob) {
+        return res.status(400).json({ message: "Query and LOB are required" });
+      }
+
+      const saveToAccount = accountId && accountId.trim() !== "";
+      if (
+        saveToAccount &&
+        !(await canAccessAccount(await getRequestScope(req), accountId, "write"))
+      ) {
+        return res
+          .status(403)
+          .json({ message: "You do not have access to this account" });
+      }
+
+      const results = await searchCompany(query, lob);
+
+      // Save research if accountId provided and is not empty
+      if (saveToAccount) {
+        const research = await storage.createCompanyResearch({
+          accountId,
+          query,
+          results,
+          sources: results.sources,
+          createdBy: req.user.id,
+        });
+
+        // Make saved research retrievable by vector search; never fail the request over it
+        try {
+          await ingestDocument({
+            title: `${query} research (${lob})`,
+            sourceType: "research",
+            company: query,
+            accountId,
+            content: [
+              results.overview,
+              ...results.pressures,
+              ...results.objectives,
+              ...results.challenges,
+              ...results.signals,
+            ].join("\n\n"),
+            metadata: { researchId: research.id },
+            createdBy: req.user.id,
+          });
+        } catch (error) {
+          console.error("Error indexing company research:", error);
+        }
+      }
+
+      res.json(results);
+    } catch (error) {
+      console.error("Error researching company:", error);
+      res.status(500).json({ message: "Failed to research company" });
+    }
+  });
+
+  app.get(
+    "/api/accounts/:accountId/research",
+    isAuthenticated,
+    requireAccountAccess(accountFromParam("accountId")),
+    async (req: any, res) => {
+      try {
+        const research = await storage.getCompanyResearch(req.params.accountId);
+        res.json(research);
+      } catch (error) {
+        console.error("Error fetching company research:", error);
+        res.status(500).json({ message: "Failed to fetch company research" });
+      }
+    },
+  );
+
+  app.post("/api/research/url", isAuthenticated, async (req: any, res) => {
+    try {
+      const { url } = req.body;
+
+      if (!url) {
+        return res.status(400).json({ message: "URL is required" });
+      }
+
+      const results = await getCompanyFromUrl(url);
+      res.json(results);
+    } catch (error) {
+      console.error("Error processing company URL:", error);
+      res.status(500).json({ message: "Failed to process company URL" });
+    }
+  });
+
+  app.post(
+    "/api/research/vector-search",
+    isAuthenticated,
+    async (req: any, res) => {
+      try {
+        const parsed = vectorSearchRequestSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: "Company name is required",
+            errors: parsed.error.errors,
+          });
+        }
+
+        const { company, query, k } = parsed.data;
+        const scope = await getRequestScope(req);
+        const results = await vectorSearchCorpus(company, k, {
+          query,
+          accountIds: await getAccessibleAccountIds(scope),
+        });
+        res.json(results);
+      } catch (error) {
+        console.error("Error in vector search:", error);
+        res.status(500).json({ message: "Failed to perform vector search" });
+      }
+    },
+  );
+
+  // Research corpus routes
+  app.get("/api/corpus/documents", isAuthenticated, async (req: any, res) => {
+    try {
+      const scope = await getRequestScope(req);
+      const documents = await storage.getCorpusDocuments({
+        accountIds: await getAccessibleAccountIds(scope),
+        sourceType: req.query.sourceType as string | undefined,
+      });
+      res.json(documents);
+    } catch (error) {
+      console.error("Error fetching corpus documents:", error);
+      res.status(500).json({ message: "Failed to fetch corpus documents" });
+    }
+  });
+
+  // Accepts a multipart file upload, a URL to fetch, or raw text content
+  app.post(
+    "/api/corpus/documents",
+    isAuthenticated,
+    corpusUpload.single("file"),
+    async (req: any, res) => {
+      try {
+        const data = ingestCorpusDocumentSchema.parse(req.body);
+        if (!req.file && !data.url && !data.content?.trim()) {
+          return res
+            .status(400)
+            .json({ message: "A file, url or content is required" });
+        }
+
+        if (
+          data.accountId &&
+          !(await canAccessAccount(
+            await getRequestScope(req),
+            data.accountId,
+            "write",
+          ))
+        ) {
+          return res
+            .status(403)
+            .json({ message: "You do not have access to this account" });
+        }
+
+        const { document, duplicate } = await ingestDocument({
+          ...data,
+          file: req.file
+            ? {
+                buffer: req.file.buffer,
+                mimeType: req.file.mimetype,
+                filename: req.file.originalname,
+              }
+            : undefined,
+          createdBy: req.user.id,
+        });
+
+        const { content, ...summary } = document;
+        res.status(duplicate ? 200 : 201).json({ ...summary, duplicate });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid document data", errors: error.errors });
+        }
+        console.error("Error ingesting corpus document:", error);
+        res.status(500).json({ message: "Failed to ingest document" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/corpus/documents/:id",
+    isAuthenticated,
+    async (req: any, res) => {
+      try {
+        const document = await storage.getCorpusDocument(req.params.id);
+        if (!document) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+
+        const scope = await getRequestScope(req);
+        const canDelete =
+          scope.isAdmin ||
+          document.createdBy === req.user.id ||
+          (!!document.accountId &&
+            (await canAccessAccount(scope, document.accountId, "manage")));
+        if (!canDelete) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+
+        await storage.deleteCorpusDocument(document.id);
+        res.json({ message: "Document deleted successfully" });
+      } catch (error) {
+        console.error("Error deleting corpus document:", error);
+        res.status(500).json({ message: "Failed to delete document" });
+      }
+    },
+  );
+
+  // Re-embeds every document, e.g. after changing EMBEDDING_PROVIDER
+  app.post(
+    "/api/corpus/reindex",
+    isAuthenticated,
+    requireRole("admin"),
+    async (req: any, res) => {
+      try {
+        const documents = await storage.getCorpusDocuments({});
+        for (const document of documents) {
+          await reindexDocument(document.id);
+        }
+        res.json({ reindexed: documents.length });
+      } catch (error) {
+        console.error("Error reindexing corpus:", error);
+        res.status(500).json({ message: "Failed to reindex corpus" });
+      }
+    },
+  );
+
+  // Transcript and Notes routes
+  app.post(
+    "/api/transcripts/process",
+    isAuthenticated,
+    async (req: any, res) => {
+      try {
+        const {
+          accountId,
+          transcriptContent,
+          frameworks,
+          lob,
+          userTimeZone,
+          accountTimeZone,
+        } = req.body;
+
+        if (!accountId || !transcriptContent || !frameworks || !lob) {
+          return res.status(400).json({ message: "Missing required fields" });
+        }
+
+        const scope = await getRequestScope(req);
+        if (!(await canAccessAccount(scope, accountId, "write"))) {
+          return res
+            .status(403)
+            .json({ message: "You do not have access to this account" });
+        }
+
+        // Generation runs on the job worker; poll /api/jobs/:id for progress
+        const job = await enqueueTranscriptProcessing({
+          accountId,
+          transcriptContent,
+          frameworks,
+          lob,
+          userId: req.user.id,
+          userTimeZone: userTimeZone || "UTC",
+          accountTimeZone,
+        });
+
+        res.status(202).json(job);
+      } catch (error) {
+        console.error("Error processing transcript:", error);
+        res.status(500).json({ message: "Failed to process transcript" });
+      }
+    },
+  );
+
+  // Bulk import of recorder exports (VTT, SRT, JSON, TXT, DOCX). Each file is parsed
+  // into speaker turns and queued for processing against its own account; files that
+  // fail are reported individually without stopping the rest.
+  app.post(
+    "/api/transcripts/import",
+    isAuthenticated,
+    transcriptUpload.array("files", MAX_TRANSCRIPT_FILES),
+    async (req: any, res) => {
+      try {
+        const files: Express.Multer.File[] = req.files || [];
+        const data = importTranscriptsSchema.parse(req.body);
+        if (files.length === 0) {
+          return res.status(400).json({ message: "At least one file is required" });
+        }
+        if (data.accountIds.length !== files.length) {
+          return res
+            .status(400)
+            .json({ message: "Provide one account per file" });
+        }
+
+        const scope = await getRequestScope(req);
+        for (const accountId of Array.from(new Set(data.accountIds))) {
+          if (!(await canAccessAccount(scope, accountId, "write"))) {
+            return res
+              .status(403)
+              .json({ message: "You do not have access to this account" });
+          }
+        }
+
+        const imports = [];
+        for (let index = 0; index < files.length; index++) {
+          const file = files[index];
+          const accountId = data.accountIds[index];
+          try {
+            const { format, turns } = parseTranscriptFile({
+              buffer: file.buffer,
+              filename: file.originalname,
+            });
+            if (turns.length === 0) {
+              throw new Error("No transcript text found");
+            }
+
+            const content = formatTurns(turns);
+            const job = await enqueueTranscriptProcessing({
+              accountId,
+              transcriptContent: content,
+              turns,
+              frameworks: data.frameworks,
+              lob: data.lob,
+              userId: req.user.id,
+              userTimeZone: data.userTimeZone || "UTC",
+            });
+            imports.push({
+              filename: file.originalname,
+              accountId,
+              format,
+              turnCount: turns.length,
+              speakers: Array.from(new Set(turns.map((turn) => turn.speaker))),
+              content,
+              jobId: job.id,
+            });
+          } catch (error) {
+            imports.push({
+              filename: file.originalname,
+              accountId,
+              error: `Could not read transcript: ${(error as Error).message}`,
+            });
+          }
+        }
+
+        res.status(202).json({ imports });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid import data", errors: error.errors });
+        }
+        console.error("Error importing transcripts:", error);
+        res.status(500).json({ message: "Failed to import transcripts" });
+      }
+    },
+  );
+
+  // Call recordings (WAV, MP3, M4A) are transcribed and split into speaker turns in
+  // the background, then handed to transcript processing
+  app.post(
+    "/api/transcripts/audio",
+    isAuthenticated,
+    audioUpload.single("file"),
+    async (req: any, res) => {
+      const file: Express.Multer.File | undefined = req.file;
+      const discard = () =>
+        file ? fs.rm(file.path, { force: true }).catch(() => undefined) : undefined;
+      try {
+        if (!file) {
+          return res.status(400).json({ message: "An audio file is required" });
+        }
+        if (!AUDIO_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+          await discard();
+          return res
+            .status(400)
+            .json({ message: "Upload a WAV, MP3 or M4A recording" });
+        }
+        if (!getTranscriptionProvider()) {
+          await discard();
+          return res
+            .status(503)
+            .json({ message: "Audio transcription is not configured" });
+        }
+
+        const data = uploadAudioSchema.parse(req.body);
+        if (!(await canAccessAccount(await getRequestScope(req), data.accountId, "write"))) {
+          await discard();
+          return res
+            .status(403)
+            .json({ message: "You do not have access to this account" });
+        }
+
+        const job = await enqueueAudioTranscription({
+          accountId: data.accountId,
+          frameworks: data.frameworks,
+          lob: data.lob,
+          userId: req.user.id,
+          userTimeZone: data.userTimeZone || "UTC",
+          audioPath: file.path,
+          filename: file.originalname,
+        });
+        const { payload, ...status } = job;
+        res.status(202).json(status);
+      } catch (error) {
+        await discard();
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid audio upload", errors: error.errors });
+        }
+        console.error("Error uploading audio:", error);
+        res.status(500).json({ message: "Failed to upload audio" });
+      }
+    },
+  );
+
+  // Speaker turns with per-speaker talk time
+  app.get(
+    "/api/transcripts/:id/speakers",
+    isAuthenticated,
+    requireAccountAccess(accountOfTranscript),
+    async (req: any, res) => {
+      try {
+        const transcript = await storage.getTranscript(req.params.id);
+        res.json(computeSpeakerStats(getTranscriptTurns(transcript!)));
+      } catch (error) {
+        console.error("Error fetching transcript speakers:", error);
+        res.status(500).json({ message: "Failed to fetch transcript speakers" });
+      }
+    },
+  );
+
+  // Renames or merges a speaker. Turns keep their positions, so evidence that cites a
+  // turn only needs its speaker refreshed; the original transcript text is left as is.
+  app.patch(
+    "/api/transcripts/:id/speakers",
+    isAuthenticated,
+    requireAccountAccess(accountOfTranscript, "write"),
+    async (req: any, res) => {
+      try {
+        const data = relabelSpeakerSchema.parse(req.body);
+        const transcript = await storage.getTranscript(req.params.id);
+        const currentTurns = getTranscriptTurns(transcript!);
+        if (!currentTurns.some((turn) => turn.speaker === data.speaker)) {
+          return res.status(404).json({ message: "Speaker not found" });
+        }
+
+        const turns = relabelSpeaker(currentTurns, data);
+        await storage.updateTranscript(transcript!.id, {
+          turns,
+          speakerCount: countSpeakers(turns),
+        });
+        for (const notes of await storage.getFrameworkNotes(transcript!.id)) {
+          if (!notes.evidence) continue;
+          await storage.updateFrameworkNotes(notes.id, {
+            evidence: relabelEvidence(notes.evidence, turns, data),
+          });
+        }
+
+        res.json(computeSpeakerStats(turns));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid speaker data", errors: error.errors });
+        }
+        console.error("Error relabelling speaker:", error);
+        res.status(500).json({ message: "Failed to relabel speaker" });
+      }
+    },
+  );
+
+  // Drafts a follow-up email or InMail from a processed call and saves it as a
+  // FollowUpEmail artifact
+  app.post(
+    "/api/transcripts/:id/follow-up",
+    isAuthenticated,
+    requireAccountAccess(accountOfTranscript, "write"),
+    async (req: any, res) => {
+      try {
+        const data = draftFollowUpSchema.parse(req.body);
+        const transcript = await storage.getTranscript(req.params.id);
+        const artifact = await draftFollowUp(transcript!, data, req.user.id);
+        res.status(201).json(artifact);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid follow-up options", errors: error.errors });
+        }
+        console.error("Error drafting follow-up:", error);
+        res.status(500).json({ message: "Failed to draft follow-up" });
+      }
+    },
+  );
+
+  // Job routes
+  app.get(
+    "/api/jobs/:id",
+    isAuthenticated,
+    requireAccountAccess(accountOfJob),
+    async (req: any, res) => {
+      try {
+        const job = await storage.getJob(req.params.id);
+        if (!job) {
+          return res.status(404).json({ message: "Job not found" });
+        }
+        const { payload, ...status } = job;
+        res.json(status);
+      } catch (error) {
+        console.error("Error fetching job:", error);
+        res.status(500).json({ message: "Failed to fetch job" });
+      }
+    },
+  );
+
+  // Server-sent events: emits the job whenever it changes and closes once it finishes
+  app.get(
+    "/api/jobs/:id/events",
+    isAuthenticated,
+    requireAccountAccess(accountOfJob),
+    async (req: any, res) => {
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+
+      let lastUpdate = "";
+      let timer: NodeJS.Timeout | undefined;
+      const send = async () => {
+        try {
+          const job = await storage.getJob(req.params.id);
+          if (!job) {
+            res.write(`event: error\ndata: ${JSON.stringify({ message: "Job not found" })}\n\n`);
+            return res.end();
+          }
+
+          const { payload, ...status } = job;
+          const update = `${job.updatedAt?.toISOString()}:${job.status}`;
+          if (update !== lastUpdate) {
+            lastUpdate = update;
+            res.write(`event: job\ndata: ${JSON.stringify(status)}\n\n`);
+          }
+          if (isJobFinished(job)) return res.end();
+          timer = setTimeout(send, JOB_EVENTS_POLL_MS);
+        } catch (error) {
+          console.error("Error streaming job events:", error);
+          res.end();
+        }
+      };
+
+      req.on("close", () => clearTimeout(timer));
+      await send();
+    },
+  );
+
+  app.post(
+    "/api/jobs/:id/retry",
+    isAuthenticated,
+    requireAccountAccess(accountOfJob, "write"),
+    async (req: any, res) => {
+      try {
+        const { step } = retryJobSchema.parse(req.body);
+        const job = await storage.getJob(req.params.id);
+        if (!job) {
+          return res.status(404).json({ message: "Job not found" });
+        }
+        if (!isJobFinished(job)) {
+          return res.status(409).json({ message: "Job is still in progress" });
+        }
+        if (!job.steps.some((item) => item.status === "failed" && (!step || item.key === step))) {
+          return res.status(400).json({ message: "Nothing to retry" });
+        }
+
+        const { payload, ...status } = await retryJob(job, step);
+        res.status(202).json(status);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid retry request", errors: error.errors });
+        }
+        console.error("Error retrying job:", error);
+        res.status(500).json({ message: "Failed to retry job" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/accounts/:accountId/notes",
+    isAuthenticated,
+    requireAccountAccess(accountFromParam("accountId")),
+    async (req: any, res) => {
+      try {
+        const notes = await storage.getFrameworkNotesByAccount(
+          req.params.accountId,
+        );
+        res.json(notes);
+      } catch (error) {
+        console.error("Error fetching notes:", error);
+        res.status(500).json({ message: "Failed to fetch notes" });
+      }
+    },
+  );
+
+  app.patch(
+    "/api/framework-notes/:id",
+    isAuthenticated,
+    requireAccountAccess(accountOfFrameworkNote, "write"),
+    async (req: any, res) => {
+      try {
+        const { content } = req.body;
+
+        if (!content) {
+          return res.status(400).json({ message: "Content is required" });
+        }
+
+        // Edited notes arrive as an object or as "Label: value" text; either way
+        // they are stored in the framework's schema shape
+        const notes = await storage.getFrameworkNote(req.params.id);
+        const framework = notes!.framework as FrameworkName;
+        const parsed = normalizeFrameworkNotes(framework, content);
+        if (!FRAMEWORK_FIELDS[framework].some((field) => parsed[field.key])) {
+          return res.status(400).json({
+            message: `Notes must use the ${framework} field labels`,
+          });
+        }
+
+        const validation = validateFrameworkNotes(
+          framework,
+          repairFrameworkNotes(framework, parsed, { fillMissing: true }),
+        );
+        if (!validation.success) {
+          return res.status(400).json({
+            message: "Invalid framework notes",
+            errors: validation.error.errors,
+          });
+        }
+
+        // Evidence only still supports fields the edit left unchanged
+        const previous = normalizeFrameworkNotes(framework, notes!.content);
+        const evidence = Object.fromEntries(
+          Object.entries(notes!.evidence || {}).filter(
+            ([key]) =>
+              JSON.stringify(previous[key]) ===
+              JSON.stringify(validation.data[key]),
+          ),
+        );
+
+        await ensureNotesBaseline(notes!);
+        const updatedNotes = await storage.updateFrameworkNotes(req.params.id, {
+          content: validation.data,
+          schemaVersion: FRAMEWORK_SCHEMA_VERSION,
+          evidence,
+          updatedAt: new Date(),
+        });
+        await recordNotesRevision(updatedNotes, "user", req.user.id);
+
+        res.json(updatedNotes);
+      } catch (error) {
+        console.error("Error updating framework notes:", error);
+        res.status(500).json({ message: "Failed to update framework notes" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/framework-notes/:id/revisions",
+    isAuthenticated,
+    requireAccountAccess(accountOfFrameworkNote),
+    async (req: any, res) => {
+      try {
+        const revisions = await storage.getFrameworkNoteRevisions(req.params.id);
+        res.json(revisions);
+      } catch (error) {
+        console.error("Error fetching framework note revisions:", error);
+        res.status(500).json({ message: "Failed to fetch revisions" });
+      }
+    },
+  );
 
-        res.json(result);
+  app.post(
+    "/api/framework-notes/:id/revisions/:revisionId/restore",
+    isAuthenticated,
+    requireAccountAccess(accountOfFrameworkNote, "write"),
+    async (req: any, res) => {
+      try {
+        const notes = await storage.getFrameworkNote(req.params.id);
+        const revision = await storage.getFrameworkNoteRevision(
+          req.params.revisionId,
+        );
+        if (!revision || revision.notesId !== notes!.id) {
+          return res.status(404).json({ message: "Revision not found" });
+        }
+
+        const restored = await restoreNotesRevision(
+          notes!,
+          revision,
+          req.user.id,
+        );
+        res.json(restored);
       } catch (error) {
-        console.error("Error processing transcript:", error);
-        res.status(500).json({ message: "Failed to process transcript" });
+        console.error("Error restoring framework note revision:", error);
+        res.status(500).json({ message: "Failed to restore revision" });
       }
     },
   );
 
+  // The account's running record per framework, merged from every call's notes
   app.get(
-    "/api/accounts/:accountId/notes",
+    "/api/accounts/:accountId/framework-records",
     isAuthenticated,
+    requireAccountAccess(accountFromParam("accountId")),
     async (req: any, res) => {
       try {
-        const notes = await storage.getFrameworkNotesByAccount(
+        const records = await storage.getAccountFrameworkRecords(
           req.params.accountId,
         );
-        res.json(notes);
+        res.json(records);
       } catch (error) {
-        console.error("Error fetching notes:", error);
-        res.status(500).json({ message: "Failed to fetch notes" });
+        console.error("Error fetching framework records:", error);
+        res.status(500).json({ message: "Failed to fetch framework records" });
       }
     },
   );
 
-  app.patch(
-    "/api/framework-notes/:id",
+  app.get(
+    "/api/accounts/:accountId/framework-records/:framework/history",
     isAuthenticated,
+    requireAccountAccess(accountFromParam("accountId")),
     async (req: any, res) => {
       try {
-        const { content } = req.body;
-
-        if (!content) {
-          return res.status(400).json({ message: "Content is required" });
+        const record = await storage.getAccountFrameworkRecord(
+          req.params.accountId,
+          req.params.framework,
+        );
+        if (!record) {
+          return res.json([]);
         }
+        res.json(await storage.getAccountFrameworkHistory(record.id));
+      } catch (error) {
+        console.error("Error fetching framework record history:", error);
+        res.status(500).json({ message: "Failed to fetch record history" });
+      }
+    },
+  );
 
-        const updatedNotes = await storage.updateFrameworkNotes(req.params.id, {
-          content,
-          updatedAt: new Date(),
-        });
+  app.post(
+    "/api/accounts/:accountId/framework-records/:framework/conflicts/:field/resolve",
+    isAuthenticated,
+    requireAccountAccess(accountFromParam("accountId"), "write"),
+    async (req: any, res) => {
+      try {
+        const { keep } = resolveRecordConflictSchema.parse(req.body);
+        const record = await storage.getAccountFrameworkRecord(
+          req.params.accountId,
+          req.params.framework,
+        );
+        if (!record?.fields[req.params.field]?.conflict) {
+          return res.status(404).json({ message: "Conflict not found" });
+        }
 
-        res.json(updatedNotes);
+        const updated = await resolveRecordConflict(
+          record,
+          req.params.field,
+          keep,
+          req.user.id,
+        );
+        res.json(updated);
       } catch (error) {
-        console.error("Error updating framework notes:", error);
-        res.status(500).json({ message: "Failed to update framework notes" });
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid resolution", errors: error.errors });
+        }
+        console.error("Error resolving record conflict:", error);
+        res.status(500).json({ message: "Failed to resolve conflict" });
       }
     },
   );
@@ -242,14 +1842,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Coaching routes
   app.post("/api/coaching", isAuthenticated, async (req: any, res) => {
     try {
-      const { transcript, frameworks, frameworkNotes, lob } = req.body;
+      const { transcript, transcriptId, frameworks, frameworkNotes, lob } = req.body;
 
       if (!transcript || !frameworks || !lob) {
         return res.status(400).json({ message: "Missing required fields" });
       }
 
+      // With a saved transcript, coaching is given numbered turns it can cite
+      let turns: TranscriptTurn[] | undefined;
+      if (transcriptId) {
+        const saved = await storage.getTranscript(transcriptId);
+        if (!saved) {
+          return res.status(404).json({ message: "Transcript not found" });
+        }
+        if (!(await canAccessAccount(await getRequestScope(req), saved.accountId))) {
+          return res
+            .status(403)
+            .json({ message: "You do not have access to this account" });
+        }
+        turns = getTranscriptTurns(saved);
+      }
+
       const guidance = await generateCoachingGuidance({
-        transcript,
+        transcript: turns?.length ? formatNumberedTurns(turns) : transcript,
+        citeTurns: !!turns?.length,
         frameworks,
         frameworkNotes: frameworkNotes || [],
         lob,
@@ -266,45 +1882,242 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/nbas", isAuthenticated, async (req: any, res) => {
     try {
       const { accountId, status, priority } = req.query;
-      const filters: any = { userId: req.user.id };
+      const scope = await getRequestScope(req);
+      const filters: any = {
+        accountIds: await getAccessibleAccountIds(scope),
+      };
 
       if (accountId) filters.accountId = accountId as string;
       if (status) filters.status = status as string;
       if (priority) filters.priority = priority as string;
 
       const nbas = await storage.getNextBestActions(filters);
-      res.json(nbas);
+      res.json(await withSequencing(nbas));
     } catch (error) {
       console.error("Error fetching NBAs:", error);
       res.status(500).json({ message: "Failed to fetch NBAs" });
     }
   });
 
-  app.patch("/api/nbas/:id", isAuthenticated, async (req: any, res) => {
-    try {
-      const nba = await storage.updateNextBestAction(req.params.id, req.body);
-      res.json(nba);
-    } catch (error) {
-      console.error("Error updating NBA:", error);
-      res.status(500).json({ message: "Failed to update NBA" });
-    }
-  });
+  app.patch(
+    "/api/nbas/:id",
+    isAuthenticated,
+    requireAccountAccess(accountOfNba, "write"),
+    async (req: any, res) => {
+      try {
+        const updates = updateNextBestActionSchema.parse(req.body);
+        const existing = await storage.getNextBestAction(req.params.id);
+
+        // Reassigning or moving the NBA is for whoever can manage the account
+        const scope = await getRequestScope(req);
+        if (
+          (updates.owner && updates.owner !== existing!.owner) ||
+          (updates.accountId && updates.accountId !== existing!.accountId)
+        ) {
+          if (!(await canAccessAccount(scope, existing!.accountId, "manage"))) {
+            return res
+              .status(403)
+              .json({ message: "Only the account's owner or their manager can reassign or move this NBA" });
+          }
+        }
+        if (updates.owner && updates.owner !== existing!.owner && !(await storage.getUser(updates.owner))) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        if (updates.accountId && updates.accountId !== existing!.accountId) {
+          // Subtasks are created under their parent and stay on its account
+          if (existing!.parentId) {
+            return res
+              .status(400)
+              .json({ message: "Subtasks cannot be moved to another account" });
+          }
+          // Subtasks and dependencies must stay on one account, so a linked NBA stays put
+          const [subtasks, dependencies, dependents] = await Promise.all([
+            storage.getNbaSubtasks([existing!.id]),
+            storage.getNbaDependencies([existing!.id]),
+            storage.getNbaDependents(existing!.id),
+          ]);
+          if (subtasks.length > 0 || dependencies.length > 0 || dependents.length > 0) {
+            return res.status(400).json({
+              message: "Remove this NBA's subtasks and dependencies before moving it to another account",
+            });
+          }
+          if (!(await canAccessAccount(scope, updates.accountId, "manage"))) {
+            return res
+              .status(403)
+              .json({ message: "You do not have access to the target account" });
+          }
+        }
+
+        // Completing goes through the blocking check and unblocks whatever was waiting
+        if (updates.status === "Completed" && existing!.status !== "Completed") {
+          const { nba, unblocked } = await completeNextBestAction(existing!, updates);
+          return res.json({
+            ...(await getSequencedNba(nba)),
+            unblocked: unblocked.map(({ id, title }) => ({ id, title })),
+          });
+        }
+
+        // Moving an overdue NBA's due date into the future reopens it
+        if (
+          existing!.status === "Overdue" &&
+          !updates.status &&
+          updates.dueDate &&
+          updates.dueDate > new Date()
+        ) {
+          updates.status = "Open";
+        }
+
+        const nba = await storage.updateNextBestAction(req.params.id, updates);
+        res.json(await getSequencedNba(nba));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid NBA data", errors: error.errors });
+        }
+        if (error instanceof NbaBlockedError) {
+          return res.status(409).json({ message: error.message, blockedBy: error.blockedBy });
+        }
+        console.error("Error updating NBA:", error);
+        res.status(500).json({ message: "Failed to update NBA" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/nbas/:id/subtasks",
+    isAuthenticated,
+    requireAccountAccess(accountOfNba, "write"),
+    async (req: any, res) => {
+      try {
+        const subtaskData = createNbaSubtaskSchema.parse(req.body);
+        const parent = await storage.getNextBestAction(req.params.id);
+        const subtask = await createNbaSubtask(parent!, subtaskData, req.user.id);
+        res.status(201).json(await getSequencedNba(subtask));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid subtask", errors: error.errors });
+        }
+        if (error instanceof NbaSequencingError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error creating NBA subtask:", error);
+        res.status(500).json({ message: "Failed to create subtask" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/nbas/:id/dependencies",
+    isAuthenticated,
+    requireAccountAccess(accountOfNba, "write"),
+    async (req: any, res) => {
+      try {
+        const { dependsOnId } = addNbaDependencySchema.parse(req.body);
+        const nba = await storage.getNextBestAction(req.params.id);
+        await addNbaDependency(nba!, dependsOnId);
+        res.status(201).json(await getSequencedNba(nba!));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid dependency", errors: error.errors });
+        }
+        if (error instanceof NbaSequencingError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error adding NBA dependency:", error);
+        res.status(500).json({ message: "Failed to add dependency" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/nbas/:id/dependencies/:dependsOnId",
+    isAuthenticated,
+    requireAccountAccess(accountOfNba, "write"),
+    async (req: any, res) => {
+      try {
+        const deleted = await storage.deleteNbaDependency(req.params.id, req.params.dependsOnId);
+        if (!deleted) {
+          return res.status(404).json({ message: "Dependency not found" });
+        }
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error removing NBA dependency:", error);
+        res.status(500).json({ message: "Failed to remove dependency" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/nbas/:id",
+    isAuthenticated,
+    requireAccountAccess(accountOfNba, "write"),
+    async (req: any, res) => {
+      try {
+        await storage.deleteNextBestAction(req.params.id);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error deleting NBA:", error);
+        res.status(500).json({ message: "Failed to delete NBA" });
+      }
+    },
+  );
 
-  app.delete("/api/nbas/:id", isAuthenticated, async (req: any, res) => {
+  // Notification routes
+  app.get("/api/notifications", isAuthenticated, async (req: any, res) => {
     try {
-      await storage.deleteNextBestAction(req.params.id);
-      res.status(204).send();
+      const unreadOnly = req.query.unread === "true";
+      const [items, unreadCount] = await Promise.all([
+        storage.getNotifications(req.user.id, { unreadOnly }),
+        storage.countUnreadNotifications(req.user.id),
+      ]);
+      res.json({ notifications: items, unreadCount });
     } catch (error) {
-      console.error("Error deleting NBA:", error);
-      res.status(500).json({ message: "Failed to delete NBA" });
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
     }
   });
 
+  app.post(
+    "/api/notifications/read-all",
+    isAuthenticated,
+    async (req: any, res) => {
+      try {
+        await storage.markAllNotificationsRead(req.user.id);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error marking notifications read:", error);
+        res.status(500).json({ message: "Failed to mark notifications read" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/notifications/:id/read",
+    isAuthenticated,
+    async (req: any, res) => {
+      try {
+        const notification = await storage.markNotificationRead(
+          req.params.id,
+          req.user.id,
+        );
+        if (!notification) {
+          return res.status(404).json({ message: "Notification not found" });
+        }
+        res.json(notification);
+      } catch (error) {
+        console.error("Error marking notification read:", error);
+        res.status(500).json({ message: "Failed to mark notification read" });
+      }
+    },
+  );
+
   // Artifacts routes
   app.get("/api/artifacts", isAuthenticated, async (req: any, res) => {
     try {
       const { accountId, type } = req.query;
-      const filters: any = { userId: req.user.id };
+      const scope = await getRequestScope(req);
+      const filters: any = {
+        accountIds: await getAccessibleAccountIds(scope),
+      };
 
       if (accountId) filters.accountId = accountId as string;
       if (type) filters.type = type as string;
@@ -323,7 +2136,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         createdBy: req.user.id,
       });
+
+      const scope = await getRequestScope(req);
+      if (!(await canAccessAccount(scope, artifactData.accountId, "write"))) {
+        return res
+          .status(403)
+          .json({ message: "You do not have access to this account" });
+      }
       const artifact = await storage.createArtifact(artifactData);
+      await recordArtifactRevision(artifact, "user", req.user.id);
       res.status(201).json(artifact);
     } catch (error) {
       console.error("Error creating artifact:", error);
@@ -331,15 +2152,114 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/artifacts/:id", isAuthenticated, async (req: any, res) => {
-    try {
-      await storage.deleteArtifact(req.params.id);
-      res.status(204).send();
-    } catch (error) {
-      console.error("Error deleting artifact:", error);
-      res.status(500).json({ message: "Failed to delete artifact" });
-    }
-  });
+  app.put(
+    "/api/artifacts/:id",
+    isAuthenticated,
+    requireAccountAccess(accountOfArtifact, "write"),
+    async (req: any, res) => {
+      try {
+        const data = updateArtifactSchema.parse(req.body);
+        const artifact = await storage.getArtifact(req.params.id);
+
+        // Framework notes edited as "Label: value" text are stored in the
+        // framework's shape so revisions can be compared field by field
+        let content = data.content;
+        if (isFrameworkName(artifact!.type)) {
+          const parsed = normalizeFrameworkNotes(artifact!.type, data.content);
+          if (!FRAMEWORK_FIELDS[artifact!.type].some((field) => parsed[field.key])) {
+            return res.status(400).json({
+              message: `Notes must use the ${artifact!.type} field labels`,
+            });
+          }
+          content = parsed;
+        } else if (artifact!.type === "FollowUpEmail" && typeof data.content === "string") {
+          // Edited as "Subject: ..." text; keep the subject, body and commitments apart
+          const parsed = parseFollowUpDraftText(
+            data.content,
+            artifact!.content as FollowUpDraftContent,
+          );
+          if (!parsed.body) {
+            return res.status(400).json({ message: "The follow-up needs a body" });
+          }
+          content = parsed;
+        }
+
+        await ensureArtifactBaseline(artifact!);
+        const updated = await storage.updateArtifact(artifact!.id, {
+          title: data.title,
+          content: content as InsertArtifact["content"],
+          ...(data.summary !== undefined && { summary: data.summary }),
+        });
+        await recordArtifactRevision(updated, "user", req.user.id);
+        res.json(updated);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid artifact data", errors: error.errors });
+        }
+        console.error("Error updating artifact:", error);
+        res.status(500).json({ message: "Failed to update artifact" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/artifacts/:id/revisions",
+    isAuthenticated,
+    requireAccountAccess(accountOfArtifact),
+    async (req: any, res) => {
+      try {
+        const revisions = await storage.getArtifactRevisions(req.params.id);
+        res.json(revisions);
+      } catch (error) {
+        console.error("Error fetching artifact revisions:", error);
+        res.status(500).json({ message: "Failed to fetch revisions" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/artifacts/:id/revisions/:revisionId/restore",
+    isAuthenticated,
+    requireAccountAccess(accountOfArtifact, "write"),
+    async (req: any, res) => {
+      try {
+        const artifact = await storage.getArtifact(req.params.id);
+        const revision = await storage.getArtifactRevision(
+          req.params.revisionId,
+        );
+        if (!revision || revision.artifactId !== artifact!.id) {
+          return res.status(404).json({ message: "Revision not found" });
+        }
+
+        const restored = await restoreArtifactRevision(
+          artifact!,
+          revision,
+          req.user.id,
+        );
+        res.json(restored);
+      } catch (error) {
+        console.error("Error restoring artifact revision:", error);
+        res.status(500).json({ message: "Failed to restore revision" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/artifacts/:id",
+    isAuthenticated,
+    requireAccountAccess(accountOfArtifact, "write"),
+    async (req: any, res) => {
+      try {
+        await storage.deleteArtifact(req.params.id);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error deleting artifact:", error);
+        res.status(500).json({ message: "Failed to delete artifact" });
+      }
+    },
+  );
 
   // Pipeline health routes
   app.get("/api/pipeline-health", isAuthenticated, async (req: any, res) => {
@@ -350,6 +2270,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "accountId is required" });
       }
 
+      const scope = await getRequestScope(req);
+      if (!(await canAccessAccount(scope, accountId))) {
+        return res
+          .status(403)
+          .json({ message: "You do not have access to this account" });
+      }
+
       const healthScore = await calculatePipelineHealth(accountId);
       res.json(healthScore);
     } catch (error) {
@@ -372,7 +2299,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const accountIdArray = Array.isArray(accountIds)
           ? accountIds
           : [accountIds];
-        const healthScores = await calculateBulkPipelineHealth(accountIdArray);
+
+        // Silently drop accounts outside the caller's scope
+        const scope = await getRequestScope(req);
+        const accessibleIds = await getAccessibleAccountIds(scope);
+        const permittedIds = accessibleIds
+          ? accountIdArray.filter((id: string) => accessibleIds.includes(id))
+          : accountIdArray;
+
+        const healthScores = await calculateBulkPipelineHealth(permittedIds);
         res.json(healthScores);
       } catch (error) {
         console.error("Error calculating bulk pipeline health:", error);
@@ -383,18 +2318,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
+  // Search route
+  app.get("/api/search", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = searchQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res
+          .status(400)
+          .json({ message: "A search query of at least 2 characters is required" });
+      }
+      const { q, types, accountId, mode, limit } = parsed.data;
+
+      const scope = await getRequestScope(req);
+      let accountIds = await getAccessibleAccountIds(scope);
+      if (accountId) {
+        if (!(await canAccessAccount(scope, accountId))) {
+          return res
+            .status(403)
+            .json({ message: "You do not have access to this account" });
+        }
+        accountIds = [accountId];
+      }
+
+      const results = await searchContent({
+        query: q,
+        accountIds,
+        types,
+        mode,
+        limit,
+      });
+      res.json({ query: q, mode, results });
+    } catch (error) {
+      console.error("Error searching content:", error);
+      res.status(500).json({ message: "Failed to search" });
+    }
+  });
+
   // Dashboard stats route
   app.get("/api/dashboard/stats", isAuthenticated, async (req: any, res) => {
     try {
-      const accounts = await storage.getAccountsByUser(req.user.id);
+      // Managers and admins see their whole team's numbers
+      const scope = await getRequestScope(req);
+      const accounts = await getAccessibleAccounts(scope);
+      const accessibleIds = scope.isAdmin
+        ? undefined
+        : accounts.map((account) => account.id);
       const nbas = await storage.getNextBestActions({
-        userId: req.user.id,
+        accountIds: accessibleIds,
         status: "Completed",
       });
-      const artifacts = await storage.getArtifacts({ userId: req.user.id });
-
-      // Calculate pipeline value (mock calculation)
-      const pipelineValue = accounts.length * 100000; // $100k average per account
+      const opportunities = await storage.getOpportunities({
+        accountIds: accessibleIds,
+      });
+      const stageHistory = await storage.getOpportunityStageHistory(
+        opportunities.map((opportunity) => opportunity.id),
+      );
+      const opportunityMetrics = summarizeOpportunities(
+        opportunities,
+        stageHistory,
+      );
 
       // Calculate average pipeline health across all accounts
       let pipelineHealthAvg = 0;
@@ -411,7 +2393,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const stats = {
         activeAccounts: accounts.length,
         completedNBAs: nbas.length,
-        pipelineValue: `$${(pipelineValue / 1000000).toFixed(1)}M`,
+        pipelineValue: formatCompactCurrency(
+          opportunityMetrics.pipelineValue,
+          opportunityMetrics.currency,
+        ),
+        weightedForecast: formatCompactCurrency(
+          opportunityMetrics.weightedForecast,
+          opportunityMetrics.currency,
+        ),
+        openOpportunities: opportunityMetrics.openCount,
+        averageDaysPerStage: opportunityMetrics.averageDaysPerStage,
         pipelineHealth: `${pipelineHealthAvg}%`,
       };
 
@@ -425,90 +2416,143 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Agent chat route
   app.post("/api/agent/chat", isAuthenticated, async (req: any, res) => {
     try {
-      const { message, conversationHistory } = agentChatRequestSchema.parse(
-        req.body,
-      );
-
-      // Classify the user's intent
-      const classification = await classifyIntent(message, conversationHistory);
-
-      // If clarification is needed, return that immediately
-      if (
-        classification.needsConfirmation &&
-        classification.clarificationQuestion
-      ) {
-        return res.json({
-          message: classification.clarificationQuestion,
-          intent: "clarification_needed",
-          actionResults: [],
-          needsConfirmation: true,
-        });
+      const request = agentChatRequestSchema.parse(req.body);
+      const conversation = await openConversation(req.user.id, request.conversationId, request.message);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
       }
+      res.json(await runConversationTurn(req, conversation, request));
+    } catch (error: any) {
+      console.error("Error processing agent chat:", error);
+      const { status, body } = agentErrorResponse(error);
+      res.status(status).json(body);
+    }
+  });
 
-      // Dispatch the action based on the classified intent
-      const result = await dispatchAction(
-        classification.intent,
-        classification.params,
-        req.user.id,
-      );
+  // Same as /api/agent/chat, streamed as newline-delimited JSON AgentStreamEvents:
+  // tool, progress and token events as they happen, then done with the full response
+  app.post("/api/agent/chat/stream", isAuthenticated, async (req: any, res) => {
+    let request;
+    let conversation;
+    try {
+      request = agentChatRequestSchema.parse(req.body);
+      conversation = await openConversation(req.user.id, request.conversationId, request.message);
+    } catch (error: any) {
+      const { status, body } = agentErrorResponse(error);
+      return res.status(status).json(body);
+    }
+    if (!conversation) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
 
-      const response = {
-        message: result.summary,
-        intent: classification.intent,
-        actionResults: result.actionResults || [],
-        needsConfirmation: false,
-        suggestedFollowUps: result.suggestedFollowUps || [],
-      };
+    res.writeHead(200, {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-cache",
+      "X-Accel-Buffering": "no",
+    });
+    const send = (event: AgentStreamEvent) => {
+      if (!res.writableEnded) res.write(JSON.stringify(event) + "\n");
+    };
 
-      res.json(response);
+    try {
+      const response = await runConversationTurn(req, conversation, request, {
+        tool: (tool, step) => send({ type: "tool", tool, step }),
+        progress: (message) => send({ type: "progress", message }),
+        token: (text) => send({ type: "token", text }),
+      });
+      send({ type: "done", response });
     } catch (error: any) {
-      console.error("Error processing agent chat:", error);
+      console.error("Error streaming agent chat:", error);
+      send({ type: "error", response: { ...agentErrorResponse(error).body, conversationId: conversation.id } });
+    }
+    res.end();
+  });
 
-      // Handle validation errors (client errors)
-      if (error.name === "ZodError") {
-        return res.status(400).json({
-          message:
-            "Invalid request format. Please check your input and try again.",
-          intent: "general_question",
-          actionResults: [],
-          needsConfirmation: false,
-          suggestedFollowUps: [
-            "Check your message format",
-            "Try rephrasing your request",
-          ],
-        });
+  // Confirm or cancel a write action the agent proposed (needsConfirmation with a
+  // pending_action result carrying the token). Each token can be used once.
+  app.post("/api/agent/actions/:token/:decision(confirm|cancel)", isAuthenticated, async (req: any, res) => {
+    try {
+      const decision = req.params.decision as "confirm" | "cancel";
+      const outcome = await resolvePendingAction(req.params.token, req.user.id, decision);
+      if (!outcome) {
+        return res.status(404).json({ message: "This action has expired or was already handled" });
       }
 
-      // Handle other known client errors
-      if (
-        error.message?.includes("Account not found") ||
-        error.message?.includes("not found") ||
-        error.message?.includes("required")
-      ) {
-        return res.status(400).json({
-          message: error.message || "Invalid request. Please check your input.",
-          intent: "general_question",
-          actionResults: [],
-          needsConfirmation: false,
-          suggestedFollowUps: [
-            "Check if the account exists",
-            "Try with different parameters",
-          ],
-        });
+      const { action, response } = outcome;
+      if (action.conversationId) {
+        await recordUserMessage(action.conversationId, `${decision === "confirm" ? "Confirmed" : "Cancelled"}: ${action.description}`);
+        await recordReply(action.conversationId, response);
       }
+      res.json({ ...response, conversationId: action.conversationId ?? undefined });
+    } catch (error: any) {
+      console.error("Error resolving agent action:", error);
+      const { status, body } = agentErrorResponse(error);
+      res.status(status).json(body);
+    }
+  });
 
-      // Handle server errors
-      res.status(500).json({
-        message:
-          "I encountered an error while processing your request. Please try again.",
-        intent: "general_question",
-        actionResults: [],
-        needsConfirmation: false,
-        suggestedFollowUps: [
-          "Try rephrasing your request",
-          "Contact support if the issue persists",
-        ],
+  // Conversation thread routes
+  app.get("/api/conversations", isAuthenticated, async (req: any, res) => {
+    try {
+      const conversations = await storage.getConversations(req.user.id);
+      res.json(conversations.map(({ summary, summarizedCount, ...conversation }) => conversation));
+    } catch (error) {
+      console.error("Error fetching conversations:", error);
+      res.status(500).json({ message: "Failed to fetch conversations" });
+    }
+  });
+
+  app.get("/api/conversations/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || conversation.userId !== req.user.id) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      const { summary, summarizedCount, ...rest } = conversation;
+      const messages = await storage.getMessages(conversation.id);
+      const activeAccount = conversation.activeAccountId
+        ? await storage.getAccount(conversation.activeAccountId)
+        : undefined;
+      res.json({
+        ...rest,
+        activeAccount: activeAccount ? { id: activeAccount.id, name: activeAccount.name } : null,
+        messages,
       });
+    } catch (error) {
+      console.error("Error fetching conversation:", error);
+      res.status(500).json({ message: "Failed to fetch conversation" });
+    }
+  });
+
+  app.patch("/api/conversations/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const { title } = renameConversationSchema.parse(req.body);
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || conversation.userId !== req.user.id) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      const { summary, summarizedCount, ...updated } = await storage.updateConversation(conversation.id, { title });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid conversation data", errors: error.errors });
+      }
+      console.error("Error renaming conversation:", error);
+      res.status(500).json({ message: "Failed to rename conversation" });
+    }
+  });
+
+  app.delete("/api/conversations/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || conversation.userId !== req.user.id) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      await storage.deleteConversation(conversation.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting conversation:", error);
+      res.status(500).json({ message: "Failed to delete conversation" });
     }
   });
 
@@ -0,0 +1,147 @@
+import type { Request, RequestHandler } from "express";
+import { storage } from "../storage";
+import type { Account, CollaboratorRole, User, UserRole } from "@shared/schema";
+
+// read: view the account and its records; write: edit them; manage: change ownership and sharing
+export type AccessLevel = "read" | "write" | "manage";
+
+export interface AccessScope {
+  userId: string;
+  role: UserRole;
+  isAdmin: boolean;
+  userIds: string[]; // The user plus everyone reporting up to them or on a team they lead
+  reportIds: string[]; // The user plus everyone reporting up to them
+  sharedAccounts: Record<string, CollaboratorRole>; // Accounts shared with the user directly
+  ledTeamIds: string[];
+}
+
+// Resolves what a user can see: admins see everything, managers see their reporting
+// line (recursively), team leads see their members, and everyone sees accounts
+// they own or collaborate on
+export async function getAccessScope(user: User): Promise<AccessScope> {
+  const role = (user.role || "sdr") as UserRole;
+  const userIds = [user.id];
+
+  if (role === "manager") {
+    const queue = [user.id];
+    while (queue.length > 0) {
+      const reports = await storage.getDirectReports(queue.shift()!);
+      for (const report of reports) {
+        if (!userIds.includes(report.id)) {
+          userIds.push(report.id);
+          queue.push(report.id);
+        }
+      }
+    }
+  }
+  const reportIds = [...userIds];
+
+  const memberships = await storage.getTeamMembershipsByUser(user.id);
+  const ledTeamIds = memberships
+    .filter(membership => membership.role === "lead")
+    .map(membership => membership.teamId);
+  for (const member of await storage.getTeamMembers(ledTeamIds)) {
+    if (!userIds.includes(member.userId)) {
+      userIds.push(member.userId);
+    }
+  }
+
+  const sharedAccounts: AccessScope["sharedAccounts"] = {};
+  for (const collaboration of await storage.getCollaborationsByUser(user.id)) {
+    sharedAccounts[collaboration.accountId] = collaboration.role;
+  }
+
+  return { userId: user.id, role, isAdmin: role === "admin", userIds, reportIds, sharedAccounts, ledTeamIds };
+}
+
+// Memoised per request so multiple checks in one handler share the lookup
+export async function getRequestScope(req: Request): Promise<AccessScope> {
+  if (req.accessScope) return req.accessScope;
+  const scope = await getAccessScope(req.user!);
+  req.accessScope = scope;
+  return scope;
+}
+
+export async function getAccessibleAccounts(scope: AccessScope): Promise<Account[]> {
+  if (scope.isAdmin) {
+    return await storage.getAllAccounts();
+  }
+
+  const owned = await storage.getAccountsByUsers(scope.userIds);
+  const ownedIds = new Set(owned.map(account => account.id));
+  const sharedIds = Object.keys(scope.sharedAccounts).filter(id => !ownedIds.has(id));
+  const shared = await storage.getAccountsByIds(sharedIds);
+
+  return [...owned, ...shared];
+}
+
+// Returns undefined when the scope is unrestricted so callers can skip the filter
+export async function getAccessibleAccountIds(scope: AccessScope): Promise<string[] | undefined> {
+  if (scope.isAdmin) return undefined;
+  const accounts = await getAccessibleAccounts(scope);
+  return accounts.map(account => account.id);
+}
+
+export function canAccessAccountRecord(scope: AccessScope, account: Account, level: AccessLevel = "read"): boolean {
+  if (scope.isAdmin) return true;
+
+  const isOwner = account.assignedTo === scope.userId;
+  const isTeamAccount = !!account.assignedTo && scope.userIds.includes(account.assignedTo);
+  // Team leads get visibility into members' accounts; only the owner's managers can act on them
+  const canActForOwner =
+    isOwner || (!!account.assignedTo && scope.role === "manager" && scope.reportIds.includes(account.assignedTo));
+  const sharedRole = scope.sharedAccounts[account.id];
+
+  switch (level) {
+    case "manage":
+      return canActForOwner;
+    case "write":
+      return canActForOwner || sharedRole === "editor";
+    case "read":
+      return isTeamAccount || !!sharedRole;
+  }
+}
+
+export function canManageTeam(scope: AccessScope, teamId: string): boolean {
+  return scope.isAdmin || scope.ledTeamIds.includes(teamId);
+}
+
+// Joining a team lets its leads see the member's accounts, so leads can only add
+// people who already report to them; admins can add anyone
+export function canAddTeamMember(scope: AccessScope, teamId: string, userId: string): boolean {
+  return scope.isAdmin || (canManageTeam(scope, teamId) && scope.role === "manager" && scope.reportIds.includes(userId));
+}
+
+export async function canAccessAccount(scope: AccessScope, accountId: string, level: AccessLevel = "read"): Promise<boolean> {
+  const account = await storage.getAccount(accountId);
+  return !!account && canAccessAccountRecord(scope, account, level);
+}
+
+// Guards a route by the account its resource belongs to. The resolver returns the
+// account id (or undefined when the resource does not exist, which yields a 404).
+export function requireAccountAccess(
+  resolveAccountId: (req: Request) => Promise<string | null | undefined> | string | undefined,
+  level: AccessLevel = "read"
+): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const accountId = await resolveAccountId(req);
+      if (!accountId) {
+        return res.status(404).json({ message: "Not found" });
+      }
+
+      const scope = await getRequestScope(req);
+      const account = await storage.getAccount(accountId);
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      if (!canAccessAccountRecord(scope, account, level)) {
+        return res.status(403).json({ message: "You do not have access to this account" });
+      }
+      next();
+    } catch (error) {
+      console.error("Error checking account access:", error);
+      res.status(500).json({ message: "Failed to check account access" });
+    }
+  };
+}
@@ -0,0 +1,113 @@
+import type { Account } from "@shared/schema";
+
+// Candidates scoring below this are not considered a match at all
+const MIN_SCORE = 0.6;
+// The best candidate wins outright only when it leads the next one by this much
+const CLEAR_LEAD = 0.1;
+const MAX_OPTIONS = 5;
+
+const COMPANY_SUFFIXES = new Set([
+  "inc", "incorporated", "corp", "corporation", "co", "company", "ltd", "limited",
+  "llc", "llp", "plc", "gmbh", "ag", "sa", "bv", "group", "holdings",
+]);
+
+export interface AccountMatch {
+  account: Account;
+  score: number; // 1 is an exact name or domain match
+}
+
+export type AccountResolution =
+  | { status: "resolved"; account: Account }
+  | { status: "ambiguous"; matches: AccountMatch[] }
+  | { status: "not_found" };
+
+function normalizeName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter(token => token && !COMPANY_SUFFIXES.has(token))
+    .join(" ");
+}
+
+// "https://www.contoso.co.uk/about" → "contoso"
+function domainLabel(value: string): string | null {
+  const host = value.toLowerCase().replace(/^[a-z]+:\/\//, "").replace(/^www\./, "").split(/[/?#]/)[0];
+  if (!host.includes(".")) return null;
+  return host.split(".")[0] || null;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+export function scoreAccount(query: string, account: Account): number {
+  const name = normalizeName(account.name);
+  const term = normalizeName(query);
+  const queryDomain = domainLabel(query);
+  const accountDomain = account.website ? domainLabel(account.website) ?? normalizeName(account.website) : null;
+
+  if (!term) return 0;
+  if (name === term) return 1;
+  if (accountDomain && (accountDomain === (queryDomain ?? term.replace(/ /g, "")))) return 0.95;
+
+  let score = similarity(name, term);
+  // "Contoso" or "Contoso Pharma" should find "Contoso Pharmaceuticals"
+  const nameTokens = name.split(" ");
+  const termTokens = term.split(" ");
+  const covers = (tokens: string[], within: string[]) =>
+    tokens.every(token => within.some(other => other.startsWith(token)));
+  if (covers(termTokens, nameTokens)) {
+    score = Math.max(score, 0.85);
+  } else if (covers(nameTokens, termTokens)) {
+    // The user typed more than the account name; likelier to mean a more specific account
+    score = Math.max(score, 0.75);
+  } else {
+    // Tolerate typos in one word of a multi-word name, e.g. "Contosso"
+    const best = termTokens.map(token => Math.max(...nameTokens.map(nameToken => similarity(token, nameToken))));
+    score = Math.max(score, (0.8 * best.reduce((sum, value) => sum + value, 0)) / termTokens.length);
+  }
+  if (accountDomain) {
+    score = Math.max(score, similarity(accountDomain, queryDomain ?? term.replace(/ /g, "")) * 0.9);
+  }
+  return score;
+}
+
+// Fuzzy-matches what the user typed (a name or a website) against the accounts they
+// can see. A single strong match resolves; close runners-up are returned as options.
+export function resolveAccount(query: string, accounts: Account[]): AccountResolution {
+  const matches = accounts
+    .map(account => ({ account, score: scoreAccount(query, account) }))
+    .filter(match => match.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  if (matches.length === 0) {
+    return { status: "not_found" };
+  }
+  const [best, runnerUp] = matches;
+  if (!runnerUp || best.score - runnerUp.score >= CLEAR_LEAD) {
+    return { status: "resolved", account: best.account };
+  }
+  return {
+    status: "ambiguous",
+    matches: matches.filter(match => best.score - match.score < CLEAR_LEAD).slice(0, MAX_OPTIONS),
+  };
+}
@@ -1,7 +1,5 @@
-import OpenAI from "openai";
 import { 
   AgentIntent,
-  AgentChatRequest,
   AgentChatResponse,
   CompanyResearchParams,
   TranscriptAnalysisParams,
@@ -9,8 +7,8 @@ import {
   ListNbasParams,
   CompleteNbaParams,
   ListArtifactsParams,
-  GeneralQuestionParams,
   SearchAccountsParams,
+  AgentPendingAction,
   CreateAccountParams,
   companyResearchParamsSchema,
   transcriptAnalysisParamsSchema,
@@ -18,73 +16,31 @@ import {
   listNbasParamsSchema,
   completeNbaParamsSchema,
   listArtifactsParamsSchema,
-  generalQuestionParamsSchema,
   searchAccountsParamsSchema,
   createAccountParamsSchema
 } from '@shared/schema';
 import { searchCompany } from './company-research';
-import { processTranscript } from './notes-generation';
+import { enqueueTranscriptProcessing } from './notes-generation';
+import { recordArtifactRevision } from './revisions';
+import { completeNextBestAction, getSequencedNba, withSequencing } from './nba-sequencing';
 import { generateFrameworkNotes, generateCoachingGuidance } from './openai';
 import { storage } from '../storage';
+import { canAccessAccountRecord, getAccessScope, getAccessibleAccounts, type AccessLevel } from './access-control';
+import { searchContent } from './search';
 import { SENA_PROMPTS } from './sena-system-prompt';
+import { completeChat, streamChat, type LLMMessage } from './llm';
+import { z } from 'zod';
+import { setActiveAccount, type ConversationContext } from './conversations';
+import { resolveAccount, type AccountMatch } from './account-resolution';
 
-// Using gpt-5-mini for agent conversations
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "default_key"
-});
-
-interface IntentClassification {
-  intent: AgentIntent;
-  params: any;
-  confidence: number;
-  needsConfirmation: boolean;
-  clarificationQuestion?: string;
-}
-
-export async function classifyIntent(
-  message: string, 
-  conversationHistory: any[] = []
-): Promise<IntentClassification> {
-  const systemMessage = SENA_PROMPTS.intentClassification();
-
-  const conversationContext = conversationHistory.length > 0 
-    ? `\n\nConversation history:\n${conversationHistory.slice(-3).map(msg => `${msg.role}: ${msg.content}`).join('\n')}`
-    : '';
-
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-5-mini",
-      messages: [
-        { role: "system", content: systemMessage },
-        { role: "user", content: `${message}${conversationContext}` }
-      ],
-    });
-
-    const result = JSON.parse(response.choices[0].message.content || "{}");
-    
-    return {
-      intent: result.intent || "general_question",
-      params: result.params || {},
-      confidence: result.confidence || 0.5,
-      needsConfirmation: result.needsConfirmation || false,
-      clarificationQuestion: result.clarificationQuestion
-    };
-  } catch (error) {
-    console.error("Error classifying intent:", error);
-    return {
-      intent: "general_question",
-      params: { question: message },
-      confidence: 0.3,
-      needsConfirmation: false
-    };
-  }
+// Incremental updates for streaming clients
+export interface AgentEvents {
+  tool?(tool: AgentToolName, step: number): void;
+  progress?(message: string): void;
+  token?(text: string): void;
 }
 
-export async function dispatchAction(
-  intent: AgentIntent,
-  params: any,
-  userId: string
-): Promise<{
+type AgentToolResult = {
   summary: string;
   actionResults: Array<{
     type: string;
@@ -94,61 +50,481 @@ export async function dispatchAction(
     data?: any;
   }>;
   suggestedFollowUps?: string[];
-}> {
+};
+
+interface AgentTool<T extends z.ZodTypeAny = z.ZodTypeAny> {
+  description: string;
+  schema: T;
+  run(params: z.infer<T>, userId: string, events: AgentEvents): Promise<AgentToolResult>;
+  // Write tools only run once the user confirms. Returns what the call would do, or a
+  // result straight away when there is nothing to confirm (e.g. the account exists).
+  propose?(params: z.infer<T>, userId: string): Promise<string | AgentToolResult>;
+  // Tools taking accountId also accept `account` (a name or website), resolved before
+  // they run. Required ones fall back to the conversation's active account.
+  accountArgument?: "required" | "optional";
+}
+
+const defineTool = <T extends z.ZodTypeAny>(tool: AgentTool<T>) => tool;
+
+// The handlers the planner may call. Names match AgentIntent so results keep their
+// existing types and links.
+const AGENT_TOOLS = {
+  search_accounts: defineTool({
+    description: "Find the user's accounts by name, website or anything mentioned in their transcripts, notes and research. Use it to look up an accountId.",
+    schema: searchAccountsParamsSchema,
+    run: handleSearchAccounts,
+  }),
+  create_account: defineTool({
+    description: "Create a new account. The user is asked to confirm before it is created.",
+    schema: createAccountParamsSchema,
+    run: handleCreateAccount,
+    propose: proposeCreateAccount,
+  }),
+  company_research: defineTool({
+    description: "Research a company's pressures, objectives and buying signals. Pass accountId to save it to that account.",
+    schema: companyResearchParamsSchema,
+    run: handleCompanyResearch,
+    accountArgument: "optional",
+  }),
+  transcript_analysis: defineTool({
+    description: "Save a meeting transcript the user provided to an existing account and queue framework notes, stakeholders and Next Best Actions for it. The user is asked to confirm first. Create a new account with create_account first.",
+    schema: transcriptAnalysisParamsSchema,
+    run: handleTranscriptAnalysis,
+    propose: proposeTranscriptAnalysis,
+  }),
+  meeting_prep: defineTool({
+    description: "Gather research, previous notes, stakeholders and open actions to prepare for a meeting with an account.",
+    schema: meetingPrepParamsSchema,
+    run: handleMeetingPrep,
+    accountArgument: "required",
+  }),
+  list_nbas: defineTool({
+    description: "List Next Best Actions, optionally for one account or status.",
+    schema: listNbasParamsSchema,
+    run: handleListNbas,
+    accountArgument: "optional",
+  }),
+  complete_nba: defineTool({
+    description: "Mark a Next Best Action as completed. The user is asked to confirm before it is changed.",
+    schema: completeNbaParamsSchema,
+    run: handleCompleteNba,
+    propose: proposeCompleteNba,
+  }),
+  list_artifacts: defineTool({
+    description: "List saved artifacts such as research and framework notes.",
+    schema: listArtifactsParamsSchema,
+    run: handleListArtifacts,
+    accountArgument: "optional",
+  }),
+} satisfies Record<Exclude<AgentIntent, "general_question" | "clarification_needed">, AgentTool<any>>;
+
+export type AgentToolName = keyof typeof AGENT_TOOLS;
+
+const DEFAULT_MAX_STEPS = 5;
+// Tool results are fed back to the planner; keep each one to a reasonable size
+const MAX_TOOL_RESULT_CHARS = 6000;
+const PENDING_ACTION_TTL_MS = 15 * 60 * 1000;
+
+type PlannerDecision =
+  | { action: "call"; tool: string; arguments?: unknown }
+  | { action: "respond" }
+  | { action: "clarify"; question: string };
+
+interface ToolStep {
+  tool: string;
+  arguments: unknown;
+  result?: AgentToolResult;
+  error?: string;
+  awaitingConfirmation?: boolean;
+  account?: { id: string; name: string }; // The account the tool ran against
+  ambiguous?: { query: string; matches: AccountMatch[] };
+}
+
+// Long pasted content such as transcripts is clipped; the summary carries the gist
+const MAX_HISTORY_MESSAGE_CHARS = 2000;
+
+function formatConversationContext(context: ConversationContext): string {
+  let text = "";
+  if (context.summary) {
+    text += `\n\nEarlier in this conversation: ${context.summary}`;
+  }
+  if (context.activeAccount) {
+    text += `\n\nActive account: ${context.activeAccount.name} (accountId: ${context.activeAccount.id})`;
+  }
+  if (context.recent.length > 0) {
+    const turns = context.recent.map(msg => `${msg.role}: ${msg.content.length > MAX_HISTORY_MESSAGE_CHARS ? `${msg.content.slice(0, MAX_HISTORY_MESSAGE_CHARS)}…` : msg.content}`);
+    text += `\n\nConversation history:\n${turns.join('\n')}`;
+  }
+  return text;
+}
+
+function getMaxSteps(): number {
+  const configured = Number(process.env.AGENT_MAX_STEPS);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_STEPS;
+}
+
+// Renders a tool's Zod schema as a compact signature for the planner prompt, e.g.
+// { companyName: string, lob?: "LTS" | "LSS" }
+function describeSchema(schema: z.ZodTypeAny): string {
+  if (schema instanceof z.ZodOptional) return describeSchema(schema.unwrap());
+  if (schema instanceof z.ZodEnum) return schema.options.map((option: string) => JSON.stringify(option)).join(" | ");
+  if (schema instanceof z.ZodArray) return `Array<${describeSchema(schema.element)}>`;
+  if (schema instanceof z.ZodString) return schema.isUUID ? "uuid" : "string";
+  if (schema instanceof z.ZodObject) {
+    const fields = Object.entries(schema.shape as Record<string, z.ZodTypeAny>)
+      .map(([key, field]) => `${key}${field.isOptional() ? "?" : ""}: ${describeSchema(field)}`);
+    return `{ ${fields.join(", ")} }`;
+  }
+  return "any";
+}
+
+function describeTools(): string {
+  return Object.entries(AGENT_TOOLS)
+    .map(([name, tool]) => `- ${name}: ${tool.description}\n  arguments: ${describeSchema(tool.schema)}`)
+    .join("\n");
+}
+
+function formatToolStep(step: ToolStep, index: number): string {
+  const body = step.error
+    ? { error: step.error }
+    : {
+        summary: step.result!.summary,
+        results: step.result!.actionResults.map(({ type, title, description, data }) => ({ type, title, description, data })),
+      };
+  const text = JSON.stringify(body);
+  return `Step ${index + 1} result from ${step.tool}: ${text.length > MAX_TOOL_RESULT_CHARS ? `${text.slice(0, MAX_TOOL_RESULT_CHARS)}…(truncated)` : text}`;
+}
+
+function parseDecision(content: string): PlannerDecision {
+  const decision = JSON.parse(content || "{}");
+  if (decision.action === "call" && typeof decision.tool === "string") return decision;
+  if (decision.action === "clarify" && typeof decision.question === "string") return decision;
+  return { action: "respond" };
+}
+
+async function runTool(step: ToolStep, userId: string, context: ConversationContext, events: AgentEvents): Promise<void> {
+  if (!(step.tool in AGENT_TOOLS)) {
+    step.error = `Unknown tool "${step.tool}". Available tools: ${Object.keys(AGENT_TOOLS).join(", ")}`;
+    return;
+  }
+
+  const tool: AgentTool = AGENT_TOOLS[step.tool as AgentToolName];
+  const parsed = tool.schema.safeParse(step.arguments ?? {});
+  if (!parsed.success) {
+    step.error = `Invalid arguments: ${parsed.error.errors.map(issue => `${issue.path.join(".") || "arguments"} ${issue.message}`).join("; ")}`;
+    return;
+  }
+
   try {
-    switch (intent) {
-      case "company_research":
-        return await handleCompanyResearch(params, userId);
-      
-      case "transcript_analysis":
-        return await handleTranscriptAnalysis(params, userId);
-        
-      case "meeting_prep":
-        return await handleMeetingPrep(params, userId);
-        
-      case "list_nbas":
-        return await handleListNbas(params, userId);
-        
-      case "complete_nba":
-        return await handleCompleteNba(params, userId);
-        
-      case "list_artifacts":
-        return await handleListArtifacts(params, userId);
-        
-      case "search_accounts":
-        return await handleSearchAccounts(params, userId);
-        
-      case "create_account":
-        return await handleCreateAccount(params, userId);
-        
-      case "general_question":
-        return await handleGeneralQuestion(params);
-        
-      default:
-        return {
-          summary: "I'm not sure how to help with that request. Could you please clarify what you'd like me to do?",
-          actionResults: []
-        };
+    let params = parsed.data;
+    if (tool.accountArgument) {
+      params = await resolveAccountArgument(step, params, tool.accountArgument, userId, context);
+      if (step.ambiguous) return;
+    }
+    if (tool.propose) {
+      await proposeTool(step, tool, params, userId, context.conversationId);
+    } else {
+      step.result = await tool.run(params, userId, events);
     }
   } catch (error) {
-    console.error(`Error dispatching action for intent ${intent}:`, error);
+    console.error(`Error running agent tool ${step.tool}:`, error);
+    step.error = (error as Error).message;
+  }
+}
+
+// Turns `account` into accountId. Several close matches leave the step ambiguous so
+// the user can pick; no match is an error the planner can act on.
+async function resolveAccountArgument(
+  step: ToolStep,
+  params: { accountId?: string; account?: string },
+  mode: "required" | "optional",
+  userId: string,
+  context: ConversationContext
+) {
+  const { account: query, ...rest } = params;
+  if (rest.accountId) {
+    const account = await storage.getAccount(rest.accountId);
+    if (account) step.account = { id: account.id, name: account.name };
+    return rest;
+  }
+
+  if (query) {
+    const resolution = resolveAccount(query, await getVisibleAccounts(userId));
+    if (resolution.status === "not_found") {
+      throw new Error(`No account matches "${query}". Check the spelling, try search_accounts, or ask the user.`);
+    }
+    if (resolution.status === "ambiguous") {
+      step.ambiguous = { query, matches: resolution.matches };
+      return rest;
+    }
+    step.account = { id: resolution.account.id, name: resolution.account.name };
+    return { ...rest, accountId: resolution.account.id };
+  }
+
+  if (mode === "required") {
+    if (!context.activeAccount) {
+      throw new Error("Pass account (the account name or website) or accountId; no account is active in this conversation");
+    }
+    step.account = context.activeAccount;
+    return { ...rest, accountId: context.activeAccount.id };
+  }
+  return rest;
+}
+
+function disambiguationResponse(steps: ToolStep[], ambiguous: NonNullable<ToolStep["ambiguous"]>): AgentChatResponse {
+  return {
+    message: `I found ${ambiguous.matches.length} accounts matching "${ambiguous.query}". Which one did you mean?`,
+    intent: "clarification_needed",
+    actionResults: [
+      ...steps.flatMap(step => step.result?.actionResults || []),
+      ...ambiguous.matches.map(({ account }) => ({
+        type: 'account_option',
+        title: account.name,
+        description: account.website || account.industry || 'Sales account',
+        link: `/accounts/${account.id}`,
+        data: { id: account.id, name: account.name, website: account.website },
+      })),
+    ],
+    needsConfirmation: true,
+    suggestedFollowUps: [],
+  };
+}
+
+// Holds a write tool call as a pending action instead of running it. The planner is
+// told nothing has changed yet, and the client gets the token to confirm or cancel.
+async function proposeTool(step: ToolStep, tool: AgentTool, params: any, userId: string, conversationId: string) {
+  const proposal = await tool.propose!(params, userId);
+  if (typeof proposal !== "string") {
+    step.result = proposal;
+    return;
+  }
+
+  const pending = await storage.createPendingAction({
+    userId,
+    conversationId,
+    tool: step.tool,
+    params,
+    description: proposal,
+    expiresAt: new Date(Date.now() + PENDING_ACTION_TTL_MS),
+  });
+  step.awaitingConfirmation = true;
+  step.result = {
+    summary: `Proposed: ${proposal}. Nothing has been changed yet; the user has been asked to confirm or cancel.`,
+    actionResults: [
+      {
+        type: 'pending_action',
+        title: 'Confirm action',
+        description: proposal,
+        data: { token: pending.id, tool: step.tool, expiresAt: pending.expiresAt },
+      }
+    ],
+    suggestedFollowUps: [],
+  };
+}
+
+// Runs or discards a pending action. Returns undefined when the token is unknown,
+// belongs to someone else, has expired or was already used.
+export async function resolvePendingAction(
+  token: string,
+  userId: string,
+  decision: "confirm" | "cancel"
+): Promise<{ action: AgentPendingAction; response: AgentChatResponse } | undefined> {
+  const action = await storage.resolvePendingAction(token, userId, decision === "confirm" ? "confirmed" : "cancelled");
+  if (!action) return undefined;
+
+  if (decision === "cancel") {
     return {
-      summary: "I encountered an error while processing your request. Please try again or contact support if the issue persists.",
-      actionResults: [],
-      suggestedFollowUps: ["Try rephrasing your request", "Check if all required information was provided"]
+      action,
+      response: {
+        message: `Cancelled: ${action.description}. Nothing was changed.`,
+        intent: action.tool as AgentIntent,
+        actionResults: [],
+        needsConfirmation: false,
+      },
     };
   }
+
+  // The handler re-checks access, which may have changed since the proposal
+  const tool: AgentTool = AGENT_TOOLS[action.tool as AgentToolName];
+  const result = await tool.run(tool.schema.parse(action.params), userId, {});
+  return {
+    action,
+    response: {
+      message: result.summary,
+      intent: action.tool as AgentIntent,
+      actionResults: result.actionResults,
+      needsConfirmation: false,
+      suggestedFollowUps: result.suggestedFollowUps,
+    },
+  };
 }
 
-async function handleCompanyResearch(params: CompanyResearchParams, userId: string) {
+// Plans and runs tools one step at a time, feeding each result back to the planner,
+// until it is ready to answer or the step budget runs out. The reply is then written
+// from the gathered results and streamed as tokens.
+export async function runAgentChat(
+  message: string,
+  context: ConversationContext,
+  userId: string,
+  events: AgentEvents = {}
+): Promise<AgentChatResponse> {
+  const maxSteps = getMaxSteps();
+  const conversationContext = formatConversationContext(context);
+  const planner: LLMMessage[] = [
+    { role: "system", content: SENA_PROMPTS.agentPlanner(describeTools(), maxSteps) },
+    { role: "user", content: `${message}${conversationContext}` },
+  ];
+
+  events.progress?.("Understanding your request…");
+  const steps: ToolStep[] = [];
+  while (steps.length < maxSteps) {
+    let decision: PlannerDecision;
+    try {
+      const response = await completeChat({ task: "agent_planning", messages: planner, json: true });
+      decision = parseDecision(response.content);
+      planner.push({ role: "assistant", content: response.content });
+    } catch (error) {
+      console.error("Error planning agent step:", error);
+      break;
+    }
+
+    if (decision.action === "clarify") {
+      events.token?.(decision.question);
+      return {
+        message: decision.question,
+        intent: "clarification_needed",
+        actionResults: steps.flatMap(step => step.result?.actionResults || []),
+        needsConfirmation: true,
+      };
+    }
+    if (decision.action === "respond") break;
+
+    const step: ToolStep = { tool: decision.tool, arguments: decision.arguments };
+    steps.push(step);
+    if (step.tool in AGENT_TOOLS) {
+      events.tool?.(step.tool as AgentToolName, steps.length);
+    }
+    await runTool(step, userId, context, events);
+    if (step.ambiguous) {
+      const response = disambiguationResponse(steps, step.ambiguous);
+      events.token?.(response.message);
+      return { ...response, activeAccount: context.activeAccount };
+    }
+    // Later steps may depend on the change, so stop until the user decides
+    if (step.awaitingConfirmation) break;
+    planner.push({
+      role: "user",
+      content: `${formatToolStep(step, steps.length - 1)}\n\n${steps.length < maxSteps ? `${maxSteps - steps.length} step(s) left.` : "No steps left; respond now."}`,
+    });
+  }
+
+  const completed = steps.filter(step => step.result);
+  const lastAccount = [...completed].reverse().find(step => step.account)?.account;
+  let activeAccount = context.activeAccount;
+  if (lastAccount && lastAccount.id !== activeAccount?.id) {
+    activeAccount = lastAccount;
+    await setActiveAccount(context.conversationId, lastAccount.id);
+  }
+
+  const summary = await writeReply(message, conversationContext, steps, events);
+  const lastFollowUps = [...completed].reverse().find(step => step.result!.suggestedFollowUps?.length)?.result!.suggestedFollowUps;
+
+  return {
+    message: summary,
+    intent: (completed[0]?.tool as AgentIntent | undefined) || "general_question",
+    actionResults: completed.flatMap(step => step.result!.actionResults),
+    needsConfirmation: steps.some(step => step.awaitingConfirmation),
+    activeAccount,
+    suggestedFollowUps: lastFollowUps || [
+      "Would you like me to help you with company research?",
+      "Do you have a transcript you'd like me to analyze?",
+      "Should I show you your current Next Best Actions?"
+    ],
+  };
+}
+
+async function writeReply(
+  message: string,
+  conversationContext: string,
+  steps: ToolStep[],
+  events: AgentEvents
+): Promise<string> {
+  const results = steps.length > 0
+    ? `\n\nTools you ran for this request:\n${steps.map(formatToolStep).join("\n")}`
+    : "";
+
+  try {
+    const response = await streamChat({
+      task: "general_question",
+      messages: [
+        {
+          role: "system",
+          content: `${SENA_PROMPTS.general()}\n\nAnswer the user's latest message. When tool results are provided, summarise what was done and found using only those results; mention any step that failed.`,
+        },
+        { role: "user", content: `${message}${conversationContext}${results}` },
+      ],
+    }, text => events.token?.(text));
+
+    return response.content || "I'm not sure how to help with that. Could you please be more specific?";
+  } catch (error) {
+    console.error("Error writing agent reply:", error);
+    const fallback = steps.length > 0
+      ? steps.map(step => step.result?.summary || `${step.tool} failed: ${step.error}`).join("\n\n")
+      : "I can help you with company research, transcript analysis, meeting prep, and managing your Next Best Actions. What would you like to work on?";
+    events.token?.(fallback);
+    return fallback;
+  }
+}
+
+// Accounts the user owns, oversees or has been shared on
+async function getVisibleAccounts(userId: string) {
+  const user = await storage.getUser(userId);
+  if (!user) return [];
+  return await getAccessibleAccounts(await getAccessScope(user));
+}
+
+async function getVisibleAccountIds(userId: string) {
+  const accounts = await getVisibleAccounts(userId);
+  return accounts.map(account => account.id);
+}
+
+// Tool arguments come from the planner, so any account they name is checked against
+// the caller before it is read or changed
+async function getAccountForUser(userId: string, accountId: string, level: AccessLevel = "read") {
+  const account = await storage.getAccount(accountId);
+  if (!account) {
+    throw new Error("Account not found");
+  }
+  const user = await storage.getUser(userId);
+  if (!user || !canAccessAccountRecord(await getAccessScope(user), account, level)) {
+    throw new Error("You do not have access to this account");
+  }
+  return account;
+}
+
+async function getNbaForUpdate(userId: string, nbaId: string) {
+  const nba = await storage.getNextBestAction(nbaId);
+  if (!nba) {
+    throw new Error("Next Best Action not found");
+  }
+  await getAccountForUser(userId, nba.accountId, "write");
+  return nba;
+}
+
+async function handleCompanyResearch(params: CompanyResearchParams, userId: string, events: AgentEvents = {}) {
   const validatedParams = companyResearchParamsSchema.parse(params);
+  if (validatedParams.accountId) {
+    await getAccountForUser(userId, validatedParams.accountId, "write");
+  }
   
+  events.progress?.(`Researching ${validatedParams.companyName}…`);
   const research = await searchCompany(validatedParams.companyName, validatedParams.lob || "LSS");
   
   let artifactId: string | undefined;
   
   // If accountId is provided, save the research as an artifact
   if (validatedParams.accountId) {
+    events.progress?.("Saving research to your artifacts…");
     const artifact = await storage.createArtifact({
       accountId: validatedParams.accountId,
       type: 'CompanyResearch',
@@ -157,6 +533,7 @@ async function handleCompanyResearch(params: CompanyResearchParams, userId: stri
       summary: research.overview.substring(0, 200) + '...',
       createdBy: userId,
     });
+    await recordArtifactRevision(artifact, 'ai', userId);
     artifactId = artifact.id;
   }
   
@@ -184,69 +561,57 @@ async function handleCompanyResearch(params: CompanyResearchParams, userId: stri
   };
 }
 
-async function handleTranscriptAnalysis(params: TranscriptAnalysisParams, userId: string) {
-  const validatedParams = transcriptAnalysisParamsSchema.parse(params);
-  
-  // If no accountId provided but accountName given, try to find or create account
-  let accountId = validatedParams.accountId;
-  if (!accountId && validatedParams.accountName) {
-    const accounts = await storage.getAccountsByUser(userId);
-    const existingAccount = accounts.find((acc: any) => 
-      acc.name.toLowerCase() === validatedParams.accountName!.toLowerCase()
-    );
-    
-    if (existingAccount) {
-      accountId = existingAccount.id;
-    } else {
-      const newAccount = await storage.createAccount({
-        name: validatedParams.accountName,
-        assignedTo: userId,
-      });
-      accountId = newAccount.id;
-    }
+// The account the transcript belongs to. New accounts are only created through
+// create_account, which the user confirms first.
+async function getTranscriptAccount(params: TranscriptAnalysisParams, userId: string) {
+  if (params.accountId) {
+    return await getAccountForUser(userId, params.accountId, "write");
   }
-  
-  if (!accountId) {
+  if (!params.accountName) {
     throw new Error("Account ID or Account Name is required for transcript analysis");
   }
+
+  const accounts = await getVisibleAccounts(userId);
+  const existingAccount = accounts.find((acc: any) => 
+    acc.name.toLowerCase() === params.accountName!.toLowerCase()
+  );
+  if (!existingAccount) {
+    throw new Error(`No account named "${params.accountName}". Call create_account first so the user can confirm it, then run transcript_analysis with the new accountId.`);
+  }
+  return await getAccountForUser(userId, existingAccount.id, "write");
+}
+
+// Queues the transcript like the notes page does, so a slow or failed framework does
+// not hold up or fail the chat reply; progress is shown on the notes page
+async function handleTranscriptAnalysis(params: TranscriptAnalysisParams, userId: string, events: AgentEvents = {}) {
+  const validatedParams = transcriptAnalysisParamsSchema.parse(params);
+  const account = await getTranscriptAccount(validatedParams, userId);
   
-  const result = await processTranscript({
-    accountId,
+  events.progress?.("Queueing transcript analysis…");
+  const job = await enqueueTranscriptProcessing({
+    accountId: account.id,
     transcriptContent: validatedParams.transcript,
     frameworks: validatedParams.frameworks,
-    lob: "LSS", // Default to LSS, could be determined from user profile
+    lob: account.lob || "LSS",
     userId,
     userTimeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
   });
   
   return {
-    summary: `I've analyzed your transcript and generated notes using ${validatedParams.frameworks.join(", ")} framework(s). Created ${result.frameworkNotes.length} framework note(s) and ${result.nextBestActions.length} Next Best Action(s).`,
+    summary: `I've queued your transcript for ${account.name}. ${validatedParams.frameworks.join(", ")} notes and Next Best Actions will appear on the notes page as each step finishes.`,
     actionResults: [
       {
         type: 'transcript_analysis',
-        title: 'Transcript Analysis Complete',
-        description: `Generated framework notes and next best actions`,
+        title: 'Transcript Analysis Queued',
+        description: `Generating ${validatedParams.frameworks.join(", ")} notes and next best actions`,
         link: `/notes`,
         data: {
-          transcriptId: result.transcriptId,
-          frameworkNotes: result.frameworkNotes.length,
-          nextBestActions: result.nextBestActions.length
+          jobId: job.id,
+          accountId: account.id,
+          status: job.status,
+          steps: job.steps,
         }
-      },
-      ...result.frameworkNotes.map(note => ({
-        type: 'framework_notes',
-        title: `${note.framework} Notes`,
-        description: `Framework notes generated from transcript`,
-        link: `/notes`,
-        data: note
-      })),
-      ...result.nextBestActions.map(nba => ({
-        type: 'next_best_action',
-        title: nba.title,
-        description: nba.description,
-        link: `/nbas`,
-        data: nba
-      }))
+      }
     ],
     suggestedFollowUps: [
       "Would you like me to provide coaching guidance based on this call?",
@@ -256,14 +621,21 @@ async function handleTranscriptAnalysis(params: TranscriptAnalysisParams, userId
   };
 }
 
-async function handleMeetingPrep(params: MeetingPrepParams, userId: string) {
+async function proposeTranscriptAnalysis(params: TranscriptAnalysisParams, userId: string) {
+  const account = await getTranscriptAccount(params, userId);
+  return `Save the transcript to "${account.name}" and generate ${params.frameworks.join(", ")} notes and Next Best Actions from it`;
+}
+
+async function handleMeetingPrep(params: MeetingPrepParams, userId: string, events: AgentEvents = {}) {
   const validatedParams = meetingPrepParamsSchema.parse(params);
-  
-  const account = await storage.getAccount(validatedParams.accountId);
-  if (!account) {
-    throw new Error("Account not found");
+  if (!validatedParams.accountId) {
+    throw new Error("Account name or ID is required for meeting prep");
   }
   
+  const account = await getAccountForUser(userId, validatedParams.accountId);
+  
+  events.progress?.(`Gathering research, notes and actions for ${account.name}…`);
+  
   // Get existing company research
   const companyResearch = await storage.getCompanyResearch(validatedParams.accountId);
   
@@ -273,8 +645,19 @@ async function handleMeetingPrep(params: MeetingPrepParams, userId: string) {
   // Get NBAs for this account
   const nbas = await storage.getNextBestActions({ accountId: validatedParams.accountId });
   
+  // Get known stakeholders for this account
+  const contacts = await storage.getContactsByAccount(validatedParams.accountId);
+  const stakeholders = contacts.map(contact => ({
+    id: contact.id,
+    name: contact.name,
+    title: contact.title,
+    roles: contact.roles
+  }));
+  const missingRoles = (['Economic Buyer', 'Champion'] as const)
+    .filter(role => !contacts.some(contact => contact.roles.includes(role)));
+  
   return {
-    summary: `I've prepared meeting insights for ${account.name} using your selected frameworks. You have ${companyResearch.length} research report(s), ${frameworkNotes.length} previous meeting note(s), and ${nbas.length} open action(s).`,
+    summary: `I've prepared meeting insights for ${account.name} using your selected frameworks. You have ${companyResearch.length} research report(s), ${frameworkNotes.length} previous meeting note(s), ${contacts.length} known stakeholder(s), and ${nbas.length} open action(s).${missingRoles.length > 0 ? ` No ${missingRoles.join(' or ')} has been identified yet.` : ''}`,
     actionResults: [
       {
         type: 'meeting_prep',
@@ -284,7 +667,9 @@ async function handleMeetingPrep(params: MeetingPrepParams, userId: string) {
         data: {
           companyResearch: companyResearch.length,
           frameworkNotes: frameworkNotes.length,
-          openNbas: nbas.filter((nba: any) => nba.status === 'Open').length
+          openNbas: nbas.filter((nba: any) => nba.status === 'Open').length,
+          stakeholders,
+          missingRoles
         }
       }
     ],
@@ -296,16 +681,22 @@ async function handleMeetingPrep(params: MeetingPrepParams, userId: string) {
   };
 }
 
-async function handleListNbas(params: ListNbasParams, userId: string) {
+async function handleListNbas(params: ListNbasParams, userId: string, events: AgentEvents = {}) {
   const validatedParams = listNbasParamsSchema.parse(params);
   
+  if (validatedParams.accountId) {
+    await getAccountForUser(userId, validatedParams.accountId);
+  }
+  
+  events.progress?.("Loading your Next Best Actions…");
   const nbas = validatedParams.accountId 
     ? await storage.getNextBestActions({ accountId: validatedParams.accountId })
-    : await storage.getNextBestActions({ userId });
+    : await storage.getNextBestActions({ accountIds: await getVisibleAccountIds(userId) });
   
   const filteredNbas = validatedParams.status 
     ? nbas.filter((nba: any) => nba.status === validatedParams.status)
     : nbas;
+  const shownNbas = await withSequencing(filteredNbas.slice(0, 5));
   
   return {
     summary: `I found ${filteredNbas.length} Next Best Action(s)${validatedParams.status ? ` with status "${validatedParams.status}"` : ''}. ${filteredNbas.filter((nba: any) => nba.status === 'Open').length} are still open.`,
@@ -317,12 +708,18 @@ async function handleListNbas(params: ListNbasParams, userId: string) {
         link: '/nbas',
         data: { total: filteredNbas.length, open: filteredNbas.filter((nba: any) => nba.status === 'Open').length }
       },
-      ...filteredNbas.slice(0, 5).map(nba => ({
+      ...shownNbas.map(nba => ({
         type: 'nba',
         title: nba.title,
         description: nba.description || '',
         link: `/nbas`,
-        data: { id: nba.id, priority: nba.priority, status: nba.status, dueDate: nba.dueDate }
+        data: {
+          id: nba.id,
+          priority: nba.priority,
+          status: nba.status,
+          dueDate: nba.dueDate,
+          blockedBy: nba.blockedBy.map(blocker => blocker.title)
+        }
       }))
     ],
     suggestedFollowUps: [
@@ -333,24 +730,23 @@ async function handleListNbas(params: ListNbasParams, userId: string) {
   };
 }
 
-async function handleCompleteNba(params: CompleteNbaParams, userId: string) {
+async function handleCompleteNba(params: CompleteNbaParams, userId: string, events: AgentEvents = {}) {
   const validatedParams = completeNbaParamsSchema.parse(params);
+  const nba = await getNbaForUpdate(userId, validatedParams.nbaId);
   
-  await storage.updateNextBestAction(validatedParams.nbaId, {
-    status: 'Completed',
-    updatedAt: new Date()
-  });
-  
-  const nbas = await storage.getNextBestActions();
-  const nba = nbas.find((n: any) => n.id === validatedParams.nbaId);
+  events.progress?.("Completing the action…");
+  const { unblocked } = await completeNextBestAction(nba);
+  const unblockedNote = unblocked.length > 0
+    ? ` That unblocks ${unblocked.map(next => `"${next.title}"`).join(', ')}.`
+    : '';
   
   return {
-    summary: `I've marked the Next Best Action "${nba?.title}" as completed. Great job moving the deal forward!`,
+    summary: `I've marked the Next Best Action "${nba.title}" as completed.${unblockedNote} Great job moving the deal forward!`,
     actionResults: [
       {
         type: 'nba_completed',
         title: 'Action Completed',
-        description: nba?.title || 'Next Best Action',
+        description: nba.title,
         link: '/nbas',
         data: { id: validatedParams.nbaId, status: 'Completed' }
       }
@@ -363,12 +759,43 @@ async function handleCompleteNba(params: CompleteNbaParams, userId: string) {
   };
 }
 
-async function handleListArtifacts(params: ListArtifactsParams, userId: string) {
+async function proposeCompleteNba(params: CompleteNbaParams, userId: string) {
+  const nba = await getNbaForUpdate(userId, params.nbaId);
+  if (nba.status === 'Completed') {
+    return {
+      summary: `The Next Best Action "${nba.title}" is already completed.`,
+      actionResults: [
+        {
+          type: 'nba',
+          title: nba.title,
+          description: nba.description || '',
+          link: '/nbas',
+          data: { id: nba.id, priority: nba.priority, status: nba.status, dueDate: nba.dueDate }
+        }
+      ],
+    };
+  }
+  const { blockedBy } = await getSequencedNba(nba);
+  if (blockedBy.length > 0) {
+    return {
+      summary: `The Next Best Action "${nba.title}" can't be completed yet. It is waiting on ${blockedBy.map(blocker => `"${blocker.title}"`).join(', ')}.`,
+      actionResults: [],
+    };
+  }
+  return `Mark the Next Best Action "${nba.title}" as completed`;
+}
+
+async function handleListArtifacts(params: ListArtifactsParams, userId: string, events: AgentEvents = {}) {
   const validatedParams = listArtifactsParamsSchema.parse(params);
   
+  if (validatedParams.accountId) {
+    await getAccountForUser(userId, validatedParams.accountId);
+  }
+  
+  events.progress?.("Loading your artifacts…");
   const artifacts = validatedParams.accountId
     ? await storage.getArtifacts({ accountId: validatedParams.accountId })
-    : await storage.getArtifacts({ userId });
+    : await storage.getArtifacts({ accountIds: await getVisibleAccountIds(userId) });
     
   const filteredArtifacts = validatedParams.type
     ? artifacts.filter((artifact: any) => artifact.type === validatedParams.type)
@@ -400,56 +827,11 @@ async function handleListArtifacts(params: ListArtifactsParams, userId: string)
   };
 }
 
-async function handleGeneralQuestion(params: GeneralQuestionParams) {
-  const validatedParams = generalQuestionParamsSchema.parse(params);
-  
-  const systemMessage = SENA_PROMPTS.general();
-
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-5-mini",
-      messages: [
-        { role: "system", content: systemMessage },
-        { role: "user", content: validatedParams.question }
-      ],
-    });
-
-    const answer = response.choices[0].message.content || "I'm not sure how to help with that. Could you please be more specific?";
-    
-    return {
-      summary: answer,
-      actionResults: [
-        {
-          type: 'general_guidance',
-          title: 'SENA Guidance',
-          description: 'General sales enablement assistance',
-          data: { question: validatedParams.question, answer }
-        }
-      ],
-      suggestedFollowUps: [
-        "Would you like me to help you with company research?",
-        "Do you have a transcript you'd like me to analyze?",
-        "Should I show you your current Next Best Actions?"
-      ]
-    };
-  } catch (error) {
-    console.error("Error handling general question:", error);
-    return {
-      summary: "I can help you with company research, transcript analysis, meeting prep, and managing your Next Best Actions. What would you like to work on?",
-      actionResults: [],
-      suggestedFollowUps: [
-        "Ask me to research a specific company",
-        "Upload a transcript for framework analysis", 
-        "Show me my current action items"
-      ]
-    };
-  }
-}
-
-async function handleSearchAccounts(params: SearchAccountsParams, userId: string) {
+async function handleSearchAccounts(params: SearchAccountsParams, userId: string, events: AgentEvents = {}) {
   const validatedParams = searchAccountsParamsSchema.parse(params);
   
-  const accounts = await storage.getAccountsByUser(userId);
+  events.progress?.(validatedParams.searchTerm ? `Searching accounts for "${validatedParams.searchTerm}"…` : "Loading your accounts…");
+  const accounts = await getVisibleAccounts(userId);
   
   let filteredAccounts = accounts;
   
@@ -463,6 +845,24 @@ async function handleSearchAccounts(params: SearchAccountsParams, userId: string
     );
   }
   
+  // Also surface accounts whose transcripts, notes, artifacts or research mention the term
+  const contentMatches = validatedParams.searchTerm && validatedParams.searchTerm.trim().length >= 2
+    ? await searchContent({
+        query: validatedParams.searchTerm,
+        accountIds: accounts.map((account: any) => account.id),
+        mode: 'hybrid',
+        limit: 10,
+      })
+    : [];
+  const matchedIds = new Set(filteredAccounts.map((account: any) => account.id));
+  for (const match of contentMatches) {
+    const account = accounts.find((acc: any) => acc.id === match.accountId);
+    if (account && !matchedIds.has(account.id)) {
+      filteredAccounts.push(account);
+      matchedIds.add(account.id);
+    }
+  }
+  
   // Filter by status if provided
   if (validatedParams.status) {
     filteredAccounts = filteredAccounts.filter((account: any) => 
@@ -471,7 +871,7 @@ async function handleSearchAccounts(params: SearchAccountsParams, userId: string
   }
   
   return {
-    summary: `I found ${filteredAccounts.length} account(s)${validatedParams.searchTerm ? ` matching "${validatedParams.searchTerm}"` : ''}${validatedParams.status ? ` with status "${validatedParams.status}"` : ''}.`,
+    summary: `I found ${filteredAccounts.length} account(s)${validatedParams.searchTerm ? ` matching "${validatedParams.searchTerm}"` : ''}${validatedParams.status ? ` with status "${validatedParams.status}"` : ''}.${contentMatches.length > 0 ? ` ${contentMatches.length} transcript, note or research passage(s) mention it.` : ''}`,
     actionResults: [
       {
         type: 'accounts_list',
@@ -492,6 +892,13 @@ async function handleSearchAccounts(params: SearchAccountsParams, userId: string
           status: account.status,
           createdAt: account.createdAt 
         }
+      })),
+      ...contentMatches.slice(0, 5).map(match => ({
+        type: 'search_result',
+        title: `${match.title}${match.accountName ? ` — ${match.accountName}` : ''}`,
+        description: match.snippet,
+        link: match.link,
+        data: { id: match.id, sourceType: match.type, accountId: match.accountId, highlights: match.highlights }
       }))
     ],
     suggestedFollowUps: [
@@ -502,44 +909,19 @@ async function handleSearchAccounts(params: SearchAccountsParams, userId: string
   };
 }
 
-async function handleCreateAccount(params: CreateAccountParams, userId: string) {
+async function handleCreateAccount(params: CreateAccountParams, userId: string, events: AgentEvents = {}) {
   const validatedParams = createAccountParamsSchema.parse(params);
   
-  // Check if account with this name already exists
-  const existingAccounts = await storage.getAccountsByUser(userId);
-  const existingAccount = existingAccounts.find((acc: any) => 
-    acc.name.toLowerCase() === validatedParams.name.toLowerCase()
-  );
-  
-  if (existingAccount) {
-    return {
-      summary: `An account named "${validatedParams.name}" already exists. I can help you work with the existing account instead.`,
-      actionResults: [
-        {
-          type: 'account_exists',
-          title: `Account "${validatedParams.name}" Found`,
-          description: 'This account already exists in your system',
-          link: `/accounts/${existingAccount.id}`,
-          data: { 
-            id: existingAccount.id, 
-            name: existingAccount.name,
-            existing: true
-          }
-        }
-      ],
-      suggestedFollowUps: [
-        "Would you like me to research this existing account?",
-        "Should I show you the Next Best Actions for this account?",
-        "Would you like to update the account details?"
-      ]
-    };
+  events.progress?.(`Creating account "${validatedParams.name}"…`);
+  const existing = await findExistingAccount(validatedParams, userId);
+  if (existing) {
+    return existing;
   }
   
   // Create new account
   const newAccount = await storage.createAccount({
     name: validatedParams.name,
     website: validatedParams.website,
-    description: validatedParams.description,
     assignedTo: userId,
   });
   
@@ -566,4 +948,46 @@ async function handleCreateAccount(params: CreateAccountParams, userId: string)
       "Do you have any meeting transcripts to analyze for this account?"
     ]
   };
-}
\ No newline at end of file
+}
+
+async function proposeCreateAccount(params: CreateAccountParams, userId: string) {
+  const existing = await findExistingAccount(params, userId);
+  if (existing) {
+    return existing;
+  }
+  return `Create the account "${params.name}"${params.website ? ` (${params.website})` : ''}`;
+}
+
+// Answers for an account the user can already see with the same name, if there is one
+async function findExistingAccount(params: CreateAccountParams, userId: string): Promise<AgentToolResult | undefined> {
+  const existingAccounts = await getVisibleAccounts(userId);
+  const existingAccount = existingAccounts.find((acc: any) => 
+    acc.name.toLowerCase() === params.name.toLowerCase()
+  );
+  
+  if (existingAccount) {
+    return {
+      summary: `An account named "${params.name}" already exists. I can help you work with the existing account instead.`,
+      actionResults: [
+        {
+          type: 'account_exists',
+          title: `Account "${params.name}" Found`,
+          description: 'This account already exists in your system',
+          link: `/accounts/${existingAccount.id}`,
+          data: { 
+            id: existingAccount.id, 
+            name: existingAccount.name,
+            existing: true
+          }
+        }
+      ],
+      suggestedFollowUps: [
+        "Would you like me to research this existing account?",
+        "Should I show you the Next Best Actions for this account?",
+        "Would you like to update the account details?"
+      ]
+    };
+  }
+
+  return undefined;
+}
@@ -0,0 +1,101 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import type { Job, TranscriptTurn } from "@shared/schema";
+import { enqueueJob, pendingStep, registerJobHandler, type JobContext } from "./job-queue";
+import { enqueueTranscriptProcessing, type ProcessTranscriptRequest } from "./notes-generation";
+import { formatTurns } from "./transcript-import";
+import {
+  diarizeSegments,
+  getTranscriptionProvider,
+  TranscriptionNotConfiguredError,
+  type TranscriptionSegment,
+} from "./transcription";
+
+export const AUDIO_JOB_TYPE = "transcribe_audio";
+
+// Uploads wait here until they are transcribed, and are removed once transcribed or once the job fails for good
+export const AUDIO_UPLOAD_DIR = process.env.AUDIO_UPLOAD_DIR || path.join(os.tmpdir(), "sena-audio");
+
+export interface AudioTranscriptionRequest extends Omit<ProcessTranscriptRequest, "transcriptContent" | "turns"> {
+  audioPath: string;
+  filename: string;
+}
+
+export interface AudioTranscriptionResult {
+  segments?: TranscriptionSegment[];
+  turns?: TranscriptTurn[];
+  content?: string;
+  speakers?: string[];
+  processingJobId?: string; // The transcript processing job the turns were handed to
+}
+
+export async function enqueueAudioTranscription(request: AudioTranscriptionRequest): Promise<Job> {
+  return await enqueueJob({
+    type: AUDIO_JOB_TYPE,
+    payload: request,
+    steps: [
+      pendingStep("transcribe", "Transcribe audio"),
+      pendingStep("diarize", "Identify speakers"),
+      pendingStep("process", "Queue notes generation"),
+    ],
+    accountId: request.accountId,
+    createdBy: request.userId,
+  });
+}
+
+export function registerAudioJobs() {
+  registerJobHandler(AUDIO_JOB_TYPE, runAudioJob, removeAudioUpload);
+}
+
+async function removeAudioUpload(job: Job): Promise<void> {
+  await fs.rm((job.payload as AudioTranscriptionRequest).audioPath, { force: true });
+}
+
+// Transcription is the slow part, so its segments are kept on the job result and a
+// retry after a later failure does not transcribe again
+async function runAudioJob(context: JobContext): Promise<void> {
+  const { runStep, setResult } = context;
+  const request = context.job.payload as AudioTranscriptionRequest;
+  const result: AudioTranscriptionResult = (context.job.result as AudioTranscriptionResult | null) || {};
+
+  const segments = await runStep("transcribe", async () => {
+    const provider = getTranscriptionProvider();
+    if (!provider) throw new TranscriptionNotConfiguredError();
+    // A retry after the job failed for good finds its upload already removed
+    if (!(await fs.stat(request.audioPath).catch(() => null))) {
+      throw new Error("The recording is no longer available; upload it again");
+    }
+    const transcribed = await provider.transcribe({ path: request.audioPath, filename: request.filename });
+    if (transcribed.length === 0) {
+      throw new Error("No speech was recognised in the recording");
+    }
+    return transcribed;
+  });
+  if (segments) {
+    result.segments = segments;
+    await setResult(result);
+    await fs.rm(request.audioPath, { force: true });
+  }
+
+  const turns = await runStep("diarize", async () => diarizeSegments(result.segments || []));
+  if (turns) {
+    result.turns = turns;
+    result.content = formatTurns(turns);
+    result.speakers = Array.from(new Set(turns.map(turn => turn.speaker)));
+    await setResult(result);
+  }
+
+  const processingJob = await runStep("process", () => {
+    const { audioPath, filename, ...processRequest } = request;
+    return enqueueTranscriptProcessing({
+      ...processRequest,
+      transcriptContent: result.content || "",
+      turns: result.turns,
+    });
+  });
+  if (processingJob) {
+    result.processingJobId = processingJob.id;
+    await setResult(result);
+  }
+}
@@ -0,0 +1,331 @@
+import { storage, type CadenceTouchWithNba } from "../storage";
+import { completeChat } from "./llm";
+import { SENA_PROMPTS } from "./sena-system-prompt";
+import { currentFrameworkContent } from "./pipeline-health";
+import { getZonedParts, zonedTimeToUtc } from "./time-zones";
+import { getDueDateScheduler, type DueDateScheduler } from "./nba-due-dates";
+import type {
+  Account,
+  CadenceChannel,
+  CadenceEnrollment,
+  CadenceStep,
+  CadenceTemplate,
+  CadenceTouch,
+  Contact,
+  InsertNextBestAction,
+  NextBestAction,
+} from "@shared/schema";
+
+const CHANNEL_LABELS: Record<CadenceChannel, string> = {
+  inmail: "InMail",
+  email: "Email",
+  call: "Call",
+};
+
+export type CadenceTemplateWithSteps = CadenceTemplate & { steps: CadenceStep[] };
+
+export type CadenceTouchDetails = CadenceTouch & {
+  nba: Pick<NextBestAction, "id" | "status" | "dueDate"> | null;
+};
+
+export type CadenceEnrollmentDetails = CadenceEnrollment & {
+  templateName: string;
+  contactName: string;
+  touches: CadenceTouchDetails[];
+  completed: boolean; // Every touch's NBA is completed
+};
+
+interface DraftedMessage {
+  subject: string | null;
+  message: string;
+}
+
+type TouchContent = Pick<CadenceTouch, "channel" | "title" | "subject" | "message">;
+
+export async function withSteps(templates: CadenceTemplate[]): Promise<CadenceTemplateWithSteps[]> {
+  const steps = await storage.getCadenceSteps(templates.map(template => template.id));
+  return templates.map(template => ({
+    ...template,
+    steps: steps.filter(step => step.templateId === template.id),
+  }));
+}
+
+export async function withEnrollmentDetails(enrollments: CadenceEnrollment[]): Promise<CadenceEnrollmentDetails[]> {
+  const [templates, touches] = await Promise.all([
+    storage.getCadenceTemplates(),
+    storage.getCadenceTouches(enrollments.map(enrollment => enrollment.id)),
+  ]);
+  const nbas = await storage.getNextBestActionsByIds(
+    touches.map(touch => touch.nbaId).filter((id): id is string => !!id)
+  );
+  const contacts = new Map<string, Contact>();
+  for (const accountId of Array.from(new Set(enrollments.map(enrollment => enrollment.accountId)))) {
+    for (const contact of await storage.getContactsByAccount(accountId)) contacts.set(contact.id, contact);
+  }
+
+  return enrollments.map(enrollment => {
+    const enrollmentTouches = touches
+      .filter(touch => touch.enrollmentId === enrollment.id)
+      .map(touch => {
+        const nba = nbas.find(item => item.id === touch.nbaId);
+        return { ...touch, nba: nba ? { id: nba.id, status: nba.status, dueDate: nba.dueDate } : null };
+      });
+    return {
+      ...enrollment,
+      templateName: templates.find(template => template.id === enrollment.templateId)?.name || "Deleted template",
+      contactName: contacts.get(enrollment.contactId)?.name || "Unknown contact",
+      touches: enrollmentTouches,
+      completed: enrollmentTouches.length > 0 && enrollmentTouches.every(touch => touch.nba?.status === "Completed"),
+    };
+  });
+}
+
+// Days from the start of the sequence for each step: delays add up from one step to the next
+export function stepDayOffsets(steps: Pick<CadenceStep, "delayDays">[]): number[] {
+  let day = 0;
+  return steps.map(step => (day += step.delayDays));
+}
+
+// The same wall-clock time, dayOffset calendar days later in the rep's zone, so a
+// daylight-saving change does not shift touches by an hour
+function touchDueDate(start: Date, dayOffset: number, timeZone: string): Date {
+  const { year, month, day, hour, minute } = getZonedParts(start, timeZone);
+  return zonedTimeToUtc({ year, month, day: day + dayOffset, hour, minute }, timeZone);
+}
+
+// The touch's day from the sequence, moved onto a working day with room on the rep's
+// calendar and never before the previous touch
+function scheduleTouch(scheduler: DueDateScheduler, target: Date, previousDueDate: Date | null): Date {
+  const notBefore = previousDueDate && previousDueDate > target ? previousDueDate : target;
+  return scheduler.schedule({ businessDays: 0, notBefore });
+}
+
+function firstName(contact: Contact): string {
+  return contact.name.split(/\s+/)[0] || contact.name;
+}
+
+// Used when no model is configured or it returns nothing usable for a step
+function fallbackMessage(step: CadenceStep, contact: Contact, account: Account): DraftedMessage {
+  if (step.channel === "call") {
+    return {
+      subject: null,
+      message: `Call ${contact.name}${contact.title ? ` (${contact.title})` : ""}. Reference the earlier outreach, ask about ${account.name}'s current priorities, and ask for a meeting. If it goes to voicemail, leave your name, one line on why you're calling and a request for a call back.`,
+    };
+  }
+  return {
+    subject: `${account.name} and LinkedIn`,
+    message: `Hi ${firstName(contact)},\n\nI'm reaching out because teams like ${account.name}'s use LinkedIn to reach the right people faster. Would you be open to a short conversation next week?`,
+  };
+}
+
+async function draftMessages(
+  template: CadenceTemplate,
+  steps: CadenceStep[],
+  account: Account,
+  contact: Contact
+): Promise<DraftedMessage[]> {
+  const fallback = steps.map(step => fallbackMessage(step, contact, account));
+  const [research, frameworkNotes, frameworkRecords] = await Promise.all([
+    storage.getCompanyResearch(account.id),
+    storage.getFrameworkNotesByAccount(account.id),
+    storage.getAccountFrameworkRecords(account.id),
+  ]);
+  const dayOffsets = stepDayOffsets(steps);
+
+  try {
+    const response = await completeChat({
+      task: "cadence_messages",
+      json: true,
+      messages: [
+        {
+          role: "system",
+          content: SENA_PROMPTS.outreach(template.lob || account.lob || undefined) + `
+
+Draft one message per step of an outreach sequence to ${contact.name} at ${account.name}. Each step builds on the ones before it and never repeats their opening.
+- inmail: a subject and a message of at most 1,900 characters
+- email: a subject and a message of at most 150 words
+- call: subject null; the message is a short talk track with a voicemail script
+Follow each step's instructions. Respond with JSON only: {"messages": [{"position": 1, "subject": "...", "message": "..."}]}`,
+        },
+        {
+          role: "user",
+          content: JSON.stringify({
+            contact: { name: contact.name, title: contact.title, roles: contact.roles, notes: contact.notes },
+            account: { name: account.name, industry: account.industry, stage: account.stage },
+            companyResearch: research[0]?.results || "No company research available",
+            frameworkNotes: currentFrameworkContent(frameworkNotes, frameworkRecords),
+            steps: steps.map((step, index) => ({
+              position: step.position,
+              day: dayOffsets[index] + 1,
+              channel: step.channel,
+              title: step.title,
+              instructions: step.instructions,
+            })),
+          }, null, 2),
+        },
+      ],
+    });
+    const drafted: Array<{ position?: number; subject?: string | null; message?: string }> =
+      JSON.parse(response.content || "{}").messages || [];
+    return steps.map((step, index) => {
+      const draft = drafted.find(item => item.position === step.position);
+      if (!draft?.message?.trim()) return fallback[index];
+      return {
+        subject: step.channel === "call" ? null : draft.subject?.trim().slice(0, 500) || fallback[index].subject,
+        message: draft.message.trim(),
+      };
+    });
+  } catch (error) {
+    console.warn("Drafting cadence messages without the model:", (error as Error).message);
+    return fallback;
+  }
+}
+
+interface TouchNbaOptions {
+  enrollment: Pick<CadenceEnrollment, "accountId" | "owner" | "userTimeZone" | "createdBy">;
+  contact: Contact;
+  templateName: string;
+  dueDate: Date;
+}
+
+// The touch's NBA carries the drafted message so the rep can send it from the NBA list
+function touchNbaValues(touch: TouchContent, options: TouchNbaOptions): InsertNextBestAction {
+  const { enrollment, contact } = options;
+  return {
+    accountId: enrollment.accountId,
+    title: `${CHANNEL_LABELS[touch.channel]} ${contact.name}: ${touch.title}`.slice(0, 500),
+    description: touch.subject ? `Subject: ${touch.subject}\n\n${touch.message}` : touch.message,
+    source: `Cadence: ${options.templateName}`.slice(0, 500),
+    priority: "Medium",
+    status: "Open",
+    owner: enrollment.owner,
+    dueDate: options.dueDate,
+    userTimeZone: enrollment.userTimeZone,
+    link: touch.channel === "inmail" ? contact.linkedinUrl : null,
+    createdBy: enrollment.createdBy,
+  };
+}
+
+// Each touch waits for the one before it
+async function createTouchNba(touch: TouchContent, options: TouchNbaOptions & { after?: string | null }): Promise<NextBestAction> {
+  const nba = await storage.createNextBestAction(touchNbaValues(touch, options));
+  // A fresh chain cannot form a cycle, so this skips the checks addNbaDependency makes
+  if (options.after) await storage.createNbaDependency({ nbaId: nba.id, dependsOnId: options.after });
+  return nba;
+}
+
+// Drafts every step for the contact and materialises each one as a dated NBA
+export async function enrollContact(input: {
+  template: CadenceTemplate;
+  account: Account;
+  contact: Contact;
+  userId: string;
+  startDate?: Date;
+  userTimeZone?: string;
+}): Promise<CadenceEnrollment> {
+  const { template, account, contact, userId } = input;
+  const steps = await storage.getCadenceSteps([template.id]);
+  const scheduler = await getDueDateScheduler(userId, { fallbackTimeZone: input.userTimeZone });
+  const timeZone = scheduler.timeZone;
+  const startDate = input.startDate || new Date();
+  const dayOffsets = stepDayOffsets(steps);
+  const drafts = await draftMessages(template, steps, account, contact);
+  const enrollment = {
+    templateId: template.id,
+    accountId: account.id,
+    contactId: contact.id,
+    owner: userId,
+    userTimeZone: timeZone,
+    createdBy: userId,
+  };
+
+  const touches: CadenceTouchWithNba[] = [];
+  let previousDueDate: Date | null = null;
+  const drafted = steps.map((step, index) => ({
+    position: step.position,
+    channel: step.channel,
+    title: step.title,
+    dayOffset: dayOffsets[index],
+    subject: drafts[index].subject,
+    message: drafts[index].message,
+  }));
+  for (const touch of drafted) {
+    const dueDate = scheduleTouch(scheduler, touchDueDate(startDate, touch.dayOffset, timeZone), previousDueDate);
+    touches.push({
+      ...touch,
+      nba: touchNbaValues(touch, { enrollment, contact, templateName: template.name, dueDate }),
+    });
+    previousDueDate = dueDate;
+  }
+
+  return await storage.createCadenceEnrollment(enrollment, touches);
+}
+
+// Withdraws the touches not done yet so they leave the rep's NBA list. Their drafts stay
+// on the touches for when the sequence resumes.
+export async function pauseEnrollment(enrollment: CadenceEnrollment, reason: string): Promise<CadenceEnrollment> {
+  const touches = await storage.getCadenceTouches([enrollment.id]);
+  const nbas = await storage.getNextBestActionsByIds(
+    touches.map(touch => touch.nbaId).filter((id): id is string => !!id)
+  );
+  for (const touch of touches) {
+    const nba = nbas.find(item => item.id === touch.nbaId);
+    if (!nba || nba.status === "Completed") continue;
+    await storage.deleteNextBestAction(nba.id);
+    await storage.updateCadenceTouch(touch.id, { nbaId: null, paused: true });
+  }
+
+  return await storage.updateCadenceEnrollment(enrollment.id, {
+    status: "paused",
+    pausedReason: reason,
+    pausedAt: new Date(),
+  });
+}
+
+// Puts the withdrawn touches back as NBAs. The first is due from today and the gaps
+// between steps are kept, as far as the rep's working days allow.
+export async function resumeEnrollment(enrollment: CadenceEnrollment, now: Date = new Date()): Promise<CadenceEnrollment> {
+  const pausedTouches = (await storage.getCadenceTouches([enrollment.id])).filter(touch => touch.paused);
+  const [template, contact] = await Promise.all([
+    storage.getCadenceTemplate(enrollment.templateId),
+    storage.getContact(enrollment.contactId),
+  ]);
+  if (!contact) {
+    throw new Error("Enrolled contact no longer exists");
+  }
+
+  const scheduler = await getDueDateScheduler(enrollment.owner, { fallbackTimeZone: enrollment.userTimeZone, now });
+  const firstDay = pausedTouches[0]?.dayOffset ?? 0;
+  let previousNbaId: string | null = null;
+  let previousDueDate: Date | null = null;
+  for (const touch of pausedTouches) {
+    const nba: NextBestAction = await createTouchNba(touch, {
+      enrollment,
+      contact,
+      templateName: template?.name || "Deleted template",
+      dueDate: scheduleTouch(scheduler, touchDueDate(now, touch.dayOffset - firstDay, scheduler.timeZone), previousDueDate),
+      after: previousNbaId,
+    });
+    await storage.updateCadenceTouch(touch.id, { nbaId: nba.id, paused: false });
+    previousNbaId = nba.id;
+    previousDueDate = nba.dueDate;
+  }
+
+  return await storage.updateCadenceEnrollment(enrollment.id, {
+    status: "active",
+    pausedReason: null,
+    pausedAt: null,
+  });
+}
+
+// Removes the enrolment and its unfinished NBAs; completed NBAs stay as a record of the outreach
+export async function stopEnrollment(enrollment: CadenceEnrollment): Promise<void> {
+  const touches = await storage.getCadenceTouches([enrollment.id]);
+  const nbas = await storage.getNextBestActionsByIds(
+    touches.map(touch => touch.nbaId).filter((id): id is string => !!id)
+  );
+  for (const nba of nbas) {
+    if (nba.status !== "Completed") await storage.deleteNextBestAction(nba.id);
+  }
+  await storage.deleteCadenceEnrollment(enrollment.id);
+}
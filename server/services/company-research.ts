@@ -1,15 +1,11 @@
-import OpenAI from "openai";
 import { SENA_PROMPTS } from './sena-system-prompt';
-
-// Using gpt-5-mini for company research
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "default_key"
-});
+import { completeChat, LLMNotConfiguredError } from './llm';
+import { searchCorpus, type CorpusPassage } from './corpus';
 
 // Helper function to create standardized error handling
 function createFallbackResponse(query: string, error: any): CompanySearchResult {
   // Check if this is a missing/invalid API key
-  const isMissingKey = !process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY === "default_key";
+  const isMissingKey = error instanceof LLMNotConfiguredError;
   
   // Check error type
   const isQuotaError = error instanceof Error && (
@@ -23,7 +19,7 @@ function createFallbackResponse(query: string, error: any): CompanySearchResult
   // Provide specific messaging based on error type
   let overviewMessage: string;
   if (isMissingKey) {
-    overviewMessage = `${query} - OpenAI API key not configured. Please add your OPENAI_API_KEY environment variable. Using fallback data below.`;
+    overviewMessage = `${query} - AI provider not configured. Please set OPENAI_API_KEY or LLM_PROVIDER. Using fallback data below.`;
   } else if (isQuotaError) {
     overviewMessage = `${query} - OpenAI API quota exceeded. To enable AI-powered research, please check your OpenAI billing and upgrade your plan at https://platform.openai.com/account/billing. Using fallback data below.`;
   } else if (isRateLimit) {
@@ -92,8 +88,8 @@ Respond with JSON in this exact format:
 
   try {
     console.log(`Starting company research for: ${query} (LOB: ${lob})`);
-    const response = await openai.chat.completions.create({
-      model: "gpt-5-mini",
+    const response = await completeChat({
+      task: "company_research",
       messages: [
         { role: "system", content: systemMessage },
         { 
@@ -101,12 +97,12 @@ Respond with JSON in this exact format:
           content: `Research company: ${query}\nLOB: ${lob}\n\nProvide comprehensive but concise research with credible sources.`
         }
       ],
-      response_format: { type: "json_object" }
+      json: true
     });
 
     let result;
     try {
-      result = JSON.parse(response.choices[0].message.content || "{}");
+      result = JSON.parse(response.content || "{}");
     } catch (parseError) {
       console.warn("Failed to parse OpenAI response as JSON, using fallback", parseError);
       return createFallbackResponse(query, parseError);
@@ -167,89 +163,29 @@ export async function getCompanyFromUrl(url: string): Promise<{
   }
 }
 
-export async function vectorSearchCorpus(company: string, k: number = 5): Promise<{
+// Retrieves the passages closest to the company (and optional focus query) from the
+// ingested corpus. Results carry document provenance so citations can be verified.
+export async function vectorSearchCorpus(
+  company: string,
+  k: number = 5,
+  options: { query?: string; accountIds?: string[] } = {}
+): Promise<{
   passages: string[];
   sources: Array<{ title: string; url: string; citation: string }>;
+  results: CorpusPassage[];
 }> {
-  // In a production environment, this would query a vector database
-  // For now, we'll simulate relevant passages about the company
-  
-  try {
-    const systemMessage = SENA_PROMPTS.companyResearch("LSS") + `
-
-Generate ${k} relevant information passages about ${company} that would typically be found in a sales intelligence database. 
-
-Each passage should be 2-3 sentences and cover different aspects like:
-- Business model and operations
-- Recent news and developments  
-- Market position and competition
-- Technology and innovation
-- Growth and expansion
-- Leadership and culture
+  const results = await searchCorpus([company, options.query].filter(Boolean).join(" "), {
+    k,
+    accountIds: options.accountIds,
+  });
 
-Also provide realistic source citations.
-
-Respond with JSON in this exact format:
-{
-  "passages": ["passage1", "passage2"],
-  "sources": [{"title": "string", "url": "string", "citation": "string"}]
-}`;
-
-    console.log(`Starting vector search for: ${company}`);
-    const response = await openai.chat.completions.create({
-      model: "gpt-5-mini",
-      messages: [
-        { role: "system", content: systemMessage },
-        { role: "user", content: `Company: ${company}\nNumber of passages: ${k}` }
-      ],
-      response_format: { type: "json_object" }
-    });
-
-    let result;
-    try {
-      result = JSON.parse(response.choices[0].message.content || "{}");
-    } catch (parseError) {
-      console.warn("Failed to parse OpenAI response as JSON in vector search, using fallback", parseError);
-      return {
-        passages: [`${company} operates in the technology sector. Additional research is temporarily unavailable.`],
-        sources: [{
-          title: "Company Website",
-          url: `https://${company.toLowerCase().replace(/\s+/g, '')}.com`,
-          citation: "[1]"
-        }]
-      };
-    }
-    
-    return {
-      passages: result.passages || [],
-      sources: result.sources || []
-    };
-  } catch (error) {
-    console.error("Error in vector search:", error);
-    
-    // Check error type and provide appropriate fallback
-    const isMissingKey = !process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY === "default_key";
-    const isQuotaError = error instanceof Error && (error as any)?.code === 'insufficient_quota';
-    const isRateLimit = error instanceof Error && (error as any)?.status === 429 && (error as any)?.code !== 'insufficient_quota';
-    
-    let errorMessage: string;
-    if (isMissingKey) {
-      errorMessage = "OpenAI API key not configured. Please add your OPENAI_API_KEY environment variable.";
-    } else if (isQuotaError) {
-      errorMessage = "OpenAI API quota exceeded. Please check your OpenAI billing and upgrade your plan.";
-    } else if (isRateLimit) {
-      errorMessage = "OpenAI API rate limit reached. Please try again in a few minutes.";
-    } else {
-      errorMessage = "Research is temporarily unavailable.";
-    }
-    
-    return {
-      passages: [`${company} operates in the technology sector. ${errorMessage}`],
-      sources: [{
-        title: "Company Website",
-        url: `https://${company.toLowerCase().replace(/\s+/g, '')}.com`,
-        citation: "[1]"
-      }]
-    };
-  }
+  return {
+    passages: results.map(result => result.passage),
+    sources: results.map(result => ({
+      title: result.page ? `${result.title} (p. ${result.page})` : result.title,
+      url: result.url || "",
+      citation: result.citation,
+    })),
+    results,
+  };
 }
@@ -0,0 +1,105 @@
+import { storage } from "../storage";
+import { completeChat } from "./llm";
+import type { AgentChatResponse, Conversation, Message } from "@shared/schema";
+
+// Turns sent to the planner verbatim; anything older is represented by the summary
+const RECENT_MESSAGES = 6;
+// Fold older turns into the summary in batches rather than on every message
+const SUMMARY_BATCH = 4;
+const TITLE_LENGTH = 60;
+
+export interface ConversationContext {
+  conversationId: string;
+  activeAccount: { id: string; name: string } | null;
+  summary: string | null;
+  recent: Array<{ role: Message["role"]; content: string }>;
+}
+
+function titleFrom(message: string): string {
+  const firstLine = message.trim().split("\n")[0];
+  return firstLine.length > TITLE_LENGTH ? `${firstLine.slice(0, TITLE_LENGTH - 1)}…` : firstLine;
+}
+
+// Returns the user's conversation, starting a new one when no id is given. Someone
+// else's conversation is reported as missing.
+export async function openConversation(
+  userId: string,
+  conversationId: string | undefined,
+  firstMessage: string
+): Promise<Conversation | undefined> {
+  if (!conversationId) {
+    return await storage.createConversation({ userId, title: titleFrom(firstMessage) });
+  }
+  const conversation = await storage.getConversation(conversationId);
+  return conversation?.userId === userId ? conversation : undefined;
+}
+
+async function summarize(previous: string | null, turns: Message[]): Promise<string> {
+  const transcript = turns.map(turn => `${turn.role}: ${turn.content}`).join("\n");
+  const response = await completeChat({
+    task: "conversation_summary",
+    messages: [
+      {
+        role: "system",
+        content: "You maintain a running summary of a conversation between a seller and SENA, their sales assistant. Keep accounts and their IDs, people, decisions, actions taken and open requests. Write at most 200 words of plain prose.",
+      },
+      {
+        role: "user",
+        content: `${previous ? `Summary so far:\n${previous}\n\n` : ""}New turns to fold in:\n${transcript}`,
+      },
+    ],
+  });
+  return response.content.trim();
+}
+
+// Recent turns plus a summary of everything before them. Turns that have aged out of
+// the recent window are summarised once enough of them have built up; until then
+// they are still sent verbatim so nothing drops out of context.
+export async function assembleContext(conversation: Conversation): Promise<ConversationContext> {
+  const history = await storage.getMessages(conversation.id);
+  const olderCount = Math.max(0, history.length - RECENT_MESSAGES);
+  let { summary, summarizedCount } = conversation;
+
+  if (olderCount - summarizedCount >= SUMMARY_BATCH) {
+    try {
+      summary = await summarize(summary, history.slice(summarizedCount, olderCount));
+      summarizedCount = olderCount;
+      await storage.updateConversation(conversation.id, { summary, summarizedCount });
+    } catch (error) {
+      console.error("Error summarizing conversation:", error);
+    }
+  }
+
+  const activeAccount = conversation.activeAccountId
+    ? await storage.getAccount(conversation.activeAccountId)
+    : undefined;
+
+  return {
+    conversationId: conversation.id,
+    activeAccount: activeAccount ? { id: activeAccount.id, name: activeAccount.name } : null,
+    summary,
+    recent: history.slice(summarizedCount).map(({ role, content }) => ({ role, content })),
+  };
+}
+
+// Later turns that do not name an account ("what's open with them?") use this one
+export async function setActiveAccount(conversationId: string, accountId: string): Promise<void> {
+  await storage.updateConversation(conversationId, { activeAccountId: accountId });
+}
+
+export async function recordUserMessage(conversationId: string, content: string): Promise<void> {
+  await storage.createMessage({ conversationId, role: "user", content });
+}
+
+export async function recordReply(conversationId: string, response: AgentChatResponse): Promise<void> {
+  await storage.createMessage({
+    conversationId,
+    role: "assistant",
+    content: response.message,
+    intent: response.intent,
+    actionResults: response.actionResults || [],
+    suggestedFollowUps: response.suggestedFollowUps || [],
+  });
+  // Bumps updatedAt so the thread moves to the top of the history list
+  await storage.updateConversation(conversationId, {});
+}
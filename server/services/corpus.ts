@@ -0,0 +1,360 @@
+import { createHash } from "crypto";
+import { lookup } from "dns/promises";
+import type { LookupAddress } from "dns";
+import http, { type IncomingMessage } from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { extractText as extractPdfText } from "unpdf";
+import { storage, type CorpusSearchHit } from "../storage";
+import { getCorpusEmbeddingProvider } from "./embeddings";
+import type { CorpusDocument, CorpusSourceType } from "@shared/schema";
+
+export interface IngestDocumentInput {
+  title?: string;
+  sourceType: CorpusSourceType;
+  sourceUrl?: string;
+  company?: string;
+  accountId?: string;
+  metadata?: Record<string, unknown>;
+  createdBy: string;
+  // Exactly one of these supplies the document body
+  content?: string;
+  file?: { buffer: Buffer; mimeType: string; filename: string };
+  url?: string;
+}
+
+export interface TextChunk {
+  content: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface CorpusPassage {
+  passage: string;
+  score: number;
+  citation: string;
+  documentId: string;
+  chunkId: string;
+  chunkIndex: number;
+  title: string;
+  sourceType: CorpusSourceType;
+  url: string | null;
+  page: number | null;
+  startOffset: number;
+  endOffset: number;
+}
+
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_FETCH_BYTES = 20 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+// Addresses URL ingestion must never reach: loopback, private networks, link-local
+// (including cloud metadata at 169.254.169.254), and other non-public ranges.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 rules.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+interface ExtractedText {
+  text: string;
+  title?: string;
+  mimeType: string;
+  pageOffsets?: number[]; // Start offset of each PDF page within `text`
+}
+
+export async function extractText(buffer: Buffer, mimeType: string, filename = ""): Promise<ExtractedText> {
+  const lowerName = filename.toLowerCase();
+
+  if (mimeType === "application/pdf" || lowerName.endsWith(".pdf")) {
+    const { text: pages } = await extractPdfText(new Uint8Array(buffer), { mergePages: false });
+    const pageOffsets: number[] = [];
+    let text = "";
+    for (const page of pages) {
+      pageOffsets.push(text.length);
+      text += page.trim() + "\n\n";
+    }
+    return { text: text.trim(), mimeType: "application/pdf", pageOffsets };
+  }
+
+  const raw = buffer.toString("utf-8");
+  if (mimeType.includes("html") || lowerName.endsWith(".html") || lowerName.endsWith(".htm")) {
+    return { ...htmlToText(raw), mimeType: "text/html" };
+  }
+
+  return { text: normalizeWhitespace(raw), mimeType: mimeType.startsWith("text/") ? mimeType : "text/plain" };
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&nbsp;": " ",
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&apos;": "'",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&[a-z#0-9]+;/gi, entity => HTML_ENTITIES[entity.toLowerCase()] ?? " ");
+}
+
+export function htmlToText(html: string): { text: string; title?: string } {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const text = html
+    .replace(/<(head|script|style|noscript|svg|nav|footer)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<title[^>]*>[\s\S]*?<\/title>/gi, " ")
+    .replace(/<\/(p|div|h[1-6]|li|tr|section|article)\s*>/gi, "\n\n")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, " ");
+  return {
+    text: normalizeWhitespace(decodeEntities(text)),
+    title: title ? normalizeWhitespace(decodeEntities(title)) || undefined : undefined,
+  };
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Splits on paragraph, then sentence boundaries so chunks stay readable; consecutive
+// chunks overlap so a passage split across a boundary is still retrievable
+export function chunkText(text: string, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+    if (end < text.length) {
+      const window = text.slice(start, end);
+      const breakAt = Math.max(window.lastIndexOf("\n\n"), window.lastIndexOf(". "), window.lastIndexOf("\n"));
+      if (breakAt > size / 2) {
+        end = start + breakAt + 1;
+      }
+    }
+
+    const content = text.slice(start, end).trim();
+    if (content) {
+      chunks.push({ content, startOffset: start, endOffset: end });
+    }
+    if (end >= text.length) break;
+
+    // Step back for overlap, but always move forward and start on a word boundary
+    let next = Math.max(end - overlap, start + 1);
+    const space = text.indexOf(" ", next);
+    if (space !== -1 && space < end) next = space + 1;
+    start = next;
+  }
+
+  return chunks;
+}
+
+function isBlockedAddress({ address, family }: LookupAddress): boolean {
+  return BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+// Resolves the URL's host and refuses it unless every address is public. The request
+// then connects to the address checked here rather than resolving the host again, so a
+// DNS answer that changes in between (rebinding) cannot reach an internal host.
+async function resolvePublicAddress(url: URL): Promise<LookupAddress> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("Only http and https URLs can be ingested");
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await lookup(host, { all: true });
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new Error(`${url.hostname} is not a public address`);
+  }
+  return addresses[0];
+}
+
+function requestDocument(url: URL, address: LookupAddress, signal: AbortSignal): Promise<IncomingMessage> {
+  const client = url.protocol === "https:" ? https : http;
+  // The URL's host name is still sent in the Host header and used for TLS
+  const pinnedLookup = ((_hostname: string, options: { all?: boolean }, callback: (...args: any[]) => void) => {
+    if (options.all) callback(null, [address]);
+    else callback(null, address.address, address.family);
+  }) as LookupFunction;
+
+  return new Promise((resolve, reject) => {
+    const request = client.get(url, { signal, lookup: pinnedLookup }, resolve);
+    request.on("error", reject);
+  });
+}
+
+// Reads the body, giving up once it passes MAX_FETCH_BYTES
+async function readLimited(response: IncomingMessage): Promise<Buffer> {
+  if (Number(response.headers["content-length"]) > MAX_FETCH_BYTES) {
+    response.destroy();
+    throw new Error("The document is too large to ingest");
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > MAX_FETCH_BYTES) {
+      response.destroy();
+      throw new Error("The document is too large to ingest");
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Redirects are followed by hand so every hop is checked before it is requested
+async function fetchDocument(url: string): Promise<{ buffer: Buffer; mimeType: string }> {
+  let target = new URL(url);
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+
+  for (let redirects = 0; ; redirects++) {
+    const address = await resolvePublicAddress(target);
+    const response = await requestDocument(target, address, signal);
+    const status = response.statusCode || 0;
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.resume();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects fetching ${url}`);
+      }
+      target = new URL(location, target);
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new Error(`Failed to fetch ${url}: ${status}`);
+    }
+    return {
+      buffer: await readLimited(response),
+      mimeType: response.headers["content-type"]?.split(";")[0] || "text/html",
+    };
+  }
+}
+
+async function embedChunks(chunks: TextChunk[]) {
+  const provider = getCorpusEmbeddingProvider();
+  const vectors = await provider.embed(chunks.map(chunk => chunk.content));
+  return {
+    embeddingModel: provider.name,
+    rows: chunks.map((chunk, index) => ({
+      chunkIndex: index,
+      content: chunk.content,
+      startOffset: chunk.startOffset,
+      endOffset: chunk.endOffset,
+      embedding: vectors[index],
+      embeddingModel: provider.name,
+    })),
+  };
+}
+
+// Returns the existing document when identical text was already ingested for the same account
+export async function ingestDocument(input: IngestDocumentInput): Promise<{ document: CorpusDocument; duplicate: boolean }> {
+  let extracted: ExtractedText;
+  let sourceUrl = input.sourceUrl;
+
+  if (input.file) {
+    extracted = await extractText(input.file.buffer, input.file.mimeType, input.file.filename);
+  } else if (input.url) {
+    const fetched = await fetchDocument(input.url);
+    extracted = await extractText(fetched.buffer, fetched.mimeType, new URL(input.url).pathname);
+    sourceUrl = sourceUrl || input.url;
+  } else if (input.content) {
+    extracted = { text: normalizeWhitespace(input.content), mimeType: "text/plain" };
+  } else {
+    throw new Error("Document content, file or url is required");
+  }
+
+  if (!extracted.text) {
+    throw new Error("No text could be extracted from the document");
+  }
+
+  const contentHash = createHash("sha256").update(extracted.text).digest("hex");
+  const existing = await storage.findCorpusDocumentByHash(contentHash, input.accountId || null);
+  if (existing) {
+    return { document: existing, duplicate: true };
+  }
+
+  const { embeddingModel, rows } = await embedChunks(chunkText(extracted.text));
+  const document = await storage.createCorpusDocument({
+    title: input.title || extracted.title || input.file?.filename || sourceUrl || "Untitled document",
+    sourceType: input.sourceType,
+    sourceUrl: sourceUrl || null,
+    company: input.company || null,
+    accountId: input.accountId || null,
+    mimeType: extracted.mimeType,
+    content: extracted.text,
+    contentHash,
+    metadata: { ...input.metadata, ...(extracted.pageOffsets ? { pageOffsets: extracted.pageOffsets } : {}) },
+    embeddingModel,
+    createdBy: input.createdBy,
+  }, rows);
+
+  return { document, duplicate: false };
+}
+
+// Re-embeds a document, e.g. after switching embedding providers
+export async function reindexDocument(documentId: string): Promise<void> {
+  const document = await storage.getCorpusDocument(documentId);
+  if (!document) {
+    throw new Error("Document not found");
+  }
+  const { embeddingModel, rows } = await embedChunks(chunkText(document.content));
+  await storage.replaceCorpusChunks(document.id, rows, embeddingModel);
+}
+
+function pageForOffset(pageOffsets: unknown, offset: number): number | null {
+  if (!Array.isArray(pageOffsets) || pageOffsets.length === 0) return null;
+  let page = 1;
+  pageOffsets.forEach((start, index) => {
+    if (typeof start === "number" && start <= offset) page = index + 1;
+  });
+  return page;
+}
+
+export async function searchCorpus(
+  query: string,
+  options: { k: number; accountIds?: string[] }
+): Promise<CorpusPassage[]> {
+  const provider = getCorpusEmbeddingProvider();
+  const [queryVector] = await provider.embed([query]);
+  const hits: CorpusSearchHit[] = await storage.searchCorpusChunks(queryVector, provider.name, options);
+
+  // Page numbers live on the document, so look them up once per PDF
+  const pageOffsets = new Map<string, unknown>();
+  for (const documentId of Array.from(new Set(hits.map(hit => hit.documentId)))) {
+    const document = await storage.getCorpusDocument(documentId);
+    pageOffsets.set(documentId, (document?.metadata as any)?.pageOffsets);
+  }
+
+  return hits.map((hit, index) => ({
+    passage: hit.content,
+    score: Math.round(hit.score * 1000) / 1000,
+    citation: `[${index + 1}]`,
+    documentId: hit.documentId,
+    chunkId: hit.chunkId,
+    chunkIndex: hit.chunkIndex,
+    title: hit.title,
+    sourceType: hit.sourceType,
+    url: hit.sourceUrl,
+    page: pageForOffset(pageOffsets.get(hit.documentId), hit.startOffset),
+    startOffset: hit.startOffset,
+    endOffset: hit.endOffset,
+  }));
+}
@@ -0,0 +1,120 @@
+import { createHash } from "crypto";
+import { createLLMClientFromEnv } from "./llm";
+
+export interface EmbeddingProvider {
+  name: string; // Stored with each vector; only vectors from the same provider are compared
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have",
+  "in", "is", "it", "its", "of", "on", "or", "that", "the", "this", "to", "was", "we",
+  "were", "will", "with", "you", "your", "our", "they", "their",
+]);
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+function hashToIndex(feature: string, dimensions: number): { index: number; sign: number } {
+  const digest = createHash("md5").update(feature).digest();
+  return {
+    index: digest.readUInt32LE(0) % dimensions,
+    sign: digest[4] & 1 ? 1 : -1,
+  };
+}
+
+// Deterministic feature-hashing embedding: word unigrams plus character trigrams so
+// near-miss spellings and word forms still land close together. Runs fully offline.
+export function createLocalEmbeddingProvider(dimensions = 256): EmbeddingProvider {
+  return {
+    name: `local-hash-${dimensions}`,
+    dimensions,
+    async embed(texts: string[]) {
+      return texts.map(text => {
+        const vector = new Array<number>(dimensions).fill(0);
+        for (const token of tokenize(text)) {
+          const features = [`w:${token}`];
+          const padded = `^${token}$`;
+          for (let i = 0; i < padded.length - 2; i++) {
+            features.push(`c:${padded.slice(i, i + 3)}`);
+          }
+          for (const feature of features) {
+            const { index, sign } = hashToIndex(feature, dimensions);
+            vector[index] += sign * (feature.startsWith("w:") ? 2 : 1);
+          }
+        }
+        return normalize(vector);
+      });
+    },
+  };
+}
+
+const OPENAI_EMBEDDING_DIMENSIONS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+};
+const OPENAI_BATCH_SIZE = 96;
+
+// Uses the endpoint and credentials LLM_PROVIDER configures (OpenAI, Azure, where the
+// model is a deployment name, or an OpenAI-compatible server)
+export function createOpenAIEmbeddingProvider(model = process.env.EMBEDDING_MODEL || "text-embedding-3-small"): EmbeddingProvider {
+  const { provider, client: openai } = createLLMClientFromEnv();
+
+  return {
+    name: `${provider}:${model}`,
+    dimensions: OPENAI_EMBEDDING_DIMENSIONS[model] || 1536,
+    async embed(texts: string[]) {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += OPENAI_BATCH_SIZE) {
+        const response = await openai.embeddings.create({
+          model,
+          input: texts.slice(i, i + OPENAI_BATCH_SIZE),
+        });
+        vectors.push(...response.data.map(item => item.embedding));
+      }
+      return vectors;
+    },
+  };
+}
+
+function normalize(vector: number[]): number[] {
+  const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return magnitude === 0 ? vector : vector.map(value => value / magnitude);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let magnitudeA = 0;
+  let magnitudeB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    magnitudeA += a[i] * a[i];
+    magnitudeB += b[i] * b[i];
+  }
+  if (magnitudeA === 0 || magnitudeB === 0) return 0;
+  return dot / (Math.sqrt(magnitudeA) * Math.sqrt(magnitudeB));
+}
+
+// EMBEDDING_PROVIDER selects "local" (default), "openai" or "none"; "none" disables
+// semantic re-ranking in search
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  switch (process.env.EMBEDDING_PROVIDER || "local") {
+    case "none":
+      return null;
+    case "openai":
+      return createOpenAIEmbeddingProvider();
+    default:
+      return createLocalEmbeddingProvider();
+  }
+}
+
+// The corpus always needs vectors, so it falls back to the local provider
+export function getCorpusEmbeddingProvider(): EmbeddingProvider {
+  return getEmbeddingProvider() || createLocalEmbeddingProvider();
+}
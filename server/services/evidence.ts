@@ -0,0 +1,96 @@
+import {
+  findFrameworkField,
+  type FieldEvidence,
+  type FrameworkEvidence,
+  type FrameworkName,
+} from "@shared/frameworks";
+import type { TranscriptTurn } from "@shared/schema";
+
+const MAX_QUOTES_PER_FIELD = 3;
+
+// "Jane Doe (CFO):" or "Jane Doe:" at the start of a line, optionally after a timestamp
+const SPEAKER_LINE = /^(?:\[?\d{1,2}:\d{2}(?::\d{2})?\]?\s*)?([A-Z][\w.'-]*(?: [A-Z][\w.'-]*){0,3})(?: \([^)]*\))?:/;
+
+// Builds a whitespace- and case-insensitive pattern so a quote still matches when the
+// model collapsed line breaks or changed capitalisation
+function quotePattern(quote: string): RegExp | null {
+  const words = quote.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+  const escaped = words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(escaped.join("\\s+"), "i");
+}
+
+export function findQuoteSpan(transcript: string, quote: string): { start: number; end: number } | null {
+  const exact = transcript.indexOf(quote);
+  if (exact !== -1 && quote.length > 0) {
+    return { start: exact, end: exact + quote.length };
+  }
+
+  const pattern = quotePattern(quote.replace(/^["'“”…]+|["'“”…]+$/g, ""));
+  const match = pattern ? pattern.exec(transcript) : null;
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+// The speaker is whoever last started a line before the quote
+export function speakerAt(transcript: string, offset: number): string | null {
+  const lines = transcript.slice(0, offset).split("\n").reverse();
+  for (const line of lines) {
+    const match = line.match(SPEAKER_LINE);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+// The turn a quote was taken from; null when it spans turns or the text was not parsed
+export function findQuoteTurn(turns: TranscriptTurn[], quote: string): number | null {
+  const index = turns.findIndex(turn => findQuoteSpan(turn.text, quote) !== null);
+  return index === -1 ? null : index;
+}
+
+// Turns the model's { field: [{ quote, speaker }] } map into verified spans. Quotes that
+// cannot be found in the transcript are dropped rather than shown as evidence.
+export function resolveFieldEvidence(
+  framework: FrameworkName,
+  rawEvidence: unknown,
+  transcript: string,
+  turns: TranscriptTurn[] = []
+): FrameworkEvidence {
+  const evidence: FrameworkEvidence = {};
+  if (!rawEvidence || typeof rawEvidence !== "object") return evidence;
+
+  for (const [key, items] of Object.entries(rawEvidence as Record<string, unknown>)) {
+    const field = findFrameworkField(framework, key);
+    if (!field) continue;
+
+    const quotes = (Array.isArray(items) ? items : [items])
+      .map(item => (typeof item === "string" ? { quote: item } : item))
+      .filter((item): item is { quote: string; speaker?: unknown } => typeof item?.quote === "string");
+
+    const spans: FieldEvidence[] = [];
+    for (const item of quotes) {
+      const span = findQuoteSpan(transcript, item.quote);
+      if (!span) {
+        console.warn(`Dropping unverifiable ${framework} evidence for ${field.key}: "${item.quote.slice(0, 80)}"`);
+        continue;
+      }
+      if (spans.some(existing => existing.start === span.start)) continue;
+
+      const quote = transcript.slice(span.start, span.end);
+      const turnIndex = findQuoteTurn(turns, quote);
+      spans.push({
+        quote,
+        speaker: (turnIndex !== null ? turns[turnIndex].speaker : speakerAt(transcript, span.start))
+          || (typeof item.speaker === "string" ? item.speaker : null),
+        ...span,
+        turnIndex,
+      });
+      if (spans.length === MAX_QUOTES_PER_FIELD) break;
+    }
+
+    if (spans.length > 0) {
+      evidence[field.key] = spans;
+    }
+  }
+
+  return evidence;
+}
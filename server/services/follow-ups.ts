@@ -0,0 +1,138 @@
+import { storage } from "../storage";
+import { completeChat } from "./llm";
+import { SENA_PROMPTS } from "./sena-system-prompt";
+import { recordArtifactRevision } from "./revisions";
+import { formatNumberedTurns, getTranscriptTurns } from "./transcript-turns";
+import { followUpCommitmentSchema, type FollowUpCommitment, type FollowUpDraftContent } from "@shared/follow-ups";
+import type { Artifact, DraftFollowUpRequest, NextBestAction, Transcript } from "@shared/schema";
+
+const LENGTH_GUIDES: Record<DraftFollowUpRequest["length"], string> = {
+  short: "at most 80 words",
+  standard: "about 150 words",
+  detailed: "about 250 words",
+};
+
+const TONE_GUIDES: Record<DraftFollowUpRequest["tone"], string> = {
+  warm: "warm and personable, as to someone you have a good rapport with",
+  professional: "professional and polished",
+  direct: "direct and to the point, with no pleasantries beyond a greeting",
+};
+
+// What the recap covers and where it steers, per business line
+const LOB_TEMPLATES: Record<"LTS" | "LSS", string> = {
+  LTS: `1. Thank them and recap the hiring priorities, hard-to-fill roles and talent challenges they described
+2. Connect those to how LinkedIn Talent Solutions (Recruiter, Jobs, Talent Insights) can help, only where the call supports it
+3. List what each side agreed to do, with dates
+4. Propose the next meeting, naming the hiring stakeholders who should join`,
+  LSS: `1. Thank them and recap the pipeline, revenue and prospecting goals they described
+2. Connect those to how Sales Navigator can help their sellers, only where the call supports it
+3. List what each side agreed to do, with dates
+4. Propose the next meeting, naming the sales leaders or ops stakeholders who should join`,
+};
+
+// Keeps only commitments that cite turns the transcript actually has; like evidence
+// quotes that cannot be found, the rest are discarded
+function groundedCommitments(raw: unknown, turnCount: number): FollowUpCommitment[] {
+  if (!Array.isArray(raw)) return [];
+  const commitments: FollowUpCommitment[] = [];
+  for (const item of raw) {
+    const parsed = followUpCommitmentSchema.safeParse(item);
+    if (!parsed.success) continue;
+    const turns = Array.from(new Set(parsed.data.turns.filter(turn => turn <= turnCount))).sort((a, b) => a - b);
+    if (turns.length > 0) commitments.push({ ...parsed.data, turns });
+  }
+  return commitments;
+}
+
+function fallbackDraft(accountName: string, nbas: NextBestAction[]): Pick<FollowUpDraftContent, "subject" | "body" | "commitments"> {
+  const nextSteps = nbas.slice(0, 5).map(nba => `- ${nba.title}`).join("\n");
+  return {
+    subject: "Following up on our conversation",
+    body: `Hi,\n\nThank you for your time today. I enjoyed learning more about the priorities at ${accountName}.${
+      nextSteps ? `\n\nAs next steps, I will:\n${nextSteps}` : ""
+    }\n\nLet me know a time that works to continue the conversation.\n\nBest regards`,
+    commitments: [],
+  };
+}
+
+// Drafts the rep's recap of a processed call from its numbered transcript, framework
+// notes and the account's open NBAs, and saves it as a FollowUpEmail artifact so it can
+// be edited, versioned and exported like any other note
+export async function draftFollowUp(
+  transcript: Transcript,
+  options: DraftFollowUpRequest,
+  userId: string
+): Promise<Artifact> {
+  const [account, frameworkNotes, nbas] = await Promise.all([
+    storage.getAccount(transcript.accountId),
+    storage.getFrameworkNotes(transcript.id),
+    storage.getNextBestActions({ accountId: transcript.accountId }),
+  ]);
+  const lob = options.lob || account?.lob || "LTS";
+  const accountName = account?.name || "your team";
+  const openNbas = nbas.filter(nba => nba.status !== "Completed");
+  const turns = getTranscriptTurns(transcript);
+
+  let draft = fallbackDraft(accountName, openNbas);
+  try {
+    const response = await completeChat({
+      task: "follow_up_email",
+      json: true,
+      messages: [
+        {
+          role: "system",
+          content: SENA_PROMPTS.followUp(lob) + `
+
+Draft a follow-up ${options.channel === "inmail" ? "LinkedIn InMail (at most 1,900 characters)" : "email"} to the customer on this call. Keep the body to ${LENGTH_GUIDES[options.length]}; the tone is ${TONE_GUIDES[options.tone]}.
+
+Structure:
+${LOB_TEMPLATES[lob]}
+
+Each transcript turn is numbered (T1, T2, ...). List every commitment made on the call, by the rep's side ("us") or the customer's ("customer"), with the numbers of the turns where it was agreed. Open NBAs are the rep's planned next steps; mention them only where they match something said on the call.
+Respond with JSON only: {"subject": "...", "body": "...", "commitments": [{"owner": "us", "text": "...", "turns": [12]}]}`,
+        },
+        {
+          role: "user",
+          content: `Account: ${accountName}
+
+Transcript:
+${formatNumberedTurns(turns)}
+
+Framework Notes:
+${JSON.stringify(frameworkNotes.map(notes => ({ framework: notes.framework, content: notes.content })), null, 2)}
+
+Open NBAs:
+${JSON.stringify(openNbas.map(nba => ({ title: nba.title, dueDate: nba.dueDate })), null, 2)}`,
+        },
+      ],
+    });
+    const parsed = JSON.parse(response.content || "{}");
+    if (typeof parsed.body === "string" && parsed.body.trim()) {
+      draft = {
+        subject: typeof parsed.subject === "string" && parsed.subject.trim() ? parsed.subject.trim().slice(0, 200) : draft.subject,
+        body: parsed.body.trim(),
+        commitments: groundedCommitments(parsed.commitments, turns.length),
+      };
+    }
+  } catch (error) {
+    console.warn("Drafting follow-up without the model:", (error as Error).message);
+  }
+
+  const content: FollowUpDraftContent = {
+    channel: options.channel,
+    tone: options.tone,
+    length: options.length,
+    transcriptId: transcript.id,
+    ...draft,
+  };
+  const artifact = await storage.createArtifact({
+    accountId: transcript.accountId,
+    type: "FollowUpEmail",
+    title: `Follow-up ${options.channel === "inmail" ? "InMail" : "Email"}: ${draft.subject}`.slice(0, 500),
+    content,
+    summary: `${lob} follow-up drafted from the call on ${transcript.createdAt?.toISOString().split("T")[0] ?? "an earlier date"}`,
+    createdBy: userId,
+  });
+  await recordArtifactRevision(artifact, "ai", userId);
+  return artifact;
+}
@@ -0,0 +1,299 @@
+import { storage } from "../storage";
+import { completeChat } from "./llm";
+import {
+  FRAMEWORK_FIELDS,
+  isFrameworkFieldKnown,
+  isFrameworkName,
+  normalizeFrameworkNotes,
+  type FieldEvidence,
+  type FrameworkName,
+  type FrameworkNotesContent,
+} from "@shared/frameworks";
+import type {
+  AccountFrameworkRecord,
+  FrameworkNotes,
+  InsertAccountFrameworkHistory,
+  RecordFieldChange,
+  RecordFieldState,
+} from "@shared/schema";
+
+const MAX_EVIDENCE_PER_FIELD = 6;
+// Share of words two wordings need in common to be taken as the same value offline
+const SAME_VALUE_OVERLAP = 0.6;
+
+type FieldValue = string | string[];
+
+export interface FieldComparison {
+  verdict: "same" | "refines" | "contradicts";
+  merged?: string; // For "refines": one value combining both
+  reason?: string; // For "contradicts": what disagrees
+}
+
+interface ComparedField {
+  key: string;
+  label: string;
+  current: string;
+  incoming: string;
+}
+
+function normalizeText(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function tokenOverlap(a: string, b: string): number {
+  const tokensA = new Set(normalizeText(a).split(" ").filter(Boolean));
+  const tokensB = new Set(normalizeText(b).split(" ").filter(Boolean));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+  const shared = Array.from(tokensA).filter(token => tokensB.has(token)).length;
+  return shared / new Set(Array.from(tokensA).concat(Array.from(tokensB))).size;
+}
+
+// Offline comparison: near-identical wording is the same value, a value that contains
+// the other refines it, and anything else is left to the rep as a contradiction
+export function compareValuesHeuristically(current: string, incoming: string): FieldComparison {
+  const a = normalizeText(current);
+  const b = normalizeText(incoming);
+  if (a === b || tokenOverlap(current, incoming) >= SAME_VALUE_OVERLAP) return { verdict: "same" };
+  if (b.includes(a)) return { verdict: "refines", merged: incoming };
+  if (a.includes(b)) return { verdict: "same" };
+  return { verdict: "contradicts" };
+}
+
+async function compareFieldValues(framework: FrameworkName, pairs: ComparedField[]): Promise<Record<string, FieldComparison>> {
+  const comparisons: Record<string, FieldComparison> = {};
+  const unresolved = pairs.filter(pair => {
+    if (normalizeText(pair.current) !== normalizeText(pair.incoming)) return true;
+    comparisons[pair.key] = { verdict: "same" };
+    return false;
+  });
+  if (unresolved.length === 0) return comparisons;
+
+  let modelComparisons: Record<string, Partial<FieldComparison>> = {};
+  try {
+    const response = await completeChat({
+      task: "framework_merge",
+      fixtureKey: framework,
+      json: true,
+      messages: [
+        {
+          role: "system",
+          content: `You maintain an account's running ${framework} notes across several sales calls. For each field, compare what the notes already say with what the latest call said.
+- "same": the same facts, possibly worded differently
+- "refines": the latest call adds detail without disagreeing; give "merged", one value combining both
+- "contradicts": the two cannot both be true (e.g. a different economic buyer, budget or date); give "reason", one short sentence
+Respond with JSON only: {"fields": {"<field key>": {"verdict": "...", "merged": "...", "reason": "..."}}}`,
+        },
+        {
+          role: "user",
+          content: unresolved
+            .map(pair => `Field "${pair.key}" (${pair.label})\nCurrent: ${pair.current}\nLatest call: ${pair.incoming}`)
+            .join("\n\n"),
+        },
+      ],
+    });
+    modelComparisons = JSON.parse(response.content || "{}").fields || {};
+  } catch (error) {
+    console.warn(`Comparing ${framework} fields without the model:`, (error as Error).message);
+  }
+
+  for (const pair of unresolved) {
+    const model = modelComparisons[pair.key];
+    if (model?.verdict === "same" || model?.verdict === "contradicts") {
+      comparisons[pair.key] = { verdict: model.verdict, reason: model.reason };
+    } else if (model?.verdict === "refines") {
+      comparisons[pair.key] = { verdict: "refines", merged: model.merged || pair.incoming };
+    } else {
+      comparisons[pair.key] = compareValuesHeuristically(pair.current, pair.incoming);
+    }
+  }
+  return comparisons;
+}
+
+function mergeEvidence(existing: FieldEvidence[], incoming: FieldEvidence[]): FieldEvidence[] {
+  const quotes = new Set(existing.map(item => normalizeText(item.quote)));
+  return existing
+    .concat(incoming.filter(item => !quotes.has(normalizeText(item.quote))))
+    .slice(-MAX_EVIDENCE_PER_FIELD);
+}
+
+function mergeLists(current: string[], incoming: string[]): string[] {
+  const seen = new Set(current.map(normalizeText));
+  return current.concat(incoming.filter(item => isFrameworkFieldKnown(item) && !seen.has(normalizeText(item))));
+}
+
+function asList(value: FieldValue | undefined): string[] {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value]).filter(isFrameworkFieldKnown);
+}
+
+// Folds one call's notes into the account's record for that framework. Known values
+// fill gaps, lists accumulate, refinements replace the old value (which goes to
+// history), and contradictions are held on the field until the rep picks one.
+export async function mergeNotesIntoRecord(notes: FrameworkNotes): Promise<AccountFrameworkRecord | undefined> {
+  if (!isFrameworkName(notes.framework)) return undefined;
+  const framework = notes.framework;
+
+  const record = await storage.getAccountFrameworkRecord(notes.accountId, framework)
+    ?? await storage.createAccountFrameworkRecord({
+      accountId: notes.accountId,
+      framework,
+      content: {},
+      fields: {},
+      lastChanges: [],
+      mergedNotesIds: [],
+    });
+  if (record.mergedNotesIds.includes(notes.id)) return record;
+
+  const incoming = normalizeFrameworkNotes(framework, notes.content);
+  // Placeholder notes from a failed generation carry nothing to merge
+  if (incoming.errorNote) {
+    return await storage.updateAccountFrameworkRecord(record.id, {
+      mergedNotesIds: [...record.mergedNotesIds, notes.id],
+    });
+  }
+
+  const content: FrameworkNotesContent = { ...record.content };
+  const fields: Record<string, RecordFieldState> = { ...record.fields };
+  const changes: RecordFieldChange[] = [];
+  const history: InsertAccountFrameworkHistory[] = [];
+  const now = new Date().toISOString();
+  const source = { sourceNotesId: notes.id, sourceTranscriptId: notes.transcriptId };
+  const evidenceFor = (key: string) => notes.evidence?.[key] || [];
+
+  const scalarPairs: ComparedField[] = [];
+  for (const field of FRAMEWORK_FIELDS[framework]) {
+    const next = incoming[field.key];
+    const current = content[field.key];
+    if (!isFrameworkFieldKnown(next)) continue;
+
+    if (!isFrameworkFieldKnown(current)) {
+      content[field.key] = next;
+      fields[field.key] = { ...source, updatedAt: now, evidence: evidenceFor(field.key), conflict: null };
+      changes.push({ field: field.key, change: "added", previous: null, value: next! });
+    } else if (field.list) {
+      const merged = mergeLists(asList(current), asList(next));
+      const state = fields[field.key];
+      fields[field.key] = {
+        ...(state ?? { ...source, conflict: null }),
+        updatedAt: now,
+        evidence: mergeEvidence(state?.evidence || [], evidenceFor(field.key)),
+      };
+      if (merged.length > asList(current).length) {
+        changes.push({ field: field.key, change: "updated", previous: current!, value: merged });
+        content[field.key] = merged;
+      }
+    } else {
+      scalarPairs.push({ key: field.key, label: field.label, current: String(current), incoming: String(next) });
+    }
+  }
+
+  const comparisons = await compareFieldValues(framework, scalarPairs);
+  for (const pair of scalarPairs) {
+    const comparison = comparisons[pair.key];
+    const state = fields[pair.key] ?? { sourceNotesId: null, sourceTranscriptId: null, updatedAt: now, evidence: [], conflict: null };
+
+    if (comparison.verdict === "same") {
+      fields[pair.key] = { ...state, evidence: mergeEvidence(state.evidence, evidenceFor(pair.key)) };
+    } else if (comparison.verdict === "refines") {
+      const value = comparison.merged || pair.incoming;
+      history.push({
+        recordId: record.id,
+        field: pair.key,
+        value: pair.current,
+        reason: "superseded",
+        sourceNotesId: state.sourceNotesId,
+        sourceTranscriptId: state.sourceTranscriptId,
+      });
+      content[pair.key] = value;
+      fields[pair.key] = { ...state, ...source, updatedAt: now, evidence: mergeEvidence(state.evidence, evidenceFor(pair.key)) };
+      changes.push({ field: pair.key, change: "updated", previous: pair.current, value });
+    } else {
+      // A newer contradiction replaces one the rep has not resolved yet
+      if (state.conflict) {
+        history.push({
+          recordId: record.id,
+          field: pair.key,
+          value: state.conflict.value,
+          reason: "superseded",
+          sourceNotesId: state.conflict.sourceNotesId,
+          sourceTranscriptId: state.conflict.sourceTranscriptId,
+        });
+      }
+      fields[pair.key] = {
+        ...state,
+        conflict: {
+          value: pair.incoming,
+          ...source,
+          evidence: evidenceFor(pair.key),
+          reason: comparison.reason || null,
+          detectedAt: now,
+        },
+      };
+      changes.push({ field: pair.key, change: "conflict", previous: pair.current, value: pair.incoming });
+    }
+  }
+
+  await storage.createAccountFrameworkHistory(history);
+  return await storage.updateAccountFrameworkRecord(record.id, {
+    content,
+    fields,
+    lastChanges: changes,
+    mergedNotesIds: [...record.mergedNotesIds, notes.id],
+    lastTranscriptId: notes.transcriptId,
+  });
+}
+
+// Settles a held contradiction. The value not kept is recorded in history.
+export async function resolveRecordConflict(
+  record: AccountFrameworkRecord,
+  fieldKey: string,
+  keep: "current" | "incoming",
+  userId: string
+): Promise<AccountFrameworkRecord> {
+  const state = record.fields[fieldKey];
+  if (!state?.conflict) {
+    throw new Error("This field has no conflict to resolve");
+  }
+  const { conflict } = state;
+  const current = record.content[fieldKey];
+
+  if (keep === "incoming") {
+    if (current !== undefined) {
+      await storage.createAccountFrameworkHistory([{
+        recordId: record.id,
+        field: fieldKey,
+        value: current,
+        reason: "superseded",
+        sourceNotesId: state.sourceNotesId,
+        sourceTranscriptId: state.sourceTranscriptId,
+        resolvedBy: userId,
+      }]);
+    }
+    return await storage.updateAccountFrameworkRecord(record.id, {
+      content: { ...record.content, [fieldKey]: conflict.value },
+      fields: {
+        ...record.fields,
+        [fieldKey]: {
+          sourceNotesId: conflict.sourceNotesId,
+          sourceTranscriptId: conflict.sourceTranscriptId,
+          updatedAt: new Date().toISOString(),
+          evidence: conflict.evidence,
+          conflict: null,
+        },
+      },
+    });
+  }
+
+  await storage.createAccountFrameworkHistory([{
+    recordId: record.id,
+    field: fieldKey,
+    value: conflict.value,
+    reason: "rejected",
+    sourceNotesId: conflict.sourceNotesId,
+    sourceTranscriptId: conflict.sourceTranscriptId,
+    resolvedBy: userId,
+  }]);
+  return await storage.updateAccountFrameworkRecord(record.id, {
+    fields: { ...record.fields, [fieldKey]: { ...state, conflict: null } },
+  });
+}
@@ -0,0 +1,199 @@
+import { storage } from "../storage";
+import type { InsertJob, Job, JobStep } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 1000;
+const RETRY_BASE_DELAY_MS = 5000;
+// A running job whose lock is older than this is assumed orphaned by a crashed worker
+const STALE_LOCK_MS = 10 * 60 * 1000;
+// The lock is refreshed this often while a handler runs, so a step that takes longer
+// than STALE_LOCK_MS (e.g. transcribing a long recording) is not claimed a second time
+const LOCK_HEARTBEAT_MS = STALE_LOCK_MS / 4;
+
+export interface JobContext {
+  job: Job;
+  // Runs one unit of work if it is still pending; steps that already succeeded, or
+  // failed and were not queued for a retry, are skipped. Progress is persisted before
+  // and after; errors are recorded on the step and rethrown.
+  runStep<T>(key: string, run: () => Promise<T>): Promise<T | undefined>;
+  setResult(result: unknown): Promise<void>;
+}
+
+export type JobHandler = (context: JobContext) => Promise<void>;
+// Runs once a job has failed for good, with no automatic retries left
+export type JobFailureHandler = (job: Job) => Promise<void>;
+
+const handlers = new Map<string, JobHandler>();
+const failureHandlers = new Map<string, JobFailureHandler>();
+
+export function registerJobHandler(type: string, handler: JobHandler, onFailed?: JobFailureHandler) {
+  handlers.set(type, handler);
+  if (onFailed) failureHandlers.set(type, onFailed);
+}
+
+export function pendingStep(key: string, label: string): JobStep {
+  return { key, label, status: "pending", attempts: 0, error: null };
+}
+
+export async function enqueueJob(input: {
+  type: string;
+  payload: Record<string, any>;
+  steps: JobStep[];
+  accountId?: string;
+  createdBy: string;
+  maxAttempts?: number;
+}): Promise<Job> {
+  return await storage.createJob({
+    type: input.type,
+    status: "queued",
+    payload: input.payload,
+    steps: input.steps,
+    accountId: input.accountId,
+    createdBy: input.createdBy,
+    maxAttempts: input.maxAttempts,
+    runAt: new Date(),
+  });
+}
+
+// Puts failed steps (or just `stepKey`) back in the queue; succeeded steps are kept
+export async function retryJob(job: Job, stepKey?: string): Promise<Job> {
+  const steps = job.steps.map(step =>
+    step.status === "failed" && (!stepKey || step.key === stepKey)
+      ? { ...step, status: "pending" as const, error: null }
+      : step
+  );
+
+  return await storage.updateJob(job.id, {
+    status: "queued",
+    steps,
+    error: null,
+    attempts: 0,
+    runAt: new Date(),
+    lockedAt: null,
+    completedAt: null,
+  });
+}
+
+function retryDelay(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+}
+
+async function runJob(claimed: Job): Promise<void> {
+  let job = claimed;
+  const handler = handlers.get(job.type);
+  const failedKeys = new Set<string>();
+
+  // Persisting progress also refreshes the lock so long jobs are not treated as stale
+  const save = async (updates: Partial<InsertJob>) => {
+    job = await storage.updateJob(job.id, { ...updates, lockedAt: new Date() });
+  };
+
+  const setStep = async (key: string, patch: Partial<JobStep>) => {
+    await save({ steps: job.steps.map(step => (step.key === key ? { ...step, ...patch } : step)) });
+  };
+
+  const context: JobContext = {
+    get job() {
+      return job;
+    },
+    async runStep(key, run) {
+      const step = job.steps.find(item => item.key === key);
+      if (step?.status === "succeeded" || step?.status === "failed") return undefined;
+      if (!step) {
+        await save({ steps: [...job.steps, { ...pendingStep(key, key), status: "running", attempts: 1 }] });
+      } else {
+        await setStep(key, { status: "running", attempts: step.attempts + 1, error: null });
+      }
+
+      try {
+        const value = await run();
+        await setStep(key, { status: "succeeded", error: null });
+        return value;
+      } catch (error) {
+        failedKeys.add(key);
+        await setStep(key, { status: "failed", error: (error as Error).message });
+        throw error;
+      }
+    },
+    async setResult(result) {
+      await save({ result });
+    },
+  };
+
+  let failure: string | null = null;
+  if (job.attempts > job.maxAttempts) {
+    failure = "Job was abandoned by a worker too many times";
+  } else if (!handler) {
+    failure = `No handler registered for job type "${job.type}"`;
+  } else {
+    const heartbeat = setInterval(() => {
+      storage.updateJob(job.id, { lockedAt: new Date() }).catch(error => {
+        console.error(`Error refreshing the lock on job ${job.id}:`, error);
+      });
+    }, LOCK_HEARTBEAT_MS);
+    try {
+      await handler(context);
+    } catch (error) {
+      failure = (error as Error).message;
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  const failedSteps = job.steps.filter(step => step.status !== "succeeded");
+  if (!failure && failedSteps.length > 0) {
+    failure = `${failedSteps.map(step => step.label).join(", ")} did not complete`;
+  }
+
+  if (!failure) {
+    await storage.updateJob(job.id, { status: "succeeded", error: null, lockedAt: null, completedAt: new Date() });
+  } else if (handler && job.attempts < job.maxAttempts) {
+    console.warn(`Job ${job.id} attempt ${job.attempts} failed, retrying:`, failure);
+    await storage.updateJob(job.id, {
+      status: "queued",
+      steps: job.steps.map(step => (failedKeys.has(step.key) ? { ...step, status: "pending" as const } : step)),
+      error: failure,
+      lockedAt: null,
+      runAt: new Date(Date.now() + retryDelay(job.attempts)),
+    });
+  } else {
+    console.error(`Job ${job.id} failed:`, failure);
+    job = await storage.updateJob(job.id, { status: "failed", error: failure, lockedAt: null, completedAt: new Date() });
+    try {
+      await failureHandlers.get(job.type)?.(job);
+    } catch (error) {
+      console.error(`Error cleaning up failed job ${job.id}:`, error);
+    }
+  }
+}
+
+// Polls for due jobs one at a time. Returns a function that stops the loop once
+// the current job finishes.
+export function startJobWorker(options: { pollIntervalMs?: number } = {}): () => void {
+  const pollIntervalMs = options.pollIntervalMs ?? POLL_INTERVAL_MS;
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const poll = async () => {
+    let claimed: Job | undefined;
+    try {
+      claimed = await storage.claimNextJob(Array.from(handlers.keys()), new Date(Date.now() - STALE_LOCK_MS));
+      if (claimed) await runJob(claimed);
+    } catch (error) {
+      console.error("Error running job worker:", error);
+    }
+    if (!stopped) {
+      // Check again straight away while there is a backlog
+      timer = setTimeout(poll, claimed ? 0 : pollIntervalMs);
+    }
+  };
+
+  timer = setTimeout(poll, 0);
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
+
+export function isJobFinished(job: Job): boolean {
+  return job.status === "succeeded" || job.status === "failed";
+}
@@ -0,0 +1,342 @@
+import OpenAI, { AzureOpenAI } from "openai";
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// Every model call in the app is one of these tasks; each can be pointed at its own model
+export const LLM_TASKS = [
+  "framework_notes",
+  "stakeholders",
+  "next_best_actions",
+  "coaching",
+  "company_research",
+  "agent_planning",
+  "general_question",
+  "pipeline_quality",
+  "conversation_summary",
+  "framework_merge",
+  "cadence_messages",
+  "follow_up_email",
+] as const;
+
+export type LLMTask = (typeof LLM_TASKS)[number];
+
+const DEFAULT_TASK_MODELS: Record<LLMTask, string> = {
+  framework_notes: "gpt-5",
+  stakeholders: "gpt-5-mini",
+  next_best_actions: "gpt-5",
+  coaching: "gpt-5",
+  company_research: "gpt-5-mini",
+  agent_planning: "gpt-5-mini",
+  general_question: "gpt-5-mini",
+  pipeline_quality: "gpt-5-mini",
+  conversation_summary: "gpt-5-mini",
+  framework_merge: "gpt-5-mini",
+  cadence_messages: "gpt-5",
+  follow_up_email: "gpt-5",
+};
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  task: LLMTask;
+  messages: LLMMessage[];
+  json?: boolean; // Ask the model for a single JSON object
+  maxTokens?: number;
+  fixtureKey?: string; // Distinguishes replay fixtures within a task, e.g. the framework name
+}
+
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  provider: string;
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+  // Optional: calls onToken with each text delta as it arrives, then resolves with the whole completion
+  stream?(request: LLMCompletionRequest, onToken: (text: string) => void): Promise<LLMCompletion>;
+}
+
+// Thrown when no provider is configured, so callers can fall back without calling out
+export class LLMNotConfiguredError extends Error {
+  constructor(message = "No LLM provider configured. Set OPENAI_API_KEY or LLM_PROVIDER.") {
+    super(message);
+    this.name = "LLMNotConfiguredError";
+  }
+}
+
+export class LLMFixtureNotFoundError extends Error {
+  constructor(task: LLMTask, hash: string) {
+    super(`No LLM fixture for task "${task}" (request ${hash})`);
+    this.name = "LLMFixtureNotFoundError";
+  }
+}
+
+// LLM_MODEL overrides every task; LLM_MODEL_<TASK> (e.g. LLM_MODEL_FRAMEWORK_NOTES)
+// overrides one. For Azure these are deployment names.
+export function getModelForTask(task: LLMTask): string {
+  return (
+    process.env[`LLM_MODEL_${task.toUpperCase()}`] ||
+    process.env.LLM_MODEL ||
+    DEFAULT_TASK_MODELS[task]
+  );
+}
+
+function createChatCompletionsProvider(
+  name: string,
+  client: OpenAI,
+  options: { tokenParam: "max_completion_tokens" | "max_tokens" }
+): LLMProvider {
+  return {
+    name,
+    async complete(request) {
+      const model = getModelForTask(request.task);
+      const response = await client.chat.completions.create({
+        model,
+        messages: request.messages,
+        ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+        ...(request.maxTokens ? { [options.tokenParam]: request.maxTokens } : {}),
+      });
+      return { content: response.choices[0]?.message.content || "", model, provider: name };
+    },
+    async stream(request, onToken) {
+      const model = getModelForTask(request.task);
+      const stream = await client.chat.completions.create({
+        model,
+        messages: request.messages,
+        stream: true,
+        ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+        ...(request.maxTokens ? { [options.tokenParam]: request.maxTokens } : {}),
+      });
+
+      let content = "";
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onToken(delta);
+        }
+      }
+      return { content, model, provider: name };
+    },
+  };
+}
+
+export function createOpenAIProvider(apiKey: string, baseURL?: string): LLMProvider {
+  return createChatCompletionsProvider("openai", new OpenAI({ apiKey, baseURL }), {
+    tokenParam: "max_completion_tokens",
+  });
+}
+
+export function createAzureOpenAIProvider(config: {
+  apiKey: string;
+  endpoint: string;
+  apiVersion: string;
+}): LLMProvider {
+  return createChatCompletionsProvider("azure", new AzureOpenAI(config), {
+    tokenParam: "max_completion_tokens",
+  });
+}
+
+// For llama.cpp, vLLM, Ollama, LM Studio and other servers exposing /v1/chat/completions.
+// Most of them ignore authentication, but the SDK requires a non-empty key.
+export function createOpenAICompatibleProvider(baseURL: string, apiKey = "unused"): LLMProvider {
+  return createChatCompletionsProvider("openai-compatible", new OpenAI({ apiKey, baseURL }), {
+    tokenParam: "max_tokens",
+  });
+}
+
+function fixtureHash(request: LLMCompletionRequest): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ task: request.task, messages: request.messages, json: !!request.json }))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+async function readFixture(file: string): Promise<string | undefined> {
+  try {
+    const { content } = JSON.parse(await fs.readFile(file, "utf-8"));
+    return typeof content === "string" ? content : JSON.stringify(content);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+// Deterministic replay from JSON fixtures of the form { "content": string | object }.
+// Looks for an exact recorded request first (<task>/<hash>.json), then a per-key
+// fixture (<task>/<fixtureKey>.json), then the task default (<task>.json).
+export function createFixtureProvider(directory: string): LLMProvider {
+  return {
+    name: "fixture",
+    async complete(request) {
+      const hash = fixtureHash(request);
+      const candidates = [
+        path.join(directory, request.task, `${hash}.json`),
+        ...(request.fixtureKey ? [path.join(directory, request.task, `${request.fixtureKey}.json`)] : []),
+        path.join(directory, `${request.task}.json`),
+      ];
+
+      for (const file of candidates) {
+        const content = await readFixture(file);
+        if (content !== undefined) {
+          return { content, model: `fixture:${path.relative(directory, file)}`, provider: "fixture" };
+        }
+      }
+      throw new LLMFixtureNotFoundError(request.task, hash);
+    },
+  };
+}
+
+// Wraps a live provider and saves each response as an exact-match fixture for replay
+export function createRecordingProvider(inner: LLMProvider, directory: string): LLMProvider {
+  const record = async (request: LLMCompletionRequest, completion: LLMCompletion) => {
+    const file = path.join(directory, request.task, `${fixtureHash(request)}.json`);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify({ content: completion.content, model: completion.model }, null, 2) + "\n");
+    return completion;
+  };
+
+  return {
+    name: `${inner.name}+recording`,
+    async complete(request) {
+      return await record(request, await inner.complete(request));
+    },
+    async stream(request, onToken) {
+      return await record(request, await streamFrom(inner, request, onToken));
+    },
+  };
+}
+
+function createUnconfiguredProvider(): LLMProvider {
+  return {
+    name: "none",
+    async complete() {
+      throw new LLMNotConfiguredError();
+    },
+  };
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new LLMNotConfiguredError(`${name} must be set when LLM_PROVIDER=${process.env.LLM_PROVIDER}`);
+  }
+  return value;
+}
+
+function getFixturesDirectory(): string {
+  return path.resolve(process.env.LLM_FIXTURES_DIR || "server/fixtures/llm");
+}
+
+// LLM_PROVIDER selects "openai", "azure", "openai-compatible" or "fixture". Without it,
+// OpenAI is used when OPENAI_API_KEY is set and calls fail fast otherwise.
+function createProviderFromEnv(): LLMProvider {
+  const providerName = process.env.LLM_PROVIDER || (process.env.OPENAI_API_KEY ? "openai" : "none");
+
+  let provider: LLMProvider;
+  try {
+    switch (providerName) {
+      case "openai":
+        provider = createOpenAIProvider(requireEnv("OPENAI_API_KEY"), process.env.OPENAI_BASE_URL);
+        break;
+      case "azure":
+        provider = createAzureOpenAIProvider({
+          apiKey: requireEnv("AZURE_OPENAI_API_KEY"),
+          endpoint: requireEnv("AZURE_OPENAI_ENDPOINT"),
+          apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-10-21",
+        });
+        break;
+      case "openai-compatible":
+        provider = createOpenAICompatibleProvider(requireEnv("LLM_BASE_URL"), process.env.LLM_API_KEY);
+        break;
+      case "fixture":
+        return createFixtureProvider(getFixturesDirectory());
+      case "none":
+        return createUnconfiguredProvider();
+      default:
+        console.warn(`Unknown LLM_PROVIDER "${providerName}", AI features are disabled`);
+        return createUnconfiguredProvider();
+    }
+  } catch (error) {
+    console.warn((error as Error).message);
+    return createUnconfiguredProvider();
+  }
+
+  return process.env.LLM_RECORD_FIXTURES === "true"
+    ? createRecordingProvider(provider, getFixturesDirectory())
+    : provider;
+}
+
+// The SDK client for LLM_PROVIDER, built from the same settings as chat completions,
+// for calls such as embeddings that go to the same endpoint
+export function createLLMClientFromEnv(): { provider: string; client: OpenAI } {
+  const providerName = process.env.LLM_PROVIDER || (process.env.OPENAI_API_KEY ? "openai" : "none");
+  switch (providerName) {
+    case "openai":
+      return {
+        provider: providerName,
+        client: new OpenAI({ apiKey: requireEnv("OPENAI_API_KEY"), baseURL: process.env.OPENAI_BASE_URL }),
+      };
+    case "azure":
+      return {
+        provider: providerName,
+        client: new AzureOpenAI({
+          apiKey: requireEnv("AZURE_OPENAI_API_KEY"),
+          endpoint: requireEnv("AZURE_OPENAI_ENDPOINT"),
+          apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-10-21",
+        }),
+      };
+    case "openai-compatible":
+      return {
+        provider: providerName,
+        client: new OpenAI({ apiKey: process.env.LLM_API_KEY || "unused", baseURL: requireEnv("LLM_BASE_URL") }),
+      };
+    default:
+      throw new LLMNotConfiguredError(`LLM_PROVIDER "${providerName}" has no OpenAI-style client`);
+  }
+}
+
+let activeProvider: LLMProvider | undefined;
+
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createProviderFromEnv();
+  }
+  return activeProvider;
+}
+
+// Lets tests and scripts swap in a provider; pass undefined to re-read the environment
+export function setLLMProvider(provider: LLMProvider | undefined): void {
+  activeProvider = provider;
+}
+
+export async function completeChat(request: LLMCompletionRequest): Promise<LLMCompletion> {
+  return await getLLMProvider().complete(request);
+}
+
+// Providers without streaming (e.g. fixtures) deliver the whole completion as one token
+async function streamFrom(
+  provider: LLMProvider,
+  request: LLMCompletionRequest,
+  onToken: (text: string) => void
+): Promise<LLMCompletion> {
+  if (provider.stream) {
+    return await provider.stream(request, onToken);
+  }
+  const completion = await provider.complete(request);
+  if (completion.content) onToken(completion.content);
+  return completion;
+}
+
+export async function streamChat(
+  request: LLMCompletionRequest,
+  onToken: (text: string) => void
+): Promise<LLMCompletion> {
+  return await streamFrom(getLLMProvider(), request, onToken);
+}
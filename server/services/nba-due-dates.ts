@@ -0,0 +1,197 @@
+import { promises as fs } from "fs";
+import { storage } from "../storage";
+import type { User } from "@shared/schema";
+import { getZonedParts, resolveTimeZone, zonedTimeToUtc } from "./time-zones";
+
+// Due times are placed on this grid within the working day
+const SLOT_ROUNDING_MINUTES = 15;
+// Time left in today's working day below which new NBAs go to the next one
+const MIN_MINUTES_LEFT_TODAY = 30;
+// How many working days past the requested one to look for a day under the cap
+const MAX_OVERFLOW_DAYS = 10;
+
+export interface SchedulingPreferences {
+  timeZone: string;
+  workdayStart: number; // Minutes after midnight
+  workdayEnd: number;
+  workingDays: number[]; // 0 = Sunday
+  maxNbasPerDay: number;
+}
+
+// Fixed dates ("2025-11-27") and dates that repeat every year ("12-25")
+export interface HolidayCalendar {
+  dates: Set<string>;
+  annual: Set<string>;
+}
+
+interface LocalDay {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export interface DueDateScheduler {
+  timeZone: string;
+  // The due date businessDays working days from today (0 is today while there is time
+  // left in it), no earlier than notBefore's day, moved later while that day is full
+  schedule(options?: { businessDays?: number; notBefore?: Date }): Date;
+}
+
+function parseClock(value: string | null | undefined, fallback: number): number {
+  const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : fallback;
+}
+
+export function getSchedulingPreferences(
+  user: Pick<User, "timeZone" | "workdayStart" | "workdayEnd" | "workingDays" | "maxNbasPerDay"> | undefined,
+  fallbackTimeZone?: string
+): SchedulingPreferences {
+  const workdayStart = parseClock(user?.workdayStart, 9 * 60);
+  const workdayEnd = parseClock(user?.workdayEnd, 17 * 60);
+  return {
+    timeZone: resolveTimeZone(user?.timeZone || fallbackTimeZone),
+    workdayStart,
+    workdayEnd: workdayEnd > workdayStart ? workdayEnd : 17 * 60,
+    workingDays: user?.workingDays?.length ? user.workingDays : [1, 2, 3, 4, 5],
+    maxNbasPerDay: Math.max(1, user?.maxNbasPerDay ?? 5),
+  };
+}
+
+// Entries separated by commas or newlines; "#" starts a comment. Invalid entries are skipped.
+export function parseHolidayCalendar(value: string): HolidayCalendar {
+  const calendar: HolidayCalendar = { dates: new Set(), annual: new Set() };
+  for (const line of value.split("\n")) {
+    for (const entry of line.replace(/#.*$/, "").split(",")) {
+      const trimmed = entry.trim();
+      if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) calendar.dates.add(trimmed);
+      else if (/^\d{2}-\d{2}$/.test(trimmed)) calendar.annual.add(trimmed);
+    }
+  }
+  return calendar;
+}
+
+let holidayCalendar: Promise<HolidayCalendar> | undefined;
+
+// NBA_HOLIDAYS lists holidays inline; NBA_HOLIDAYS_FILE points at a file in the same
+// format. Both are read once.
+export function getHolidayCalendar(): Promise<HolidayCalendar> {
+  if (!holidayCalendar) {
+    holidayCalendar = (async () => {
+      let value = process.env.NBA_HOLIDAYS || "";
+      if (process.env.NBA_HOLIDAYS_FILE) {
+        try {
+          value += `\n${await fs.readFile(process.env.NBA_HOLIDAYS_FILE, "utf8")}`;
+        } catch (error) {
+          console.error(`Error reading holiday calendar ${process.env.NBA_HOLIDAYS_FILE}:`, error);
+        }
+      }
+      return parseHolidayCalendar(value);
+    })();
+  }
+  return holidayCalendar;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function dayKey(day: LocalDay): string {
+  return `${day.year}-${pad(day.month)}-${pad(day.day)}`;
+}
+
+function addDays(day: LocalDay, count: number): LocalDay {
+  const date = new Date(Date.UTC(day.year, day.month - 1, day.day + count));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function localDay(date: Date, timeZone: string): LocalDay {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return { year, month, day };
+}
+
+function roundUp(minutes: number, step: number): number {
+  return Math.ceil(minutes / step) * step;
+}
+
+// Places due dates for one owner. Days are filled from what the owner already has due
+// plus every date this scheduler has handed out, so a batch of NBAs spreads out too.
+export function createDueDateScheduler(
+  preferences: SchedulingPreferences,
+  holidays: HolidayCalendar,
+  existingDueDates: Date[],
+  now: Date = new Date()
+): DueDateScheduler {
+  const { timeZone, workdayStart, workdayEnd, workingDays, maxNbasPerDay } = preferences;
+  const load = new Map<string, number>();
+  for (const dueDate of existingDueDates) {
+    const key = dayKey(localDay(dueDate, timeZone));
+    load.set(key, (load.get(key) || 0) + 1);
+  }
+
+  const nowParts = getZonedParts(now, timeZone);
+  const today = localDay(now, timeZone);
+  const minutesNow = nowParts.hour * 60 + nowParts.minute;
+
+  const isWorkingDay = (day: LocalDay) => {
+    const key = dayKey(day);
+    const weekday = new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay();
+    return workingDays.includes(weekday) && !holidays.dates.has(key) && !holidays.annual.has(key.slice(5));
+  };
+  const isOpen = (day: LocalDay) =>
+    isWorkingDay(day) && (dayKey(day) !== dayKey(today) || minutesNow <= workdayEnd - MIN_MINUTES_LEFT_TODAY);
+  // The first open day on or after the given one. A year without one means the
+  // calendar leaves no working days; the day is then used as is.
+  const firstOpenFrom = (day: LocalDay) => {
+    for (let offset = 0; offset < 366; offset++) {
+      const candidate = addDays(day, offset);
+      if (isOpen(candidate)) return candidate;
+    }
+    return day;
+  };
+
+  return {
+    timeZone,
+    schedule({ businessDays = 1, notBefore } = {}) {
+      let day = firstOpenFrom(today);
+      for (let step = 0; step < businessDays; step++) day = firstOpenFrom(addDays(day, 1));
+      if (notBefore) {
+        const earliest = localDay(notBefore, timeZone);
+        if (dayKey(earliest) > dayKey(day)) day = firstOpenFrom(earliest);
+      }
+      for (let step = 0; step < MAX_OVERFLOW_DAYS && (load.get(dayKey(day)) || 0) >= maxNbasPerDay; step++) {
+        day = firstOpenFrom(addDays(day, 1));
+      }
+
+      // The nth NBA of a day is due at the end of the nth equal share of the working
+      // day, so reminders for a busy day do not all arrive at once
+      const slot = load.get(dayKey(day)) || 0;
+      const span = workdayEnd - workdayStart;
+      let minutes = Math.min(
+        workdayEnd,
+        workdayStart + roundUp((span * (slot + 1)) / maxNbasPerDay, SLOT_ROUNDING_MINUTES)
+      );
+      if (dayKey(day) === dayKey(today)) {
+        minutes = Math.min(workdayEnd, Math.max(minutes, roundUp(minutesNow + MIN_MINUTES_LEFT_TODAY, SLOT_ROUNDING_MINUTES)));
+      }
+      load.set(dayKey(day), slot + 1);
+
+      return zonedTimeToUtc({ ...day, hour: Math.floor(minutes / 60), minute: minutes % 60 }, timeZone);
+    },
+  };
+}
+
+// A scheduler for the owner's NBAs using their profile's working hours and time zone.
+// fallbackTimeZone is used when the profile has none yet.
+export async function getDueDateScheduler(
+  ownerId: string,
+  options: { fallbackTimeZone?: string | null; now?: Date } = {}
+): Promise<DueDateScheduler> {
+  const now = options.now ?? new Date();
+  const [owner, holidays, existingDueDates] = await Promise.all([
+    storage.getUser(ownerId),
+    getHolidayCalendar(),
+    storage.getOpenNbaDueDates(ownerId, new Date(now.getTime() - 24 * 60 * 60 * 1000)),
+  ]);
+  const preferences = getSchedulingPreferences(owner, options.fallbackTimeZone ?? undefined);
+  return createDueDateScheduler(preferences, holidays, existingDueDates, now);
+}
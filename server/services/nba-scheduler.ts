@@ -0,0 +1,136 @@
+import { storage } from "../storage";
+import type { NextBestAction } from "@shared/schema";
+import { getNotificationChannels, notify, type NotificationChannel } from "./notifications";
+import { resolveTimeZone } from "./time-zones";
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+const DEFAULT_LEAD_TIMES = "24h,1h";
+const LEAD_TIME_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+export interface NbaSchedulerResult {
+  overdue: number;
+  reminders: number;
+}
+
+// "24h,1h,30m" → lead times in milliseconds, longest first. Invalid entries are skipped.
+export function parseLeadTimes(value: string): number[] {
+  const leadTimes = value
+    .split(",")
+    .map(entry => entry.trim().toLowerCase().match(/^(\d+)\s*([mhd])$/))
+    .filter((match): match is RegExpMatchArray => !!match && Number(match[1]) > 0)
+    .map(match => Number(match[1]) * LEAD_TIME_UNITS_MS[match[2]]);
+  return Array.from(new Set(leadTimes)).sort((a, b) => b - a);
+}
+
+function formatLeadTime(ms: number): string {
+  for (const [unit, label] of [["d", "day"], ["h", "hour"], ["m", "minute"]] as const) {
+    const count = ms / LEAD_TIME_UNITS_MS[unit];
+    if (Number.isInteger(count)) return `${count} ${label}${count === 1 ? "" : "s"}`;
+  }
+  return `${Math.round(ms / LEAD_TIME_UNITS_MS.m)} minutes`;
+}
+
+function formatDueDate(nba: NextBestAction): string {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone: resolveTimeZone(nba.userTimeZone),
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZoneName: "short",
+  }).format(nba.dueDate);
+}
+
+// Due dates are scheduled at a time within the owner's working hours, so an NBA is
+// overdue as soon as that time has passed
+export function isNbaOverdue(nba: NextBestAction, now: Date): boolean {
+  return nba.dueDate <= now;
+}
+
+// The shortest lead time whose window has opened, so an NBA created close to its due
+// date gets one reminder rather than one per lead time
+export function currentLeadTime(nba: NextBestAction, now: Date, leadTimes: number[]): number | undefined {
+  const untilDue = nba.dueDate.getTime() - now.getTime();
+  if (untilDue <= 0) return undefined;
+  return leadTimes.filter(leadTime => untilDue <= leadTime).pop();
+}
+
+async function accountName(accountId: string): Promise<string> {
+  return (await storage.getAccount(accountId))?.name || "an account";
+}
+
+// Marks past-due Open and In Progress NBAs as Overdue and sends reminders for NBAs
+// coming due. Reminders are keyed on the NBA, lead time and due date: each is sent
+// once, and again if the due date moves.
+export async function runNbaScheduler(
+  now: Date = new Date(),
+  options: { leadTimes?: number[]; channels?: NotificationChannel[] } = {}
+): Promise<NbaSchedulerResult> {
+  const leadTimes = options.leadTimes ?? parseLeadTimes(process.env.NBA_REMINDER_LEAD_TIMES || DEFAULT_LEAD_TIMES);
+  const channels = options.channels ?? getNotificationChannels();
+  const horizon = new Date(now.getTime() + (leadTimes[0] ?? 0));
+  const result: NbaSchedulerResult = { overdue: 0, reminders: 0 };
+
+  for (const nba of await storage.getActiveNextBestActionsDueBefore(horizon)) {
+    if (isNbaOverdue(nba, now)) {
+      const updated = await storage.markNextBestActionOverdue(nba.id);
+      if (!updated) continue;
+      result.overdue++;
+      await notify({
+        userId: nba.owner,
+        kind: "nba_overdue",
+        title: `Overdue: ${nba.title}`,
+        body: `This action for ${await accountName(nba.accountId)} was due ${formatDueDate(nba)}.`,
+        link: "/nbas",
+        accountId: nba.accountId,
+        nbaId: nba.id,
+        dedupeKey: `nba:${nba.id}:overdue:${nba.dueDate.getTime()}`,
+      }, channels);
+      continue;
+    }
+
+    const leadTime = currentLeadTime(nba, now, leadTimes);
+    if (leadTime === undefined) continue;
+    const reminder = await notify({
+      userId: nba.owner,
+      kind: "nba_due_soon",
+      title: `Due within ${formatLeadTime(leadTime)}: ${nba.title}`,
+      body: `This action for ${await accountName(nba.accountId)} is due ${formatDueDate(nba)}.`,
+      link: "/nbas",
+      accountId: nba.accountId,
+      nbaId: nba.id,
+      dedupeKey: `nba:${nba.id}:due:${leadTime}:${nba.dueDate.getTime()}`,
+    }, channels);
+    if (reminder) result.reminders++;
+  }
+
+  return result;
+}
+
+// Runs the scheduler every NBA_SCHEDULER_INTERVAL_MS (a minute by default). Returns a
+// function that stops it once the current run finishes.
+export function startNbaScheduler(options: { intervalMs?: number } = {}): () => void {
+  const intervalMs = options.intervalMs ?? (Number(process.env.NBA_SCHEDULER_INTERVAL_MS) || DEFAULT_INTERVAL_MS);
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const tick = async () => {
+    try {
+      const result = await runNbaScheduler();
+      if (result.overdue > 0 || result.reminders > 0) {
+        console.log(`NBA scheduler: ${result.overdue} marked overdue, ${result.reminders} reminder(s) sent`);
+      }
+    } catch (error) {
+      console.error("Error running NBA scheduler:", error);
+    }
+    if (!stopped) timer = setTimeout(tick, intervalMs);
+  };
+
+  timer = setTimeout(tick, 0);
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
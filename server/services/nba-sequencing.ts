@@ -0,0 +1,192 @@
+import { storage } from "../storage";
+import type { NbaDependency, NextBestAction } from "@shared/schema";
+import { notify } from "./notifications";
+
+// Something that has to be completed before an NBA can be: a prerequisite it depends
+// on, or one of its own subtasks
+export interface NbaBlocker {
+  id: string;
+  title: string;
+  status: NextBestAction["status"];
+  kind: "prerequisite" | "subtask";
+}
+
+export type SequencedNextBestAction = NextBestAction & {
+  dependsOn: string[];
+  blockedBy: NbaBlocker[];
+  subtaskCount: number;
+  completedSubtaskCount: number;
+};
+
+// Thrown for dependencies and subtasks that would leave NBAs impossible to complete
+export class NbaSequencingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NbaSequencingError";
+  }
+}
+
+export class NbaBlockedError extends Error {
+  constructor(public blockedBy: NbaBlocker[]) {
+    super(`Blocked by ${blockedBy.map(blocker => `"${blocker.title}"`).join(", ")}`);
+    this.name = "NbaBlockedError";
+  }
+}
+
+function toBlocker(nba: NextBestAction, kind: NbaBlocker["kind"]): NbaBlocker {
+  return { id: nba.id, title: nba.title, status: nba.status, kind };
+}
+
+// Adds each NBA's prerequisites, open blockers and subtask progress. Blocked is derived
+// rather than stored, so completing (or reopening) a prerequisite takes effect at once.
+export async function withSequencing(nbas: NextBestAction[]): Promise<SequencedNextBestAction[]> {
+  const ids = nbas.map(nba => nba.id);
+  const [dependencies, subtasks] = await Promise.all([
+    storage.getNbaDependencies(ids),
+    storage.getNbaSubtasks(ids),
+  ]);
+
+  // Prerequisites are often outside the list, e.g. completed ones under a status filter
+  const known = new Map<string, NextBestAction>();
+  for (const nba of nbas.concat(subtasks)) known.set(nba.id, nba);
+  const missingIds = Array.from(new Set(dependencies.map(dependency => dependency.dependsOnId)))
+    .filter(id => !known.has(id));
+  for (const nba of await storage.getNextBestActionsByIds(missingIds)) known.set(nba.id, nba);
+
+  return nbas.map(nba => {
+    const prerequisites = dependencies
+      .filter(dependency => dependency.nbaId === nba.id)
+      .map(dependency => known.get(dependency.dependsOnId))
+      .filter((prerequisite): prerequisite is NextBestAction => !!prerequisite);
+    const children = subtasks.filter(subtask => subtask.parentId === nba.id);
+    const blockedBy = prerequisites
+      .filter(prerequisite => prerequisite.status !== "Completed")
+      .map(prerequisite => toBlocker(prerequisite, "prerequisite"))
+      .concat(children.filter(child => child.status !== "Completed").map(child => toBlocker(child, "subtask")));
+
+    return {
+      ...nba,
+      dependsOn: prerequisites.map(prerequisite => prerequisite.id),
+      blockedBy,
+      subtaskCount: children.length,
+      completedSubtaskCount: children.length - blockedBy.filter(blocker => blocker.kind === "subtask").length,
+    };
+  });
+}
+
+export async function getSequencedNba(nba: NextBestAction): Promise<SequencedNextBestAction> {
+  const [sequenced] = await withSequencing([nba]);
+  return sequenced;
+}
+
+// A parent waits for its subtasks just as an NBA waits for its prerequisites, so both
+// count as edges when looking for cycles
+function reaches(fromId: string, targetId: string, edges: Map<string, string[]>): boolean {
+  const seen = new Set<string>();
+  const pending = [fromId];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (id === targetId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    pending.push(...(edges.get(id) || []));
+  }
+  return false;
+}
+
+async function waitEdges(accountId: string): Promise<Map<string, string[]>> {
+  const [dependencies, nbas] = await Promise.all([
+    storage.getAccountNbaDependencies(accountId),
+    storage.getNBAsByAccount(accountId),
+  ]);
+  const edges = new Map<string, string[]>();
+  const addEdge = (from: string, to: string) => edges.set(from, (edges.get(from) || []).concat(to));
+  for (const dependency of dependencies) addEdge(dependency.nbaId, dependency.dependsOnId);
+  for (const nba of nbas) {
+    if (nba.parentId) addEdge(nba.parentId, nba.id);
+  }
+  return edges;
+}
+
+// Makes nba wait for dependsOnId. Returns undefined when the dependency already exists.
+export async function addNbaDependency(nba: NextBestAction, dependsOnId: string): Promise<NbaDependency | undefined> {
+  if (nba.id === dependsOnId) {
+    throw new NbaSequencingError("An NBA cannot depend on itself");
+  }
+  const prerequisite = await storage.getNextBestAction(dependsOnId);
+  if (!prerequisite || prerequisite.accountId !== nba.accountId) {
+    throw new NbaSequencingError("An NBA can only depend on another NBA for the same account");
+  }
+  if (reaches(dependsOnId, nba.id, await waitEdges(nba.accountId))) {
+    throw new NbaSequencingError(`"${prerequisite.title}" already waits on "${nba.title}", so this would create a cycle`);
+  }
+  return await storage.createNbaDependency({ nbaId: nba.id, dependsOnId });
+}
+
+// Subtasks share the parent's account, owner and time zones and are one level deep
+export async function createNbaSubtask(
+  parent: NextBestAction,
+  subtask: { title: string; description?: string | null; priority?: NextBestAction["priority"]; dueDate?: Date },
+  userId: string
+): Promise<NextBestAction> {
+  if (parent.parentId) {
+    throw new NbaSequencingError("Subtasks cannot have subtasks of their own");
+  }
+  return await storage.createNextBestAction({
+    accountId: parent.accountId,
+    title: subtask.title,
+    description: subtask.description ?? null,
+    source: parent.source,
+    priority: subtask.priority ?? parent.priority,
+    status: "Open",
+    owner: parent.owner,
+    dueDate: subtask.dueDate ?? parent.dueDate,
+    userTimeZone: parent.userTimeZone,
+    accountTimeZone: parent.accountTimeZone,
+    link: parent.link,
+    parentId: parent.id,
+    createdBy: userId,
+  });
+}
+
+// Tells the owners of the NBAs that were only waiting on the completed one that they
+// can go ahead. Returns those NBAs.
+async function notifyUnblocked(completed: NextBestAction): Promise<SequencedNextBestAction[]> {
+  const waitingIds = (await storage.getNbaDependents(completed.id)).map(dependency => dependency.nbaId);
+  if (completed.parentId) waitingIds.push(completed.parentId);
+  const waiting = (await storage.getNextBestActionsByIds(waitingIds)).filter(nba => nba.status !== "Completed");
+  const unblocked = (await withSequencing(waiting)).filter(nba => nba.blockedBy.length === 0);
+
+  for (const nba of unblocked) {
+    await notify({
+      userId: nba.owner,
+      kind: "nba_unblocked",
+      title: `Ready to start: ${nba.title}`,
+      body: `"${completed.title}" is done, so this action is no longer blocked.`,
+      link: "/nbas",
+      accountId: nba.accountId,
+      nbaId: nba.id,
+      dedupeKey: `nba:${nba.id}:unblocked:${completed.id}`,
+    });
+  }
+  return unblocked;
+}
+
+// Completes an NBA once nothing blocks it, then unblocks whatever was waiting on it
+export async function completeNextBestAction(
+  nba: NextBestAction,
+  updates: Partial<NextBestAction> = {}
+): Promise<{ nba: NextBestAction; unblocked: SequencedNextBestAction[] }> {
+  const { blockedBy } = await getSequencedNba(nba);
+  if (blockedBy.length > 0) throw new NbaBlockedError(blockedBy);
+
+  const completed = await storage.updateNextBestAction(nba.id, { ...updates, status: "Completed" });
+  let unblocked: SequencedNextBestAction[] = [];
+  try {
+    unblocked = await notifyUnblocked(completed);
+  } catch (error) {
+    // The NBA is already completed; a failed notification must not report otherwise
+    console.error(`Error notifying NBAs unblocked by ${nba.id}:`, error);
+  }
+  return { nba: completed, unblocked };
+}
@@ -1,6 +1,13 @@
-import { generateFrameworkNotes, generateNextBestActions } from './openai';
+import { generateFrameworkNotes, generateNextBestActions, extractStakeholders } from './openai';
 import { storage } from '../storage';
-import type { InsertFrameworkNotes, InsertNextBestAction } from '@shared/schema';
+import { enqueueJob, pendingStep, registerJobHandler, type JobContext } from './job-queue';
+import type { Job, NextBestAction, Transcript, TranscriptTurn } from '@shared/schema';
+import { parseTranscriptText } from './transcript-import';
+import { countSpeakers } from './transcript-turns';
+import { mergeNotesIntoRecord } from './framework-records';
+import { addNbaDependency } from './nba-sequencing';
+import { getDueDateScheduler } from './nba-due-dates';
+import { FRAMEWORK_SCHEMA_VERSION, type FrameworkEvidence } from '@shared/frameworks';
 
 export interface ProcessTranscriptRequest {
   accountId: string;
@@ -10,6 +17,7 @@ export interface ProcessTranscriptRequest {
   userId: string;
   userTimeZone: string;
   accountTimeZone?: string;
+  turns?: TranscriptTurn[]; // Parsed by the importer; pasted text is parsed on save
 }
 
 export interface ProcessTranscriptResult {
@@ -18,6 +26,7 @@ export interface ProcessTranscriptResult {
     id: string;
     framework: string;
     content: any;
+    evidence: FrameworkEvidence;
   }>;
   nextBestActions: Array<{
     id: string;
@@ -25,121 +34,68 @@ export interface ProcessTranscriptResult {
     description: string;
     priority: string;
     dueDate: string;
+    parentId: string | null;
+    dependsOn: string[];
+  }>;
+  contacts: Array<{
+    id: string;
+    name: string;
+    title: string | null;
+    roles: string[];
   }>;
 }
 
-export async function processTranscript(request: ProcessTranscriptRequest): Promise<ProcessTranscriptResult> {
-  const { accountId, transcriptContent, frameworks, lob, userId, userTimeZone, accountTimeZone } = request;
+type FrameworkNoteResult = ProcessTranscriptResult['frameworkNotes'][number];
 
-  try {
-    // Create transcript record
-    const transcript = await storage.createTranscript({
-      accountId,
-      content: transcriptContent,
-      speakerCount: detectSpeakerCount(transcriptContent),
-      wordCount: countWords(transcriptContent),
-      createdBy: userId,
-    });
+interface GenerationContext {
+  accountName: string;
+  companyResearch: any;
+  companyContext?: string;
+}
+
+export const TRANSCRIPT_JOB_TYPE = 'process_transcript';
+
+export async function processTranscript(
+  request: ProcessTranscriptRequest,
+  options: { onProgress?: (message: string) => void } = {}
+): Promise<ProcessTranscriptResult> {
+  const { onProgress } = options;
 
-    // Get company context for better notes generation
-    const companyResearchRecords = await storage.getCompanyResearch(accountId);
-    const companyContext = companyResearchRecords.length > 0 
-      ? JSON.stringify(companyResearchRecords[0].results) 
-      : undefined;
+  try {
+    onProgress?.('Saving transcript…');
+    const transcript = await createTranscriptRecord(request);
+    const context = await loadGenerationContext(request.accountId);
 
     // Generate framework notes
     const frameworkNotesResults = [];
-    for (const framework of frameworks) {
+    for (const framework of request.frameworks) {
       try {
-        const notesContent = await generateFrameworkNotes({
-          transcript: transcriptContent,
-          framework,
-          lob,
-          companyContext,
-        });
-
-        const notes = await storage.createFrameworkNotes({
-          transcriptId: transcript.id,
-          accountId,
-          framework: framework as any,
-          content: notesContent,
-          createdBy: userId,
-        });
-
-        // Also save framework notes as artifacts for Historical Notes access
-        await storage.createArtifact({
-          accountId,
-          type: framework as any,
-          title: `${framework} Notes`,
-          content: notesContent,
-          summary: `${framework} framework notes generated from meeting transcript`,
-          createdBy: userId,
-        });
-
-        frameworkNotesResults.push({
-          id: notes.id,
-          framework: notes.framework,
-          content: notes.content,
-        });
+        onProgress?.(`Generating ${framework} notes…`);
+        frameworkNotesResults.push(await saveFrameworkNotes(request, transcript.id, framework, context));
       } catch (error) {
         console.error(`Error generating ${framework} notes:`, error);
         // Continue with other frameworks even if one fails
       }
     }
 
-    // Generate Next Best Actions
-    const account = await storage.getAccount(accountId);
-    const nbasData = await generateNextBestActions({
-      transcript: transcriptContent,
-      frameworkNotes: frameworkNotesResults,
-      companyResearch: companyResearchRecords[0]?.results,
-      accountName: account?.name || 'Unknown Company',
-      userTimeZone,
-      accountTimeZone,
-      lob,
+    // Capture attendees as stakeholder contacts on the account
+    onProgress?.('Identifying stakeholders…');
+    const contactsResults = await syncContactsFromTranscript({
+      accountId: request.accountId,
+      accountName: context.accountName,
+      transcriptId: transcript.id,
+      transcriptContent: request.transcriptContent,
+      userId: request.userId,
     });
 
-    const nextBestActionsResults = [];
-    for (const nbaData of nbasData) {
-      try {
-        const nba = await storage.createNextBestAction({
-          accountId,
-          title: nbaData.title,
-          description: nbaData.description,
-          evidence: nbaData.evidence,
-          source: nbaData.source || 'Meeting Transcript',
-          priority: nbaData.priority as any,
-          status: 'Open',
-          owner: userId,
-          dueDate: new Date(nbaData.dueDate),
-          userTimeZone,
-          accountTimeZone,
-          link: nbaData.link,
-          createdBy: userId,
-        });
-
-        nextBestActionsResults.push({
-          id: nba.id,
-          title: nba.title,
-          description: nba.description || '',
-          priority: nba.priority || 'Medium',
-          dueDate: nba.dueDate.toISOString(),
-        });
-      } catch (error) {
-        console.error('Error creating NBA:', error);
-        // Continue with other NBAs even if one fails
-      }
-    }
-
-    // Update account last contact date
-    await storage.updateAccount(accountId, {
-      lastContactDate: new Date(),
-    });
+    onProgress?.('Drafting next best actions…');
+    const nextBestActionsResults = await saveNextBestActions(request, frameworkNotesResults, context);
 
     return {
       transcriptId: transcript.id,
       frameworkNotes: frameworkNotesResults,
       nextBestActions: nextBestActionsResults,
+      contacts: contactsResults,
     };
   } catch (error) {
     console.error('Error processing transcript:', error);
@@ -147,11 +103,334 @@ export async function processTranscript(request: ProcessTranscriptRequest): Prom
   }
 }
 
-function detectSpeakerCount(transcript: string): number {
-  // Simple speaker detection based on name patterns
-  const speakerPatterns = transcript.match(/^[A-Z][a-z]+ \([^)]*\):/gm) || [];
-  const uniqueSpeakers = new Set(speakerPatterns.map(pattern => pattern.split(' (')[0]));
-  return uniqueSpeakers.size;
+// Queues the same work as processTranscript with one progress step per framework
+export async function enqueueTranscriptProcessing(request: ProcessTranscriptRequest): Promise<Job> {
+  return await enqueueJob({
+    type: TRANSCRIPT_JOB_TYPE,
+    payload: request,
+    steps: [
+      pendingStep('transcript', 'Save transcript'),
+      ...request.frameworks.map(framework => pendingStep(`framework:${framework}`, `${framework} notes`)),
+      pendingStep('contacts', 'Stakeholders'),
+      pendingStep('nbas', 'Next best actions'),
+    ],
+    accountId: request.accountId,
+    createdBy: request.userId,
+  });
+}
+
+export function registerTranscriptJobs() {
+  registerJobHandler(TRANSCRIPT_JOB_TYPE, runTranscriptJob);
+}
+
+// Steps finished by earlier attempts are skipped, so a retry only regenerates what failed
+async function runTranscriptJob(context: JobContext): Promise<void> {
+  const { runStep, setResult } = context;
+  const request = context.job.payload as ProcessTranscriptRequest;
+  const result: ProcessTranscriptResult = (context.job.result as ProcessTranscriptResult | null) || {
+    transcriptId: '',
+    frameworkNotes: [],
+    nextBestActions: [],
+    contacts: [],
+  };
+
+  const transcript = await runStep('transcript', () => createTranscriptRecord(request));
+  if (transcript) {
+    result.transcriptId = transcript.id;
+    await setResult(result);
+  }
+  if (!result.transcriptId) {
+    throw new Error('Transcript has not been saved');
+  }
+
+  const generation = await loadGenerationContext(request.accountId);
+
+  for (const framework of request.frameworks) {
+    try {
+      const notes = await runStep(`framework:${framework}`, () =>
+        saveFrameworkNotes(request, result.transcriptId, framework, generation, { throwOnError: true })
+      );
+      if (notes) {
+        result.frameworkNotes = [...result.frameworkNotes.filter(item => item.framework !== framework), notes];
+        await setResult(result);
+      }
+    } catch (error) {
+      console.error(`Error generating ${framework} notes:`, error);
+      // The failure is recorded on the step; continue with other frameworks
+    }
+  }
+
+  try {
+    const contacts = await runStep('contacts', () => syncContactsFromTranscript({
+      accountId: request.accountId,
+      accountName: generation.accountName,
+      transcriptId: result.transcriptId,
+      transcriptContent: request.transcriptContent,
+      userId: request.userId,
+    }));
+    if (contacts) {
+      result.contacts = contacts;
+      await setResult(result);
+    }
+  } catch (error) {
+    console.error('Error syncing contacts from transcript:', error);
+  }
+
+  const nextBestActions = await runStep('nbas', () => saveNextBestActions(request, result.frameworkNotes, generation));
+  if (nextBestActions) {
+    result.nextBestActions = nextBestActions;
+    await setResult(result);
+  }
+}
+
+async function createTranscriptRecord(request: ProcessTranscriptRequest): Promise<Transcript> {
+  return await storage.createTranscript({
+    accountId: request.accountId,
+    content: request.transcriptContent,
+    turns: requestTurns(request),
+    speakerCount: countSpeakers(requestTurns(request)),
+    wordCount: countWords(request.transcriptContent),
+    createdBy: request.userId,
+  });
+}
+
+async function loadGenerationContext(accountId: string): Promise<GenerationContext> {
+  const account = await storage.getAccount(accountId);
+
+  // Get company context for better notes generation
+  const companyResearchRecords = await storage.getCompanyResearch(accountId);
+  return {
+    accountName: account?.name || 'Unknown Company',
+    companyResearch: companyResearchRecords[0]?.results,
+    companyContext: companyResearchRecords.length > 0
+      ? JSON.stringify(companyResearchRecords[0].results)
+      : undefined,
+  };
+}
+
+async function saveFrameworkNotes(
+  request: ProcessTranscriptRequest,
+  transcriptId: string,
+  framework: string,
+  context: GenerationContext,
+  options: { throwOnError?: boolean } = {}
+): Promise<FrameworkNoteResult> {
+  const { accountId, transcriptContent, lob, userId } = request;
+
+  const { content: notesContent, evidence } = await generateFrameworkNotes({
+    transcript: transcriptContent,
+    turns: requestTurns(request),
+    framework,
+    lob,
+    companyContext: context.companyContext,
+    throwOnError: options.throwOnError,
+  });
+
+  // The notes are also saved as an artifact for Historical Notes access. Both go in
+  // one transaction so a failed step leaves nothing behind to be duplicated on retry.
+  const { notes } = await storage.createGeneratedFrameworkNotes(
+    {
+      transcriptId,
+      accountId,
+      framework: framework as any,
+      content: notesContent,
+      schemaVersion: FRAMEWORK_SCHEMA_VERSION,
+      evidence,
+      createdBy: userId,
+    },
+    {
+      accountId,
+      type: framework as any,
+      title: `${framework} Notes`,
+      content: notesContent,
+      summary: `${framework} framework notes generated from meeting transcript`,
+      createdBy: userId,
+    }
+  );
+
+  // Fold the call into the account's running record. A failure here must not fail the
+  // step, or a retry would generate the notes a second time.
+  try {
+    await mergeNotesIntoRecord(notes);
+  } catch (error) {
+    console.error(`Error merging ${framework} notes into the account record:`, error);
+  }
+
+  return {
+    id: notes.id,
+    framework: notes.framework,
+    content: notes.content,
+    evidence,
+  };
+}
+
+async function saveNextBestActions(
+  request: ProcessTranscriptRequest,
+  frameworkNotes: FrameworkNoteResult[],
+  context: GenerationContext
+): Promise<ProcessTranscriptResult['nextBestActions']> {
+  const { accountId, transcriptContent, lob, userId, userTimeZone, accountTimeZone } = request;
+
+  // Generate Next Best Actions
+  const nbasData = await generateNextBestActions({
+    transcript: transcriptContent,
+    frameworkNotes,
+    companyResearch: context.companyResearch,
+    accountName: context.accountName,
+    lob,
+  });
+
+  // The model links NBAs by its own keys. Top-level NBAs are created first so subtasks
+  // can reference their parent; a subtask of a subtask is kept as a top-level NBA.
+  const topLevelKeys = new Set(
+    nbasData.filter(nbaData => nbaData.key && !nbaData.parent).map(nbaData => String(nbaData.key))
+  );
+  const isSubtask = (nbaData: any) => !!nbaData.parent && topLevelKeys.has(String(nbaData.parent));
+  const ordered = nbasData.filter(nbaData => !isSubtask(nbaData)).concat(nbasData.filter(isSubtask));
+  const createdByKey = new Map<string, NextBestAction>();
+
+  // The model only says how many working days out each NBA is; the owner's calendar
+  // picks the date. Prerequisites and subtasks are placed first so an NBA is never due
+  // before what it waits on.
+  const scheduler = await getDueDateScheduler(userId, { fallbackTimeZone: userTimeZone });
+  const byKey = new Map<string, any>(nbasData.filter(nbaData => nbaData.key).map(nbaData => [String(nbaData.key), nbaData]));
+  const businessDaysFor = (nbaData: any) => {
+    const days = Math.round(Number(nbaData.dueInBusinessDays));
+    return Number.isFinite(days) ? Math.min(60, Math.max(0, days)) : 1;
+  };
+  const dueDates = new Map<any, Date>();
+  const scheduleNba = (nbaData: any, visiting: Set<any>): Date => {
+    const scheduled = dueDates.get(nbaData);
+    if (scheduled) return scheduled;
+    visiting.add(nbaData);
+    const waitsOn = (Array.isArray(nbaData.dependsOn) ? nbaData.dependsOn : [])
+      .map((key: unknown) => byKey.get(String(key)))
+      .concat(nbaData.key ? nbasData.filter(other => isSubtask(other) && String(other.parent) === String(nbaData.key)) : [])
+      .filter((other: any) => other && !visiting.has(other));
+    const latest = waitsOn.map((other: any) => scheduleNba(other, visiting).getTime());
+    const dueDate = scheduler.schedule({
+      businessDays: businessDaysFor(nbaData),
+      notBefore: latest.length > 0 ? new Date(Math.max(...latest)) : undefined,
+    });
+    dueDates.set(nbaData, dueDate);
+    return dueDate;
+  };
+  for (const nbaData of nbasData.slice().sort((a, b) => businessDaysFor(a) - businessDaysFor(b))) {
+    scheduleNba(nbaData, new Set());
+  }
+
+  const nextBestActionsResults: ProcessTranscriptResult['nextBestActions'] = [];
+  for (const nbaData of ordered) {
+    try {
+      const nba = await storage.createNextBestAction({
+        accountId,
+        title: nbaData.title,
+        description: nbaData.description,
+        evidence: nbaData.evidence,
+        source: nbaData.source || 'Meeting Transcript',
+        priority: nbaData.priority as any,
+        status: 'Open',
+        owner: userId,
+        dueDate: dueDates.get(nbaData)!,
+        userTimeZone: scheduler.timeZone,
+        accountTimeZone,
+        link: nbaData.link,
+        parentId: isSubtask(nbaData) ? createdByKey.get(String(nbaData.parent))?.id ?? null : null,
+        createdBy: userId,
+      });
+      if (nbaData.key) createdByKey.set(String(nbaData.key), nba);
+
+      nextBestActionsResults.push({
+        id: nba.id,
+        title: nba.title,
+        description: nba.description || '',
+        priority: nba.priority || 'Medium',
+        dueDate: nba.dueDate.toISOString(),
+        parentId: nba.parentId,
+        dependsOn: [],
+      });
+    } catch (error) {
+      console.error('Error creating NBA:', error);
+      // Continue with other NBAs even if one fails
+    }
+  }
+
+  // Dependencies are added once every NBA exists since the model may list them in any order
+  for (const nbaData of ordered) {
+    const nba = createdByKey.get(String(nbaData.key));
+    if (!nba || !Array.isArray(nbaData.dependsOn)) continue;
+    const result = nextBestActionsResults.find(item => item.id === nba.id)!;
+    for (const dependsOnKey of nbaData.dependsOn) {
+      const prerequisite = createdByKey.get(String(dependsOnKey));
+      if (!prerequisite) continue;
+      try {
+        await addNbaDependency(nba, prerequisite.id);
+        result.dependsOn.push(prerequisite.id);
+      } catch (error) {
+        console.warn(`Skipping NBA dependency "${nba.title}" -> "${prerequisite.title}":`, error);
+      }
+    }
+  }
+
+  // Update account last contact date
+  await storage.updateAccount(accountId, {
+    lastContactDate: new Date(),
+  });
+
+  return nextBestActionsResults;
+}
+
+async function syncContactsFromTranscript(input: {
+  accountId: string;
+  accountName: string;
+  transcriptId: string;
+  transcriptContent: string;
+  userId: string;
+}): Promise<ProcessTranscriptResult['contacts']> {
+  const { accountId, accountName, transcriptId, transcriptContent, userId } = input;
+  const results: ProcessTranscriptResult['contacts'] = [];
+
+  const stakeholders = await extractStakeholders({ transcript: transcriptContent, accountName });
+
+  for (const stakeholder of stakeholders) {
+    try {
+      const existing = await storage.findContactByName(accountId, stakeholder.name);
+
+      // Merge into the existing record rather than duplicating the person
+      const contact = existing
+        ? await storage.updateContact(existing.id, {
+            title: existing.title || stakeholder.title || null,
+            company: existing.company || stakeholder.company || null,
+            roles: Array.from(new Set([...existing.roles, ...stakeholder.roles])),
+          })
+        : await storage.createContact({
+            accountId,
+            name: stakeholder.name,
+            title: stakeholder.title,
+            company: stakeholder.company,
+            roles: stakeholder.roles,
+            source: 'transcript',
+            sourceTranscriptId: transcriptId,
+            createdBy: userId,
+          });
+
+      results.push({
+        id: contact.id,
+        name: contact.name,
+        title: contact.title,
+        roles: contact.roles,
+      });
+    } catch (error) {
+      console.error(`Error saving contact ${stakeholder.name}:`, error);
+      // Continue with other attendees even if one fails
+    }
+  }
+
+  return results;
+}
+
+function requestTurns(request: ProcessTranscriptRequest): TranscriptTurn[] {
+  return request.turns ?? parseTranscriptText(request.transcriptContent);
 }
 
 function countWords(text: string): number {
@@ -0,0 +1,158 @@
+import { spawn } from "child_process";
+import { createHmac } from "crypto";
+import { storage } from "../storage";
+import type { InsertNotification, Notification } from "@shared/schema";
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+export interface NotificationRecipient {
+  id: string;
+  email: string | null;
+  name: string;
+}
+
+// Delivers notifications outside the app. The in-app feed is the notifications table
+// itself and always receives them.
+export interface NotificationChannel {
+  name: string;
+  send(notification: Notification, recipient: NotificationRecipient): Promise<void>;
+}
+
+// Links in notifications are app paths; external channels need absolute URLs
+function absoluteLink(link: string | null): string | null {
+  if (!link) return null;
+  const baseUrl = process.env.APP_BASE_URL;
+  return baseUrl ? new URL(link, baseUrl).toString() : link;
+}
+
+// POSTs each notification as JSON. With a secret, the body is signed with HMAC-SHA256
+// in the X-Sena-Signature header so the receiver can verify it.
+export function createWebhookChannel(options: { url: string; secret?: string }): NotificationChannel {
+  return {
+    name: "webhook",
+    async send(notification, recipient) {
+      const body = JSON.stringify({
+        id: notification.id,
+        kind: notification.kind,
+        title: notification.title,
+        body: notification.body,
+        link: absoluteLink(notification.link),
+        accountId: notification.accountId,
+        nbaId: notification.nbaId,
+        createdAt: notification.createdAt,
+        recipient,
+      });
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (options.secret) {
+        headers["X-Sena-Signature"] = createHmac("sha256", options.secret).update(body).digest("hex");
+      }
+
+      const response = await fetch(options.url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+      }
+    },
+  };
+}
+
+// Hands a plain-text message to the local sendmail (or any MTA with a compatible
+// binary). Recipients without an email address are skipped.
+export function createSendmailChannel(options: { binary: string; from: string }): NotificationChannel {
+  return {
+    name: "email",
+    async send(notification, recipient) {
+      if (!recipient.email) return;
+      const link = absoluteLink(notification.link);
+      const message = [
+        `From: ${options.from}`,
+        `To: ${recipient.email}`,
+        `Subject: ${notification.title.replace(/[\r\n]+/g, " ")}`,
+        "Content-Type: text/plain; charset=utf-8",
+        "",
+        `Hi ${recipient.name},`,
+        "",
+        notification.body || notification.title,
+        ...(link ? ["", link] : []),
+        "",
+      ].join("\n");
+
+      await new Promise<void>((resolve, reject) => {
+        const child = spawn(options.binary, ["-t", "-i"], { stdio: ["pipe", "ignore", "pipe"] });
+        let stderr = "";
+        child.stderr.on("data", chunk => (stderr += chunk));
+        child.on("error", reject);
+        child.on("close", code =>
+          code === 0 ? resolve() : reject(new Error(`${options.binary} exited with ${code}: ${stderr.trim()}`))
+        );
+        child.stdin.end(message);
+      });
+    },
+  };
+}
+
+// NOTIFICATION_CHANNELS lists the external channels to use, e.g. "email,webhook"
+export function getNotificationChannels(): NotificationChannel[] {
+  const names = (process.env.NOTIFICATION_CHANNELS || "")
+    .split(",")
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  const channels: NotificationChannel[] = [];
+  for (const name of names) {
+    if (name === "webhook") {
+      if (!process.env.NOTIFICATION_WEBHOOK_URL) {
+        console.warn("NOTIFICATION_WEBHOOK_URL must be set to use the webhook notification channel");
+        continue;
+      }
+      channels.push(createWebhookChannel({
+        url: process.env.NOTIFICATION_WEBHOOK_URL,
+        secret: process.env.NOTIFICATION_WEBHOOK_SECRET,
+      }));
+    } else if (name === "email") {
+      if (!process.env.NOTIFICATION_EMAIL_FROM) {
+        console.warn("NOTIFICATION_EMAIL_FROM must be set to use the email notification channel");
+        continue;
+      }
+      channels.push(createSendmailChannel({
+        binary: process.env.SENDMAIL_BIN || "sendmail",
+        from: process.env.NOTIFICATION_EMAIL_FROM,
+      }));
+    } else {
+      console.warn(`Unknown notification channel "${name}"`);
+    }
+  }
+  return channels;
+}
+
+// Adds a notification to the user's feed and sends it to the external channels.
+// Returns undefined, without sending anything, when the dedupe key was already used.
+export async function notify(
+  notification: InsertNotification,
+  channels: NotificationChannel[] = getNotificationChannels()
+): Promise<Notification | undefined> {
+  const created = await storage.createNotification(notification);
+  if (!created || channels.length === 0) return created;
+
+  const user = await storage.getUser(created.userId);
+  if (!user) return created;
+  const recipient: NotificationRecipient = {
+    id: user.id,
+    email: user.email,
+    name: [user.firstName, user.lastName].filter(Boolean).join(" ") || user.username,
+  };
+
+  // A failing channel must not keep the notification from the others or from the feed
+  for (const channel of channels) {
+    try {
+      await channel.send(created, recipient);
+    } catch (error) {
+      console.error(`Error sending notification ${created.id} via ${channel.name}:`, error);
+    }
+  }
+  return created;
+}
@@ -1,15 +1,22 @@
-import OpenAI from "openai";
 import { SENA_PROMPTS } from './sena-system-prompt';
-
-// Using gpt-5 for latest AI generation - newest OpenAI model released August 7, 2025
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "default_key"
-});
+import { completeChat, LLMNotConfiguredError, type LLMMessage } from './llm';
+import { contactRoleEnum, type ContactRole, type TranscriptTurn } from '@shared/schema';
+import {
+  FRAMEWORK_FIELDS,
+  FRAMEWORK_UNKNOWN,
+  isFrameworkName,
+  repairFrameworkNotes,
+  validateFrameworkNotes,
+  type FrameworkEvidence,
+  type FrameworkName,
+  type FrameworkNotesContent
+} from '@shared/frameworks';
+import { resolveFieldEvidence } from './evidence';
 
 // Helper function to create fallback responses for framework notes
-function createFrameworkNotesFallback(framework: string, error: any): any {
+function createFrameworkNotesFallback(framework: string, error: any): FrameworkNotesContent {
   // Check if this is a missing/invalid API key
-  const isMissingKey = !process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY === "default_key";
+  const isMissingKey = error instanceof LLMNotConfiguredError;
   
   // Check error type
   const isQuotaError = error instanceof Error && (
@@ -22,7 +29,7 @@ function createFrameworkNotesFallback(framework: string, error: any): any {
   
   let errorNote: string;
   if (isMissingKey) {
-    errorNote = "OpenAI API key not configured. Please add your OPENAI_API_KEY environment variable.";
+    errorNote = "AI provider not configured. Please set OPENAI_API_KEY or LLM_PROVIDER.";
   } else if (isQuotaError) {
     errorNote = "OpenAI API quota exceeded. Please check your OpenAI billing and upgrade your plan at https://platform.openai.com/account/billing.";
   } else if (isRateLimit) {
@@ -31,82 +38,28 @@ function createFrameworkNotesFallback(framework: string, error: any): any {
     errorNote = "AI-powered analysis is temporarily unavailable.";
   }
   
-  // Return appropriate fallback based on framework
-  const fallbacks = {
-    "Qual-LSS": {
-      date: "Unknown (AI unavailable)",
-      accountName: "Unknown (AI unavailable)", 
-      attendees: ["Unknown (AI unavailable)"],
-      salesOrgStructure: "Unknown (AI unavailable)",
-      idealBuyerPersonas: "Unknown (AI unavailable)",
-      totalAddressableMarket: "Unknown (AI unavailable)",
-      crm: "Unknown (AI unavailable)",
-      otherSalesSystemsTools: "Unknown (AI unavailable)",
-      salesProcess: "Unknown (AI unavailable)",
-      averageDealSize: "Unknown (AI unavailable)",
-      averageSalesCycle: "Unknown (AI unavailable)",
-      salesNavigatorUseCases: "Unknown (AI unavailable)",
-      errorNote
-    },
-    "Qual-LTS": {
-      overallImpressionOfOpportunity: "Unknown (AI unavailable)",
-      firstImpressionsOfPOCLead: "Unknown (AI unavailable)",
-      generalCompanyInfo: "Unknown (AI unavailable)",
-      numberOfEmployees: "Unknown (AI unavailable)",
-      knowledgeAboutLinkedIn: "Unknown (AI unavailable)",
-      errorNote
-    },
-    "VEF": {
-      customersPressures: "Unknown (AI unavailable)",
-      customersObjectives: "Unknown (AI unavailable)",
-      customersChallenges: "Unknown (AI unavailable)",
-      linkedInSolutions: "Unknown (AI unavailable)",
-      linkedInExperience: "Unknown (AI unavailable)",
-      linkedInUniqueValue: "Unknown (AI unavailable)",
-      errorNote
-    },
-    "MEDDPICC": {
-      metrics: "Unknown (AI unavailable)",
-      economicBuyer: "Unknown (AI unavailable)",
-      decisionCriteria: "Unknown (AI unavailable)",
-      decisionProcess: "Unknown (AI unavailable)",
-      paperProcess: "Unknown (AI unavailable)",
-      identifiedPain: "Unknown (AI unavailable)",
-      champion: "Unknown (AI unavailable)",
-      competition: "Unknown (AI unavailable)",
-      errorNote
-    },
-    "BANT": {
-      budget: "Unknown (AI unavailable)",
-      authority: "Unknown (AI unavailable)",
-      need: "Unknown (AI unavailable)",
-      timeline: "Unknown (AI unavailable)",
-      errorNote
-    },
-    "LicenseDemandPlan": {
-      customersProgramTeam: "Unknown (AI unavailable)",
-      customersMeasurementGoals: "Unknown (AI unavailable)",
-      purchasedLicenseDistributionPlan: "Unknown (AI unavailable)",
-      errorNote
-    }
-  };
-  
-  return fallbacks[framework as keyof typeof fallbacks] || {
-    error: `Unknown framework: ${framework}`,
-    errorNote
-  };
+  if (!isFrameworkName(framework)) {
+    return { error: `Unknown framework: ${framework}`, errorNote };
+  }
+
+  // Same shape as validated notes so the UI and health scoring read it the same way
+  const fallback: FrameworkNotesContent = { errorNote };
+  for (const field of FRAMEWORK_FIELDS[framework]) {
+    fallback[field.key] = field.list ? ["Unknown (AI unavailable)"] : "Unknown (AI unavailable)";
+  }
+  return fallback;
 }
 
 // Helper function to create fallback NBAs
 function createNBAsFallback(error: any): any[] {
   // Check error type
-  const isMissingKey = !process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY === "default_key";
+  const isMissingKey = error instanceof LLMNotConfiguredError;
   const isQuotaError = error instanceof Error && (error as any)?.code === 'insufficient_quota';
   const isRateLimit = error instanceof Error && (error as any)?.status === 429 && (error as any)?.code !== 'insufficient_quota';
   
   let errorMessage: string;
   if (isMissingKey) {
-    errorMessage = "OpenAI API key not configured. Please add your OPENAI_API_KEY environment variable.";
+    errorMessage = "AI provider not configured. Please set OPENAI_API_KEY or LLM_PROVIDER.";
   } else if (isQuotaError) {
     errorMessage = "OpenAI API quota exceeded. Please check your OpenAI billing and upgrade your plan.";
   } else if (isRateLimit) {
@@ -115,26 +68,32 @@ function createNBAsFallback(error: any): any[] {
     errorMessage = "AI-powered NBA generation is temporarily unavailable.";
   }
   
-  const tomorrow = new Date();
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  
   return [
     {
       title: "Follow up on meeting discussion",
       description: `Review meeting notes and follow up on key discussion points. ${errorMessage}`,
       evidence: "Standard follow-up practice",
       priority: "Medium",
-      dueDate: tomorrow.toISOString(),
+      dueInBusinessDays: 1,
       source: "Meeting Transcript"
     }
   ];
 }
 
+const FRAMEWORK_NOTES_MAX_ATTEMPTS = 3;
+
 export interface FrameworkNotesInput {
   transcript: string;
+  turns?: TranscriptTurn[]; // Lets evidence cite the turn each quote came from
   framework: string;
   lob: "LTS" | "LSS";
   companyContext?: string;
+  throwOnError?: boolean; // Surface provider errors instead of returning placeholder notes
+}
+
+export interface FrameworkNotesResult {
+  content: FrameworkNotesContent;
+  evidence: FrameworkEvidence; // Verified transcript spans per field
 }
 
 export interface CompanyResearchResult {
@@ -145,8 +104,8 @@ export interface CompanyResearchResult {
   techStack?: string[];
 }
 
-export async function generateFrameworkNotes(input: FrameworkNotesInput): Promise<any> {
-  const { transcript, framework, lob, companyContext } = input;
+export async function generateFrameworkNotes(input: FrameworkNotesInput): Promise<FrameworkNotesResult> {
+  const { transcript, turns, framework, lob, companyContext } = input;
 
   const frameworkPrompts = {
     "Qual-LSS": `Generate Qual Notes for LinkedIn Sales Solutions (LSS) from this transcript. Extract information for these exact fields:
@@ -213,7 +172,7 @@ export async function generateFrameworkNotes(input: FrameworkNotesInput): Promis
     **5 - Paper Process**
     Identify the administrative, legal, or procurement steps required to complete the purchase. Include contract requirements, legal reviews, compliance needs, and any bureaucratic processes mentioned.
 
-    **6 - Identify Pain**
+    **6 - Identified Pain**
     Document specific business pains, problems, or negative impacts of the current situation. Include the cost of inaction and how these pains affect their operations, revenue, or competitive position.
 
     **7 - Champion**
@@ -265,32 +224,132 @@ export async function generateFrameworkNotes(input: FrameworkNotesInput): Promis
     throw new Error(`Unsupported framework: ${framework}`);
   }
 
+  const fields = FRAMEWORK_FIELDS[framework as FrameworkName];
+  const outputFormat = `Respond with valid JSON only: a single object with exactly these keys.
+${fields.map(field => `- "${field.key}" (${field.label}): ${field.list ? "array of strings" : "string"}. ${field.description}`).join("\n")}
+Use "${FRAMEWORK_UNKNOWN}" (or ["${FRAMEWORK_UNKNOWN}"] for arrays) when the transcript does not cover a field.
+Also include an "evidence" object mapping each field key you filled in to an array of {"quote": string, "speaker": string} supporting it. Copy each quote verbatim from the transcript (one or two sentences) so it can be located; omit fields you marked unknown.`;
+
   const systemMessage = SENA_PROMPTS.transcriptAnalysis(lob) + `
 
 ${companyContext ? `Company Context: ${companyContext}` : ''}`;
 
+  const messages: LLMMessage[] = [
+    { role: "system", content: `${systemMessage}\n\n${outputFormat}` },
+    { role: "user", content: `${prompt}\n\nTranscript:\n${transcript}` }
+  ];
+
+  try {
+    let lastOutput: unknown = {};
+    for (let attempt = 1; attempt <= FRAMEWORK_NOTES_MAX_ATTEMPTS; attempt++) {
+      const response = await completeChat({
+        task: "framework_notes",
+        fixtureKey: framework,
+        messages,
+        json: true
+      });
+
+      let problems: string[];
+      try {
+        lastOutput = JSON.parse(response.content || "{}");
+        const repaired = repairFrameworkNotes(framework as FrameworkName, lastOutput);
+        const validation = validateFrameworkNotes(framework as FrameworkName, repaired);
+        if (validation.success) {
+          return {
+            content: validation.data as FrameworkNotesContent,
+            evidence: resolveFieldEvidence(framework as FrameworkName, (lastOutput as any)?.evidence, transcript, turns),
+          };
+        }
+        problems = validation.error.errors.map(issue => `"${issue.path.join(".")}": ${issue.message}`);
+      } catch (parseError) {
+        problems = [`Response was not valid JSON: ${(parseError as Error).message}`];
+      }
+
+      console.warn(`${framework} notes failed validation (attempt ${attempt}):`, problems.join("; "));
+      messages.push(
+        { role: "assistant", content: response.content },
+        { role: "user", content: `Your response did not match the required format:\n${problems.map(problem => `- ${problem}`).join("\n")}\n\nReturn the corrected JSON object only.` }
+      );
+    }
+
+    // Keep whatever the model did get right and mark the rest as unknown
+    return {
+      content: repairFrameworkNotes(framework as FrameworkName, lastOutput, { fillMissing: true }),
+      evidence: resolveFieldEvidence(framework as FrameworkName, (lastOutput as any)?.evidence, transcript, turns),
+    };
+  } catch (error) {
+    console.error("Error generating framework notes:", error);
+    if (input.throwOnError) throw error;
+    return { content: createFrameworkNotesFallback(framework, error), evidence: {} };
+  }
+}
+
+export interface ExtractedStakeholder {
+  name: string;
+  title?: string;
+  company?: string;
+  roles: ContactRole[];
+}
+
+// Helper function to fall back to "Name (Title):" speaker lines when the model is unavailable
+function createStakeholdersFallback(transcript: string): ExtractedStakeholder[] {
+  const speakerLines = transcript.match(/^[A-Z][a-z]+(?: [A-Z][a-z]+)? \([^)]*\):/gm) || [];
+  const stakeholders = new Map<string, ExtractedStakeholder>();
+
+  for (const line of speakerLines) {
+    const [, name, title] = line.match(/^(.+?) \(([^)]*)\):$/) || [];
+    if (name && !stakeholders.has(name)) {
+      stakeholders.set(name, { name, title: title || undefined, roles: [] });
+    }
+  }
+
+  return Array.from(stakeholders.values());
+}
+
+export async function extractStakeholders(input: {
+  transcript: string;
+  accountName: string;
+}): Promise<ExtractedStakeholder[]> {
+  const { transcript, accountName } = input;
+  const validRoles = contactRoleEnum.enumValues;
+
+  const systemMessage = SENA_PROMPTS.transcriptAnalysis("LSS") + `
+
+Identify the attendees and stakeholders from ${accountName} who are named in this transcript. Ignore the LinkedIn seller.
+
+For each person provide:
+- name: Full name as mentioned
+- title: Job title, if mentioned
+- company: Company, if mentioned
+- roles: Zero or more of ${validRoles.map(role => `"${role}"`).join(", ")}, only when the transcript supports it
+
+Respond with a JSON object that contains a "stakeholders" array.`;
+
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-5", // newest OpenAI model released August 7, 2025. do not change this unless explicitly requested by the user
+    const response = await completeChat({
+      task: "stakeholders",
       messages: [
-        { role: "system", content: systemMessage + "\n\nRespond with valid JSON only." },
-        { role: "user", content: `${prompt}\n\nTranscript:\n${transcript}` }
+        { role: "system", content: systemMessage },
+        { role: "user", content: `Transcript:\n${transcript}` }
       ],
-      response_format: { type: "json_object" }
+      json: true
     });
 
-    let result;
-    try {
-      result = JSON.parse(response.choices[0].message.content || "{}");
-    } catch (parseError) {
-      console.warn("Failed to parse framework notes response as JSON, using fallback", parseError);
-      return createFrameworkNotesFallback(framework, parseError);
-    }
-    
-    return result;
+    const result = JSON.parse(response.content || "{}");
+    const stakeholders: any[] = Array.isArray(result.stakeholders) ? result.stakeholders : [];
+
+    return stakeholders
+      .filter(person => typeof person?.name === 'string' && person.name.trim() !== '')
+      .map(person => ({
+        name: person.name.trim(),
+        title: person.title || undefined,
+        company: person.company || undefined,
+        roles: (Array.isArray(person.roles) ? person.roles : [])
+          .filter((role: string): role is ContactRole => validRoles.includes(role as ContactRole)),
+      }));
   } catch (error) {
-    console.error("Error generating framework notes:", error);
-    return createFrameworkNotesFallback(framework, error);
+    console.error("Error extracting stakeholders, using speaker lines:", error);
+    return createStakeholdersFallback(transcript);
   }
 }
 
@@ -299,11 +358,9 @@ export async function generateNextBestActions(input: {
   frameworkNotes?: any[];
   companyResearch?: any;
   accountName: string;
-  userTimeZone: string;
-  accountTimeZone?: string;
   lob: "LTS" | "LSS";
 }): Promise<any[]> {
-  const { transcript, frameworkNotes, companyResearch, accountName, userTimeZone, lob } = input;
+  const { transcript, frameworkNotes, companyResearch, accountName, lob } = input;
 
   const systemMessage = SENA_PROMPTS.nextBestActions(lob) + ` Generate 3-7 prioritized Next Best Actions (NBAs) for an SDR working with ${accountName}.
 
@@ -314,8 +371,13 @@ For each NBA, provide:
 - description: Brief description of the action
 - evidence: Why this matters (evidence from sources)
 - priority: High, Medium, or Low
-- dueDate: ISO 8601 timestamp with timezone offset for ${userTimeZone}
+- dueInBusinessDays: Working days from today until it is due: 0 for today, 1 for the next working day. The rep's calendar sets the exact date and time.
 - source: Reference to transcript/notes/research
+- key: Short unique id for this NBA, e.g. "nba1"
+- dependsOn: Keys of the NBAs that must be completed before this one can start (omit when there are none)
+- parent: Key of the NBA this is a subtask of (omit for top-level NBAs)
+
+Sequence the NBAs: when an action only makes sense after another (e.g. send the proposal after confirming the economic buyer), list the earlier action in dependsOn and give it fewer dueInBusinessDays than the later one. Split an action with distinct steps into subtasks that name it as parent. Subtasks cannot have subtasks of their own.
 
 Focus on the SDR workflow and ${lob} sales process. Prioritize based on sales stage and opportunity signals.
 
@@ -329,8 +391,19 @@ Example format:
       "description": "Action description", 
       "evidence": "Supporting evidence",
       "priority": "High",
-      "dueDate": "2025-09-16T12:00:00-07:00",
-      "source": "Meeting Transcript"
+      "dueInBusinessDays": 1,
+      "source": "Meeting Transcript",
+      "key": "nba1"
+    },
+    {
+      "title": "Follow-up action title",
+      "description": "Action that can only start once nba1 is done",
+      "evidence": "Supporting evidence",
+      "priority": "Medium",
+      "dueInBusinessDays": 3,
+      "source": "Framework Notes",
+      "key": "nba2",
+      "dependsOn": ["nba1"]
     }
   ]
 }`;
@@ -339,23 +412,22 @@ Example format:
     transcript: transcript || "No transcript provided",
     frameworkNotes: frameworkNotes || [],
     companyResearch: companyResearch || "No company research available",
-    lob,
-    userTimeZone
+    lob
   };
 
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-5", // newest OpenAI model released August 7, 2025. do not change this unless explicitly requested by the user
+    const response = await completeChat({
+      task: "next_best_actions",
       messages: [
         { role: "system", content: systemMessage },
         { role: "user", content: `Generate NBAs based on this context:\n\n${JSON.stringify(contextData, null, 2)}` }
       ],
-      response_format: { type: "json_object" }
+      json: true
     });
 
     let result;
     try {
-      result = JSON.parse(response.choices[0].message.content || "{}");
+      result = JSON.parse(response.content || "{}");
     } catch (parseError) {
       console.warn("Failed to parse NBAs response as JSON, using fallback", parseError);
       return createNBAsFallback(parseError);
@@ -370,11 +442,12 @@ Example format:
 
 export async function generateCoachingGuidance(input: {
   transcript: string;
+  citeTurns?: boolean; // Transcript lines are numbered "T1", "T2", ... and can be cited
   frameworks: string[];
   frameworkNotes: any[];
   lob: "LTS" | "LSS";
 }): Promise<string> {
-  const { transcript, frameworks, frameworkNotes, lob } = input;
+  const { transcript, citeTurns, frameworks, frameworkNotes, lob } = input;
 
   const systemMessage = SENA_PROMPTS.general() + `
 
@@ -385,11 +458,13 @@ Analyze the sales call transcript and framework notes to provide constructive, a
 - Next steps and follow-up
 - ${lob}-specific best practices
 
-Provide specific examples from the transcript with timestamps when possible. Be constructive and actionable.`;
+Provide specific examples from the transcript with timestamps when possible. Be constructive and actionable.${citeTurns ? `
+
+Each transcript turn is numbered (T1, T2, ...). Cite the turns an example comes from in square brackets, e.g. [T12] or [T12, T15].` : ''}`;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-5", // newest OpenAI model released August 7, 2025. do not change this unless explicitly requested by the user
+    const response = await completeChat({
+      task: "coaching",
       messages: [
         { role: "system", content: systemMessage },
         { 
@@ -407,18 +482,18 @@ ${JSON.stringify(frameworkNotes, null, 2)}`
       ],
     });
 
-    return response.choices[0].message.content || "";
+    return response.content || "";
   } catch (error) {
     console.error("Error generating coaching guidance:", error);
     
     // Check error type and provide appropriate fallback
-    const isMissingKey = !process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY === "default_key";
+    const isMissingKey = error instanceof LLMNotConfiguredError;
     const isQuotaError = error instanceof Error && (error as any)?.code === 'insufficient_quota';
     const isRateLimit = error instanceof Error && (error as any)?.status === 429 && (error as any)?.code !== 'insufficient_quota';
     
     let errorMessage: string;
     if (isMissingKey) {
-      errorMessage = "OpenAI API key not configured. Please add your OPENAI_API_KEY environment variable to enable AI-powered coaching guidance.";
+      errorMessage = "AI provider not configured. Please set OPENAI_API_KEY or LLM_PROVIDER to enable AI-powered coaching guidance.";
     } else if (isQuotaError) {
       errorMessage = "OpenAI API quota exceeded. Please check your OpenAI billing and upgrade your plan at https://platform.openai.com/account/billing to enable AI-powered coaching guidance.";
     } else if (isRateLimit) {
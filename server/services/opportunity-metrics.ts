@@ -0,0 +1,145 @@
+import {
+  STAGE_PROBABILITIES,
+  type Opportunity,
+  type OpportunityStage,
+  type OpportunityStageHistory,
+} from "@shared/schema";
+
+export interface OpportunityMetrics {
+  openCount: number;
+  currency: string;
+  pipelineValue: number; // Sum of open amounts in the primary currency
+  weightedForecast: number; // Open amounts x stage probability in the primary currency
+  wonValue: number;
+  byCurrency: Record<string, { pipelineValue: number; weightedForecast: number; wonValue: number }>;
+  stageVelocity: Partial<Record<OpportunityStage, number>>; // Average days spent in each stage
+  averageDaysPerStage: number | null;
+  averageDaysInCurrentStage: number | null;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export function isOpenStage(stage: OpportunityStage): boolean {
+  return stage !== 'Closed Won' && stage !== 'Closed Lost';
+}
+
+export function getWinProbability(opportunity: Pick<Opportunity, 'stage' | 'probability'>): number {
+  if (opportunity.probability !== null && opportunity.probability !== undefined) {
+    return opportunity.probability / 100;
+  }
+  return STAGE_PROBABILITIES[opportunity.stage];
+}
+
+export function summarizeOpportunities(
+  opportunities: Opportunity[],
+  history: OpportunityStageHistory[],
+  now: Date = new Date()
+): OpportunityMetrics {
+  const byCurrency: OpportunityMetrics['byCurrency'] = {};
+
+  for (const opportunity of opportunities) {
+    const amount = Number(opportunity.amount) || 0;
+    const totals = byCurrency[opportunity.currency] ||= { pipelineValue: 0, weightedForecast: 0, wonValue: 0 };
+
+    if (isOpenStage(opportunity.stage)) {
+      totals.pipelineValue += amount;
+      totals.weightedForecast += amount * getWinProbability(opportunity);
+    } else if (opportunity.stage === 'Closed Won') {
+      totals.wonValue += amount;
+    }
+  }
+
+  // Report headline numbers in whichever currency carries the most open pipeline
+  const currency = Object.entries(byCurrency)
+    .sort(([, a], [, b]) => b.pipelineValue - a.pipelineValue)[0]?.[0] || 'USD';
+  const primary = byCurrency[currency] || { pipelineValue: 0, weightedForecast: 0, wonValue: 0 };
+
+  const { stageVelocity, averageDaysPerStage } = calculateStageVelocity(history);
+  const averageDaysInCurrentStage = calculateDaysInCurrentStage(opportunities, history, now);
+
+  return {
+    openCount: opportunities.filter(opportunity => isOpenStage(opportunity.stage)).length,
+    currency,
+    pipelineValue: primary.pipelineValue,
+    weightedForecast: Math.round(primary.weightedForecast),
+    wonValue: primary.wonValue,
+    byCurrency,
+    stageVelocity,
+    averageDaysPerStage,
+    averageDaysInCurrentStage,
+  };
+}
+
+function groupHistory(history: OpportunityStageHistory[]): Map<string, OpportunityStageHistory[]> {
+  const grouped = new Map<string, OpportunityStageHistory[]>();
+  for (const entry of history) {
+    const entries = grouped.get(entry.opportunityId) || [];
+    entries.push(entry);
+    grouped.set(entry.opportunityId, entries);
+  }
+  grouped.forEach(entries => entries.sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime()));
+  return grouped;
+}
+
+function calculateStageVelocity(history: OpportunityStageHistory[]) {
+  const durations: Partial<Record<OpportunityStage, number[]>> = {};
+
+  groupHistory(history).forEach(entries => {
+    // Each transition closes out the time spent in the previous stage
+    for (let i = 1; i < entries.length; i++) {
+      const stage = entries[i - 1].toStage;
+      const days = (entries[i].changedAt.getTime() - entries[i - 1].changedAt.getTime()) / DAY_MS;
+      (durations[stage] ||= []).push(days);
+    }
+  });
+
+  const stageVelocity: OpportunityMetrics['stageVelocity'] = {};
+  const allDurations: number[] = [];
+  for (const [stage, days] of Object.entries(durations) as Array<[OpportunityStage, number[]]>) {
+    stageVelocity[stage] = roundDays(average(days));
+    allDurations.push(...days);
+  }
+
+  return {
+    stageVelocity,
+    averageDaysPerStage: allDurations.length > 0 ? roundDays(average(allDurations)) : null,
+  };
+}
+
+function calculateDaysInCurrentStage(
+  opportunities: Opportunity[],
+  history: OpportunityStageHistory[],
+  now: Date
+): number | null {
+  const grouped = groupHistory(history);
+  const days = opportunities
+    .filter(opportunity => isOpenStage(opportunity.stage))
+    .map(opportunity => {
+      const entries = grouped.get(opportunity.id);
+      const enteredAt = entries?.[entries.length - 1]?.changedAt || opportunity.createdAt || now;
+      return (now.getTime() - enteredAt.getTime()) / DAY_MS;
+    });
+
+  return days.length > 0 ? roundDays(average(days)) : null;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function roundDays(days: number): number {
+  return Math.round(days * 10) / 10;
+}
+
+export function formatCompactCurrency(value: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(value);
+  } catch (error) {
+    return `${currency} ${(value / 1000000).toFixed(1)}M`;
+  }
+}
@@ -1,9 +1,15 @@
-import OpenAI from 'openai';
 import { storage } from "../storage.js";
-
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "default_key"
-});
+import { completeChat } from "./llm";
+import type { AccountFrameworkRecord, Contact, FrameworkNotes } from "@shared/schema";
+import {
+  FRAMEWORK_FIELDS,
+  FRAMEWORK_NAMES,
+  isFrameworkFieldKnown,
+  normalizeFrameworkNotes,
+  type FrameworkName,
+  type FrameworkNotesContent
+} from "@shared/frameworks";
+import { summarizeOpportunities, type OpportunityMetrics } from "./opportunity-metrics";
 
 export interface PipelineHealthScore {
   accountId: string;
@@ -23,17 +29,19 @@ export interface PipelineHealthScore {
     decisionCriteria: boolean;
     paperProcess: boolean;
   };
+  opportunities: Pick<OpportunityMetrics,
+    'openCount' | 'currency' | 'pipelineValue' | 'weightedForecast' | 'averageDaysPerStage' | 'averageDaysInCurrentStage'>;
   lastUpdatedAt: Date;
 }
 
-// Framework field definitions for coverage calculation
-const FRAMEWORK_FIELDS = {
-  'MEDDPICC': ['Metrics', 'Economic Buyer', 'Decision Criteria', 'Decision Process', 'Paper Process', 'Identified Pain', 'Champion', 'Competition'],
-  'VEF': ['Customer\'s Pressures', 'Customer\'s Objectives', 'Customer\'s Challenges', 'LinkedIn\'s Solutions', 'LinkedIn\'s Experience', 'LinkedIn\'s Unique Value'],
-  'BANT': ['Budget', 'Authority', 'Need', 'Timeline'],
-  'Qual-LTS': ['Overall Impression of Opportunity', 'First Impressions of POC/Lead', 'General Company Info', 'Nº of Employees', 'Knowledge about LinkedIn'],
-  'Qual-LSS': ['Date', 'Account Name', 'Attendees', 'Sales Org Structure', 'Ideal Buyer personas', 'Total Addressable Market', 'CRM', 'Other Sales Systems & Tools', 'Sales Process', 'Average Deal Size', 'Average Sales Cycle', 'Sales Navigator Use Cases']
-} as const;
+const EMPTY_OPPORTUNITY_METRICS: PipelineHealthScore['opportunities'] = {
+  openCount: 0,
+  currency: 'USD',
+  pipelineValue: 0,
+  weightedForecast: 0,
+  averageDaysPerStage: null,
+  averageDaysInCurrentStage: null
+};
 
 const FRAMEWORK_WEIGHTS = {
   'MEDDPICC': 0.4,
@@ -48,14 +56,26 @@ export async function calculatePipelineHealth(accountId: string): Promise<Pipeli
     // Get all framework notes for the account
     const frameworkNotes = await storage.getFrameworkNotesByAccount(accountId);
     
+    // Get the running record merged across calls for each framework
+    const frameworkRecords = await storage.getAccountFrameworkRecords(accountId);
+    const frameworkContent = currentFrameworkContent(frameworkNotes, frameworkRecords);
+    
     // Get all transcripts for the account
     const transcripts = await storage.getTranscriptsByAccount(accountId);
     
     // Get all NBAs for the account
     const nbas = await storage.getNBAsByAccount(accountId);
     
+    // Get stakeholder contacts for the account
+    const contacts = await storage.getContactsByAccount(accountId);
+    
+    // Get opportunities and their stage history for the account
+    const opportunities = await storage.getOpportunities({ accountId });
+    const stageHistory = await storage.getOpportunityStageHistory(opportunities.map(opp => opp.id));
+    const opportunityMetrics = summarizeOpportunities(opportunities, stageHistory);
+    
     // Calculate framework coverage (50% weight)
-    const frameworkCoverage = calculateFrameworkCoverage(frameworkNotes);
+    const frameworkCoverage = calculateFrameworkCoverage(frameworkContent);
     
     // Calculate quality signal (30% weight)
     const qualitySignal = await calculateQualitySignal(transcripts, frameworkNotes);
@@ -81,7 +101,7 @@ export async function calculatePipelineHealth(accountId: string): Promise<Pipeli
     else label = 'At Risk';
     
     // Extract readiness flags
-    const readinessFlags = extractReadinessFlags(frameworkNotes);
+    const readinessFlags = extractReadinessFlags(frameworkContent, contacts);
     
     return {
       accountId,
@@ -94,6 +114,14 @@ export async function calculatePipelineHealth(accountId: string): Promise<Pipeli
         nbaProgress
       },
       readinessFlags,
+      opportunities: {
+        openCount: opportunityMetrics.openCount,
+        currency: opportunityMetrics.currency,
+        pipelineValue: opportunityMetrics.pipelineValue,
+        weightedForecast: opportunityMetrics.weightedForecast,
+        averageDaysPerStage: opportunityMetrics.averageDaysPerStage,
+        averageDaysInCurrentStage: opportunityMetrics.averageDaysInCurrentStage
+      },
       lastUpdatedAt: new Date()
     };
     
@@ -103,30 +131,36 @@ export async function calculatePipelineHealth(accountId: string): Promise<Pipeli
   }
 }
 
-function calculateFrameworkCoverage(frameworkNotes: any[]): number {
-  if (frameworkNotes.length === 0) return 0;
-  
+// What is known per framework: the account record merged across calls, or the most
+// recent notes for accounts whose calls predate the record
+export function currentFrameworkContent(
+  frameworkNotes: FrameworkNotes[],
+  frameworkRecords: AccountFrameworkRecord[]
+): Partial<Record<FrameworkName, FrameworkNotesContent>> {
+  const content: Partial<Record<FrameworkName, FrameworkNotesContent>> = {};
+  for (const framework of FRAMEWORK_NAMES) {
+    const record = frameworkRecords.find(item => item.framework === framework);
+    if (record && Object.keys(record.content).length > 0) {
+      content[framework] = normalizeFrameworkNotes(framework, record.content);
+      continue;
+    }
+    // Notes are returned newest first
+    const notes = frameworkNotes.find(note => note.framework === framework);
+    if (notes) content[framework] = normalizeFrameworkNotes(framework, notes.content);
+  }
+  return content;
+}
+
+function calculateFrameworkCoverage(frameworkContent: Partial<Record<FrameworkName, FrameworkNotesContent>>): number {
   let totalWeightedScore = 0;
   let totalWeight = 0;
   
   for (const [framework, weight] of Object.entries(FRAMEWORK_WEIGHTS)) {
-    const notes = frameworkNotes.find(note => note.framework === framework);
-    if (!notes) continue;
+    const content = frameworkContent[framework as FrameworkName];
+    if (!content) continue;
     
-    const fields = FRAMEWORK_FIELDS[framework as keyof typeof FRAMEWORK_FIELDS];
-    const content = notes.content;
-    
-    let knownFields = 0;
-    for (const field of fields) {
-      const fieldValue = content[field];
-      if (fieldValue && 
-          typeof fieldValue === 'string' && 
-          fieldValue.trim() !== '' && 
-          !fieldValue.includes('Unknown (not mentioned)') &&
-          !fieldValue.includes('Not mentioned')) {
-        knownFields++;
-      }
-    }
+    const fields = FRAMEWORK_FIELDS[framework as FrameworkName];
+    const knownFields = fields.filter(field => isFrameworkFieldKnown(content[field.key])).length;
     
     const coverageScore = knownFields / fields.length;
     totalWeightedScore += coverageScore * weight;
@@ -177,14 +211,14 @@ Return ONLY a JSON object with this exact format:
   }
 }`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-5-mini",
+    const response = await completeChat({
+      task: "pipeline_quality",
       messages: [{ role: "user", content: prompt }],
-      response_format: { type: "json_object" },
-      max_completion_tokens: 500
+      json: true,
+      maxTokens: 500
     });
     
-    const result = JSON.parse(response.choices[0].message.content || '{"qualityScore": 0}');
+    const result = JSON.parse(response.content || '{"qualityScore": 0}');
     return Math.max(0, Math.min(1, result.qualityScore || 0));
     
   } catch (error) {
@@ -248,13 +282,20 @@ function calculateNBAProgress(nbas: any[]): number {
   return completedNBAs / recentNBAs.length;
 }
 
-function extractReadinessFlags(frameworkNotes: any[]): PipelineHealthScore['readinessFlags'] {
-  const meddpiccNotes = frameworkNotes.find(note => note.framework === 'MEDDPICC');
+function extractReadinessFlags(
+  frameworkContent: Partial<Record<FrameworkName, FrameworkNotesContent>>,
+  contacts: Contact[]
+): PipelineHealthScore['readinessFlags'] {
+  const content = frameworkContent['MEDDPICC'];
   
-  if (!meddpiccNotes) {
+  // Stakeholder records take precedence over free-text notes
+  const hasEconomicBuyer = contacts.some(contact => contact.roles.includes('Economic Buyer'));
+  const hasChampion = contacts.some(contact => contact.roles.includes('Champion'));
+  
+  if (!content) {
     return {
-      economicBuyer: false,
-      champion: false,
+      economicBuyer: hasEconomicBuyer,
+      champion: hasChampion,
       painExplicit: false,
       decisionProcess: false,
       decisionCriteria: false,
@@ -262,26 +303,16 @@ function extractReadinessFlags(frameworkNotes: any[]): PipelineHealthScore['read
     };
   }
   
-  const content = meddpiccNotes.content;
-  
   return {
-    economicBuyer: isFieldComplete(content['Economic Buyer']),
-    champion: isFieldComplete(content['Champion']),
-    painExplicit: isFieldComplete(content['Identified Pain']),
-    decisionProcess: isFieldComplete(content['Decision Process']),
-    decisionCriteria: isFieldComplete(content['Decision Criteria']),
-    paperProcess: isFieldComplete(content['Paper Process'])
+    economicBuyer: hasEconomicBuyer || isFrameworkFieldKnown(content.economicBuyer),
+    champion: hasChampion || isFrameworkFieldKnown(content.champion),
+    painExplicit: isFrameworkFieldKnown(content.identifiedPain),
+    decisionProcess: isFrameworkFieldKnown(content.decisionProcess),
+    decisionCriteria: isFrameworkFieldKnown(content.decisionCriteria),
+    paperProcess: isFrameworkFieldKnown(content.paperProcess)
   };
 }
 
-function isFieldComplete(fieldValue: any): boolean {
-  return fieldValue && 
-         typeof fieldValue === 'string' && 
-         fieldValue.trim() !== '' && 
-         !fieldValue.includes('Unknown (not mentioned)') &&
-         !fieldValue.includes('Not mentioned');
-}
-
 export async function calculateBulkPipelineHealth(accountIds: string[]): Promise<PipelineHealthScore[]> {
   const results: PipelineHealthScore[] = [];
   
@@ -310,6 +341,7 @@ export async function calculateBulkPipelineHealth(accountIds: string[]): Promise
           decisionCriteria: false,
           paperProcess: false
         },
+        opportunities: EMPTY_OPPORTUNITY_METRICS,
         lastUpdatedAt: new Date()
       });
     }
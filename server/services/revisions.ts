@@ -0,0 +1,95 @@
+import { storage } from "../storage";
+import type {
+  Artifact,
+  ArtifactRevision,
+  FrameworkNoteRevision,
+  FrameworkNotes,
+  InsertArtifact,
+  InsertArtifactRevision,
+  InsertFrameworkNoteRevision,
+  RevisionSource,
+} from "@shared/schema";
+
+// Each revision is a full copy of the saved state, so any two can be compared and any
+// one restored without replaying edits
+
+export async function recordNotesRevision(
+  notes: FrameworkNotes,
+  source: RevisionSource,
+  changedBy: string | null,
+  restoredFrom: number | null = null
+): Promise<FrameworkNoteRevision> {
+  return await storage.createFrameworkNoteRevision({
+    notesId: notes.id,
+    content: notes.content as InsertFrameworkNoteRevision["content"],
+    evidence: notes.evidence,
+    source,
+    restoredFrom,
+    changedBy,
+  });
+}
+
+export async function recordArtifactRevision(
+  artifact: Artifact,
+  source: RevisionSource,
+  changedBy: string | null,
+  restoredFrom: number | null = null
+): Promise<ArtifactRevision> {
+  return await storage.createArtifactRevision({
+    artifactId: artifact.id,
+    title: artifact.title,
+    content: artifact.content as InsertArtifactRevision["content"],
+    summary: artifact.summary,
+    source,
+    restoredFrom,
+    changedBy,
+  });
+}
+
+// Notes saved before revisions were kept have no draft on file. Their state before
+// the first edit is recorded as the generated draft so the edit has something to
+// be compared with.
+export async function ensureNotesBaseline(notes: FrameworkNotes): Promise<void> {
+  const revisions = await storage.getFrameworkNoteRevisions(notes.id);
+  if (revisions.length === 0) {
+    await recordNotesRevision(notes, "ai", notes.createdBy);
+  }
+}
+
+// Artifacts are all generated output apart from ones saved by hand through the API,
+// which record their own first revision
+export async function ensureArtifactBaseline(artifact: Artifact): Promise<void> {
+  const revisions = await storage.getArtifactRevisions(artifact.id);
+  if (revisions.length === 0) {
+    await recordArtifactRevision(artifact, "ai", artifact.createdBy);
+  }
+}
+
+export async function restoreNotesRevision(
+  notes: FrameworkNotes,
+  revision: FrameworkNoteRevision,
+  userId: string
+): Promise<FrameworkNotes> {
+  await ensureNotesBaseline(notes);
+  const restored = await storage.updateFrameworkNotes(notes.id, {
+    content: revision.content,
+    evidence: revision.evidence,
+  });
+  await recordNotesRevision(restored, "restore", userId, revision.revision);
+  return restored;
+}
+
+export async function restoreArtifactRevision(
+  artifact: Artifact,
+  revision: ArtifactRevision,
+  userId: string
+): Promise<Artifact> {
+  await ensureArtifactBaseline(artifact);
+  const restored = await storage.updateArtifact(artifact.id, {
+    title: revision.title,
+    content: revision.content as InsertArtifact["content"],
+    summary: revision.summary,
+  });
+  await recordArtifactRevision(restored, "restore", userId, revision.revision);
+  return restored;
+}
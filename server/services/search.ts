@@ -0,0 +1,128 @@
+import { storage, HIGHLIGHT_START, HIGHLIGHT_END, type ContentSearchHit } from "../storage";
+import { getEmbeddingProvider, cosineSimilarity } from "./embeddings";
+import type { SearchResult, SearchSourceType } from "@shared/schema";
+
+export interface SearchRequest {
+  query: string;
+  accountIds?: string[]; // Undefined means unrestricted (admins)
+  types?: SearchSourceType[];
+  mode: "lexical" | "hybrid";
+  limit: number;
+}
+
+const LEXICAL_WEIGHT = 0.6;
+const SEMANTIC_WEIGHT = 0.4;
+const CANDIDATE_MULTIPLIER = 3;
+const MAX_CANDIDATES = 60;
+
+export async function searchContent(request: SearchRequest): Promise<SearchResult[]> {
+  const candidateLimit = request.mode === "hybrid"
+    ? Math.min(request.limit * CANDIDATE_MULTIPLIER, MAX_CANDIDATES)
+    : request.limit;
+
+  const hits = await storage.searchContent(request.query, {
+    accountIds: request.accountIds,
+    types: request.types,
+    limit: candidateLimit,
+  });
+  if (hits.length === 0) return [];
+
+  const scores = request.mode === "hybrid"
+    ? await scoreHybrid(request.query, hits)
+    : scoreLexical(hits);
+
+  const accounts = await storage.getAccountsByIds(Array.from(new Set(hits.map(hit => hit.accountId))));
+  const accountNames = new Map(accounts.map(account => [account.id, account.name]));
+
+  return hits
+    .map((hit, index) => ({ hit, score: scores[index] }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, request.limit)
+    .map(({ hit, score }) => {
+      const { snippet, highlights } = parseHeadline(hit.headline);
+      return {
+        type: hit.type,
+        id: hit.id,
+        accountId: hit.accountId,
+        accountName: accountNames.get(hit.accountId) || null,
+        title: hit.title,
+        snippet,
+        highlights,
+        score: Math.round(score * 1000) / 1000,
+        link: buildDeepLink(hit),
+        createdAt: hit.createdAt ? hit.createdAt.toISOString() : null,
+      };
+    });
+}
+
+// ts_rank is unbounded, so normalise against the best hit in this result set
+function scoreLexical(hits: ContentSearchHit[]): number[] {
+  const maxRank = Math.max(...hits.map(hit => hit.rank));
+  return hits.map(hit => (maxRank > 0 ? hit.rank / maxRank : 0));
+}
+
+async function scoreHybrid(query: string, hits: ContentSearchHit[]): Promise<number[]> {
+  const lexical = scoreLexical(hits);
+  const provider = getEmbeddingProvider();
+  if (!provider) return lexical;
+
+  try {
+    const [queryVector, ...documentVectors] = await provider.embed([
+      query,
+      ...hits.map(hit => `${hit.title} ${hit.excerpt}`),
+    ]);
+    return hits.map((_, index) => {
+      const similarity = Math.max(0, cosineSimilarity(queryVector, documentVectors[index]));
+      return LEXICAL_WEIGHT * lexical[index] + SEMANTIC_WEIGHT * similarity;
+    });
+  } catch (error) {
+    console.error("Error computing search embeddings:", error);
+    return lexical;
+  }
+}
+
+// Strips ts_headline markers and records where each highlighted span sits
+export function parseHeadline(headline: string): { snippet: string; highlights: Array<[number, number]> } {
+  const highlights: Array<[number, number]> = [];
+  let snippet = "";
+  let cursor = 0;
+
+  while (cursor < headline.length) {
+    const start = headline.indexOf(HIGHLIGHT_START, cursor);
+    if (start === -1) {
+      snippet += headline.slice(cursor);
+      break;
+    }
+    const end = headline.indexOf(HIGHLIGHT_END, start + HIGHLIGHT_START.length);
+    if (end === -1) {
+      snippet += headline.slice(cursor);
+      break;
+    }
+
+    snippet += headline.slice(cursor, start);
+    const term = headline.slice(start + HIGHLIGHT_START.length, end);
+    highlights.push([snippet.length, snippet.length + term.length]);
+    snippet += term;
+    cursor = end + HIGHLIGHT_END.length;
+  }
+
+  return { snippet, highlights };
+}
+
+function buildDeepLink(hit: ContentSearchHit): string {
+  const params = new URLSearchParams({ accountId: hit.accountId });
+  switch (hit.type) {
+    case "transcript":
+      params.set("transcriptId", hit.id);
+      return `/playbook?${params}`;
+    case "framework_note":
+      if (hit.transcriptId) params.set("transcriptId", hit.transcriptId);
+      params.set("notesId", hit.id);
+      return `/playbook?${params}`;
+    case "artifact":
+      return `/artifacts?${new URLSearchParams({ highlight: hit.id })}`;
+    case "research":
+      params.set("researchId", hit.id);
+      return `/research?${params}`;
+  }
+}
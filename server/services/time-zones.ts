@@ -0,0 +1,91 @@
+// Wall-clock arithmetic in IANA time zones using Intl, which already knows the
+// offsets and daylight-saving rules
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Unknown or missing zones fall back to UTC rather than failing the caller
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : "UTC";
+}
+
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function zoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+// The instant a wall-clock time occurs in the zone. Out-of-range fields roll over
+// (day 32 is the 1st of the next month). A wall time skipped when clocks go forward
+// comes out an hour early.
+export function zonedTimeToUtc(
+  wallTime: { year: number; month: number; day: number; hour?: number; minute?: number; second?: number },
+  timeZone: string
+): Date {
+  const asUtc = Date.UTC(
+    wallTime.year,
+    wallTime.month - 1,
+    wallTime.day,
+    wallTime.hour ?? 0,
+    wallTime.minute ?? 0,
+    wallTime.second ?? 0
+  );
+  const firstGuess = asUtc - zoneOffsetMs(new Date(asUtc), timeZone);
+  // The offset at the first guess can differ when a daylight-saving change falls between
+  return new Date(asUtc - zoneOffsetMs(new Date(firstGuess), timeZone));
+}
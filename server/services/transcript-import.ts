@@ -0,0 +1,373 @@
+import { inflateRawSync } from "zlib";
+import type { TranscriptFormat, TranscriptTurn } from "@shared/schema";
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  turns: TranscriptTurn[];
+}
+
+export const UNKNOWN_SPEAKER = "Unknown";
+
+// "Jane Doe (VP Sales): text" – at most three capitalised words (or numbers, as in
+// "Speaker 2") and no sentence punctuation, so prose such as "Hi Jane. Our budget: 50k"
+// or "Note to self: ..." is not taken for a speaker
+const SPEAKER_NAME = String.raw`[A-Z][\w'’-]*(?: (?:[A-Z][\w'’-]*|\d+)){0,2}`;
+const SPEAKER_PREFIX = new RegExp(String.raw`^(${SPEAKER_NAME})(?:\s*\(([^)]{1,60})\))?\s*:\s+(.+)$`);
+// Capitalised labels that open a line of prose rather than name a speaker
+const PROSE_LABELS = new Set(["re", "fw", "fwd", "note", "nb", "ps", "fyi", "subject", "summary", "agenda", "update", "reminder", "todo", "example"]);
+// A .docx's document.xml is rarely more than a few MB; refuse archives claiming more
+const MAX_ZIP_ENTRY_BYTES = 50 * 1024 * 1024;
+const TIMESTAMP = String.raw`(?:\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?`;
+const CUE_TIMING = new RegExp(String.raw`^(${TIMESTAMP})\s*-->\s*(${TIMESTAMP})`);
+// "[00:01:02] Jane: text" or "00:01:02 Jane: text"
+const TIMED_LINE = new RegExp(String.raw`^\[?(${TIMESTAMP})\]?\s+(.+)$`);
+// A speaker and time on a line of their own, with the words on the following lines:
+// "Jane Doe   0:03", "[Jane Doe] 10:00:01", "0:03 | Jane Doe"
+const HEADER_NAME_FIRST = new RegExp(String.raw`^\[?([A-Za-z][\w.'’ ()-]{0,60}?)\]?\s+\[?(${TIMESTAMP})\]?$`);
+const HEADER_TIME_FIRST = new RegExp(String.raw`^\[?(${TIMESTAMP})\]?\s*[|-]?\s*([A-Za-z][\w.'’ ()-]{0,60})$`);
+
+// "01:02:03.500", "01:02,5", "1:02" → milliseconds
+export function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, hours = "0", minutes, seconds, fraction = "0"] = match;
+  return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Number(fraction.padEnd(3, "0"));
+}
+
+export function formatTimestamp(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+function splitSpeaker(line: string): { speaker: string; role: string | null; text: string } | null {
+  const match = line.match(SPEAKER_PREFIX);
+  if (!match || PROSE_LABELS.has(match[1].toLowerCase())) return null;
+  return { speaker: match[1].trim(), role: match[2]?.trim() || null, text: match[3].trim() };
+}
+
+// Joins consecutive turns by the same speaker, as captions split sentences into cues
+export function mergeConsecutiveTurns(turns: TranscriptTurn[]): TranscriptTurn[] {
+  const merged: TranscriptTurn[] = [];
+  for (const turn of turns) {
+    const text = turn.text.trim();
+    if (!text) continue;
+    const previous = merged[merged.length - 1];
+    if (previous && previous.speaker === turn.speaker && (previous.role === turn.role || !turn.role)) {
+      previous.text += ` ${text}`;
+      previous.endMs = turn.endMs ?? previous.endMs;
+    } else {
+      merged.push({ ...turn, text });
+    }
+  }
+  return merged;
+}
+
+// WebVTT and SRT: cues with a timing line, speakers from <v Name> voice tags or a
+// "Name:" prefix. A cue without a speaker continues the previous one's speaker.
+export function parseCaptions(content: string): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+  let speaker = UNKNOWN_SPEAKER;
+  let role: string | null = null;
+
+  for (const block of content.replace(/\r/g, "").split(/\n{2,}/)) {
+    const lines = block.split("\n").map(line => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex === -1) continue; // Header, NOTE and STYLE blocks
+
+    const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+    let text = lines.slice(timingIndex + 1).join(" ");
+    const voice = text.match(/<v(?:\.[\w.]+)?\s+([^>]+)>/);
+    if (voice) {
+      speaker = voice[1].trim();
+      role = null;
+    }
+    text = text.replace(/<[^>]+>/g, "").trim();
+    // A voice tag already names the speaker; a colon in the words is just punctuation
+    const prefixed = voice ? null : splitSpeaker(text);
+    if (prefixed) {
+      ({ speaker, role, text } = prefixed);
+    }
+
+    turns.push({ speaker, role, startMs: parseTimestamp(start), endMs: parseTimestamp(end), text });
+  }
+  return mergeConsecutiveTurns(turns);
+}
+
+// Plain-text exports and pasted transcripts. Recognises "Name (Role): text" lines,
+// optionally behind a timestamp, and speaker/time header lines followed by the words.
+// Lines without a speaker continue the current turn.
+export function parseTranscriptText(content: string): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+
+  for (const rawLine of content.replace(/\r/g, "").split("\n")) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const header = line.match(HEADER_TIME_FIRST) || line.match(HEADER_NAME_FIRST);
+    if (header) {
+      const timeFirst = HEADER_TIME_FIRST.test(line);
+      const name = (timeFirst ? header[2] : header[1]).trim();
+      const roleMatch = name.match(/^(.*?)\s*\(([^)]+)\)$/);
+      turns.push({
+        speaker: roleMatch ? roleMatch[1] : name,
+        role: roleMatch ? roleMatch[2] : null,
+        startMs: parseTimestamp(timeFirst ? header[1] : header[2]),
+        endMs: null,
+        text: "",
+      });
+      continue;
+    }
+
+    const timed = line.match(TIMED_LINE);
+    const startMs = timed ? parseTimestamp(timed[1]) : null;
+    const body = timed ? timed[2] : line;
+    const prefixed = splitSpeaker(body);
+    const current = turns[turns.length - 1];
+    if (prefixed) {
+      turns.push({ ...prefixed, startMs, endMs: null });
+    } else if (current) {
+      current.text += `${current.text ? " " : ""}${body}`;
+    } else {
+      turns.push({ speaker: UNKNOWN_SPEAKER, role: null, startMs, endMs: null, text: body });
+    }
+  }
+
+  // Each turn ends where the next one starts
+  for (let index = 0; index < turns.length - 1; index++) {
+    turns[index].endMs ??= turns[index + 1].startMs;
+  }
+  return mergeConsecutiveTurns(turns);
+}
+
+const SPEAKER_KEYS = ["speaker", "speakerName", "speaker_name", "speakerDisplayName", "displayName", "participant", "username", "name", "user", "author"];
+const TEXT_KEYS = ["text", "content", "transcript", "sentence", "utterance", "message"];
+const START_KEYS = ["startMs", "start_ms", "start", "startTime", "start_time", "startOffset", "offset", "begin", "ts", "timestamp"];
+const END_KEYS = ["endMs", "end_ms", "end", "endTime", "end_time", "endOffset"];
+const ROLE_KEYS = ["role", "title", "speakerTitle", "affiliation"];
+
+function pick(item: Record<string, any>, keys: string[]): any {
+  for (const key of keys) {
+    if (item[key] !== undefined && item[key] !== null && item[key] !== "") return item[key];
+  }
+  return undefined;
+}
+
+function nameOf(value: any): string | undefined {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (typeof value === "number") return `Speaker ${value}`;
+  if (value && typeof value === "object") return nameOf(pick(value, ["name", "displayName", "username", "email"]));
+  return undefined;
+}
+
+// Numeric offsets are seconds unless the key says milliseconds or the values are
+// too large to be seconds of a single call
+function timeReader(items: Record<string, any>[], keys: string[]) {
+  const values = items.map(item => pick(item, keys)).filter((value): value is number => typeof value === "number");
+  const keyIsMs = items.some(item => keys.some(key => /ms$/i.test(key) && typeof item[key] === "number"));
+  const looksLikeMs = keyIsMs || (values.every(Number.isInteger) && Math.max(0, ...values) > 36000);
+  return (item: Record<string, any>): number | null => {
+    const value = pick(item, keys);
+    if (typeof value === "number") return Math.round(looksLikeMs ? value : value * 1000);
+    if (typeof value === "string") return parseTimestamp(value.replace(/^PT|S$/g, "")) ?? (isNaN(Number(value)) ? null : Math.round(Number(value) * 1000));
+    return null;
+  };
+}
+
+// The first array of objects carrying text, searched breadth-first
+function findSegments(value: any): Record<string, any>[] | null {
+  const queue = [value];
+  while (queue.length > 0) {
+    const next = queue.shift();
+    if (Array.isArray(next)) {
+      if (next.some(item => item && typeof item === "object" && typeof pick(item, TEXT_KEYS) === "string")) return next;
+      queue.push(...next.filter(item => item && typeof item === "object"));
+    } else if (next && typeof next === "object") {
+      queue.push(...Object.values(next));
+    }
+  }
+  return null;
+}
+
+// Gong: callTranscripts[].transcript[] monologues of sentences, speakers by id, with
+// names in an optional parties list
+function parseGong(data: any): TranscriptTurn[] | null {
+  const calls = data?.callTranscripts;
+  const monologues = Array.isArray(calls) ? calls.flatMap((call: any) => call.transcript || []) : null;
+  if (!monologues || !monologues.some((item: any) => Array.isArray(item?.sentences))) return null;
+
+  const parties: any[] = data.parties || calls.flatMap((call: any) => call.parties || []);
+  const partyOf = (speakerId: string) => parties.find(party => party.speakerId === speakerId);
+  const speakerNumbers = new Map<string, number>();
+
+  return mergeConsecutiveTurns(monologues.map((monologue: any) => {
+    const party = partyOf(monologue.speakerId);
+    if (!party && !speakerNumbers.has(monologue.speakerId)) {
+      speakerNumbers.set(monologue.speakerId, speakerNumbers.size + 1);
+    }
+    const sentences: any[] = monologue.sentences || [];
+    return {
+      speaker: party?.name || `Speaker ${speakerNumbers.get(monologue.speakerId)}`,
+      role: party?.title || null,
+      startMs: typeof sentences[0]?.start === "number" ? sentences[0].start : null,
+      endMs: typeof sentences[sentences.length - 1]?.end === "number" ? sentences[sentences.length - 1].end : null,
+      text: sentences.map(sentence => sentence.text).join(" "),
+    };
+  }));
+}
+
+// Zoom, Teams and other recorder JSON exports: an array of segments with a speaker,
+// text and start/end offsets under any of the usual key names
+export function parseTranscriptJson(content: string): TranscriptTurn[] {
+  const data = JSON.parse(content);
+  const gong = parseGong(data);
+  if (gong) return gong;
+
+  const segments = findSegments(data);
+  if (!segments) {
+    throw new Error("No transcript segments found in JSON");
+  }
+  const startOf = timeReader(segments, START_KEYS);
+  const endOf = timeReader(segments, END_KEYS);
+
+  return mergeConsecutiveTurns(
+    segments
+      .filter(segment => typeof pick(segment, TEXT_KEYS) === "string")
+      .map(segment => {
+        const text = String(pick(segment, TEXT_KEYS));
+        const speaker = nameOf(pick(segment, SPEAKER_KEYS));
+        // Some exports keep the speaker in the text itself
+        const prefixed = speaker ? null : splitSpeaker(text);
+        return {
+          speaker: speaker || prefixed?.speaker || UNKNOWN_SPEAKER,
+          role: nameOf(pick(segment, ROLE_KEYS)) || prefixed?.role || null,
+          startMs: startOf(segment),
+          endMs: endOf(segment),
+          text: prefixed?.text || text,
+        };
+      })
+  );
+}
+
+// Reads one file out of a zip archive (a .docx is a zip of XML parts)
+function readZipEntry(buffer: Buffer, name: string): Buffer | null {
+  let directoryEnd = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 65557); offset--) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      directoryEnd = offset;
+      break;
+    }
+  }
+  if (directoryEnd === -1) return null;
+
+  const entryCount = buffer.readUInt16LE(directoryEnd + 10);
+  let offset = buffer.readUInt32LE(directoryEnd + 16);
+  for (let entry = 0; entry < entryCount && buffer.readUInt32LE(offset) === 0x02014b50; entry++) {
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeader = buffer.readUInt32LE(offset + 42);
+
+    if (buffer.toString("utf-8", offset + 46, offset + 46 + nameLength) === name) {
+      const dataStart = localHeader + 30 + buffer.readUInt16LE(localHeader + 26) + buffer.readUInt16LE(localHeader + 28);
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+      if (uncompressedSize > MAX_ZIP_ENTRY_BYTES) return null;
+      if (method === 0) return data;
+      if (method !== 8) return null;
+      // The declared size can lie, so inflating is capped as well
+      try {
+        return inflateRawSync(data, { maxOutputLength: MAX_ZIP_ENTRY_BYTES });
+      } catch {
+        return null;
+      }
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// Paragraph text from word/document.xml, one paragraph per line
+export function docxToText(buffer: Buffer): string {
+  const xml = readZipEntry(buffer, "word/document.xml");
+  if (!xml) {
+    throw new Error("Not a readable .docx file");
+  }
+  return xml
+    .toString("utf-8")
+    .split(/<\/w:p>/)
+    .map(paragraph => {
+      let text = "";
+      paragraph.replace(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\/>/g, (_, run, mark) => {
+        text += run !== undefined ? decodeXmlEntities(run) : mark === "tab" ? "\t" : "\n";
+        return "";
+      });
+      return text;
+    })
+    .join("\n");
+}
+
+function looksLikeJson(content: string): boolean {
+  if (!/^\s*[[{]/.test(content)) return false;
+  try {
+    JSON.parse(content);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function detectTranscriptFormat(filename: string, content: string): TranscriptFormat {
+  const extension = filename.toLowerCase().split(".").pop();
+  if (extension === "docx") return "docx";
+  if (extension === "vtt" || content.startsWith("WEBVTT")) return "vtt";
+  if (extension === "srt") return "srt";
+  if (extension === "json" || (extension !== "txt" && looksLikeJson(content))) return "json";
+  // Caption text saved with the wrong extension
+  if (content.split("\n").some(line => CUE_TIMING.test(line.trim()))) return "srt";
+  return "txt";
+}
+
+export function parseTranscriptFile(file: { buffer: Buffer; filename: string }): ParsedTranscript {
+  const isDocx = file.filename.toLowerCase().endsWith(".docx");
+  const content = isDocx ? "" : file.buffer.toString("utf-8").replace(/^﻿/, "");
+  const format = detectTranscriptFormat(file.filename, content);
+
+  switch (format) {
+    case "docx":
+      return { format, turns: parseTranscriptText(docxToText(file.buffer)) };
+    case "vtt":
+    case "srt":
+      return { format, turns: parseCaptions(content) };
+    case "json":
+      return { format, turns: parseTranscriptJson(content) };
+    default:
+      return { format, turns: parseTranscriptText(content) };
+  }
+}
+
+// The plain-text form stored as the transcript content and sent to the models
+export function formatTurns(turns: TranscriptTurn[]): string {
+  return turns
+    .map(turn => {
+      const time = turn.startMs !== null ? `[${formatTimestamp(turn.startMs)}] ` : "";
+      const role = turn.role ? ` (${turn.role})` : "";
+      return `${time}${turn.speaker}${role}: ${turn.text}`;
+    })
+    .join("\n\n");
+}
@@ -0,0 +1,122 @@
+import type { FrameworkEvidence } from "@shared/frameworks";
+import type { RelabelSpeakerRequest, Transcript, TranscriptTurn } from "@shared/schema";
+import { formatTimestamp, parseTranscriptText, UNKNOWN_SPEAKER } from "./transcript-import";
+
+// Speaking pace used to estimate talk time for turns without timestamps
+const MS_PER_WORD = 400;
+
+export interface SpeakerStats {
+  speaker: string;
+  role: string | null;
+  turnCount: number;
+  wordCount: number;
+  talkTimeMs: number;
+  share: number; // Fraction of total talk time, 0-1
+}
+
+export interface TranscriptSpeakers {
+  turns: TranscriptTurn[];
+  speakers: SpeakerStats[];
+  timed: boolean; // False when talk time was estimated from word counts
+}
+
+// Transcripts saved before turns were stored are parsed from their text on demand
+export function getTranscriptTurns(transcript: Transcript): TranscriptTurn[] {
+  return transcript.turns ?? parseTranscriptText(transcript.content);
+}
+
+export function countSpeakers(turns: TranscriptTurn[]): number {
+  return new Set(turns.map(turn => turn.speaker).filter(speaker => speaker !== UNKNOWN_SPEAKER)).size;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// A turn lasts until its end time, else until the next turn starts, else for as long as
+// its words take to say
+function turnDuration(turns: TranscriptTurn[], index: number): number {
+  const turn = turns[index];
+  if (turn.startMs !== null) {
+    if (turn.endMs !== null && turn.endMs >= turn.startMs) return turn.endMs - turn.startMs;
+    const next = turns[index + 1];
+    if (next?.startMs != null && next.startMs >= turn.startMs) return next.startMs - turn.startMs;
+  }
+  return countWords(turn.text) * MS_PER_WORD;
+}
+
+export function computeSpeakerStats(turns: TranscriptTurn[]): TranscriptSpeakers {
+  const bySpeaker = new Map<string, SpeakerStats>();
+  for (let index = 0; index < turns.length; index++) {
+    const turn = turns[index];
+    const stats = bySpeaker.get(turn.speaker) ?? {
+      speaker: turn.speaker,
+      role: null,
+      turnCount: 0,
+      wordCount: 0,
+      talkTimeMs: 0,
+      share: 0,
+    };
+    stats.role = stats.role ?? turn.role;
+    stats.turnCount += 1;
+    stats.wordCount += countWords(turn.text);
+    stats.talkTimeMs += turnDuration(turns, index);
+    bySpeaker.set(turn.speaker, stats);
+  }
+
+  const speakers = Array.from(bySpeaker.values());
+  const total = speakers.reduce((sum, stats) => sum + stats.talkTimeMs, 0);
+  for (const stats of speakers) {
+    stats.share = total > 0 ? stats.talkTimeMs / total : 0;
+  }
+
+  return {
+    turns,
+    speakers: speakers.sort((a, b) => b.talkTimeMs - a.talkTimeMs),
+    timed: turns.length > 0 && turns.every(turn => turn.startMs !== null),
+  };
+}
+
+// Renames a speaker across every turn. Naming another speaker merges the two, and
+// the merged turns take that speaker's role unless a role is given.
+export function relabelSpeaker(turns: TranscriptTurn[], request: RelabelSpeakerRequest): TranscriptTurn[] {
+  const existing = request.name !== request.speaker
+    ? turns.find(turn => turn.speaker === request.name)
+    : undefined;
+  const role = request.role !== undefined ? request.role || null : existing?.role;
+
+  return turns.map(turn => {
+    const relabelled = turn.speaker === request.speaker || (existing && turn.speaker === request.name);
+    if (!relabelled) return turn;
+    return { ...turn, speaker: request.name, role: role === undefined ? turn.role : role };
+  });
+}
+
+// Keeps evidence speakers in step with relabelled turns. Legacy evidence without a turn
+// is matched on the old speaker name.
+export function relabelEvidence(
+  evidence: FrameworkEvidence,
+  turns: TranscriptTurn[],
+  request: RelabelSpeakerRequest
+): FrameworkEvidence {
+  const updated: FrameworkEvidence = {};
+  for (const [key, quotes] of Object.entries(evidence)) {
+    updated[key] = quotes.map(quote => {
+      const turn = quote.turnIndex != null ? turns[quote.turnIndex] : undefined;
+      if (turn) return { ...quote, speaker: turn.speaker };
+      return quote.speaker === request.speaker ? { ...quote, speaker: request.name } : quote;
+    });
+  }
+  return updated;
+}
+
+// "T12 [3:04] Jane Doe (CFO): ..." so the model can cite turns by number
+export function formatNumberedTurns(turns: TranscriptTurn[]): string {
+  return turns
+    .map((turn, index) => {
+      const time = turn.startMs !== null ? ` [${formatTimestamp(turn.startMs)}]` : "";
+      const role = turn.role ? ` (${turn.role})` : "";
+      return `T${index + 1}${time} ${turn.speaker}${role}: ${turn.text}`;
+    })
+    .join("\n\n");
+}
@@ -0,0 +1,173 @@
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import type { TranscriptTurn } from "@shared/schema";
+import { mergeConsecutiveTurns } from "./transcript-import";
+
+const execFileAsync = promisify(execFile);
+
+// whisper.cpp runs at a few times real time on CPU; long calls need room
+const WHISPER_TIMEOUT_MS = 60 * 60 * 1000;
+const FFMPEG_TIMEOUT_MS = 10 * 60 * 1000;
+
+export const AUDIO_EXTENSIONS = [".wav", ".mp3", ".m4a"];
+
+// One recognised stretch of speech; times are milliseconds from the start
+export interface TranscriptionSegment {
+  startMs: number;
+  endMs: number;
+  text: string;
+  speaker?: string; // Label from a backend that separates speakers itself
+  speakerTurnNext?: boolean; // The backend detected a change of speaker after this segment
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  transcribe(audio: { path: string; filename: string }): Promise<TranscriptionSegment[]>;
+}
+
+export class TranscriptionNotConfiguredError extends Error {
+  constructor(message = "Audio transcription is not configured. Set TRANSCRIPTION_PROVIDER to enable it.") {
+    super(message);
+    this.name = "TranscriptionNotConfiguredError";
+  }
+}
+
+// whisper.cpp's -oj output; speaker fields only appear with -tdrz or --diarize
+interface WhisperCppOutput {
+  transcription?: Array<{
+    offsets: { from: number; to: number };
+    text: string;
+    speaker?: string;
+    speaker_turn_next?: boolean;
+  }>;
+}
+
+export function parseWhisperCppOutput(output: WhisperCppOutput): TranscriptionSegment[] {
+  return (output.transcription || [])
+    .map(segment => ({
+      startMs: segment.offsets.from,
+      endMs: segment.offsets.to,
+      text: segment.text.replace(/\[SPEAKER_TURN\]/g, "").trim(),
+      speaker: segment.speaker && segment.speaker !== "?" ? segment.speaker : undefined,
+      speakerTurnNext: segment.speaker_turn_next || undefined,
+    }))
+    .filter(segment => segment.text && !/^\[(BLANK_AUDIO|MUSIC|NOISE)\]$/i.test(segment.text));
+}
+
+// Runs the whisper.cpp CLI locally. Audio is first converted with ffmpeg to the 16 kHz
+// mono WAV whisper.cpp expects. With a tinydiarize model, WHISPER_CPP_DIARIZE=tdrz marks
+// speaker changes; "stereo" separates speakers recorded on different channels.
+export function createWhisperCppProvider(options: {
+  binary: string;
+  model: string;
+  ffmpeg: string;
+  threads?: number;
+  diarize?: string;
+}): TranscriptionProvider {
+  return {
+    name: "whisper-cpp",
+    async transcribe(audio) {
+      const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "whisper-"));
+      try {
+        const wavPath = path.join(workDir, "audio.wav");
+        const stereo = options.diarize === "stereo";
+        await execFileAsync(
+          options.ffmpeg,
+          ["-nostdin", "-y", "-i", audio.path, "-ar", "16000", "-ac", stereo ? "2" : "1", "-c:a", "pcm_s16le", wavPath],
+          { timeout: FFMPEG_TIMEOUT_MS }
+        );
+
+        const outputBase = path.join(workDir, "transcript");
+        const args = ["-m", options.model, "-f", wavPath, "-oj", "-of", outputBase, "-np"];
+        if (options.threads) args.push("-t", String(options.threads));
+        if (options.diarize === "tdrz") args.push("-tdrz");
+        if (stereo) args.push("-di");
+        await execFileAsync(options.binary, args, { timeout: WHISPER_TIMEOUT_MS, maxBuffer: 16 * 1024 * 1024 });
+
+        const output = JSON.parse(await fs.readFile(`${outputBase}.json`, "utf8")) as WhisperCppOutput;
+        return parseWhisperCppOutput(output);
+      } finally {
+        await fs.rm(workDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+const STUB_SEGMENTS: TranscriptionSegment[] = [
+  { startMs: 0, endMs: 4000, text: "Thanks for making the time today.", speakerTurnNext: true },
+  { startMs: 4200, endMs: 9000, text: "Happy to. We want to understand how this would fit our hiring plans.", speakerTurnNext: true },
+  { startMs: 9300, endMs: 14000, text: "Let's start with the roles you are hiring for this quarter.", speakerTurnNext: true },
+];
+
+// Returns canned segments without touching the audio, for tests and demos.
+// TRANSCRIPTION_STUB_FILE may point at a JSON array of segments to return instead.
+export function createStubTranscriptionProvider(stubFile?: string): TranscriptionProvider {
+  return {
+    name: "stub",
+    async transcribe() {
+      if (!stubFile) return STUB_SEGMENTS.map(segment => ({ ...segment }));
+      return JSON.parse(await fs.readFile(stubFile, "utf8")) as TranscriptionSegment[];
+    },
+  };
+}
+
+// Groups segments into speaker turns. Backend labels are used when present; otherwise
+// speaker-change markers alternate between two speakers, as on a typical sales call.
+// Speakers are named "Speaker 1", "Speaker 2", ... for the user to relabel.
+export function diarizeSegments(segments: TranscriptionSegment[]): TranscriptTurn[] {
+  const labelled = segments.some(segment => segment.speaker !== undefined);
+  const labels: string[] = [];
+  let current = 0;
+
+  const turns = segments.map(segment => {
+    let index = current;
+    if (labelled && segment.speaker !== undefined) {
+      index = labels.indexOf(segment.speaker);
+      if (index === -1) {
+        labels.push(segment.speaker);
+        index = labels.length - 1;
+      }
+      current = index;
+    } else if (!labelled && segment.speakerTurnNext) {
+      current = current === 0 ? 1 : 0;
+    }
+    return {
+      speaker: `Speaker ${index + 1}`,
+      role: null,
+      startMs: segment.startMs,
+      endMs: segment.endMs,
+      text: segment.text,
+    };
+  });
+
+  return mergeConsecutiveTurns(turns);
+}
+
+// TRANSCRIPTION_PROVIDER selects "whisper-cpp" or "stub"; without it audio uploads are
+// rejected
+export function getTranscriptionProvider(): TranscriptionProvider | null {
+  switch (process.env.TRANSCRIPTION_PROVIDER || "none") {
+    case "whisper-cpp":
+      if (!process.env.WHISPER_CPP_MODEL) {
+        console.warn("WHISPER_CPP_MODEL must be set when TRANSCRIPTION_PROVIDER=whisper-cpp");
+        return null;
+      }
+      return createWhisperCppProvider({
+        binary: process.env.WHISPER_CPP_BIN || "whisper-cli",
+        model: process.env.WHISPER_CPP_MODEL,
+        ffmpeg: process.env.FFMPEG_BIN || "ffmpeg",
+        threads: Number(process.env.WHISPER_CPP_THREADS) || undefined,
+        diarize: process.env.WHISPER_CPP_DIARIZE,
+      });
+    case "stub":
+      return createStubTranscriptionProvider(process.env.TRANSCRIPTION_STUB_FILE);
+    case "none":
+      return null;
+    default:
+      console.warn(`Unknown TRANSCRIPTION_PROVIDER "${process.env.TRANSCRIPTION_PROVIDER}", audio uploads are disabled`);
+      return null;
+  }
+}
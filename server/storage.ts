@@ -4,8 +4,32 @@ import {
   companyResearch,
   transcripts,
   frameworkNotes,
+  accountFrameworkRecords,
+  accountFrameworkHistory,
+  frameworkNoteRevisions,
+  artifactRevisions,
   nextBestActions,
+  nbaDependencies,
+  notifications,
   artifacts,
+  contacts,
+  cadenceTemplates,
+  cadenceSteps,
+  cadenceEnrollments,
+  cadenceTouches,
+  opportunities,
+  opportunityStageHistory,
+  teams,
+  teamMembers,
+  accountCollaborators,
+  corpusDocuments,
+  corpusChunks,
+  jobs,
+  conversations,
+  agentPendingActions,
+  messages,
+  textSearchVector,
+  jsonSearchVector,
   type User,
   type InsertUser,
   type Account,
@@ -16,28 +40,124 @@ import {
   type InsertTranscript,
   type FrameworkNotes,
   type InsertFrameworkNotes,
+  type AccountFrameworkRecord,
+  type InsertAccountFrameworkRecord,
+  type AccountFrameworkHistory,
+  type InsertAccountFrameworkHistory,
+  type FrameworkNoteRevision,
+  type InsertFrameworkNoteRevision,
+  type ArtifactRevision,
+  type InsertArtifactRevision,
   type NextBestAction,
   type InsertNextBestAction,
+  type NbaDependency,
+  type InsertNbaDependency,
+  type Notification,
+  type InsertNotification,
   type Artifact,
   type InsertArtifact,
+  type Contact,
+  type InsertContact,
+  type CadenceTemplate,
+  type InsertCadenceTemplate,
+  type CadenceStep,
+  type InsertCadenceStep,
+  type CadenceEnrollment,
+  type InsertCadenceEnrollment,
+  type CadenceTouch,
+  type InsertCadenceTouch,
+  type Opportunity,
+  type InsertOpportunity,
+  type OpportunityStageHistory,
+  type Team,
+  type InsertTeam,
+  type TeamMember,
+  type InsertTeamMember,
+  type AccountCollaborator,
+  type InsertAccountCollaborator,
+  type SearchSourceType,
+  type CorpusDocument,
+  type InsertCorpusDocument,
+  type InsertCorpusChunk,
+  type CorpusSourceType,
+  type Job,
+  type InsertJob,
+  type Conversation,
+  type InsertConversation,
+  type Message,
+  type InsertMessage,
+  type AgentPendingAction,
+  type InsertAgentPendingAction,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, ilike, sql } from "drizzle-orm";
+import { eq, desc, and, or, gt, lt, ilike, inArray, isNull, sql, getTableColumns, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 
 const PostgresSessionStore = connectPg(session);
 
+// Revisions are listed with the display name of whoever saved them
+export type RevisionWithAuthor<T> = T & { changedByName: string | null };
+
+const revisionAuthorName = sql<string | null>`coalesce(nullif(trim(concat_ws(' ', ${users.firstName}, ${users.lastName})), ''), ${users.username})`;
+
+// ts_headline markers; the search service turns these into highlight offsets
+export const HIGHLIGHT_START = "[[[";
+export const HIGHLIGHT_END = "]]]";
+
+export interface ContentSearchHit {
+  type: SearchSourceType;
+  id: string;
+  accountId: string;
+  transcriptId: string | null; // Source transcript for transcripts and framework notes
+  title: string;
+  excerpt: string; // Leading text of the document, used for semantic re-ranking
+  headline: string; // Best-matching fragments wrapped in highlight markers
+  rank: number;
+  createdAt: Date | null;
+}
+
+export interface CorpusSearchHit {
+  chunkId: string;
+  chunkIndex: number;
+  content: string;
+  startOffset: number;
+  endOffset: number;
+  documentId: string;
+  title: string;
+  sourceType: CorpusSourceType;
+  sourceUrl: string | null;
+  company: string | null;
+  score: number; // Cosine similarity, 1 is identical
+}
+
+// Document listing without the (potentially large) extracted text
+export type CorpusDocumentSummary = Omit<CorpusDocument, "content">;
+
+// A cadence touch with the NBA to create for it; each touch waits for the one before
+export type CadenceTouchWithNba = Omit<InsertCadenceTouch, "enrollmentId" | "nbaId"> & { nba: InsertNextBestAction };
+
+// Concatenates every string value inside a JSONB document
+const jsonSearchText = (column: AnyPgColumn) =>
+  sql`coalesce((SELECT string_agg(v #>> '{}', ' ') FROM jsonb_path_query(${column}, 'strict $.** ? (@.type() == "string")') AS v), '')`;
+
 export interface IStorage {
   // Auth methods
   sessionStore: any;
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getUsers(): Promise<User[]>;
+  getDirectReports(managerId: string): Promise<User[]>;
+  updateUser(id: string, updates: Partial<User>): Promise<User>;
 
   // Account methods
   getAccount(id: string): Promise<Account | undefined>;
   getAccountsByUser(userId: string): Promise<Account[]>;
+  getAccountsByUsers(userIds: string[]): Promise<Account[]>;
+  getAllAccounts(): Promise<Account[]>;
+  getAccountsByIds(ids: string[]): Promise<Account[]>;
   findAccountByNameOrWebsite(name: string, website?: string): Promise<Account | undefined>;
   createAccount(account: InsertAccount): Promise<Account>;
   updateAccount(id: string, updates: Partial<Account>): Promise<Account>;
@@ -50,24 +170,142 @@ export interface IStorage {
   getTranscript(id: string): Promise<Transcript | undefined>;
   getTranscriptsByAccount(accountId: string): Promise<Transcript[]>;
   createTranscript(transcript: InsertTranscript): Promise<Transcript>;
+  updateTranscript(id: string, updates: Partial<InsertTranscript>): Promise<Transcript>;
 
   // Framework Notes methods
+  getFrameworkNote(id: string): Promise<FrameworkNotes | undefined>;
   getFrameworkNotes(transcriptId: string): Promise<FrameworkNotes[]>;
   getFrameworkNotesByAccount(accountId: string): Promise<FrameworkNotes[]>;
   createFrameworkNotes(notes: InsertFrameworkNotes): Promise<FrameworkNotes>;
+  createGeneratedFrameworkNotes(notes: InsertFrameworkNotes, artifact: InsertArtifact): Promise<{ notes: FrameworkNotes; artifact: Artifact }>;
   updateFrameworkNotes(id: string, updates: Partial<FrameworkNotes>): Promise<FrameworkNotes>;
 
+  // Account framework record methods
+  getAccountFrameworkRecords(accountId: string): Promise<AccountFrameworkRecord[]>;
+  getAccountFrameworkRecord(accountId: string, framework: string): Promise<AccountFrameworkRecord | undefined>;
+  createAccountFrameworkRecord(record: InsertAccountFrameworkRecord): Promise<AccountFrameworkRecord>;
+  updateAccountFrameworkRecord(id: string, updates: Partial<InsertAccountFrameworkRecord>): Promise<AccountFrameworkRecord>;
+  getAccountFrameworkHistory(recordId: string): Promise<AccountFrameworkHistory[]>;
+  createAccountFrameworkHistory(entries: InsertAccountFrameworkHistory[]): Promise<void>;
+
+  // Revision methods
+  getFrameworkNoteRevisions(notesId: string): Promise<RevisionWithAuthor<FrameworkNoteRevision>[]>;
+  getFrameworkNoteRevision(id: string): Promise<FrameworkNoteRevision | undefined>;
+  createFrameworkNoteRevision(revision: Omit<InsertFrameworkNoteRevision, "revision">): Promise<FrameworkNoteRevision>;
+  getArtifactRevisions(artifactId: string): Promise<RevisionWithAuthor<ArtifactRevision>[]>;
+  getArtifactRevision(id: string): Promise<ArtifactRevision | undefined>;
+  createArtifactRevision(revision: Omit<InsertArtifactRevision, "revision">): Promise<ArtifactRevision>;
+
   // Next Best Actions methods
-  getNextBestActions(filters?: { accountId?: string; status?: string; userId?: string }): Promise<NextBestAction[]>;
+  getNextBestAction(id: string): Promise<NextBestAction | undefined>;
+  getNextBestActions(filters?: { accountId?: string; accountIds?: string[]; status?: string; userId?: string; priority?: string }): Promise<NextBestAction[]>;
   getNBAsByAccount(accountId: string): Promise<NextBestAction[]>;
   createNextBestAction(nba: InsertNextBestAction): Promise<NextBestAction>;
   updateNextBestAction(id: string, updates: Partial<NextBestAction>): Promise<NextBestAction>;
   deleteNextBestAction(id: string): Promise<void>;
+  getActiveNextBestActionsDueBefore(before: Date): Promise<NextBestAction[]>;
+  markNextBestActionOverdue(id: string): Promise<NextBestAction | undefined>;
+  getNextBestActionsByIds(ids: string[]): Promise<NextBestAction[]>;
+  getNbaSubtasks(parentIds: string[]): Promise<NextBestAction[]>;
+  getOpenNbaDueDates(owner: string, from: Date): Promise<Date[]>;
+
+  // NBA dependency methods
+  getNbaDependencies(nbaIds: string[]): Promise<NbaDependency[]>;
+  getNbaDependents(dependsOnId: string): Promise<NbaDependency[]>;
+  getAccountNbaDependencies(accountId: string): Promise<NbaDependency[]>;
+  createNbaDependency(dependency: InsertNbaDependency): Promise<NbaDependency | undefined>;
+  deleteNbaDependency(nbaId: string, dependsOnId: string): Promise<boolean>;
+
+  // Notification methods
+  getNotifications(userId: string, options?: { unreadOnly?: boolean; limit?: number }): Promise<Notification[]>;
+  countUnreadNotifications(userId: string): Promise<number>;
+  createNotification(notification: InsertNotification): Promise<Notification | undefined>;
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<void>;
 
   // Artifacts methods
-  getArtifacts(filters?: { accountId?: string; type?: string; userId?: string }): Promise<Artifact[]>;
+  getArtifact(id: string): Promise<Artifact | undefined>;
+  getArtifacts(filters?: { accountId?: string; accountIds?: string[]; type?: string; userId?: string }): Promise<Artifact[]>;
   createArtifact(artifact: InsertArtifact): Promise<Artifact>;
+  updateArtifact(id: string, updates: Partial<InsertArtifact>): Promise<Artifact>;
   deleteArtifact(id: string): Promise<void>;
+
+  // Contacts methods
+  getContact(id: string): Promise<Contact | undefined>;
+  getContactsByAccount(accountId: string): Promise<Contact[]>;
+  findContactByName(accountId: string, name: string): Promise<Contact | undefined>;
+  createContact(contact: InsertContact): Promise<Contact>;
+  updateContact(id: string, updates: Partial<Contact>): Promise<Contact>;
+  deleteContact(id: string): Promise<void>;
+
+  // Cadence methods
+  getCadenceTemplate(id: string): Promise<CadenceTemplate | undefined>;
+  getCadenceTemplates(): Promise<CadenceTemplate[]>;
+  getCadenceSteps(templateIds: string[]): Promise<CadenceStep[]>;
+  createCadenceTemplate(template: InsertCadenceTemplate, steps: Omit<InsertCadenceStep, "templateId">[]): Promise<CadenceTemplate>;
+  updateCadenceTemplate(id: string, updates: Partial<CadenceTemplate>, steps: Omit<InsertCadenceStep, "templateId">[]): Promise<CadenceTemplate | undefined>;
+  deleteCadenceTemplate(id: string): Promise<void>;
+  countCadenceEnrollments(templateId: string): Promise<number>;
+  getCadenceEnrollment(id: string): Promise<CadenceEnrollment | undefined>;
+  getCadenceEnrollments(filters: { accountId?: string; accountIds?: string[]; contactId?: string; templateId?: string }): Promise<CadenceEnrollment[]>;
+  createCadenceEnrollment(enrollment: InsertCadenceEnrollment, touches: CadenceTouchWithNba[]): Promise<CadenceEnrollment>;
+  updateCadenceEnrollment(id: string, updates: Partial<CadenceEnrollment>): Promise<CadenceEnrollment>;
+  deleteCadenceEnrollment(id: string): Promise<void>;
+  getCadenceTouches(enrollmentIds: string[]): Promise<CadenceTouch[]>;
+  updateCadenceTouch(id: string, updates: Partial<CadenceTouch>): Promise<CadenceTouch>;
+
+  // Opportunity methods
+  getOpportunity(id: string): Promise<Opportunity | undefined>;
+  getOpportunities(filters?: { accountId?: string; accountIds?: string[]; userId?: string; stage?: string }): Promise<Opportunity[]>;
+  createOpportunity(opportunity: InsertOpportunity): Promise<Opportunity>;
+  updateOpportunity(id: string, updates: Partial<Opportunity>, changedBy: string): Promise<Opportunity>;
+  getOpportunityStageHistory(opportunityIds: string[]): Promise<OpportunityStageHistory[]>;
+
+  // Team methods
+  getTeam(id: string): Promise<Team | undefined>;
+  getTeams(filters?: { userId?: string }): Promise<Team[]>;
+  createTeam(team: InsertTeam, leadUserId: string): Promise<Team>;
+  updateTeam(id: string, updates: Partial<Team>): Promise<Team>;
+  deleteTeam(id: string): Promise<void>;
+  getTeamMembers(teamIds: string[]): Promise<TeamMember[]>;
+  getTeamMembershipsByUser(userId: string): Promise<TeamMember[]>;
+  upsertTeamMember(member: InsertTeamMember): Promise<TeamMember>;
+  removeTeamMember(teamId: string, userId: string): Promise<void>;
+
+  // Account collaborator methods
+  getAccountCollaborators(accountId: string): Promise<AccountCollaborator[]>;
+  getCollaborationsByUser(userId: string): Promise<AccountCollaborator[]>;
+  upsertAccountCollaborator(collaborator: InsertAccountCollaborator): Promise<AccountCollaborator>;
+  removeAccountCollaborator(accountId: string, userId: string): Promise<void>;
+
+  // Corpus methods
+  getCorpusDocument(id: string): Promise<CorpusDocument | undefined>;
+  getCorpusDocuments(filters?: { accountIds?: string[]; sourceType?: string }): Promise<CorpusDocumentSummary[]>;
+  findCorpusDocumentByHash(contentHash: string, accountId: string | null): Promise<CorpusDocument | undefined>;
+  createCorpusDocument(document: InsertCorpusDocument, chunks: Omit<InsertCorpusChunk, "documentId">[]): Promise<CorpusDocument>;
+  replaceCorpusChunks(documentId: string, chunks: Omit<InsertCorpusChunk, "documentId">[], embeddingModel: string): Promise<void>;
+  deleteCorpusDocument(id: string): Promise<void>;
+  searchCorpusChunks(embedding: number[], embeddingModel: string, filters: { accountIds?: string[]; k: number }): Promise<CorpusSearchHit[]>;
+
+  // Conversation methods
+  getConversations(userId: string): Promise<Conversation[]>;
+  getConversation(id: string): Promise<Conversation | undefined>;
+  createConversation(conversation: InsertConversation): Promise<Conversation>;
+  updateConversation(id: string, updates: Partial<InsertConversation>): Promise<Conversation>;
+  deleteConversation(id: string): Promise<void>;
+  getMessages(conversationId: string): Promise<Message[]>;
+  createMessage(message: InsertMessage): Promise<Message>;
+  createPendingAction(action: InsertAgentPendingAction): Promise<AgentPendingAction>;
+  resolvePendingAction(id: string, userId: string, status: "confirmed" | "cancelled"): Promise<AgentPendingAction | undefined>;
+
+  // Job methods
+  getJob(id: string): Promise<Job | undefined>;
+  createJob(job: InsertJob): Promise<Job>;
+  updateJob(id: string, updates: Partial<InsertJob>): Promise<Job>;
+  claimNextJob(types: string[], staleBefore: Date): Promise<Job | undefined>;
+
+  // Search methods
+  searchContent(query: string, filters: { accountIds?: string[]; types?: SearchSourceType[]; limit: number }): Promise<ContentSearchHit[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -96,6 +334,23 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.username);
+  }
+
+  async getDirectReports(managerId: string): Promise<User[]> {
+    return await db.select().from(users).where(eq(users.managerId, managerId));
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
   // Account methods
   async getAccount(id: string): Promise<Account | undefined> {
     const [account] = await db.select().from(accounts).where(eq(accounts.id, id));
@@ -110,6 +365,31 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(accounts.updatedAt));
   }
 
+  async getAccountsByUsers(userIds: string[]): Promise<Account[]> {
+    if (userIds.length === 0) return [];
+    return await db
+      .select()
+      .from(accounts)
+      .where(inArray(accounts.assignedTo, userIds))
+      .orderBy(desc(accounts.updatedAt));
+  }
+
+  async getAllAccounts(): Promise<Account[]> {
+    return await db
+      .select()
+      .from(accounts)
+      .orderBy(desc(accounts.updatedAt));
+  }
+
+  async getAccountsByIds(ids: string[]): Promise<Account[]> {
+    if (ids.length === 0) return [];
+    return await db
+      .select()
+      .from(accounts)
+      .where(inArray(accounts.id, ids))
+      .orderBy(desc(accounts.updatedAt));
+  }
+
   async findAccountByNameOrWebsite(name: string, website?: string): Promise<Account | undefined> {
     // Normalize inputs for comparison
     const normalizedName = name.toLowerCase().trim();
@@ -191,7 +471,21 @@ export class DatabaseStorage implements IStorage {
     return transcript;
   }
 
+  async updateTranscript(id: string, updates: Partial<InsertTranscript>): Promise<Transcript> {
+    const [transcript] = await db
+      .update(transcripts)
+      .set(updates)
+      .where(eq(transcripts.id, id))
+      .returning();
+    return transcript;
+  }
+
   // Framework Notes methods
+  async getFrameworkNote(id: string): Promise<FrameworkNotes | undefined> {
+    const [notes] = await db.select().from(frameworkNotes).where(eq(frameworkNotes.id, id));
+    return notes;
+  }
+
   async getFrameworkNotes(transcriptId: string): Promise<FrameworkNotes[]> {
     return await db
       .select()
@@ -213,6 +507,36 @@ export class DatabaseStorage implements IStorage {
     return notes;
   }
 
+  // Generated notes, their Historical Notes artifact and the first revision of each are
+  // saved together, so a failed save can be retried without leaving a partial copy
+  async createGeneratedFrameworkNotes(
+    insertNotes: InsertFrameworkNotes,
+    insertArtifact: InsertArtifact
+  ): Promise<{ notes: FrameworkNotes; artifact: Artifact }> {
+    return await db.transaction(async (tx) => {
+      const [notes] = await tx.insert(frameworkNotes).values(insertNotes).returning();
+      await tx.insert(frameworkNoteRevisions).values({
+        notesId: notes.id,
+        revision: 1,
+        content: notes.content as InsertFrameworkNoteRevision["content"],
+        evidence: notes.evidence,
+        source: "ai",
+        changedBy: notes.createdBy,
+      });
+      const [artifact] = await tx.insert(artifacts).values(insertArtifact).returning();
+      await tx.insert(artifactRevisions).values({
+        artifactId: artifact.id,
+        revision: 1,
+        title: artifact.title,
+        content: artifact.content as InsertArtifactRevision["content"],
+        summary: artifact.summary,
+        source: "ai",
+        changedBy: artifact.createdBy,
+      });
+      return { notes, artifact };
+    });
+  }
+
   async updateFrameworkNotes(id: string, updates: Partial<FrameworkNotes>): Promise<FrameworkNotes> {
     const [notes] = await db
       .update(frameworkNotes)
@@ -222,12 +546,120 @@ export class DatabaseStorage implements IStorage {
     return notes;
   }
 
+  // Account framework record methods
+  async getAccountFrameworkRecords(accountId: string): Promise<AccountFrameworkRecord[]> {
+    return await db
+      .select()
+      .from(accountFrameworkRecords)
+      .where(eq(accountFrameworkRecords.accountId, accountId))
+      .orderBy(accountFrameworkRecords.framework);
+  }
+
+  async getAccountFrameworkRecord(accountId: string, framework: string): Promise<AccountFrameworkRecord | undefined> {
+    const [record] = await db
+      .select()
+      .from(accountFrameworkRecords)
+      .where(and(
+        eq(accountFrameworkRecords.accountId, accountId),
+        eq(accountFrameworkRecords.framework, framework as AccountFrameworkRecord["framework"]),
+      ));
+    return record;
+  }
+
+  async createAccountFrameworkRecord(record: InsertAccountFrameworkRecord): Promise<AccountFrameworkRecord> {
+    const [created] = await db.insert(accountFrameworkRecords).values(record).returning();
+    return created;
+  }
+
+  async updateAccountFrameworkRecord(id: string, updates: Partial<InsertAccountFrameworkRecord>): Promise<AccountFrameworkRecord> {
+    const [record] = await db
+      .update(accountFrameworkRecords)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(accountFrameworkRecords.id, id))
+      .returning();
+    return record;
+  }
+
+  async getAccountFrameworkHistory(recordId: string): Promise<AccountFrameworkHistory[]> {
+    return await db
+      .select()
+      .from(accountFrameworkHistory)
+      .where(eq(accountFrameworkHistory.recordId, recordId))
+      .orderBy(desc(accountFrameworkHistory.createdAt));
+  }
+
+  async createAccountFrameworkHistory(entries: InsertAccountFrameworkHistory[]): Promise<void> {
+    if (entries.length === 0) return;
+    await db.insert(accountFrameworkHistory).values(entries);
+  }
+
+  // Revision methods
+  async getFrameworkNoteRevisions(notesId: string): Promise<RevisionWithAuthor<FrameworkNoteRevision>[]> {
+    return await db
+      .select({ ...getTableColumns(frameworkNoteRevisions), changedByName: revisionAuthorName })
+      .from(frameworkNoteRevisions)
+      .leftJoin(users, eq(frameworkNoteRevisions.changedBy, users.id))
+      .where(eq(frameworkNoteRevisions.notesId, notesId))
+      .orderBy(desc(frameworkNoteRevisions.revision));
+  }
+
+  async getFrameworkNoteRevision(id: string): Promise<FrameworkNoteRevision | undefined> {
+    const [revision] = await db.select().from(frameworkNoteRevisions).where(eq(frameworkNoteRevisions.id, id));
+    return revision;
+  }
+
+  // Numbered in the insert itself so concurrent saves cannot take the same number
+  async createFrameworkNoteRevision(revision: Omit<InsertFrameworkNoteRevision, "revision">): Promise<FrameworkNoteRevision> {
+    const [created] = await db
+      .insert(frameworkNoteRevisions)
+      .values({
+        ...revision,
+        revision: sql`(select coalesce(max(${frameworkNoteRevisions.revision}), 0) + 1 from ${frameworkNoteRevisions} where ${frameworkNoteRevisions.notesId} = ${revision.notesId})`,
+      })
+      .returning();
+    return created;
+  }
+
+  async getArtifactRevisions(artifactId: string): Promise<RevisionWithAuthor<ArtifactRevision>[]> {
+    return await db
+      .select({ ...getTableColumns(artifactRevisions), changedByName: revisionAuthorName })
+      .from(artifactRevisions)
+      .leftJoin(users, eq(artifactRevisions.changedBy, users.id))
+      .where(eq(artifactRevisions.artifactId, artifactId))
+      .orderBy(desc(artifactRevisions.revision));
+  }
+
+  async getArtifactRevision(id: string): Promise<ArtifactRevision | undefined> {
+    const [revision] = await db.select().from(artifactRevisions).where(eq(artifactRevisions.id, id));
+    return revision;
+  }
+
+  async createArtifactRevision(revision: Omit<InsertArtifactRevision, "revision">): Promise<ArtifactRevision> {
+    const [created] = await db
+      .insert(artifactRevisions)
+      .values({
+        ...revision,
+        revision: sql`(select coalesce(max(${artifactRevisions.revision}), 0) + 1 from ${artifactRevisions} where ${artifactRevisions.artifactId} = ${revision.artifactId})`,
+      })
+      .returning();
+    return created;
+  }
+
   // Next Best Actions methods
-  async getNextBestActions(filters?: { accountId?: string; status?: string; userId?: string; priority?: string }): Promise<NextBestAction[]> {
+  async getNextBestAction(id: string): Promise<NextBestAction | undefined> {
+    const [nba] = await db.select().from(nextBestActions).where(eq(nextBestActions.id, id));
+    return nba;
+  }
+
+  async getNextBestActions(filters?: { accountId?: string; accountIds?: string[]; status?: string; userId?: string; priority?: string }): Promise<NextBestAction[]> {
     const conditions = [];
     if (filters?.accountId) {
       conditions.push(eq(nextBestActions.accountId, filters.accountId));
     }
+    if (filters?.accountIds) {
+      if (filters.accountIds.length === 0) return [];
+      conditions.push(inArray(nextBestActions.accountId, filters.accountIds));
+    }
     if (filters?.status) {
       conditions.push(eq(nextBestActions.status, filters.status as any));
     }
@@ -278,12 +710,156 @@ export class DatabaseStorage implements IStorage {
     await db.delete(nextBestActions).where(eq(nextBestActions.id, id));
   }
 
+  // Open and In Progress NBAs whose due date is before the given time
+  async getActiveNextBestActionsDueBefore(before: Date): Promise<NextBestAction[]> {
+    return await db
+      .select()
+      .from(nextBestActions)
+      .where(and(
+        inArray(nextBestActions.status, ["Open", "In Progress"]),
+        lt(nextBestActions.dueDate, before)
+      ))
+      .orderBy(nextBestActions.dueDate);
+  }
+
+  // Only moves NBAs that are still open, so a status set meanwhile is not overwritten
+  async markNextBestActionOverdue(id: string): Promise<NextBestAction | undefined> {
+    const [nba] = await db
+      .update(nextBestActions)
+      .set({ status: "Overdue", updatedAt: new Date() })
+      .where(and(
+        eq(nextBestActions.id, id),
+        inArray(nextBestActions.status, ["Open", "In Progress"])
+      ))
+      .returning();
+    return nba;
+  }
+
+  async getNextBestActionsByIds(ids: string[]): Promise<NextBestAction[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(nextBestActions).where(inArray(nextBestActions.id, ids));
+  }
+
+  async getNbaSubtasks(parentIds: string[]): Promise<NextBestAction[]> {
+    if (parentIds.length === 0) return [];
+    return await db
+      .select()
+      .from(nextBestActions)
+      .where(inArray(nextBestActions.parentId, parentIds))
+      .orderBy(nextBestActions.dueDate);
+  }
+
+  // Due dates of the owner's unfinished NBAs, for spreading new ones across days
+  async getOpenNbaDueDates(owner: string, from: Date): Promise<Date[]> {
+    const rows = await db
+      .select({ dueDate: nextBestActions.dueDate })
+      .from(nextBestActions)
+      .where(and(
+        eq(nextBestActions.owner, owner),
+        inArray(nextBestActions.status, ["Open", "In Progress"]),
+        gt(nextBestActions.dueDate, from)
+      ));
+    return rows.map(row => row.dueDate);
+  }
+
+  // NBA dependency methods
+  async getNbaDependencies(nbaIds: string[]): Promise<NbaDependency[]> {
+    if (nbaIds.length === 0) return [];
+    return await db.select().from(nbaDependencies).where(inArray(nbaDependencies.nbaId, nbaIds));
+  }
+
+  async getNbaDependents(dependsOnId: string): Promise<NbaDependency[]> {
+    return await db.select().from(nbaDependencies).where(eq(nbaDependencies.dependsOnId, dependsOnId));
+  }
+
+  async getAccountNbaDependencies(accountId: string): Promise<NbaDependency[]> {
+    return await db
+      .select(getTableColumns(nbaDependencies))
+      .from(nbaDependencies)
+      .innerJoin(nextBestActions, eq(nbaDependencies.nbaId, nextBestActions.id))
+      .where(eq(nextBestActions.accountId, accountId));
+  }
+
+  // Returns undefined when the dependency already exists
+  async createNbaDependency(dependency: InsertNbaDependency): Promise<NbaDependency | undefined> {
+    const [created] = await db
+      .insert(nbaDependencies)
+      .values(dependency)
+      .onConflictDoNothing({ target: [nbaDependencies.nbaId, nbaDependencies.dependsOnId] })
+      .returning();
+    return created;
+  }
+
+  async deleteNbaDependency(nbaId: string, dependsOnId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(nbaDependencies)
+      .where(and(eq(nbaDependencies.nbaId, nbaId), eq(nbaDependencies.dependsOnId, dependsOnId)))
+      .returning({ id: nbaDependencies.id });
+    return deleted.length > 0;
+  }
+
+  // Notification methods
+  async getNotifications(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(
+        eq(notifications.userId, userId),
+        options.unreadOnly ? isNull(notifications.readAt) : undefined
+      ))
+      .orderBy(desc(notifications.createdAt))
+      .limit(options.limit ?? 50);
+  }
+
+  async countUnreadNotifications(userId: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return row?.count ?? 0;
+  }
+
+  // Returns undefined when a notification with the same dedupe key already exists
+  async createNotification(notification: InsertNotification): Promise<Notification | undefined> {
+    const [created] = await db
+      .insert(notifications)
+      .values(notification)
+      .onConflictDoNothing({ target: notifications.dedupeKey })
+      .returning();
+    return created;
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
   // Artifacts methods
-  async getArtifacts(filters?: { accountId?: string; type?: string; userId?: string }): Promise<Artifact[]> {
+  async getArtifact(id: string): Promise<Artifact | undefined> {
+    const [artifact] = await db.select().from(artifacts).where(eq(artifacts.id, id));
+    return artifact;
+  }
+
+  async getArtifacts(filters?: { accountId?: string; accountIds?: string[]; type?: string; userId?: string }): Promise<Artifact[]> {
     const conditions = [];
     if (filters?.accountId) {
       conditions.push(eq(artifacts.accountId, filters.accountId));
     }
+    if (filters?.accountIds) {
+      if (filters.accountIds.length === 0) return [];
+      conditions.push(inArray(artifacts.accountId, filters.accountIds));
+    }
     if (filters?.type) {
       conditions.push(eq(artifacts.type, filters.type as any));
     }
@@ -310,9 +886,701 @@ export class DatabaseStorage implements IStorage {
     return artifact;
   }
 
+  async updateArtifact(id: string, updates: Partial<InsertArtifact>): Promise<Artifact> {
+    const [artifact] = await db
+      .update(artifacts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(artifacts.id, id))
+      .returning();
+    return artifact;
+  }
+
   async deleteArtifact(id: string): Promise<void> {
     await db.delete(artifacts).where(eq(artifacts.id, id));
   }
+
+  // Contacts methods
+  async getContact(id: string): Promise<Contact | undefined> {
+    const [contact] = await db.select().from(contacts).where(eq(contacts.id, id));
+    return contact;
+  }
+
+  async getContactsByAccount(accountId: string): Promise<Contact[]> {
+    return await db
+      .select()
+      .from(contacts)
+      .where(eq(contacts.accountId, accountId))
+      .orderBy(contacts.name);
+  }
+
+  async findContactByName(accountId: string, name: string): Promise<Contact | undefined> {
+    const [contact] = await db
+      .select()
+      .from(contacts)
+      .where(
+        and(
+          eq(contacts.accountId, accountId),
+          sql`LOWER(TRIM(${contacts.name})) = ${name.toLowerCase().trim()}`
+        )
+      );
+    return contact;
+  }
+
+  async createContact(insertContact: InsertContact): Promise<Contact> {
+    const [contact] = await db.insert(contacts).values(insertContact).returning();
+    return contact;
+  }
+
+  async updateContact(id: string, updates: Partial<Contact>): Promise<Contact> {
+    const [contact] = await db
+      .update(contacts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(contacts.id, id))
+      .returning();
+    return contact;
+  }
+
+  async deleteContact(id: string): Promise<void> {
+    await db.delete(contacts).where(eq(contacts.id, id));
+  }
+
+  // Cadence methods
+  async getCadenceTemplate(id: string): Promise<CadenceTemplate | undefined> {
+    const [template] = await db.select().from(cadenceTemplates).where(eq(cadenceTemplates.id, id));
+    return template;
+  }
+
+  async getCadenceTemplates(): Promise<CadenceTemplate[]> {
+    return await db.select().from(cadenceTemplates).orderBy(cadenceTemplates.name);
+  }
+
+  async getCadenceSteps(templateIds: string[]): Promise<CadenceStep[]> {
+    if (templateIds.length === 0) return [];
+    return await db
+      .select()
+      .from(cadenceSteps)
+      .where(inArray(cadenceSteps.templateId, templateIds))
+      .orderBy(cadenceSteps.templateId, cadenceSteps.position);
+  }
+
+  async createCadenceTemplate(
+    insertTemplate: InsertCadenceTemplate,
+    steps: Omit<InsertCadenceStep, "templateId">[]
+  ): Promise<CadenceTemplate> {
+    return await db.transaction(async (tx) => {
+      const [template] = await tx.insert(cadenceTemplates).values(insertTemplate).returning();
+      await tx.insert(cadenceSteps).values(steps.map(step => ({ ...step, templateId: template.id })));
+      return template;
+    });
+  }
+
+  // Steps are replaced as a whole; enrolments keep their own copy of the steps
+  async updateCadenceTemplate(
+    id: string,
+    updates: Partial<CadenceTemplate>,
+    steps: Omit<InsertCadenceStep, "templateId">[]
+  ): Promise<CadenceTemplate | undefined> {
+    return await db.transaction(async (tx) => {
+      const [template] = await tx
+        .update(cadenceTemplates)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(cadenceTemplates.id, id))
+        .returning();
+      if (!template) return undefined;
+      await tx.delete(cadenceSteps).where(eq(cadenceSteps.templateId, id));
+      await tx.insert(cadenceSteps).values(steps.map(step => ({ ...step, templateId: id })));
+      return template;
+    });
+  }
+
+  async deleteCadenceTemplate(id: string): Promise<void> {
+    await db.delete(cadenceTemplates).where(eq(cadenceTemplates.id, id));
+  }
+
+  async countCadenceEnrollments(templateId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(cadenceEnrollments)
+      .where(eq(cadenceEnrollments.templateId, templateId));
+    return result.count;
+  }
+
+  async getCadenceEnrollment(id: string): Promise<CadenceEnrollment | undefined> {
+    const [enrollment] = await db.select().from(cadenceEnrollments).where(eq(cadenceEnrollments.id, id));
+    return enrollment;
+  }
+
+  async getCadenceEnrollments(filters: { accountId?: string; accountIds?: string[]; contactId?: string; templateId?: string }): Promise<CadenceEnrollment[]> {
+    const conditions = [];
+    if (filters.accountId) {
+      conditions.push(eq(cadenceEnrollments.accountId, filters.accountId));
+    }
+    if (filters.accountIds) {
+      if (filters.accountIds.length === 0) return [];
+      conditions.push(inArray(cadenceEnrollments.accountId, filters.accountIds));
+    }
+    if (filters.contactId) {
+      conditions.push(eq(cadenceEnrollments.contactId, filters.contactId));
+    }
+    if (filters.templateId) {
+      conditions.push(eq(cadenceEnrollments.templateId, filters.templateId));
+    }
+
+    return await db
+      .select()
+      .from(cadenceEnrollments)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(cadenceEnrollments.createdAt));
+  }
+
+  // The enrolment, each touch's NBA and the chain of dependencies between them are
+  // created together, so a failure part-way leaves no NBAs outside an enrolment
+  async createCadenceEnrollment(
+    insertEnrollment: InsertCadenceEnrollment,
+    touches: CadenceTouchWithNba[]
+  ): Promise<CadenceEnrollment> {
+    return await db.transaction(async (tx) => {
+      const [enrollment] = await tx.insert(cadenceEnrollments).values(insertEnrollment).returning();
+      let previousNbaId: string | null = null;
+      for (const { nba: insertNba, ...touch } of touches) {
+        const [nba] = await tx.insert(nextBestActions).values(insertNba).returning();
+        if (previousNbaId) {
+          await tx.insert(nbaDependencies).values({ nbaId: nba.id, dependsOnId: previousNbaId });
+        }
+        await tx.insert(cadenceTouches).values({ ...touch, enrollmentId: enrollment.id, nbaId: nba.id });
+        previousNbaId = nba.id;
+      }
+      return enrollment;
+    });
+  }
+
+  async updateCadenceEnrollment(id: string, updates: Partial<CadenceEnrollment>): Promise<CadenceEnrollment> {
+    const [enrollment] = await db
+      .update(cadenceEnrollments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(cadenceEnrollments.id, id))
+      .returning();
+    return enrollment;
+  }
+
+  async deleteCadenceEnrollment(id: string): Promise<void> {
+    await db.delete(cadenceEnrollments).where(eq(cadenceEnrollments.id, id));
+  }
+
+  async getCadenceTouches(enrollmentIds: string[]): Promise<CadenceTouch[]> {
+    if (enrollmentIds.length === 0) return [];
+    return await db
+      .select()
+      .from(cadenceTouches)
+      .where(inArray(cadenceTouches.enrollmentId, enrollmentIds))
+      .orderBy(cadenceTouches.enrollmentId, cadenceTouches.position);
+  }
+
+  async updateCadenceTouch(id: string, updates: Partial<CadenceTouch>): Promise<CadenceTouch> {
+    const [touch] = await db
+      .update(cadenceTouches)
+      .set(updates)
+      .where(eq(cadenceTouches.id, id))
+      .returning();
+    return touch;
+  }
+
+  // Opportunity methods
+  async getOpportunity(id: string): Promise<Opportunity | undefined> {
+    const [opportunity] = await db.select().from(opportunities).where(eq(opportunities.id, id));
+    return opportunity;
+  }
+
+  async getOpportunities(filters?: { accountId?: string; accountIds?: string[]; userId?: string; stage?: string }): Promise<Opportunity[]> {
+    const conditions = [];
+    if (filters?.accountId) {
+      conditions.push(eq(opportunities.accountId, filters.accountId));
+    }
+    if (filters?.accountIds) {
+      if (filters.accountIds.length === 0) return [];
+      conditions.push(inArray(opportunities.accountId, filters.accountIds));
+    }
+    if (filters?.userId) {
+      conditions.push(eq(opportunities.owner, filters.userId));
+    }
+    if (filters?.stage) {
+      conditions.push(eq(opportunities.stage, filters.stage as any));
+    }
+
+    return await db
+      .select()
+      .from(opportunities)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(opportunities.expectedCloseDate);
+  }
+
+  async createOpportunity(insertOpportunity: InsertOpportunity): Promise<Opportunity> {
+    return await db.transaction(async (tx) => {
+      const [opportunity] = await tx.insert(opportunities).values(insertOpportunity).returning();
+      await tx.insert(opportunityStageHistory).values({
+        opportunityId: opportunity.id,
+        fromStage: null,
+        toStage: opportunity.stage,
+        changedBy: opportunity.createdBy,
+      });
+      return opportunity;
+    });
+  }
+
+  async updateOpportunity(id: string, updates: Partial<Opportunity>, changedBy: string): Promise<Opportunity> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(opportunities).where(eq(opportunities.id, id));
+      if (!current) {
+        throw new Error("Opportunity not found");
+      }
+
+      const stageChanged = updates.stage !== undefined && updates.stage !== current.stage;
+      const isClosing = stageChanged && (updates.stage === "Closed Won" || updates.stage === "Closed Lost");
+
+      const [opportunity] = await tx
+        .update(opportunities)
+        .set({
+          ...updates,
+          closedAt: stageChanged ? (isClosing ? new Date() : null) : current.closedAt,
+          updatedAt: new Date(),
+        })
+        .where(eq(opportunities.id, id))
+        .returning();
+
+      if (stageChanged) {
+        await tx.insert(opportunityStageHistory).values({
+          opportunityId: id,
+          fromStage: current.stage,
+          toStage: opportunity.stage,
+          changedBy,
+        });
+      }
+
+      return opportunity;
+    });
+  }
+
+  async getOpportunityStageHistory(opportunityIds: string[]): Promise<OpportunityStageHistory[]> {
+    if (opportunityIds.length === 0) return [];
+    return await db
+      .select()
+      .from(opportunityStageHistory)
+      .where(inArray(opportunityStageHistory.opportunityId, opportunityIds))
+      .orderBy(opportunityStageHistory.changedAt);
+  }
+
+  // Team methods
+  async getTeam(id: string): Promise<Team | undefined> {
+    const [team] = await db.select().from(teams).where(eq(teams.id, id));
+    return team;
+  }
+
+  async getTeams(filters?: { userId?: string }): Promise<Team[]> {
+    if (filters?.userId) {
+      const memberships = await this.getTeamMembershipsByUser(filters.userId);
+      const teamIds = memberships.map(membership => membership.teamId);
+      if (teamIds.length === 0) return [];
+      return await db.select().from(teams).where(inArray(teams.id, teamIds)).orderBy(teams.name);
+    }
+    return await db.select().from(teams).orderBy(teams.name);
+  }
+
+  async createTeam(insertTeam: InsertTeam, leadUserId: string): Promise<Team> {
+    return await db.transaction(async (tx) => {
+      const [team] = await tx.insert(teams).values(insertTeam).returning();
+      await tx.insert(teamMembers).values({ teamId: team.id, userId: leadUserId, role: "lead" });
+      return team;
+    });
+  }
+
+  async updateTeam(id: string, updates: Partial<Team>): Promise<Team> {
+    const [team] = await db
+      .update(teams)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(teams.id, id))
+      .returning();
+    return team;
+  }
+
+  async deleteTeam(id: string): Promise<void> {
+    await db.delete(teams).where(eq(teams.id, id));
+  }
+
+  async getTeamMembers(teamIds: string[]): Promise<TeamMember[]> {
+    if (teamIds.length === 0) return [];
+    return await db
+      .select()
+      .from(teamMembers)
+      .where(inArray(teamMembers.teamId, teamIds))
+      .orderBy(teamMembers.createdAt);
+  }
+
+  async getTeamMembershipsByUser(userId: string): Promise<TeamMember[]> {
+    return await db.select().from(teamMembers).where(eq(teamMembers.userId, userId));
+  }
+
+  async upsertTeamMember(member: InsertTeamMember): Promise<TeamMember> {
+    const [teamMember] = await db
+      .insert(teamMembers)
+      .values(member)
+      .onConflictDoUpdate({
+        target: [teamMembers.teamId, teamMembers.userId],
+        set: { role: member.role },
+      })
+      .returning();
+    return teamMember;
+  }
+
+  async removeTeamMember(teamId: string, userId: string): Promise<void> {
+    await db
+      .delete(teamMembers)
+      .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, userId)));
+  }
+
+  // Account collaborator methods
+  async getAccountCollaborators(accountId: string): Promise<AccountCollaborator[]> {
+    return await db
+      .select()
+      .from(accountCollaborators)
+      .where(eq(accountCollaborators.accountId, accountId))
+      .orderBy(accountCollaborators.createdAt);
+  }
+
+  async getCollaborationsByUser(userId: string): Promise<AccountCollaborator[]> {
+    return await db
+      .select()
+      .from(accountCollaborators)
+      .where(eq(accountCollaborators.userId, userId));
+  }
+
+  async upsertAccountCollaborator(collaborator: InsertAccountCollaborator): Promise<AccountCollaborator> {
+    const [accountCollaborator] = await db
+      .insert(accountCollaborators)
+      .values(collaborator)
+      .onConflictDoUpdate({
+        target: [accountCollaborators.accountId, accountCollaborators.userId],
+        set: { role: collaborator.role, updatedAt: new Date() },
+      })
+      .returning();
+    return accountCollaborator;
+  }
+
+  async removeAccountCollaborator(accountId: string, userId: string): Promise<void> {
+    await db
+      .delete(accountCollaborators)
+      .where(and(eq(accountCollaborators.accountId, accountId), eq(accountCollaborators.userId, userId)));
+  }
+
+  // Corpus methods
+  async getCorpusDocument(id: string): Promise<CorpusDocument | undefined> {
+    const [document] = await db.select().from(corpusDocuments).where(eq(corpusDocuments.id, id));
+    return document;
+  }
+
+  async getCorpusDocuments(filters?: { accountIds?: string[]; sourceType?: string }): Promise<CorpusDocumentSummary[]> {
+    const conditions = [];
+    if (filters?.accountIds) {
+      // Shared documents have no account; account-specific ones follow account access
+      conditions.push(filters.accountIds.length > 0
+        ? or(isNull(corpusDocuments.accountId), inArray(corpusDocuments.accountId, filters.accountIds))
+        : isNull(corpusDocuments.accountId));
+    }
+    if (filters?.sourceType) {
+      conditions.push(eq(corpusDocuments.sourceType, filters.sourceType as any));
+    }
+
+    const { content, ...columns } = getTableColumns(corpusDocuments);
+    return await db
+      .select(columns)
+      .from(corpusDocuments)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(corpusDocuments.createdAt));
+  }
+
+  async findCorpusDocumentByHash(contentHash: string, accountId: string | null): Promise<CorpusDocument | undefined> {
+    const [document] = await db
+      .select()
+      .from(corpusDocuments)
+      .where(and(
+        eq(corpusDocuments.contentHash, contentHash),
+        accountId ? eq(corpusDocuments.accountId, accountId) : isNull(corpusDocuments.accountId)
+      ));
+    return document;
+  }
+
+  async createCorpusDocument(
+    insertDocument: InsertCorpusDocument,
+    chunks: Omit<InsertCorpusChunk, "documentId">[]
+  ): Promise<CorpusDocument> {
+    return await db.transaction(async (tx) => {
+      const [document] = await tx
+        .insert(corpusDocuments)
+        .values({ ...insertDocument, chunkCount: chunks.length })
+        .returning();
+      if (chunks.length > 0) {
+        await tx.insert(corpusChunks).values(chunks.map(chunk => ({ ...chunk, documentId: document.id })));
+      }
+      return document;
+    });
+  }
+
+  async replaceCorpusChunks(
+    documentId: string,
+    chunks: Omit<InsertCorpusChunk, "documentId">[],
+    embeddingModel: string
+  ): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(corpusChunks).where(eq(corpusChunks.documentId, documentId));
+      if (chunks.length > 0) {
+        await tx.insert(corpusChunks).values(chunks.map(chunk => ({ ...chunk, documentId })));
+      }
+      await tx
+        .update(corpusDocuments)
+        .set({ chunkCount: chunks.length, embeddingModel, updatedAt: new Date() })
+        .where(eq(corpusDocuments.id, documentId));
+    });
+  }
+
+  async deleteCorpusDocument(id: string): Promise<void> {
+    await db.delete(corpusDocuments).where(eq(corpusDocuments.id, id));
+  }
+
+  async searchCorpusChunks(
+    embedding: number[],
+    embeddingModel: string,
+    filters: { accountIds?: string[]; k: number }
+  ): Promise<CorpusSearchHit[]> {
+    const distance = sql<number>`${corpusChunks.embedding} <=> ${`[${embedding.join(",")}]`}::vector`;
+
+    // Only vectors from the same model are comparable
+    const conditions = [eq(corpusChunks.embeddingModel, embeddingModel)];
+    if (filters.accountIds) {
+      conditions.push(filters.accountIds.length > 0
+        ? or(isNull(corpusDocuments.accountId), inArray(corpusDocuments.accountId, filters.accountIds))!
+        : isNull(corpusDocuments.accountId));
+    }
+
+    const rows = await db
+      .select({
+        chunkId: corpusChunks.id,
+        chunkIndex: corpusChunks.chunkIndex,
+        content: corpusChunks.content,
+        startOffset: corpusChunks.startOffset,
+        endOffset: corpusChunks.endOffset,
+        documentId: corpusDocuments.id,
+        title: corpusDocuments.title,
+        sourceType: corpusDocuments.sourceType,
+        sourceUrl: corpusDocuments.sourceUrl,
+        company: corpusDocuments.company,
+        distance,
+      })
+      .from(corpusChunks)
+      .innerJoin(corpusDocuments, eq(corpusChunks.documentId, corpusDocuments.id))
+      .where(and(...conditions))
+      .orderBy(distance)
+      .limit(filters.k);
+
+    return rows.map(({ distance, ...row }) => ({ ...row, score: 1 - Number(distance) }));
+  }
+
+  // Conversation methods
+  async getConversations(userId: string): Promise<Conversation[]> {
+    return await db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.userId, userId))
+      .orderBy(desc(conversations.updatedAt));
+  }
+
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    const [conversation] = await db.select().from(conversations).where(eq(conversations.id, id));
+    return conversation;
+  }
+
+  async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
+    const [conversation] = await db.insert(conversations).values(insertConversation).returning();
+    return conversation;
+  }
+
+  async updateConversation(id: string, updates: Partial<InsertConversation>): Promise<Conversation> {
+    const [conversation] = await db
+      .update(conversations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(conversations.id, id))
+      .returning();
+    return conversation;
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    await db.delete(conversations).where(eq(conversations.id, id));
+  }
+
+  async getMessages(conversationId: string): Promise<Message[]> {
+    return await db
+      .select()
+      .from(messages)
+      .where(eq(messages.conversationId, conversationId))
+      .orderBy(messages.createdAt);
+  }
+
+  async createMessage(insertMessage: InsertMessage): Promise<Message> {
+    const [message] = await db.insert(messages).values(insertMessage).returning();
+    return message;
+  }
+
+  async createPendingAction(insertAction: InsertAgentPendingAction): Promise<AgentPendingAction> {
+    const [action] = await db.insert(agentPendingActions).values(insertAction).returning();
+    return action;
+  }
+
+  // Moves a still-pending, unexpired action owned by the user to its final status in
+  // one statement, so a token can only ever be confirmed once
+  async resolvePendingAction(
+    id: string,
+    userId: string,
+    status: "confirmed" | "cancelled"
+  ): Promise<AgentPendingAction | undefined> {
+    const [action] = await db
+      .update(agentPendingActions)
+      .set({ status, resolvedAt: new Date() })
+      .where(
+        and(
+          eq(agentPendingActions.id, id),
+          eq(agentPendingActions.userId, userId),
+          eq(agentPendingActions.status, "pending"),
+          gt(agentPendingActions.expiresAt, new Date())
+        )
+      )
+      .returning();
+    return action;
+  }
+
+  // Job methods
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async updateJob(id: string, updates: Partial<InsertJob>): Promise<Job> {
+    const [job] = await db
+      .update(jobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  // Locks the oldest due job, or one whose worker stopped heartbeating, so
+  // concurrent workers never pick up the same row
+  async claimNextJob(types: string[], staleBefore: Date): Promise<Job | undefined> {
+    if (types.length === 0) return undefined;
+
+    const next = sql`(
+      SELECT ${jobs.id} FROM ${jobs}
+      WHERE ${inArray(jobs.type, types)}
+        AND ((${jobs.status} = 'queued' AND ${jobs.runAt} <= now())
+          OR (${jobs.status} = 'running' AND ${jobs.lockedAt} < ${staleBefore}))
+      ORDER BY ${jobs.runAt}
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )`;
+
+    const [job] = await db
+      .update(jobs)
+      .set({
+        status: "running",
+        attempts: sql`${jobs.attempts} + 1`,
+        lockedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(jobs.id, next))
+      .returning();
+    return job;
+  }
+
+  // Search methods
+  async searchContent(
+    query: string,
+    filters: { accountIds?: string[]; types?: SearchSourceType[]; limit: number }
+  ): Promise<ContentSearchHit[]> {
+    if (filters.accountIds && filters.accountIds.length === 0) return [];
+
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const scoped = (column: AnyPgColumn) =>
+      filters.accountIds ? sql`AND ${inArray(column, filters.accountIds)}` : sql``;
+
+    const sources: Record<SearchSourceType, () => SQL> = {
+      transcript: () => {
+        const vector = textSearchVector(transcripts.content);
+        return sql`SELECT 'transcript' AS type, ${transcripts.id} AS id, ${transcripts.accountId} AS account_id, ${transcripts.id} AS transcript_id,
+          'Meeting transcript' AS title, ${transcripts.content} AS body,
+          ts_rank(${vector}, ${tsQuery}) AS rank, ${transcripts.createdAt} AS created_at
+          FROM ${transcripts} WHERE ${vector} @@ ${tsQuery} ${scoped(transcripts.accountId)}`;
+      },
+      framework_note: () => {
+        const vector = jsonSearchVector(frameworkNotes.content);
+        return sql`SELECT 'framework_note' AS type, ${frameworkNotes.id} AS id, ${frameworkNotes.accountId} AS account_id, ${frameworkNotes.transcriptId} AS transcript_id,
+          ${frameworkNotes.framework}::text || ' notes' AS title, ${jsonSearchText(frameworkNotes.content)} AS body,
+          ts_rank(${vector}, ${tsQuery}) AS rank, ${frameworkNotes.createdAt} AS created_at
+          FROM ${frameworkNotes} WHERE ${vector} @@ ${tsQuery} ${scoped(frameworkNotes.accountId)}`;
+      },
+      artifact: () => {
+        const vector = sql`${textSearchVector(artifacts.title, artifacts.summary)} || ${jsonSearchVector(artifacts.content)}`;
+        return sql`SELECT 'artifact' AS type, ${artifacts.id} AS id, ${artifacts.accountId} AS account_id, NULL::uuid AS transcript_id,
+          ${artifacts.title} AS title, coalesce(${artifacts.summary}, '') || ' ' || ${jsonSearchText(artifacts.content)} AS body,
+          ts_rank(${vector}, ${tsQuery}) AS rank, ${artifacts.createdAt} AS created_at
+          FROM ${artifacts} WHERE ${vector} @@ ${tsQuery} ${scoped(artifacts.accountId)}`;
+      },
+      research: () => {
+        const vector = sql`${textSearchVector(companyResearch.query)} || ${jsonSearchVector(companyResearch.results)}`;
+        return sql`SELECT 'research' AS type, ${companyResearch.id} AS id, ${companyResearch.accountId} AS account_id, NULL::uuid AS transcript_id,
+          'Research: ' || ${companyResearch.query} AS title, ${jsonSearchText(companyResearch.results)} AS body,
+          ts_rank(${vector}, ${tsQuery}) AS rank, ${companyResearch.createdAt} AS created_at
+          FROM ${companyResearch} WHERE ${vector} @@ ${tsQuery} ${scoped(companyResearch.accountId)}`;
+      },
+    };
+
+    const types = filters.types && filters.types.length > 0
+      ? filters.types
+      : (Object.keys(sources) as SearchSourceType[]);
+    const union = sql.join(types.map(type => sources[type]()), sql` UNION ALL `);
+
+    // Rank first, then build headlines only for the rows we return
+    const result = await db.execute<{
+      type: SearchSourceType;
+      id: string;
+      account_id: string;
+      transcript_id: string | null;
+      title: string;
+      excerpt: string;
+      headline: string;
+      rank: number;
+      created_at: string | null;
+    }>(sql`
+      SELECT type, id, account_id, transcript_id, title, left(body, 2000) AS excerpt, rank, created_at,
+        ts_headline('english', body, ${tsQuery},
+          ${`StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_END}", MaxFragments=2, MinWords=8, MaxWords=25, FragmentDelimiter=" … "`}) AS headline
+      FROM (${union} ORDER BY rank DESC LIMIT ${filters.limit}) AS hits
+      ORDER BY rank DESC
+    `);
+
+    return result.rows.map(row => ({
+      type: row.type,
+      id: row.id,
+      accountId: row.account_id,
+      transcriptId: row.transcript_id,
+      title: row.title,
+      excerpt: row.excerpt,
+      headline: row.headline,
+      rank: Number(row.rank),
+      createdAt: row.created_at ? new Date(row.created_at) : null,
+    }));
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,82 @@
+import { z } from "zod";
+
+export const FOLLOW_UP_CHANNELS = ["email", "inmail"] as const;
+export const FOLLOW_UP_TONES = ["warm", "professional", "direct"] as const;
+export const FOLLOW_UP_LENGTHS = ["short", "standard", "detailed"] as const;
+
+export type FollowUpChannel = (typeof FOLLOW_UP_CHANNELS)[number];
+export type FollowUpTone = (typeof FOLLOW_UP_TONES)[number];
+export type FollowUpLength = (typeof FOLLOW_UP_LENGTHS)[number];
+
+// Something either side agreed to on the call, with the transcript turns (1-based,
+// as in "[T12]") where it was said
+export const followUpCommitmentSchema = z.object({
+  owner: z.enum(["us", "customer"]),
+  text: z.string().min(1),
+  turns: z.array(z.number().int().positive()),
+});
+
+export type FollowUpCommitment = z.infer<typeof followUpCommitmentSchema>;
+
+// Content of a FollowUpEmail artifact
+export interface FollowUpDraftContent {
+  channel: FollowUpChannel;
+  tone: FollowUpTone;
+  length: FollowUpLength;
+  transcriptId: string;
+  subject: string;
+  body: string;
+  commitments: FollowUpCommitment[];
+}
+
+const OWNER_LABELS: Record<FollowUpCommitment["owner"], string> = {
+  us: "Us",
+  customer: "Customer",
+};
+
+export function formatCommitment(commitment: FollowUpCommitment): string {
+  const citation = commitment.turns.length > 0 ? ` [${commitment.turns.map(turn => `T${turn}`).join(", ")}]` : "";
+  return `${OWNER_LABELS[commitment.owner]}: ${commitment.text}${citation}`;
+}
+
+// "Subject: ..." then the body, then one "- Owner: text [T12]" line per commitment
+export function formatFollowUpDraft(content: unknown): string {
+  if (typeof content === "string") return content;
+
+  const draft = content as Partial<FollowUpDraftContent>;
+  const sections = [`Subject: ${draft.subject ?? ""}`, draft.body ?? ""];
+  if (draft.commitments?.length) {
+    sections.push(`Commitments:\n${draft.commitments.map(commitment => `- ${formatCommitment(commitment)}`).join("\n")}`);
+  }
+  return sections.join("\n\n");
+}
+
+// Inverse of formatFollowUpDraft. Channel, tone, length and transcript come from the
+// draft being edited.
+export function parseFollowUpDraftText(text: string, previous: FollowUpDraftContent): FollowUpDraftContent {
+  let rest = text.replace(/\r\n/g, "\n").trim();
+  let subject = previous.subject;
+  const subjectMatch = rest.match(/^Subject:[ \t]*(.*)(\n|$)/);
+  if (subjectMatch) {
+    subject = subjectMatch[1].trim();
+    rest = rest.slice(subjectMatch[0].length).trim();
+  }
+
+  const commitments: FollowUpCommitment[] = [];
+  const commitmentsAt = rest.search(/(^|\n)Commitments:[ \t]*(\n|$)/);
+  if (commitmentsAt !== -1) {
+    const lines = rest.slice(commitmentsAt).split("\n").slice(rest[commitmentsAt] === "\n" ? 2 : 1);
+    rest = rest.slice(0, commitmentsAt).trim();
+    for (const line of lines) {
+      const match = line.match(/^\s*-\s*(?:(Us|Customer):\s*)?(.*?)\s*(?:\[(T\d+(?:,\s*T\d+)*)\])?\s*$/i);
+      if (!match || !match[2]) continue;
+      commitments.push({
+        owner: match[1]?.toLowerCase() === "customer" ? "customer" : "us",
+        text: match[2],
+        turns: match[3] ? match[3].split(/,\s*/).map(ref => Number(ref.slice(1))) : [],
+      });
+    }
+  }
+
+  return { ...previous, subject, body: rest, commitments };
+}
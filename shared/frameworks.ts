@@ -0,0 +1,245 @@
+import { z } from "zod";
+
+// Bump when a framework's fields change so stored notes can be told apart
+export const FRAMEWORK_SCHEMA_VERSION = 1;
+
+export const FRAMEWORK_UNKNOWN = "Unknown (not mentioned)";
+
+export const FRAMEWORK_NAMES = ["Qual-LTS", "Qual-LSS", "VEF", "MEDDPICC", "BANT", "LicenseDemandPlan"] as const;
+export type FrameworkName = (typeof FRAMEWORK_NAMES)[number];
+
+export interface FrameworkField {
+  key: string;
+  label: string;
+  description: string;
+  list?: boolean; // Stored as an array of strings instead of a single string
+  aliases?: string[]; // Other names models have used for this field
+}
+
+export const FRAMEWORK_FIELDS: Record<FrameworkName, FrameworkField[]> = {
+  "Qual-LSS": [
+    { key: "date", label: "Date", description: "Date of the meeting" },
+    { key: "accountName", label: "Account Name", description: "Customer company name" },
+    { key: "attendees", label: "Attendees", description: "One entry per attendee as \"Name, Role, Company\"", list: true },
+    { key: "salesOrgStructure", label: "Sales Org Structure", description: "Roles and headcount in the sales organisation" },
+    { key: "idealBuyerPersonas", label: "Ideal Buyer Personas", description: "Who the customer sells to" },
+    { key: "totalAddressableMarket", label: "Total Addressable Market", description: "Size of the customer's market" },
+    { key: "crm", label: "CRM", description: "CRM system in use" },
+    { key: "otherSalesSystemsTools", label: "Other Sales Systems & Tools", description: "Other sales tooling", aliases: ["otherSalesSystemsAndTools"] },
+    { key: "salesProcess", label: "Sales Process", description: "How the customer runs their sales cycle" },
+    { key: "averageDealSize", label: "Average Deal Size", description: "Typical deal value" },
+    { key: "averageSalesCycle", label: "Average Sales Cycle", description: "Typical cycle length" },
+    { key: "salesNavigatorUseCases", label: "Sales Navigator Use Cases", description: "How Sales Navigator would be used" },
+  ],
+  "Qual-LTS": [
+    { key: "overallImpressionOfOpportunity", label: "Overall Impression of Opportunity", description: "Seller's read on the opportunity" },
+    { key: "firstImpressionsOfPOCLead", label: "First Impressions of POC/Lead", description: "Impression of the point of contact", aliases: ["firstImpressionsOfPocLead", "firstImpressionsOfPOC"] },
+    { key: "generalCompanyInfo", label: "General Company Info", description: "What the company does" },
+    { key: "numberOfEmployees", label: "Nº of Employees", description: "Employee headcount", aliases: ["noOfEmployees", "employees"] },
+    { key: "knowledgeAboutLinkedIn", label: "Knowledge about LinkedIn", description: "Past use of Premium, Lite or CORP" },
+  ],
+  VEF: [
+    { key: "customersPressures", label: "Customer's Pressures", description: "Business pressures and their impact", aliases: ["pressures"] },
+    { key: "customersObjectives", label: "Customer's Objectives", description: "Stated goals and desired outcomes", aliases: ["objectives"] },
+    { key: "customersChallenges", label: "Customer's Challenges", description: "Obstacles to the objectives", aliases: ["challenges"] },
+    { key: "linkedInSolutions", label: "LinkedIn's Solutions", description: "LinkedIn products discussed as solutions" },
+    { key: "linkedInExperience", label: "LinkedIn's Experience", description: "Relevant case studies or experience shared" },
+    { key: "linkedInUniqueValue", label: "LinkedIn's Unique Value", description: "Differentiated value versus alternatives" },
+  ],
+  MEDDPICC: [
+    { key: "metrics", label: "Metrics", description: "Quantifiable success measures and baselines" },
+    { key: "economicBuyer", label: "Economic Buyer", description: "Person with budget authority" },
+    { key: "decisionCriteria", label: "Decision Criteria", description: "How options will be evaluated" },
+    { key: "decisionProcess", label: "Decision Process", description: "Steps, timeline and people in the decision" },
+    { key: "paperProcess", label: "Paper Process", description: "Legal, procurement and contract steps" },
+    { key: "identifiedPain", label: "Identified Pain", description: "Business pain and the cost of inaction", aliases: ["identifyPain", "pain", "implicatePain"] },
+    { key: "champion", label: "Champion", description: "Internal advocate and why they support us" },
+    { key: "competition", label: "Competition", description: "Competing vendors or alternatives" },
+  ],
+  BANT: [
+    { key: "budget", label: "Budget", description: "Budget amounts, cycles and approvals" },
+    { key: "authority", label: "Authority", description: "Decision makers and approval workflow" },
+    { key: "need", label: "Need", description: "Business need and urgency" },
+    { key: "timeline", label: "Timeline", description: "Dates and deadlines for decision or start" },
+  ],
+  LicenseDemandPlan: [
+    { key: "customersProgramTeam", label: "Customer's Program Team", description: "One entry per role as \"Role: Name, Title, Company\"", list: true, aliases: ["programTeam"] },
+    { key: "customersMeasurementGoals", label: "Customer's Measurement Goals", description: "SMART metrics explicitly mentioned only", aliases: ["measurementGoals"] },
+    { key: "purchasedLicenseDistributionPlan", label: "Purchased License Distribution Plan", description: "One entry per row as \"Role | Business Unit | Geography | Sales Leader | Group Owner | Headcount | Number of Licenses\"", list: true, aliases: ["licenseDistributionPlan"] },
+  ],
+};
+
+// Set on notes generated while the model was unavailable
+const errorNoteSchema = z.string().optional();
+
+function buildFrameworkSchema(fields: FrameworkField[]) {
+  const shape: Record<string, z.ZodTypeAny> = { errorNote: errorNoteSchema };
+  for (const field of fields) {
+    shape[field.key] = field.list ? z.array(z.string().min(1)) : z.string().min(1);
+  }
+  return z.object(shape);
+}
+
+export const frameworkNotesSchemas = Object.fromEntries(
+  FRAMEWORK_NAMES.map(name => [name, buildFrameworkSchema(FRAMEWORK_FIELDS[name])])
+) as Record<FrameworkName, z.ZodObject<Record<string, z.ZodTypeAny>>>;
+
+export type FrameworkNotesContent = Record<string, string | string[] | undefined>;
+
+// A verbatim transcript excerpt backing one field; offsets index into transcripts.content
+// and turnIndex into transcripts.turns (absent on evidence saved before turns were stored)
+export const fieldEvidenceSchema = z.object({
+  quote: z.string(),
+  speaker: z.string().nullable(),
+  start: z.number().int().min(0),
+  end: z.number().int().min(0),
+  turnIndex: z.number().int().min(0).nullable().optional(),
+});
+
+export type FieldEvidence = z.infer<typeof fieldEvidenceSchema>;
+export type FrameworkEvidence = Record<string, FieldEvidence[]>;
+
+export function isFrameworkName(value: string): value is FrameworkName {
+  return (FRAMEWORK_NAMES as readonly string[]).includes(value);
+}
+
+export function isFrameworkFieldKnown(value: unknown): boolean {
+  if (Array.isArray(value)) return value.some(isFrameworkFieldKnown);
+  return typeof value === "string" &&
+    value.trim() !== "" &&
+    !/unknown \(|not mentioned/i.test(value);
+}
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export function findFrameworkField(framework: FrameworkName, key: string): FrameworkField | undefined {
+  return findField(FRAMEWORK_FIELDS[framework], key);
+}
+
+function findField(fields: FrameworkField[], key: string): FrameworkField | undefined {
+  const normalized = normalizeKey(key).replace(/^\d+/, "");
+  return fields.find(field =>
+    [field.key, field.label, ...(field.aliases || [])].some(name => normalizeKey(name) === normalized)
+  );
+}
+
+function valueToText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value.trim();
+  if (Array.isArray(value)) return value.map(valueToText).filter(Boolean).join("\n");
+  if (typeof value === "object") {
+    return Object.entries(value as Record<string, unknown>)
+      .map(([key, item]) => `${key}: ${valueToText(item)}`)
+      .join(", ");
+  }
+  return String(value);
+}
+
+function valueToList(value: unknown): string[] {
+  if (value === null || value === undefined) return [];
+  if (Array.isArray(value)) return value.map(valueToText).filter(Boolean);
+  if (typeof value === "object") {
+    return Object.entries(value as Record<string, unknown>).map(([key, item]) => `${key}: ${valueToText(item)}`);
+  }
+  const text = valueToText(value);
+  return text ? text.split(/\n+/).map(item => item.replace(/^[-*•]\s*/, "").trim()).filter(Boolean) : [];
+}
+
+// Maps label-style or aliased keys onto schema keys and coerces value shapes. Fields
+// that are still missing are left out unless fillMissing is set, so validation can
+// report them back to the model.
+export function repairFrameworkNotes(
+  framework: FrameworkName,
+  raw: unknown,
+  options: { fillMissing?: boolean } = {}
+): FrameworkNotesContent {
+  const fields = FRAMEWORK_FIELDS[framework];
+  const source = raw && typeof raw === "object" && !Array.isArray(raw) ? raw as Record<string, unknown> : {};
+  // Models sometimes wrap the answer, e.g. { "MEDDPICC": { ... } } or { "notes": { ... } }
+  const values = Object.keys(source).length === 1 && typeof Object.values(source)[0] === "object" && !findField(fields, Object.keys(source)[0])
+    ? Object.values(source)[0] as Record<string, unknown>
+    : source;
+
+  const repaired: FrameworkNotesContent = {};
+  for (const [key, value] of Object.entries(values || {})) {
+    if (key === "errorNote" && typeof value === "string") {
+      repaired.errorNote = value;
+      continue;
+    }
+    const field = findField(fields, key);
+    if (!field) continue;
+
+    if (field.list) {
+      const list = valueToList(value);
+      if (list.length > 0) repaired[field.key] = list;
+    } else {
+      const text = valueToText(value);
+      if (text) repaired[field.key] = text;
+    }
+  }
+
+  if (options.fillMissing) {
+    for (const field of fields) {
+      if (repaired[field.key] === undefined) {
+        repaired[field.key] = field.list ? [FRAMEWORK_UNKNOWN] : FRAMEWORK_UNKNOWN;
+      }
+    }
+  }
+  return repaired;
+}
+
+export function validateFrameworkNotes(framework: FrameworkName, content: unknown) {
+  return frameworkNotesSchemas[framework].safeParse(content);
+}
+
+// Reads notes regardless of when they were written: current content passes through,
+// older label-keyed content is mapped onto the schema keys
+export function normalizeFrameworkNotes(framework: string, content: unknown): FrameworkNotesContent {
+  if (!isFrameworkName(framework)) return {};
+  if (typeof content === "string") {
+    return parseFrameworkNotesText(framework, content);
+  }
+  return repairFrameworkNotes(framework, content);
+}
+
+// Plain-text rendering used for display, editing, copying and exports
+export function formatFrameworkNotes(framework: FrameworkName, content: unknown): string {
+  if (typeof content === "string") return content;
+
+  const notes = repairFrameworkNotes(framework, content);
+  const sections = FRAMEWORK_FIELDS[framework]
+    .filter(field => notes[field.key] !== undefined)
+    .map(field => {
+      const value = notes[field.key]!;
+      return `${field.label}: ${Array.isArray(value) ? value.join("; ") : value}`;
+    });
+  if (notes.errorNote) sections.push(`Note: ${notes.errorNote}`);
+  return sections.join("\n\n");
+}
+
+// Inverse of formatFrameworkNotes: splits "Label: value" sections back into fields
+export function parseFrameworkNotesText(framework: FrameworkName, text: string): FrameworkNotesContent {
+  const fields = FRAMEWORK_FIELDS[framework];
+  const raw: Record<string, string> = {};
+  let currentKey: string | undefined;
+
+  for (const line of text.split("\n")) {
+    const match = line.match(/^([^:]{1,80}):\s*(.*)$/);
+    const field = match ? findField(fields, match[1]) : undefined;
+    if (match && field) {
+      currentKey = field.key;
+      raw[currentKey] = match[2];
+    } else if (currentKey && line.trim()) {
+      raw[currentKey] += `\n${line}`;
+    }
+  }
+
+  const repaired = repairFrameworkNotes(framework, raw);
+  for (const field of fields) {
+    const value = repaired[field.key];
+    if (field.list && Array.isArray(value) && value.length === 1) {
+      repaired[field.key] = value[0].split(/;\s*/).filter(Boolean);
+    }
+  }
+  return repaired;
+}
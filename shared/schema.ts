@@ -6,15 +6,22 @@ import {
   timestamp,
   integer,
   boolean,
+  numeric,
   jsonb,
   pgEnum,
   uuid,
-  index
+  index,
+  uniqueIndex,
+  unique,
+  customType,
+  type AnyPgColumn
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
 import session from "express-session";
+import { fieldEvidenceSchema, type FrameworkEvidence, type FrameworkNotesContent } from "./frameworks";
+import { FOLLOW_UP_CHANNELS, FOLLOW_UP_LENGTHS, FOLLOW_UP_TONES } from "./follow-ups";
 
 // Session storage table (required for auth)
 export const sessions = pgTable(
@@ -27,6 +34,37 @@ export const sessions = pgTable(
   (table) => [index("IDX_session_expire").on(table.expire)]
 );
 
+// User roles, from least to most privileged
+export const USER_ROLES = ["sdr", "ae", "manager", "admin"] as const;
+export const userRoleSchema = z.enum(USER_ROLES);
+export const USER_ROLE_LABELS: Record<typeof USER_ROLES[number], string> = {
+  sdr: "Sales Development Rep",
+  ae: "Account Executive",
+  manager: "Sales Manager",
+  admin: "Administrator",
+};
+
+// Full-text search documents. Search queries must build the same expressions so
+// Postgres can use the GIN indexes declared on each table.
+export const textSearchVector = (...columns: AnyPgColumn[]) =>
+  sql`to_tsvector('english', ${sql.join(columns.map(column => sql`coalesce(${column}, '')`), sql` || ' ' || `)})`;
+export const jsonSearchVector = (column: AnyPgColumn) =>
+  sql`jsonb_to_tsvector('english', ${column}, '["string"]')`;
+
+// pgvector column without a fixed dimension, since each embedding provider has its own size.
+// Requires `CREATE EXTENSION IF NOT EXISTS vector` on the database.
+export const embeddingVector = customType<{ data: number[]; driverData: string }>({
+  dataType() {
+    return "vector";
+  },
+  toDriver(value) {
+    return `[${value.join(",")}]`;
+  },
+  fromDriver(value) {
+    return value.slice(1, -1).split(",").map(Number);
+  },
+});
+
 // Users table
 export const users = pgTable("users", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -36,6 +74,13 @@ export const users = pgTable("users", {
   firstName: varchar("first_name", { length: 255 }),
   lastName: varchar("last_name", { length: 255 }),
   role: varchar("role", { length: 50 }).default("sdr"),
+  managerId: uuid("manager_id").references((): AnyPgColumn => users.id),
+  // Scheduling preferences for generated NBA due dates, in the user's own time zone
+  timeZone: varchar("time_zone", { length: 64 }), // IANA zone; null until set, when the browser's zone is used
+  workdayStart: varchar("workday_start", { length: 5 }).notNull().default("09:00"),
+  workdayEnd: varchar("workday_end", { length: 5 }).notNull().default("17:00"),
+  workingDays: integer("working_days").array().notNull().default(sql`'{1,2,3,4,5}'`), // 0 = Sunday
+  maxNbasPerDay: integer("max_nbas_per_day").notNull().default(5),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -59,9 +104,54 @@ export const artifactTypeEnum = pgEnum("artifact_type", [
   "VEF", 
   "MEDDPICC", 
   "BANT", 
-  "LicenseDemandPlan"
+  "LicenseDemandPlan",
+  "FollowUpEmail"
+]);
+export const contactRoleEnum = pgEnum("contact_role", [
+  "Economic Buyer",
+  "Champion",
+  "Influencer",
+  "Blocker",
+  "Decision Maker",
+  "User"
+]);
+export const teamMemberRoleEnum = pgEnum("team_member_role", ["lead", "member"]);
+export const collaboratorRoleEnum = pgEnum("collaborator_role", ["viewer", "editor"]);
+export const corpusSourceTypeEnum = pgEnum("corpus_source_type", [
+  "battlecard",
+  "case_study",
+  "research",
+  "web_page",
+  "pdf",
+  "document"
+]);
+export const messageRoleEnum = pgEnum("message_role", ["user", "assistant"]);
+export const jobStatusEnum = pgEnum("job_status", ["queued", "running", "succeeded", "failed"]);
+export const pendingActionStatusEnum = pgEnum("pending_action_status", ["pending", "confirmed", "cancelled"]);
+export const recordHistoryReasonEnum = pgEnum("record_history_reason", ["superseded", "rejected"]);
+export const revisionSourceEnum = pgEnum("revision_source", ["ai", "user", "restore"]);
+export const cadenceChannelEnum = pgEnum("cadence_channel", ["inmail", "email", "call"]);
+export const cadenceEnrollmentStatusEnum = pgEnum("cadence_enrollment_status", ["active", "paused"]);
+export const notificationKindEnum = pgEnum("notification_kind", ["nba_due_soon", "nba_overdue", "nba_unblocked"]);
+export const opportunityStageEnum = pgEnum("opportunity_stage", [
+  "Discovery",
+  "Qualification",
+  "Proposal",
+  "Negotiation",
+  "Closed Won",
+  "Closed Lost"
 ]);
 
+// Default win probability per stage, used for the weighted forecast
+export const STAGE_PROBABILITIES: Record<(typeof opportunityStageEnum.enumValues)[number], number> = {
+  "Discovery": 0.1,
+  "Qualification": 0.25,
+  "Proposal": 0.5,
+  "Negotiation": 0.75,
+  "Closed Won": 1,
+  "Closed Lost": 0,
+};
+
 // Accounts table
 export const accounts = pgTable("accounts", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -86,18 +176,23 @@ export const companyResearch = pgTable("company_research", {
   sources: jsonb("sources").notNull(),
   createdBy: uuid("created_by").references(() => users.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_company_research_search").using("gin", sql`${textSearchVector(table.query)} || ${jsonSearchVector(table.results)}`),
+]);
 
 // Meeting Transcripts table
 export const transcripts = pgTable("transcripts", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   accountId: uuid("account_id").references(() => accounts.id).notNull(),
   content: text("content").notNull(),
+  turns: jsonb("turns").$type<TranscriptTurn[]>(), // Parsed speaker turns; null for transcripts saved before turns were stored
   speakerCount: integer("speaker_count"),
   wordCount: integer("word_count"),
   createdBy: uuid("created_by").references(() => users.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_transcripts_search").using("gin", textSearchVector(table.content)),
+]);
 
 // Framework Notes table
 export const frameworkNotes = pgTable("framework_notes", {
@@ -106,10 +201,61 @@ export const frameworkNotes = pgTable("framework_notes", {
   accountId: uuid("account_id").references(() => accounts.id).notNull(),
   framework: frameworkEnum("framework").notNull(),
   content: jsonb("content").notNull(),
+  schemaVersion: integer("schema_version"), // FRAMEWORK_SCHEMA_VERSION the content was validated against; null for legacy notes
+  evidence: jsonb("evidence").$type<FrameworkEvidence>(), // Supporting transcript quotes keyed by content field
   createdBy: uuid("created_by").references(() => users.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_framework_notes_search").using("gin", jsonSearchVector(table.content)),
+]);
+
+// Account-level "living" framework notes, merged from every processed call
+export const accountFrameworkRecords = pgTable("account_framework_records", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  accountId: uuid("account_id").references(() => accounts.id, { onDelete: "cascade" }).notNull(),
+  framework: frameworkEnum("framework").notNull(),
+  content: jsonb("content").$type<FrameworkNotesContent>().notNull().default({}),
+  fields: jsonb("fields").$type<Record<string, RecordFieldState>>().notNull().default({}), // Source, evidence and open conflict per field
+  lastChanges: jsonb("last_changes").$type<RecordFieldChange[]>().notNull().default([]), // What the most recent call changed
+  mergedNotesIds: jsonb("merged_notes_ids").$type<string[]>().notNull().default([]), // Makes merging a call's notes idempotent
+  lastTranscriptId: uuid("last_transcript_id").references(() => transcripts.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_account_framework_records_account_framework").on(table.accountId, table.framework),
+]);
+
+// Values a record no longer shows: replaced by a later call or by the rep, or a
+// contradicting value the rep turned down
+export const accountFrameworkHistory = pgTable("account_framework_history", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  recordId: uuid("record_id").references(() => accountFrameworkRecords.id, { onDelete: "cascade" }).notNull(),
+  field: varchar("field", { length: 100 }).notNull(),
+  value: jsonb("value").$type<string | string[]>().notNull(),
+  reason: recordHistoryReasonEnum("reason").notNull(),
+  sourceNotesId: uuid("source_notes_id").references(() => frameworkNotes.id, { onDelete: "set null" }),
+  sourceTranscriptId: uuid("source_transcript_id").references(() => transcripts.id, { onDelete: "set null" }),
+  resolvedBy: uuid("resolved_by").references(() => users.id), // Set when the rep settled a conflict; null when a later call superseded it
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_account_framework_history_record").on(table.recordId, table.createdAt),
+]);
+
+// Every saved state of a framework note, from the generated draft through each edit
+export const frameworkNoteRevisions = pgTable("framework_note_revisions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  notesId: uuid("notes_id").references(() => frameworkNotes.id, { onDelete: "cascade" }).notNull(),
+  revision: integer("revision").notNull(), // 1 for the first saved state, then counting up
+  content: jsonb("content").notNull(),
+  evidence: jsonb("evidence").$type<FrameworkEvidence>(),
+  source: revisionSourceEnum("source").notNull(),
+  restoredFrom: integer("restored_from"), // Revision a restore copied
+  changedBy: uuid("changed_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_framework_note_revisions_notes_revision").on(table.notesId, table.revision),
+]);
 
 // Next Best Actions table
 export const nextBestActions = pgTable("next_best_actions", {
@@ -126,10 +272,41 @@ export const nextBestActions = pgTable("next_best_actions", {
   userTimeZone: varchar("user_time_zone", { length: 50 }),
   accountTimeZone: varchar("account_time_zone", { length: 50 }),
   link: varchar("link", { length: 500 }),
+  parentId: uuid("parent_id").references((): AnyPgColumn => nextBestActions.id, { onDelete: "cascade" }), // Set on subtasks
   createdBy: uuid("created_by").references(() => users.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_next_best_actions_parent").on(table.parentId),
+]);
+
+// An NBA is blocked until every NBA it depends on is completed
+export const nbaDependencies = pgTable("nba_dependencies", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  nbaId: uuid("nba_id").references(() => nextBestActions.id, { onDelete: "cascade" }).notNull(),
+  dependsOnId: uuid("depends_on_id").references(() => nextBestActions.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_nba_dependencies_nba_depends_on").on(table.nbaId, table.dependsOnId),
+  index("IDX_nba_dependencies_depends_on").on(table.dependsOnId),
+]);
+
+// In-app notification feed; the same notifications go to any configured email or webhook channel
+export const notifications = pgTable("notifications", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  kind: notificationKindEnum("kind").notNull(),
+  title: varchar("title", { length: 500 }).notNull(),
+  body: text("body"),
+  link: varchar("link", { length: 500 }),
+  accountId: uuid("account_id").references(() => accounts.id, { onDelete: "cascade" }),
+  nbaId: uuid("nba_id").references(() => nextBestActions.id, { onDelete: "cascade" }),
+  dedupeKey: varchar("dedupe_key", { length: 255 }).notNull().unique(), // One notification per NBA, kind, lead time and due date
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_notifications_user").on(table.userId, table.createdAt),
+]);
 
 // Artifacts table
 export const artifacts = pgTable("artifacts", {
@@ -142,16 +319,280 @@ export const artifacts = pgTable("artifacts", {
   createdBy: uuid("created_by").references(() => users.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_artifacts_search").using("gin", sql`${textSearchVector(table.title, table.summary)} || ${jsonSearchVector(table.content)}`),
+]);
+
+// Every saved state of an artifact
+export const artifactRevisions = pgTable("artifact_revisions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  artifactId: uuid("artifact_id").references(() => artifacts.id, { onDelete: "cascade" }).notNull(),
+  revision: integer("revision").notNull(),
+  title: varchar("title", { length: 500 }).notNull(),
+  content: jsonb("content").notNull(),
+  summary: text("summary"),
+  source: revisionSourceEnum("source").notNull(),
+  restoredFrom: integer("restored_from"),
+  changedBy: uuid("changed_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_artifact_revisions_artifact_revision").on(table.artifactId, table.revision),
+]);
+
+// Contacts table (stakeholders on an account)
+export const contacts = pgTable("contacts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  accountId: uuid("account_id").references(() => accounts.id).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  title: varchar("title", { length: 255 }),
+  company: varchar("company", { length: 255 }),
+  email: varchar("email", { length: 255 }),
+  linkedinUrl: varchar("linkedin_url", { length: 500 }),
+  roles: contactRoleEnum("roles").array().notNull().default(sql`'{}'`),
+  notes: text("notes"),
+  source: varchar("source", { length: 50 }).default("manual"),
+  sourceTranscriptId: uuid("source_transcript_id").references(() => transcripts.id),
+  createdBy: uuid("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_contacts_account").on(table.accountId)]);
+
+// Reusable outreach sequences, e.g. InMail on day 1, email on day 3 and a call on day 5
+export const cadenceTemplates = pgTable("cadence_templates", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  lob: lobEnum("lob"), // Unset for templates that suit either business line
+  createdBy: uuid("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const cadenceSteps = pgTable("cadence_steps", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateId: uuid("template_id").references(() => cadenceTemplates.id, { onDelete: "cascade" }).notNull(),
+  position: integer("position").notNull(),
+  channel: cadenceChannelEnum("channel").notNull(),
+  delayDays: integer("delay_days").notNull().default(0), // Days after the previous step, or after enrolment for the first
+  title: varchar("title", { length: 500 }).notNull(),
+  instructions: text("instructions"), // Guides the AI-drafted message
+}, (table) => [
+  uniqueIndex("IDX_cadence_steps_template_position").on(table.templateId, table.position),
+]);
+
+// A contact working through a template; each step becomes a touch with a dated NBA
+export const cadenceEnrollments = pgTable("cadence_enrollments", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateId: uuid("template_id").references(() => cadenceTemplates.id).notNull(),
+  accountId: uuid("account_id").references(() => accounts.id, { onDelete: "cascade" }).notNull(),
+  contactId: uuid("contact_id").references(() => contacts.id, { onDelete: "cascade" }).notNull(),
+  owner: uuid("owner").references(() => users.id).notNull(),
+  status: cadenceEnrollmentStatusEnum("status").notNull().default("active"),
+  pausedReason: text("paused_reason"),
+  pausedAt: timestamp("paused_at"),
+  userTimeZone: varchar("user_time_zone", { length: 50 }),
+  createdBy: uuid("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_cadence_enrollments_template_contact").on(table.templateId, table.contactId),
+  index("IDX_cadence_enrollments_account").on(table.accountId),
+]);
+
+// Steps are copied onto the touch so later template edits leave running enrolments alone
+export const cadenceTouches = pgTable("cadence_touches", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  enrollmentId: uuid("enrollment_id").references(() => cadenceEnrollments.id, { onDelete: "cascade" }).notNull(),
+  position: integer("position").notNull(),
+  channel: cadenceChannelEnum("channel").notNull(),
+  title: varchar("title", { length: 500 }).notNull(),
+  dayOffset: integer("day_offset").notNull(), // Days from the start of the sequence
+  subject: varchar("subject", { length: 500 }),
+  message: text("message").notNull(),
+  nbaId: uuid("nba_id").references(() => nextBestActions.id, { onDelete: "set null" }),
+  paused: boolean("paused").notNull().default(false), // Its NBA was withdrawn when the sequence paused
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_cadence_touches_enrollment_position").on(table.enrollmentId, table.position),
+]);
+
+// Opportunities table
+export const opportunities = pgTable("opportunities", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  accountId: uuid("account_id").references(() => accounts.id).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  lob: lobEnum("lob").notNull(),
+  amount: numeric("amount", { precision: 14, scale: 2 }).notNull().default("0"),
+  currency: varchar("currency", { length: 3 }).notNull().default("USD"),
+  expectedCloseDate: timestamp("expected_close_date"),
+  stage: opportunityStageEnum("stage").notNull().default("Discovery"),
+  probability: integer("probability"),
+  owner: uuid("owner").references(() => users.id).notNull(),
+  closedAt: timestamp("closed_at"),
+  createdBy: uuid("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_opportunities_account").on(table.accountId)]);
+
+// Opportunity stage history (append-only)
+export const opportunityStageHistory = pgTable("opportunity_stage_history", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  opportunityId: uuid("opportunity_id").references(() => opportunities.id).notNull(),
+  fromStage: opportunityStageEnum("from_stage"),
+  toStage: opportunityStageEnum("to_stage").notNull(),
+  changedBy: uuid("changed_by").references(() => users.id).notNull(),
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+}, (table) => [index("IDX_stage_history_opportunity").on(table.opportunityId)]);
+
+// Reference documents we own (battlecards, case studies, saved research, uploads)
+export const corpusDocuments = pgTable("corpus_documents", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: varchar("title", { length: 500 }).notNull(),
+  sourceType: corpusSourceTypeEnum("source_type").notNull(),
+  sourceUrl: varchar("source_url", { length: 1000 }),
+  company: varchar("company", { length: 255 }), // Company the document is about, if any
+  accountId: uuid("account_id").references(() => accounts.id), // Null means visible to everyone
+  mimeType: varchar("mime_type", { length: 100 }).notNull().default("text/plain"),
+  content: text("content").notNull(), // Extracted plain text, kept so documents can be re-chunked
+  contentHash: varchar("content_hash", { length: 64 }).notNull(),
+  metadata: jsonb("metadata"),
+  chunkCount: integer("chunk_count").notNull().default(0),
+  embeddingModel: varchar("embedding_model", { length: 100 }).notNull(),
+  createdBy: uuid("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // The same text may be ingested once per account, and once more for everyone
+  unique("IDX_corpus_documents_hash").on(table.contentHash, table.accountId).nullsNotDistinct(),
+  index("IDX_corpus_documents_account").on(table.accountId),
+]);
+
+export const corpusChunks = pgTable("corpus_chunks", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: uuid("document_id").references(() => corpusDocuments.id, { onDelete: "cascade" }).notNull(),
+  chunkIndex: integer("chunk_index").notNull(),
+  content: text("content").notNull(),
+  startOffset: integer("start_offset").notNull(), // Character offsets into corpusDocuments.content
+  endOffset: integer("end_offset").notNull(),
+  embedding: embeddingVector("embedding").notNull(),
+  embeddingModel: varchar("embedding_model", { length: 100 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_corpus_chunks_document").on(table.documentId),
+  index("IDX_corpus_chunks_model").on(table.embeddingModel),
+]);
+
+// Teams (e.g. an AE/SDR pod); leads see their members' records
+export const teams = pgTable("teams", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  createdBy: uuid("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const teamMembers = pgTable("team_members", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  teamId: uuid("team_id").references(() => teams.id, { onDelete: "cascade" }).notNull(),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  role: teamMemberRoleEnum("role").notNull().default("member"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_team_members_team_user").on(table.teamId, table.userId),
+  index("IDX_team_members_user").on(table.userId),
+]);
+
+// Users an account is shared with in addition to its assigned owner
+export const accountCollaborators = pgTable("account_collaborators", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  accountId: uuid("account_id").references(() => accounts.id, { onDelete: "cascade" }).notNull(),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  role: collaboratorRoleEnum("role").notNull().default("viewer"),
+  addedBy: uuid("added_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_account_collaborators_account_user").on(table.accountId, table.userId),
+  index("IDX_account_collaborators_user").on(table.userId),
+]);
+
+// Background work (e.g. transcript processing); workers claim rows with SKIP LOCKED
+export const jobs = pgTable("jobs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: varchar("type", { length: 100 }).notNull(),
+  status: jobStatusEnum("status").notNull().default("queued"),
+  payload: jsonb("payload").$type<Record<string, any>>().notNull(),
+  steps: jsonb("steps").$type<JobStep[]>().notNull().default([]), // Per-unit progress, e.g. one per framework
+  result: jsonb("result"),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").defaultNow().notNull(), // Pushed back after a failed attempt
+  lockedAt: timestamp("locked_at"),
+  accountId: uuid("account_id").references(() => accounts.id, { onDelete: "cascade" }),
+  createdBy: uuid("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("IDX_jobs_status_run_at").on(table.status, table.runAt),
+  index("IDX_jobs_account").on(table.accountId),
+]);
+
+// Agent chat threads; older turns are folded into `summary` to keep the context short
+export const conversations = pgTable("conversations", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  title: varchar("title", { length: 255 }).notNull(),
+  summary: text("summary"),
+  summarizedCount: integer("summarized_count").notNull().default(0), // Messages covered by the summary
+  activeAccountId: uuid("active_account_id").references(() => accounts.id, { onDelete: "set null" }), // Last account the thread resolved
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_conversations_user").on(table.userId, table.updatedAt)]);
+
+export const messages = pgTable("messages", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: uuid("conversation_id").references(() => conversations.id, { onDelete: "cascade" }).notNull(),
+  role: messageRoleEnum("role").notNull(),
+  content: text("content").notNull(),
+  intent: varchar("intent", { length: 50 }),
+  actionResults: jsonb("action_results").$type<AgentActionResult[]>(),
+  suggestedFollowUps: text("suggested_follow_ups").array(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_messages_conversation").on(table.conversationId, table.createdAt)]);
+
+// Write actions the agent has proposed but not run; the id is the confirmation token
+export const agentPendingActions = pgTable("agent_pending_actions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  conversationId: uuid("conversation_id").references(() => conversations.id, { onDelete: "cascade" }),
+  tool: varchar("tool", { length: 50 }).notNull(),
+  params: jsonb("params").$type<Record<string, any>>().notNull(),
+  description: text("description").notNull(),
+  status: pendingActionStatusEnum("status").notNull().default("pending"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+}, (table) => [index("IDX_agent_pending_actions_user").on(table.userId, table.status)]);
+
 // Relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
+  manager: one(users, {
+    fields: [users.managerId],
+    references: [users.id],
+    relationName: "reportingLine",
+  }),
+  directReports: many(users, { relationName: "reportingLine" }),
   accounts: many(accounts),
   companyResearch: many(companyResearch),
   transcripts: many(transcripts),
   frameworkNotes: many(frameworkNotes),
   nextBestActions: many(nextBestActions),
   artifacts: many(artifacts),
+  teamMemberships: many(teamMembers),
+  collaborations: many(accountCollaborators, { relationName: "collaborator" }),
 }));
 
 export const accountsRelations = relations(accounts, ({ one, many }) => ({
@@ -162,8 +603,13 @@ export const accountsRelations = relations(accounts, ({ one, many }) => ({
   companyResearch: many(companyResearch),
   transcripts: many(transcripts),
   frameworkNotes: many(frameworkNotes),
+  frameworkRecords: many(accountFrameworkRecords),
   nextBestActions: many(nextBestActions),
   artifacts: many(artifacts),
+  contacts: many(contacts),
+  opportunities: many(opportunities),
+  collaborators: many(accountCollaborators),
+  cadenceEnrollments: many(cadenceEnrollments),
 }));
 
 export const transcriptsRelations = relations(transcripts, ({ one, many }) => ({
@@ -178,7 +624,7 @@ export const transcriptsRelations = relations(transcripts, ({ one, many }) => ({
   frameworkNotes: many(frameworkNotes),
 }));
 
-export const frameworkNotesRelations = relations(frameworkNotes, ({ one }) => ({
+export const frameworkNotesRelations = relations(frameworkNotes, ({ one, many }) => ({
   transcript: one(transcripts, {
     fields: [frameworkNotes.transcriptId],
     references: [transcripts.id],
@@ -191,13 +637,60 @@ export const frameworkNotesRelations = relations(frameworkNotes, ({ one }) => ({
     fields: [frameworkNotes.createdBy],
     references: [users.id],
   }),
+  revisions: many(frameworkNoteRevisions),
+}));
+
+export const accountFrameworkRecordsRelations = relations(accountFrameworkRecords, ({ one, many }) => ({
+  account: one(accounts, {
+    fields: [accountFrameworkRecords.accountId],
+    references: [accounts.id],
+  }),
+  lastTranscript: one(transcripts, {
+    fields: [accountFrameworkRecords.lastTranscriptId],
+    references: [transcripts.id],
+  }),
+  history: many(accountFrameworkHistory),
+}));
+
+export const accountFrameworkHistoryRelations = relations(accountFrameworkHistory, ({ one }) => ({
+  record: one(accountFrameworkRecords, {
+    fields: [accountFrameworkHistory.recordId],
+    references: [accountFrameworkRecords.id],
+  }),
+  sourceNotes: one(frameworkNotes, {
+    fields: [accountFrameworkHistory.sourceNotesId],
+    references: [frameworkNotes.id],
+  }),
+  resolvedBy: one(users, {
+    fields: [accountFrameworkHistory.resolvedBy],
+    references: [users.id],
+  }),
+}));
+
+export const frameworkNoteRevisionsRelations = relations(frameworkNoteRevisions, ({ one }) => ({
+  notes: one(frameworkNotes, {
+    fields: [frameworkNoteRevisions.notesId],
+    references: [frameworkNotes.id],
+  }),
+  changedBy: one(users, {
+    fields: [frameworkNoteRevisions.changedBy],
+    references: [users.id],
+  }),
 }));
 
-export const nextBestActionsRelations = relations(nextBestActions, ({ one }) => ({
+export const nextBestActionsRelations = relations(nextBestActions, ({ one, many }) => ({
   account: one(accounts, {
     fields: [nextBestActions.accountId],
     references: [accounts.id],
   }),
+  parent: one(nextBestActions, {
+    fields: [nextBestActions.parentId],
+    references: [nextBestActions.id],
+    relationName: "subtasks",
+  }),
+  subtasks: many(nextBestActions, { relationName: "subtasks" }),
+  dependencies: many(nbaDependencies, { relationName: "dependent" }),
+  dependents: many(nbaDependencies, { relationName: "prerequisite" }),
   owner: one(users, {
     fields: [nextBestActions.owner],
     references: [users.id],
@@ -208,7 +701,35 @@ export const nextBestActionsRelations = relations(nextBestActions, ({ one }) =>
   }),
 }));
 
-export const artifactsRelations = relations(artifacts, ({ one }) => ({
+export const nbaDependenciesRelations = relations(nbaDependencies, ({ one }) => ({
+  nba: one(nextBestActions, {
+    fields: [nbaDependencies.nbaId],
+    references: [nextBestActions.id],
+    relationName: "dependent",
+  }),
+  dependsOn: one(nextBestActions, {
+    fields: [nbaDependencies.dependsOnId],
+    references: [nextBestActions.id],
+    relationName: "prerequisite",
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+  account: one(accounts, {
+    fields: [notifications.accountId],
+    references: [accounts.id],
+  }),
+  nba: one(nextBestActions, {
+    fields: [notifications.nbaId],
+    references: [nextBestActions.id],
+  }),
+}));
+
+export const artifactsRelations = relations(artifacts, ({ one, many }) => ({
   account: one(accounts, {
     fields: [artifacts.accountId],
     references: [accounts.id],
@@ -217,6 +738,198 @@ export const artifactsRelations = relations(artifacts, ({ one }) => ({
     fields: [artifacts.createdBy],
     references: [users.id],
   }),
+  revisions: many(artifactRevisions),
+}));
+
+export const artifactRevisionsRelations = relations(artifactRevisions, ({ one }) => ({
+  artifact: one(artifacts, {
+    fields: [artifactRevisions.artifactId],
+    references: [artifacts.id],
+  }),
+  changedBy: one(users, {
+    fields: [artifactRevisions.changedBy],
+    references: [users.id],
+  }),
+}));
+
+export const cadenceTemplatesRelations = relations(cadenceTemplates, ({ one, many }) => ({
+  createdBy: one(users, {
+    fields: [cadenceTemplates.createdBy],
+    references: [users.id],
+  }),
+  steps: many(cadenceSteps),
+  enrollments: many(cadenceEnrollments),
+}));
+
+export const cadenceStepsRelations = relations(cadenceSteps, ({ one }) => ({
+  template: one(cadenceTemplates, {
+    fields: [cadenceSteps.templateId],
+    references: [cadenceTemplates.id],
+  }),
+}));
+
+export const cadenceEnrollmentsRelations = relations(cadenceEnrollments, ({ one, many }) => ({
+  template: one(cadenceTemplates, {
+    fields: [cadenceEnrollments.templateId],
+    references: [cadenceTemplates.id],
+  }),
+  account: one(accounts, {
+    fields: [cadenceEnrollments.accountId],
+    references: [accounts.id],
+  }),
+  contact: one(contacts, {
+    fields: [cadenceEnrollments.contactId],
+    references: [contacts.id],
+  }),
+  owner: one(users, {
+    fields: [cadenceEnrollments.owner],
+    references: [users.id],
+  }),
+  touches: many(cadenceTouches),
+}));
+
+export const cadenceTouchesRelations = relations(cadenceTouches, ({ one }) => ({
+  enrollment: one(cadenceEnrollments, {
+    fields: [cadenceTouches.enrollmentId],
+    references: [cadenceEnrollments.id],
+  }),
+  nba: one(nextBestActions, {
+    fields: [cadenceTouches.nbaId],
+    references: [nextBestActions.id],
+  }),
+}));
+
+export const contactsRelations = relations(contacts, ({ one }) => ({
+  account: one(accounts, {
+    fields: [contacts.accountId],
+    references: [accounts.id],
+  }),
+  sourceTranscript: one(transcripts, {
+    fields: [contacts.sourceTranscriptId],
+    references: [transcripts.id],
+  }),
+  createdBy: one(users, {
+    fields: [contacts.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const opportunitiesRelations = relations(opportunities, ({ one, many }) => ({
+  account: one(accounts, {
+    fields: [opportunities.accountId],
+    references: [accounts.id],
+  }),
+  owner: one(users, {
+    fields: [opportunities.owner],
+    references: [users.id],
+  }),
+  stageHistory: many(opportunityStageHistory),
+}));
+
+export const opportunityStageHistoryRelations = relations(opportunityStageHistory, ({ one }) => ({
+  opportunity: one(opportunities, {
+    fields: [opportunityStageHistory.opportunityId],
+    references: [opportunities.id],
+  }),
+  changedBy: one(users, {
+    fields: [opportunityStageHistory.changedBy],
+    references: [users.id],
+  }),
+}));
+
+export const teamsRelations = relations(teams, ({ one, many }) => ({
+  createdBy: one(users, {
+    fields: [teams.createdBy],
+    references: [users.id],
+  }),
+  members: many(teamMembers),
+}));
+
+export const teamMembersRelations = relations(teamMembers, ({ one }) => ({
+  team: one(teams, {
+    fields: [teamMembers.teamId],
+    references: [teams.id],
+  }),
+  user: one(users, {
+    fields: [teamMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const accountCollaboratorsRelations = relations(accountCollaborators, ({ one }) => ({
+  account: one(accounts, {
+    fields: [accountCollaborators.accountId],
+    references: [accounts.id],
+  }),
+  user: one(users, {
+    fields: [accountCollaborators.userId],
+    references: [users.id],
+    relationName: "collaborator",
+  }),
+  addedBy: one(users, {
+    fields: [accountCollaborators.addedBy],
+    references: [users.id],
+  }),
+}));
+
+export const corpusDocumentsRelations = relations(corpusDocuments, ({ one, many }) => ({
+  account: one(accounts, {
+    fields: [corpusDocuments.accountId],
+    references: [accounts.id],
+  }),
+  createdBy: one(users, {
+    fields: [corpusDocuments.createdBy],
+    references: [users.id],
+  }),
+  chunks: many(corpusChunks),
+}));
+
+export const corpusChunksRelations = relations(corpusChunks, ({ one }) => ({
+  document: one(corpusDocuments, {
+    fields: [corpusChunks.documentId],
+    references: [corpusDocuments.id],
+  }),
+}));
+
+export const conversationsRelations = relations(conversations, ({ one, many }) => ({
+  user: one(users, {
+    fields: [conversations.userId],
+    references: [users.id],
+  }),
+  activeAccount: one(accounts, {
+    fields: [conversations.activeAccountId],
+    references: [accounts.id],
+  }),
+  messages: many(messages),
+}));
+
+export const messagesRelations = relations(messages, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [messages.conversationId],
+    references: [conversations.id],
+  }),
+}));
+
+export const agentPendingActionsRelations = relations(agentPendingActions, ({ one }) => ({
+  user: one(users, {
+    fields: [agentPendingActions.userId],
+    references: [users.id],
+  }),
+  conversation: one(conversations, {
+    fields: [agentPendingActions.conversationId],
+    references: [conversations.id],
+  }),
+}));
+
+export const jobsRelations = relations(jobs, ({ one }) => ({
+  account: one(accounts, {
+    fields: [jobs.accountId],
+    references: [accounts.id],
+  }),
+  createdBy: one(users, {
+    fields: [jobs.createdBy],
+    references: [users.id],
+  }),
 }));
 
 // Insert schemas
@@ -237,32 +950,395 @@ export const insertCompanyResearchSchema = createInsertSchema(companyResearch).o
   createdAt: true,
 });
 
-export const insertTranscriptSchema = createInsertSchema(transcripts).omit({
+// One speaker's stretch of a transcript; times are milliseconds from the start
+export const transcriptTurnSchema = z.object({
+  speaker: z.string().min(1),
+  role: z.string().nullable(),
+  startMs: z.number().int().nonnegative().nullable(),
+  endMs: z.number().int().nonnegative().nullable(),
+  text: z.string(),
+});
+
+export const insertTranscriptSchema = createInsertSchema(transcripts, {
+  turns: z.array(transcriptTurnSchema).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFrameworkNotesSchema = createInsertSchema(frameworkNotes, {
+  evidence: z.record(z.array(fieldEvidenceSchema)).nullable(),
+}).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
+});
+
+// Where a record's value came from, plus a contradicting value awaiting the rep
+export const recordFieldStateSchema = z.object({
+  sourceNotesId: z.string().nullable(),
+  sourceTranscriptId: z.string().nullable(),
+  updatedAt: z.string(),
+  evidence: z.array(fieldEvidenceSchema),
+  conflict: z.object({
+    value: z.union([z.string(), z.array(z.string())]),
+    sourceNotesId: z.string().nullable(),
+    sourceTranscriptId: z.string().nullable(),
+    evidence: z.array(fieldEvidenceSchema),
+    reason: z.string().nullable(),
+    detectedAt: z.string(),
+  }).nullable(),
+});
+
+export const recordFieldChangeSchema = z.object({
+  field: z.string(),
+  change: z.enum(["added", "updated", "conflict"]),
+  previous: z.union([z.string(), z.array(z.string())]).nullable(),
+  value: z.union([z.string(), z.array(z.string())]),
 });
 
-export const insertFrameworkNotesSchema = createInsertSchema(frameworkNotes).omit({
+export const insertAccountFrameworkRecordSchema = createInsertSchema(accountFrameworkRecords, {
+  content: z.record(z.union([z.string(), z.array(z.string())]).optional()),
+  fields: z.record(recordFieldStateSchema),
+  lastChanges: z.array(recordFieldChangeSchema),
+  mergedNotesIds: z.array(z.string()),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertAccountFrameworkHistorySchema = createInsertSchema(accountFrameworkHistory, {
+  value: z.union([z.string(), z.array(z.string())]),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Keep the record's value or take the contradicting one from the latest call
+export const resolveRecordConflictSchema = z.object({
+  keep: z.enum(["current", "incoming"]),
+});
+
+export const insertFrameworkNoteRevisionSchema = createInsertSchema(frameworkNoteRevisions, {
+  evidence: z.record(z.array(fieldEvidenceSchema)).nullable(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertNextBestActionSchema = createInsertSchema(nextBestActions).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Fields a PATCH may change. Moving the NBA to another account or owner also needs
+// manage rights, which the route checks.
+export const updateNextBestActionSchema = insertNextBestActionSchema
+  .pick({
+    accountId: true,
+    title: true,
+    description: true,
+    evidence: true,
+    source: true,
+    priority: true,
+    status: true,
+    owner: true,
+    userTimeZone: true,
+    accountTimeZone: true,
+    link: true,
+  })
+  .extend({ dueDate: z.coerce.date() })
+  .partial();
+
+export const insertNbaDependencySchema = createInsertSchema(nbaDependencies).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const addNbaDependencySchema = z.object({
+  dependsOnId: z.string().uuid(),
+});
+
+export const createNbaSubtaskSchema = z.object({
+  title: z.string().trim().min(1).max(500),
+  description: z.string().trim().nullable().optional(),
+  priority: z.enum(priorityEnum.enumValues).optional(),
+  dueDate: z.coerce.date().optional(), // Defaults to the parent's due date
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
 export const insertArtifactSchema = createInsertSchema(artifacts).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertArtifactRevisionSchema = createInsertSchema(artifactRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Human edit from the Historical Notes page; framework content may be "Label: value" text
+export const updateArtifactSchema = z.object({
+  title: z.string().trim().min(1).max(500),
+  content: z.unknown().refine(content => content !== undefined && content !== null, "Content is required"),
+  summary: z.string().nullable().optional(),
+});
+
+// Options for drafting a follow-up from a processed call; lob defaults to the account's
+export const draftFollowUpSchema = z.object({
+  channel: z.enum(FOLLOW_UP_CHANNELS).default("email"),
+  tone: z.enum(FOLLOW_UP_TONES).default("professional"),
+  length: z.enum(FOLLOW_UP_LENGTHS).default("standard"),
+  lob: z.enum(lobEnum.enumValues).optional(),
+});
+
+export const insertContactSchema = createInsertSchema(contacts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCadenceTemplateSchema = createInsertSchema(cadenceTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCadenceStepSchema = createInsertSchema(cadenceSteps).omit({
+  id: true,
+});
+
+export const insertCadenceEnrollmentSchema = createInsertSchema(cadenceEnrollments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCadenceTouchSchema = createInsertSchema(cadenceTouches).omit({
+  id: true,
+  createdAt: true,
+});
+
+// A template with its steps in order, as created and edited through the API
+export const cadenceTemplateRequestSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  description: z.string().trim().nullable().optional(),
+  lob: z.enum(lobEnum.enumValues).nullable().optional(),
+  steps: z.array(z.object({
+    channel: z.enum(cadenceChannelEnum.enumValues),
+    delayDays: z.number().int().min(0).max(90),
+    title: z.string().trim().min(1).max(500),
+    instructions: z.string().trim().nullable().optional(),
+  })).min(1).max(20),
+});
+
+export const enrollContactSchema = z.object({
+  templateId: z.string().uuid(),
+  contactId: z.string().uuid(),
+  startDate: z.coerce.date().optional(), // Defaults to now
+  userTimeZone: z.string().optional(),
+});
+
+export const recordCadenceReplySchema = z.object({
+  note: z.string().trim().max(1000).optional(),
+});
+
+export const insertOpportunitySchema = createInsertSchema(opportunities, {
+  amount: z.coerce.number().nonnegative().transform(String),
+  currency: z.string().length(3).toUpperCase(),
+  expectedCloseDate: z.coerce.date().nullable(),
+  probability: z.number().int().min(0).max(100).nullable(),
+}).omit({
+  id: true,
+  closedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertOpportunityStageHistorySchema = createInsertSchema(opportunityStageHistory).omit({
+  id: true,
+  changedAt: true,
+});
+
+export const insertTeamSchema = createInsertSchema(teams).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTeamMemberSchema = createInsertSchema(teamMembers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAccountCollaboratorSchema = createInsertSchema(accountCollaborators).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCorpusDocumentSchema = createInsertSchema(corpusDocuments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCorpusChunkSchema = createInsertSchema(corpusChunks, {
+  embedding: z.array(z.number()),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Fields accepted when ingesting a document; the text comes from `content`, an uploaded file or `url`
+export const ingestCorpusDocumentSchema = z.object({
+  title: z.string().min(1).max(500).optional(),
+  sourceType: z.enum(corpusSourceTypeEnum.enumValues).default("document"),
+  sourceUrl: z.string().url().optional(),
+  url: z.string().url().optional(),
+  company: z.string().max(255).optional(),
+  accountId: z.string().uuid().optional(),
+  content: z.string().optional(),
+});
+
+export const vectorSearchRequestSchema = z.object({
+  company: z.string().min(1),
+  query: z.string().optional(),
+  k: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+export const TRANSCRIPT_FORMATS = ["vtt", "srt", "json", "txt", "docx"] as const;
+
+// Multipart fields arrive as strings; arrays are sent JSON-encoded
+const jsonField = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => {
+    if (typeof value !== "string") return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }, schema);
+
+// accountIds[i] is the account for the i-th uploaded file
+export const importTranscriptsSchema = z.object({
+  accountIds: jsonField(z.array(z.string().uuid()).min(1)),
+  frameworks: jsonField(z.array(z.enum(frameworkEnum.enumValues)).min(1)),
+  lob: z.enum(lobEnum.enumValues),
+  userTimeZone: z.string().optional(),
+});
+
+// Multipart fields sent alongside an uploaded call recording
+export const uploadAudioSchema = z.object({
+  accountId: z.string().uuid(),
+  frameworks: jsonField(z.array(z.enum(frameworkEnum.enumValues)).min(1)),
+  lob: z.enum(lobEnum.enumValues),
+  userTimeZone: z.string().optional(),
+});
+
+// Renames a speaker across every turn; naming an existing speaker merges the two
+export const relabelSpeakerSchema = z.object({
+  speaker: z.string().min(1),
+  name: z.string().trim().min(1).max(100),
+  role: z.string().trim().max(100).nullable().optional(),
+});
+
+export const jobStepSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  status: z.enum(["pending", "running", "succeeded", "failed"]),
+  attempts: z.number().int().min(0),
+  error: z.string().nullable(),
+});
+
+export const insertJobSchema = createInsertSchema(jobs, {
+  payload: z.record(z.any()),
+  steps: z.array(jobStepSchema),
+  result: z.any(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertConversationSchema = createInsertSchema(conversations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// A card the agent attaches to a reply; stored on messages and returned by the agent API
+export const agentActionResultSchema = z.object({
+  type: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+  link: z.string().optional(),
+  data: z.any().optional(),
+});
+
+export const insertMessageSchema = createInsertSchema(messages, {
+  actionResults: z.array(agentActionResultSchema).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAgentPendingActionSchema = createInsertSchema(agentPendingActions, {
+  params: z.record(z.any()),
+}).omit({
+  id: true,
+  status: true,
+  createdAt: true,
+  resolvedAt: true,
+});
+
+export const renameConversationSchema = z.object({
+  title: z.string().trim().min(1).max(255),
+});
+
+export const retryJobSchema = z.object({
+  step: z.string().optional(), // Re-run a single failed step instead of every failed step
+});
+
+export const updateUserAccessSchema = z.object({
+  role: userRoleSchema.optional(),
+  managerId: z.string().uuid().nullable().optional(),
+});
+
+function isKnownTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const workdayTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM");
+
+// A user's own scheduling preferences; the time zone must be one Intl knows
+export const updateUserPreferencesSchema = z.object({
+  timeZone: z.string().max(64).refine(isKnownTimeZone, "Unknown time zone").optional(),
+  workdayStart: workdayTimeSchema.optional(),
+  workdayEnd: workdayTimeSchema.optional(),
+  workingDays: z.array(z.number().int().min(0).max(6)).min(1).max(7).optional(),
+  maxNbasPerDay: z.number().int().min(1).max(50).optional(),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UserRole = z.infer<typeof userRoleSchema>;
+export type PublicUser = Omit<User, "password">;
+export type UpdateUserPreferencesRequest = z.infer<typeof updateUserPreferencesSchema>;
 
 export type Account = typeof accounts.$inferSelect;
 export type InsertAccount = z.infer<typeof insertAccountSchema>;
@@ -275,12 +1351,123 @@ export type InsertTranscript = z.infer<typeof insertTranscriptSchema>;
 
 export type FrameworkNotes = typeof frameworkNotes.$inferSelect;
 export type InsertFrameworkNotes = z.infer<typeof insertFrameworkNotesSchema>;
+export type AccountFrameworkRecord = typeof accountFrameworkRecords.$inferSelect;
+export type InsertAccountFrameworkRecord = z.infer<typeof insertAccountFrameworkRecordSchema>;
+export type AccountFrameworkHistory = typeof accountFrameworkHistory.$inferSelect;
+export type InsertAccountFrameworkHistory = z.infer<typeof insertAccountFrameworkHistorySchema>;
+export type RecordFieldState = z.infer<typeof recordFieldStateSchema>;
+export type RecordFieldChange = z.infer<typeof recordFieldChangeSchema>;
+export type FrameworkNoteRevision = typeof frameworkNoteRevisions.$inferSelect;
+export type InsertFrameworkNoteRevision = z.infer<typeof insertFrameworkNoteRevisionSchema>;
+export type RevisionSource = (typeof revisionSourceEnum.enumValues)[number];
 
 export type NextBestAction = typeof nextBestActions.$inferSelect;
 export type InsertNextBestAction = z.infer<typeof insertNextBestActionSchema>;
+export type UpdateNextBestActionRequest = z.infer<typeof updateNextBestActionSchema>;
+export type NbaDependency = typeof nbaDependencies.$inferSelect;
+export type InsertNbaDependency = z.infer<typeof insertNbaDependencySchema>;
+export type CreateNbaSubtaskRequest = z.infer<typeof createNbaSubtaskSchema>;
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationKind = (typeof notificationKindEnum.enumValues)[number];
 
 export type Artifact = typeof artifacts.$inferSelect;
 export type InsertArtifact = z.infer<typeof insertArtifactSchema>;
+export type ArtifactRevision = typeof artifactRevisions.$inferSelect;
+export type InsertArtifactRevision = z.infer<typeof insertArtifactRevisionSchema>;
+export type UpdateArtifactRequest = z.infer<typeof updateArtifactSchema>;
+export type DraftFollowUpRequest = z.infer<typeof draftFollowUpSchema>;
+
+export type Contact = typeof contacts.$inferSelect;
+export type InsertContact = z.infer<typeof insertContactSchema>;
+export type ContactRole = (typeof contactRoleEnum.enumValues)[number];
+
+export type CadenceTemplate = typeof cadenceTemplates.$inferSelect;
+export type InsertCadenceTemplate = z.infer<typeof insertCadenceTemplateSchema>;
+export type CadenceStep = typeof cadenceSteps.$inferSelect;
+export type InsertCadenceStep = z.infer<typeof insertCadenceStepSchema>;
+export type CadenceEnrollment = typeof cadenceEnrollments.$inferSelect;
+export type InsertCadenceEnrollment = z.infer<typeof insertCadenceEnrollmentSchema>;
+export type CadenceTouch = typeof cadenceTouches.$inferSelect;
+export type InsertCadenceTouch = z.infer<typeof insertCadenceTouchSchema>;
+export type CadenceChannel = (typeof cadenceChannelEnum.enumValues)[number];
+export type CadenceTemplateRequest = z.infer<typeof cadenceTemplateRequestSchema>;
+export type EnrollContactRequest = z.infer<typeof enrollContactSchema>;
+
+export type Opportunity = typeof opportunities.$inferSelect;
+export type InsertOpportunity = z.infer<typeof insertOpportunitySchema>;
+export type OpportunityStage = (typeof opportunityStageEnum.enumValues)[number];
+
+export type OpportunityStageHistory = typeof opportunityStageHistory.$inferSelect;
+export type InsertOpportunityStageHistory = z.infer<typeof insertOpportunityStageHistorySchema>;
+
+export type Team = typeof teams.$inferSelect;
+export type InsertTeam = z.infer<typeof insertTeamSchema>;
+
+export type TeamMember = typeof teamMembers.$inferSelect;
+export type InsertTeamMember = z.infer<typeof insertTeamMemberSchema>;
+export type TeamMemberRole = (typeof teamMemberRoleEnum.enumValues)[number];
+
+export type AccountCollaborator = typeof accountCollaborators.$inferSelect;
+export type InsertAccountCollaborator = z.infer<typeof insertAccountCollaboratorSchema>;
+export type CollaboratorRole = (typeof collaboratorRoleEnum.enumValues)[number];
+
+export type CorpusDocument = typeof corpusDocuments.$inferSelect;
+export type InsertCorpusDocument = z.infer<typeof insertCorpusDocumentSchema>;
+export type CorpusSourceType = (typeof corpusSourceTypeEnum.enumValues)[number];
+
+export type CorpusChunk = typeof corpusChunks.$inferSelect;
+export type InsertCorpusChunk = z.infer<typeof insertCorpusChunkSchema>;
+export type IngestCorpusDocument = z.infer<typeof ingestCorpusDocumentSchema>;
+
+export type Conversation = typeof conversations.$inferSelect;
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+
+export type Message = typeof messages.$inferSelect;
+export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type AgentPendingAction = typeof agentPendingActions.$inferSelect;
+export type InsertAgentPendingAction = z.infer<typeof insertAgentPendingActionSchema>;
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type JobStatus = (typeof jobStatusEnum.enumValues)[number];
+export type JobStep = z.infer<typeof jobStepSchema>;
+export type TranscriptTurn = z.infer<typeof transcriptTurnSchema>;
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+export type RelabelSpeakerRequest = z.infer<typeof relabelSpeakerSchema>;
+
+// Search schemas and types
+export const SEARCH_SOURCE_TYPES = ["transcript", "framework_note", "artifact", "research"] as const;
+export const searchSourceTypeSchema = z.enum(SEARCH_SOURCE_TYPES);
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(2).max(200),
+  types: z.preprocess(
+    value => typeof value === "string" ? value.split(",").filter(Boolean) : value,
+    z.array(searchSourceTypeSchema).optional()
+  ),
+  accountId: z.string().uuid().optional(),
+  mode: z.enum(["lexical", "hybrid"]).default("hybrid"),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export const searchResultSchema = z.object({
+  type: searchSourceTypeSchema,
+  id: z.string(),
+  accountId: z.string(),
+  accountName: z.string().nullable(),
+  title: z.string(),
+  snippet: z.string(),
+  highlights: z.array(z.tuple([z.number(), z.number()])), // [start, end) offsets into snippet
+  score: z.number(),
+  link: z.string(),
+  createdAt: z.string().nullable(),
+});
+
+export type SearchSourceType = z.infer<typeof searchSourceTypeSchema>;
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+export type SearchResult = z.infer<typeof searchResultSchema>;
 
 // Agent-related schemas and types
 export const agentIntentSchema = z.enum([
@@ -296,10 +1483,13 @@ export const agentIntentSchema = z.enum([
   "clarification_needed"
 ]);
 
+// Tools that act on an account take either its accountId or `account`, a name or
+// website the agent resolves against the user's accounts
 export const companyResearchParamsSchema = z.object({
   companyName: z.string().min(1),
   lob: z.enum(["LTS", "LSS"]).optional(),
   accountId: z.string().uuid().optional(),
+  account: z.string().min(1).optional(),
 });
 
 export const transcriptAnalysisParamsSchema = z.object({
@@ -310,12 +1500,14 @@ export const transcriptAnalysisParamsSchema = z.object({
 });
 
 export const meetingPrepParamsSchema = z.object({
-  accountId: z.string().uuid(),
+  accountId: z.string().uuid().optional(),
+  account: z.string().min(1).optional(),
   frameworks: z.array(z.enum(["Qual-LTS", "Qual-LSS", "VEF", "MEDDPICC", "BANT", "LicenseDemandPlan"])),
 });
 
 export const listNbasParamsSchema = z.object({
   accountId: z.string().uuid().optional(),
+  account: z.string().min(1).optional(),
   status: z.enum(["Open", "In Progress", "Completed", "Overdue"]).optional(),
 });
 
@@ -325,7 +1517,8 @@ export const completeNbaParamsSchema = z.object({
 
 export const listArtifactsParamsSchema = z.object({
   accountId: z.string().uuid().optional(),
-  type: z.enum(["CompanyResearch", "Qual-LTS", "Qual-LSS", "VEF", "MEDDPICC", "BANT", "LicenseDemandPlan"]).optional(),
+  account: z.string().min(1).optional(),
+  type: z.enum(["CompanyResearch", "Qual-LTS", "Qual-LSS", "VEF", "MEDDPICC", "BANT", "LicenseDemandPlan", "FollowUpEmail"]).optional(),
 });
 
 export const generalQuestionParamsSchema = z.object({
@@ -348,32 +1541,24 @@ export const agentMessageSchema = z.object({
   role: z.enum(["user", "assistant"]),
   content: z.string(),
   timestamp: z.string().datetime(),
-  actionResults: z.array(z.object({
-    type: z.string(),
-    title: z.string(),
-    description: z.string().optional(),
-    link: z.string().optional(),
-    data: z.any().optional(),
-  })).optional(),
+  actionResults: z.array(agentActionResultSchema).optional(),
 });
 
+// History is assembled on the server from the conversation; omit the id to start a new one
 export const agentChatRequestSchema = z.object({
   message: z.string().min(1),
-  conversationHistory: z.array(agentMessageSchema).optional(),
+  conversationId: z.string().uuid().optional(),
+  accountId: z.string().uuid().optional(), // An account the user picked from a disambiguation question
 });
 
 export const agentChatResponseSchema = z.object({
   message: z.string(),
   intent: agentIntentSchema,
-  actionResults: z.array(z.object({
-    type: z.string(),
-    title: z.string(),
-    description: z.string().optional(),
-    link: z.string().optional(),
-    data: z.any().optional(),
-  })).optional(),
+  actionResults: z.array(agentActionResultSchema).optional(),
   needsConfirmation: z.boolean().optional(),
   suggestedFollowUps: z.array(z.string()).optional(),
+  conversationId: z.string().optional(),
+  activeAccount: z.object({ id: z.string(), name: z.string() }).nullable().optional(),
 });
 
 export type AgentIntent = z.infer<typeof agentIntentSchema>;
@@ -386,6 +1571,15 @@ export type ListArtifactsParams = z.infer<typeof listArtifactsParamsSchema>;
 export type GeneralQuestionParams = z.infer<typeof generalQuestionParamsSchema>;
 export type SearchAccountsParams = z.infer<typeof searchAccountsParamsSchema>;
 export type CreateAccountParams = z.infer<typeof createAccountParamsSchema>;
+export type AgentActionResult = z.infer<typeof agentActionResultSchema>;
 export type AgentMessage = z.infer<typeof agentMessageSchema>;
 export type AgentChatRequest = z.infer<typeof agentChatRequestSchema>;
 export type AgentChatResponse = z.infer<typeof agentChatResponseSchema>;
+
+// One line of the /api/agent/chat/stream NDJSON response
+export type AgentStreamEvent =
+  | { type: "tool"; tool: AgentIntent; step: number }
+  | { type: "progress"; message: string }
+  | { type: "token"; text: string }
+  | { type: "done"; response: AgentChatResponse }
+  | { type: "error"; response: AgentChatResponse };